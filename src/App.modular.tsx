@@ -9,25 +9,53 @@ import EditorPane, { EditorPaneHandle } from './components/EditorPane';
 import ViewerPane, { ViewerPaneHandle } from './components/ViewerPane';
 import BehaviorMatrix from './components/BehaviorMatrix';
 import ModularCommandBar from './components/ModularCommandBar';
+import TransitionBar from './components/TransitionBar';
 
 import CreateFormModal from './components/modals/CreateFormModal';
 import SelectFormModal from './components/modals/SelectFormModal';
-
-import { BehaviorMatrixValue } from './core/types';
+import RenameBanner from './components/RenameBanner';
+import RenameMigrationModal from './components/modals/RenameMigrationModal';
+import SchemaLintBanner from './components/SchemaLintBanner';
+import VersionHistoryModal from './components/modals/VersionHistoryModal';
+import ResumeDraftModal from './components/modals/ResumeDraftModal';
+import DefinitionConflictModal from './components/modals/DefinitionConflictModal';
+
+import { BehaviorBundle, BehaviorMatrixValue, StateOption } from './core/types';
 import { bundlesFromMatrix, matrixFromBundles } from './core/behaviors';
-import { enrichFormSchemaForState } from './core/enrich';
-
-import { API_BASE } from './core/api';
+import { conditionSignature, enrichFormSchemaForState } from './core/enrich';
+import { DEFAULT_STATES, captureState, reconcileMatrixStates, resolveStateKey } from './core/states';
+import { DEFAULT_ROLES, cellForRole } from './core/roles';
+import { KeyRename, detectRenames, mergeRenames, renameDataKeys, renameMatrixKeys } from './core/rename';
+import { applyStateDefaults, lockedChanges, lockedKeys } from './core/values';
+import { extractFields } from './core/schema';
+import { describeLintErrors, lintErrors, lintSchema } from './core/lint';
+import { FormVersion, VersionBase, VersionConflictError, versionBase } from './core/versions';
+import type { DefinitionContent } from './core/merge';
+import { FormStatus, STATUS_LABELS, canCaptureEntries, statusOf } from './core/lifecycle';
+import { cleanupMatrix, describeReport, reconcileMatrix, reportIssueCount } from './core/reconcile';
+import { diffEntryData, recordEntryRevision } from './core/revisions';
+import { AutosaveStatus, DraftAutosaver, DraftLookup, describeAutosave, findDrafts } from './core/drafts';
+
+import { API_BASE, WorkflowTransition } from './core/api';
+import { TransitionOption, legalTransitions, loadTransitions } from './core/workflow';
+import { evaluateCondition } from './core/expression';
+import { http } from './core/http';
+import { AUTH_REQUIRED } from './env';
 import { CompositeDataSource } from './core/sources/compositeDataSource';
+import { OfflineDataSource } from './core/sources/offlineDataSource';
+import { isLocalId } from './core/sources/localDataSource';
+import { SyncState } from './core/syncQueue';
+import { AuthState, actorOf, authStore, logout } from './core/auth';
+import LoginScreen from './components/LoginScreen';
+import TableAdminModal from './components/modals/TableAdminModal';
+import JsonSchemaImportModal from './components/modals/JsonSchemaImportModal';
+import { RefOptions, loadRefOptions, refSelectsOf } from './core/jsonSchemaImport';
 
 type Tab = 'editor' | 'preview' | 'matrix';
 
-const STATES = [
-  { id: 'entry', label: 'Entry' },
-  { id: 'review.section1', label: 'Review: Section 1' },
-  { id: 'review.section2', label: 'Review: Section 2' },
-  { id: 'approve', label: 'Approve' }
-];
+const QUEUED_PUBLISH =
+  'The new version was queued: it is published once the connection is back and earlier queued changes have synced. ' +
+  'If someone publishes over the loaded version first, it shows up as failed in the sync status.';
 
 /** Small helper to produce a display label if API rows lack an explicit id. */
 function labelForForm(row: Record<string, any>) {
@@ -54,17 +82,49 @@ function useAbortable() {
   return wrap;
 }
 
+// one per page, outside render: StrictMode runs memo factories twice, and a second instance
+// would replay the same offline queue alongside the first
+let sharedDataSource: OfflineDataSource | null = null;
+function dataSource() {
+  if (!sharedDataSource) sharedDataSource = new OfflineDataSource(new CompositeDataSource(API_BASE));
+  return sharedDataSource;
+}
+
 export default function AppModular() {
-  const ds = React.useMemo(() => new CompositeDataSource(API_BASE), []);
+  const ds = dataSource();
+  const [syncState, setSyncState] = React.useState<SyncState>(ds.queue.snapshot);
+  React.useEffect(() => ds.queue.subscribe(setSyncState), [ds]);
+  const [auth, setAuth] = React.useState<AuthState>(authStore.snapshot);
+  React.useEffect(() => authStore.subscribe(setAuth), []);
+  // recorded as created_by / updated_by
+  const actor = actorOf(auth.session);
+  // writes queued while signed out (401) go out once signed in again
+  React.useEffect(() => {
+    if (auth.session) ds.queue.retryUnauthorized().then(() => ds.sync()).catch(e => console.warn('Sync failed:', e));
+  }, [auth.session, ds]);
   const editorRef = React.useRef<EditorPaneHandle>(null);
   const viewerRef = React.useRef<ViewerPaneHandle>(null);
 
   const [activeTab, setActiveTab] = React.useState<Tab>('editor');
-  const [formState, setFormState] = React.useState<string>('entry');
+  const [formState, setFormState] = React.useState<string>(DEFAULT_STATES[0].id);
   const [schema, setSchema] = React.useState<any>({ type: 'default', components: [] });
   const [data, setData] = React.useState<any>({});
   const [formId, setFormId] = React.useState<string>('demo-form'); // keep existing default
 
+  // workflow states come from the backend once a form is loaded; defaults until then
+  const [states, setStates] = React.useState<StateOption[]>(DEFAULT_STATES);
+  const statesRef = React.useRef<StateOption[]>(states);
+  React.useEffect(() => { statesRef.current = states; }, [states]);
+  const stateIds = React.useMemo(() => states.map(s => s.id), [states]);
+
+  // role axis: matrix overrides per role, previewed via "Preview as"
+  const [roles, setRoles] = React.useState<string[]>(DEFAULT_ROLES);
+  const [previewRole, setPreviewRole] = React.useState<string>('');
+  const stateLabels = React.useMemo(
+    () => Object.fromEntries(states.map(s => [s.id, s.label])) as Record<string, string>,
+    [states]
+  );
+
   const [matrix, setMatrix] = React.useState<BehaviorMatrixValue>({});
   const [matrixEpoch, setMatrixEpoch] = React.useState<number>(0); // bump to remount Matrix only when needed
 
@@ -73,28 +133,167 @@ export default function AppModular() {
 
   const [showCreate, setShowCreate] = React.useState(false);
   const [showSelect, setShowSelect] = React.useState(false);
+  // form_definition.name whose version history is open
+  const [historyName, setHistoryName] = React.useState<string | null>(null);
+  const [showTables, setShowTables] = React.useState(false);
+  const [showJsonSchemaImport, setShowJsonSchemaImport] = React.useState(false);
+
+  // ---------- key renames in the editor: move matrix rows, offer an entry migration ----------
+  const schemaRef = React.useRef<any>(schema);
+  React.useEffect(() => { schemaRef.current = schema; }, [schema]);
+  const [pendingRenames, setPendingRenames] = React.useState<KeyRename[]>([]);
+  const [showRenameMigration, setShowRenameMigration] = React.useState(false);
+  React.useEffect(() => { setPendingRenames([]); }, [formId]);
+
+  const onEditorSchemaChange = (next: any) => {
+    const renames = detectRenames(schemaRef.current, next);
+    schemaRef.current = next;
+    setSchema(next);
+    if (!renames.length) return;
+    setMatrix(m => renameMatrixKeys(m, renames));
+    setData((d: any) => renameDataKeys(d, renames));
+    setPendingRenames(p => mergeRenames(p, renames));
+  };
 
   // cache minimal meta so PUT replace can include required top-level fields
-  const [serverMeta, setServerMeta] = React.useState<{ name?: string; version?: number; is_active?: boolean }>({});
+  const [serverMeta, setServerMeta] = React.useState<{ name?: string; version?: number; is_active?: boolean; status?: FormStatus }>({});
+  // the version the editor was loaded from: publishing checks nobody published over it meanwhile
+  const baseVersionRef = React.useRef<VersionBase | null>(null);
+  const [defConflict, setDefConflict] = React.useState<{ error: VersionConflictError; mine: DefinitionContent } | null>(null);
+  const [conflictBusy, setConflictBusy] = React.useState(false);
+  const rememberBase = (id: string, def: any, schemaObj?: any, matrixObj?: BehaviorMatrixValue) => {
+    // versions are looked up by form_definition.name: without one (the /forms façade) there
+    // is no history to check against
+    baseVersionRef.current = def?.name
+      ? { id: def.id ?? id, name: def.name, version: Number(def.version) || 0, schema: schemaObj ?? {}, matrix: matrixObj ?? {} }
+      : null;
+  };
 
   // one-shot guard for the "second call" hydration, per formId
   const matrixOneShotRef = React.useRef<{ formId: string; tried: boolean }>({ formId: '', tried: false });
 
   const bundles = React.useMemo(
-    () => bundlesFromMatrix(matrix, STATES.map(s => s.id)),
-    [matrix]
+    () => bundlesFromMatrix(matrix, stateIds),
+    [matrix, stateIds]
+  );
+
+  const currentBundle = React.useMemo<BehaviorBundle>(
+    () => bundles.find(x => x.state === formState) || { state: formState, action: 'view', rows: [] },
+    [bundles, formState]
+  );
+
+  // conditional cells depend on live data; only rebuild the schema when a condition flips:
+  // the data used for them is re-sampled only when some outcome (or the rules) change
+  const conditionKey = conditionSignature(currentBundle, data, previewRole);
+  const conditionInputs = React.useRef({ bundle: currentBundle, role: previewRole, key: conditionKey, data });
+  const sampled = conditionInputs.current;
+  if (sampled.bundle !== currentBundle || sampled.role !== previewRole || sampled.key !== conditionKey) {
+    conditionInputs.current = { bundle: currentBundle, role: previewRole, key: conditionKey, data };
+  }
+  const conditionData = conditionInputs.current.data;
+  const enriched = React.useMemo(
+    () => enrichFormSchemaForState(schema, currentBundle, conditionData, previewRole),
+    [schema, currentBundle, conditionData, previewRole]
+  );
+
+  const lintIssues = React.useMemo(() => lintSchema(schema, matrix, stateIds), [schema, matrix, stateIds]);
+
+  // last loaded/saved entry data; locked fields may not change from it
+  const [savedData, setSavedData] = React.useState<any>(null);
+  // entry saved from this session: further saves update it in place
+  const [entryId, setEntryId] = React.useState<string>('');
+
+  // options of reference selects (imported JSON Schema refTable fields), as viewer input data
+  const [refOptions, setRefOptions] = React.useState<RefOptions>({});
+  // reloaded when the reference selects change, not on every other schema edit
+  const refSelectsKey = React.useMemo(() => JSON.stringify(refSelectsOf(schema?.components)), [schema]);
+  React.useEffect(() => {
+    let alive = true;
+    loadRefOptions(schemaRef.current, { apiBase: API_BASE, data: savedData || {} })
+      .then(({ values, warnings }) => {
+        if (!alive) return;
+        setRefOptions(values);
+        if (warnings.length) console.warn(`Reference selects:\n${warnings.join('\n')}`);
+      })
+      .catch(e => console.warn('Loading reference select options failed', e));
+    return () => { alive = false; };
+  }, [refSelectsKey, savedData]);
+  React.useEffect(() => { setEntryId(''); }, [formId]);
+
+  // ---------- workflow: a saved entry only moves along the transitions leaving its state ----------
+  const stateLocked = !!entryId;
+  const stateRowId = states.find(s => s.id === formState)?.rowId ?? '';
+  const [transitionRows, setTransitionRows] = React.useState<WorkflowTransition[]>([]);
+  const [transitionBusy, setTransitionBusy] = React.useState(false);
+  const [transitionError, setTransitionError] = React.useState<string | null>(null);
+  React.useEffect(() => {
+    setTransitionError(null);
+    // default states (no workflow_state rows) have no transitions
+    if (!stateLocked || !stateRowId) { setTransitionRows([]); return; }
+    let alive = true;
+    loadTransitions(stateRowId)
+      .then(rows => { if (alive) setTransitionRows(rows); })
+      .catch(e => {
+        console.error(e);
+        if (alive) { setTransitionRows([]); setTransitionError('Could not load transitions.'); }
+      });
+    return () => { alive = false; };
+  }, [stateLocked, stateRowId]);
+  const transitions = React.useMemo(
+    () => legalTransitions(transitionRows, data, states),
+    [transitionRows, data, states]
+  );
+
+  // ---------- autosave: IndexedDB + form_entry_draft, one draft per form ----------
+  const [draftStatus, setDraftStatus] = React.useState<AutosaveStatus>({});
+  const [draftPrompt, setDraftPrompt] = React.useState<(DraftLookup & { mode: 'resume' | 'conflict' }) | null>(null);
+  const autosaver = React.useMemo(() => new DraftAutosaver({ onStatus: setDraftStatus, by: () => actorOf(authStore.session) }), []);
+  const loadedDataRef = React.useRef<any>(null);
+  loadedDataRef.current = savedData ?? data;
+
+  React.useEffect(() => {
+    const scope = formId ? { formId } : null;
+    autosaver.setScope(scope, { server: true });
+    setDraftPrompt(null);
+    if (!scope) return;
+    let alive = true;
+    // the Form ID is typed: only look once it settles
+    const t = setTimeout(() => {
+      findDrafts(scope, { server: true, loaded: loadedDataRef.current })
+        .then(found => { if (alive && found.drafts.length) setDraftPrompt({ ...found, mode: 'resume' }); })
+        .catch(e => console.warn('Looking up drafts failed:', e));
+    }, 500);
+    return () => { alive = false; clearTimeout(t); };
+  }, [formId, autosaver]);
+
+  React.useEffect(() => {
+    if (draftStatus.conflict) setDraftPrompt({ drafts: [draftStatus.conflict], mode: 'conflict' });
+  }, [draftStatus.conflict]);
+
+  React.useEffect(() => {
+    const flush = () => autosaver.flush();
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, [autosaver]);
+
+  const promptDrafts = React.useMemo(
+    () => (draftPrompt?.drafts || []).filter(d => draftPrompt?.mode === 'conflict' || diffEntryData(data, d.data).length > 0),
+    [draftPrompt, data]
   );
 
-  const enriched = React.useMemo(() => {
-    const b = bundles.find(x => x.state === formState) || { state: formState, action: 'view', rows: [] };
-    return enrichFormSchemaForState(schema, b);
-  }, [schema, formState, bundles]);
+  // pre-fill the state's defaults into empty fields on entering a state or loading data
+  React.useEffect(() => {
+    setData((d: any) => applyStateDefaults(d, currentBundle, previewRole, { state: formState, role: previewRole }));
+  }, [formState, currentBundle, previewRole, savedData]);
 
   const readOnly = React.useMemo(() => {
     const b = bundles.find(x => x.state === formState);
-    const anyEditable = Object.values(matrix).some(row => row?.[formState]?.mode === 'editable');
-    return (b?.action === 'view') || (!anyEditable && formState !== 'entry');
-  }, [bundles, matrix, formState]);
+    const anyEditable = Object.values(matrix).some(row => {
+      const cell = row?.[formState];
+      return !!cell && cellForRole(cell, previewRole).mode === 'editable';
+    });
+    return (b?.action === 'view') || (!anyEditable && formState !== captureState(states));
+  }, [bundles, matrix, formState, previewRole, states]);
 
   const [busy, setBusy] = React.useState<{fetch?: boolean; publishSchema?: boolean; publishBehaviors?: boolean; saveEntry?: boolean}>({});
   const abortable = useAbortable();
@@ -129,6 +328,14 @@ export default function AppModular() {
     input.value = '';
   };
 
+  const importJsonSchema = async (next: any) => {
+    try {
+      await editorRef.current?.importSchema(next);
+      setSchema(next);
+      setShowJsonSchemaImport(false);
+    } catch (err) { console.error('Error importing generated schema:', err); alert('The generated schema could not be loaded into the editor.'); }
+  };
+
   const saveDataFile = () => {
     const blob = new Blob([JSON.stringify({ ...data, formState }, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -148,6 +355,8 @@ export default function AppModular() {
         const next = JSON.parse(ev.target.result);
         setFormState(next.formState || formState);
         setData(next);
+        setSavedData(next);
+        setEntryId('');
       } catch (err) { console.error('Error loading data:', err); alert('Invalid data JSON.'); }
     };
 
@@ -189,10 +398,7 @@ export default function AppModular() {
     } catch (e) {
       console.warn('getFormDefinition via data source failed, using direct GET:', e);
     }
-    const res = await fetch(`${API_BASE}/form_definition/${encodeURIComponent(id)}`, { method: 'GET' });
-    if (!res.ok) throw new Error(`GET form_definition failed: ${res.status} ${res.statusText}`);
-    const ct = res.headers.get('content-type') || '';
-    return ct.includes('application/json') ? await res.json() : {};
+    return (await http.get<any>(`/form_definition/${encodeURIComponent(id)}`)) || {};
   }
 
   function safeParse(s: string) {
@@ -217,76 +423,56 @@ export default function AppModular() {
     return { schemaObj, matrixObj };
   }
 
-  function haveCompleteMeta(meta: { name?: string; version?: number; is_active?: boolean }) {
-    return meta.name != null && meta.version != null && meta.is_active != null;
-  }
-
-  async function ensureMetaOrNull(id: string) {
-    if (haveCompleteMeta(serverMeta)) return serverMeta;
+  /**
+   * Publish the editor schema + matrix as the next version of the open form (a new
+   * form_definition row) and switch to it. Earlier versions are never overwritten; throws
+   * VersionConflictError when someone published over `base` meanwhile. Null when the publish
+   * was queued offline (see QUEUED_PUBLISH).
+   */
+  async function publishNewVersion(currentSchema: any, currentMatrix: BehaviorMatrixValue, base = baseVersionRef.current) {
+    let name = serverMeta.name;
     try {
-      const def = await getFormDefinitionFlexible(id);
-      const next = {
-        name: def?.name,
-        version: def?.version,
-        is_active: def?.is_active
-      } as { name?: string; version?: number; is_active?: boolean };
-      if (haveCompleteMeta(next)) {
-        setServerMeta(next);
-        return next;
-      }
+      const def = await getFormDefinitionFlexible(formId);
+      name = def?.name ?? name;
     } catch (e) {
-      console.warn('ensureMetaOrNull: failed to fetch meta, will PATCH instead of PUT', e);
+      console.warn('Reading the current form definition failed; publishing under the Form ID as name:', e);
     }
-    return null;
-  }
-
-  function buildReplacePayload(
-    currentSchema: any,
-    currentMatrix: BehaviorMatrixValue,
-    meta: { name: string; version: number; is_active: boolean }
-  ) {
-    return {
-      name: meta.name,
-      version: meta.version,
-      is_active: meta.is_active,
-      form_schema: JSON.stringify(currentSchema),
-      field_state_setting: JSON.stringify(currentMatrix)
-    };
+    const row = await ds.publishVersion({ name: name || formId, schema: currentSchema, matrix: currentMatrix, base, by: actor });
+    if (ds.wasQueued(row)) return null;
+    setServerMeta({ name: row.name, version: row.version, is_active: row.is_active, status: statusOf(row) });
+    rememberBase(row.id || formId, row, currentSchema, currentMatrix);
+    if (row.id) {
+      setAllowAutoLoadMatrix(false);
+      setFormId(row.id);
+    }
+    return row;
   }
 
-  async function updateFormDefinitionFlexible(id: string, currentSchema: any, currentMatrix: BehaviorMatrixValue): Promise<any> {
+  // ---------- Workflow states ----------
+  /** Load states for a form; renames/removals are carried into the matrix, failures keep what we have. */
+  async function loadStates(id: string) {
     try {
-      if (typeof (ds as any).saveFormDefinition === 'function') {
-        await (ds as any).saveFormDefinition(id, currentSchema);
-      }
+      const next = await ds.listStates(id);
+      if (!next.length) return;
+      const prev = statesRef.current;
+      setMatrix(m => reconcileMatrixStates(m, prev, next));
+      setStates(next);
+      setFormState(cur => resolveStateKey(next, cur) ?? next[0].id);
     } catch (e) {
-      console.warn('saveFormDefinition via data source failed, continuing with HTTP:', e);
+      console.warn('listStates failed, keeping current states:', e);
     }
+  }
 
-    const meta = await ensureMetaOrNull(id);
-    if (meta && haveCompleteMeta(meta)) {
-      const payload = buildReplacePayload(currentSchema, currentMatrix, meta as any);
-      const res = await fetch(`${API_BASE}/form_definition/${encodeURIComponent(id)}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      });
-      if (!res.ok) throw new Error(`PUT form_definition failed: ${res.status} ${res.statusText}`);
-      const ct = res.headers.get('content-type') || '';
-      return ct.includes('application/json') ? await res.json() : {};
+  /** Roles for the matrix role axis; failures keep the defaults. */
+  async function loadRoles() {
+    try {
+      const next = await ds.listRoles();
+      if (!next.length) return;
+      setRoles(next);
+      setPreviewRole(cur => (cur && !next.includes(cur) ? '' : cur));
+    } catch (e) {
+      console.warn('listRoles failed, keeping current roles:', e);
     }
-
-    const patchRes = await fetch(`${API_BASE}/form_definition/${encodeURIComponent(id)}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        form_schema: JSON.stringify(currentSchema),
-        field_state_setting: JSON.stringify(currentMatrix)
-      })
-    });
-    if (!patchRes.ok) throw new Error(`PATCH form_definition failed: ${patchRes.status} ${patchRes.statusText}`);
-    const ct = patchRes.headers.get('content-type') || '';
-    return ct.includes('application/json') ? await patchRes.json() : {};
   }
 
   // ---------- one-shot fallback ----------
@@ -317,11 +503,13 @@ export default function AppModular() {
       await abortable(async (_signal) => {
         const def: any = await getFormDefinitionFlexible(formId);
         const { schemaObj, matrixObj } = extractSchemaAndMatrix(def);
+        rememberBase(formId, def, schemaObj, matrixObj);
 
         setServerMeta({
           name: def?.name,
           version: def?.version,
-          is_active: def?.is_active
+          is_active: def?.is_active,
+          status: statusOf(def)
         });
 
         if (schemaObj) {
@@ -338,6 +526,8 @@ export default function AppModular() {
           oneShotFetchMatrix(formId);
         }
         setMatrixEpoch(e => e + 1);
+        await loadStates(formId);
+        await loadRoles();
         setActiveTab('editor');
       });
     } catch (e: any) {
@@ -350,12 +540,16 @@ export default function AppModular() {
 
   const publishSchemaToAPI = async () => {
     if (!formId) { alert('Please enter a Form ID'); return; }
+    const s = editorRef.current?.getSchema() ?? schema;
+    const issues = lintSchema(s, matrix, stateIds);
+    if (lintErrors(issues).length) { alert(describeLintErrors(issues)); return; }
     setBusy(b => ({ ...b, publishSchema: true }));
     try {
-      const s = editorRef.current?.getSchema() ?? schema;
-      await updateFormDefinitionFlexible(formId, s, matrix);
-      alert('Schema published.');
+      const row = await publishNewVersion(s, matrix);
+      if (!row) { alert(QUEUED_PUBLISH); return; }
+      alert(`Schema published as draft version ${row.version}. Submit it for review and activate it from History….`);
     } catch (e: any) {
+      if (e instanceof VersionConflictError) { setDefConflict({ error: e, mine: { schema: s, matrix } }); return; }
       console.error('Publish schema failed', e);
       alert(`Publish schema failed: ${e?.message || e}`);
     } finally {
@@ -365,12 +559,30 @@ export default function AppModular() {
 
   const publishBehaviorsToAPI = async () => {
     if (!formId) { alert('Please enter a Form ID'); return; }
+    // the new version carries the editor schema too
+    const s = editorRef.current?.getSchema() ?? schema;
     setBusy(b => ({ ...b, publishBehaviors: true }));
+    let toPublish = matrix;
     try {
-      const s = editorRef.current?.getSchema() ?? schema;
-      await updateFormDefinitionFlexible(formId, s, matrix);
-      alert('Matrix JSON saved into form_definition.field_state_setting.');
+      const fields = extractFields(s?.components || []);
+      const report = reconcileMatrix(matrix, fields, stateIds);
+      if (fields.length && reportIssueCount(report)) {
+        const ok = window.confirm(
+          `The behavior matrix does not match the form:\n\n- ${describeReport(report).join('\n- ')}\n\n` +
+          'OK cleans it up before publishing; Cancel aborts.'
+        );
+        if (!ok) return;
+        toPublish = cleanupMatrix(matrix, fields, stateIds);
+        setMatrix(toPublish);
+      }
+      // same gate as publishing the schema, over the matrix as it will be stored
+      const issues = lintSchema(s, toPublish, stateIds);
+      if (lintErrors(issues).length) { alert(describeLintErrors(issues)); return; }
+      const row = await publishNewVersion(s, toPublish);
+      if (!row) { alert(QUEUED_PUBLISH); return; }
+      alert(`Behaviors published as draft version ${row.version} (form_definition.field_state_setting).`);
     } catch (e: any) {
+      if (e instanceof VersionConflictError) { setDefConflict({ error: e, mine: { schema: s, matrix: toPublish } }); return; }
       console.error('Publish behaviors failed', e);
       alert(`Publish behaviors failed: ${e?.message || e}`);
     } finally {
@@ -387,10 +599,39 @@ export default function AppModular() {
       alert('Please fix validation errors');
       return;
     }
+    const locked = lockedChanges(savedData, res.data, lockedKeys(currentBundle, previewRole));
+    if (locked.length) {
+      alert(`These fields are locked in state "${formState}" and cannot be changed: ${locked.join(', ')}`);
+      return;
+    }
+    // entries are pinned to the form definition row they are saved with: only the active one
+    if (serverMeta.status && !canCaptureEntries(serverMeta.status)) {
+      alert(`This form version is ${STATUS_LABELS[serverMeta.status].toLowerCase()}; entries can only be saved against the active version.`);
+      return;
+    }
+    // a new entry starts where the workflow starts; from there on it moves via transitions
+    const initial = captureState(states);
+    if (!entryId && initial && formState !== initial) {
+      alert(`New entries are captured in state "${stateLabels[initial] ?? initial}". Switch to it to save; later states are reached through transitions.`);
+      return;
+    }
     setBusy(b => ({ ...b, saveEntry: true }));
     try {
-      await (ds as any).saveEntry({ formId, state: formState, data: res.data });
-      alert('Entry saved to API.');
+      const saved = await ds.saveEntry({ id: entryId || undefined, formId, state: formState, data: res.data });
+      setSavedData(res.data);
+      autosaver.clear();
+      if (!saved.id) { alert('Entry saved to API.'); return; }
+      setEntryId(saved.id);
+      if (isLocalId(saved.id) || ds.wasQueued(saved)) {
+        alert('The entry was saved in this browser and queued: it is sent to the server once the connection is back and earlier queued changes have synced.');
+        return;
+      }
+      // the revision trail lives in form_entry_revision; façade-only backends simply have none
+      const revision = await recordEntryRevision(saved.id, formState, actor).catch(e => {
+        console.warn('Recording the entry revision failed:', e);
+        return null;
+      });
+      alert(revision ? `Entry ${entryId ? 'updated' : 'saved'} (revision #${revision.revision}).` : `Entry ${entryId ? 'updated' : 'saved'} to API.`);
     } catch (e: any) {
       console.error('Save entry failed', e);
       alert(`Save entry failed: ${e?.message || e}`);
@@ -399,6 +640,34 @@ export default function AppModular() {
     }
   };
 
+  /** Move the saved entry along `t`: the entry is saved with the transition's target state. */
+  const advanceTo = async (t: TransitionOption) => {
+    if (!entryId) return;
+    const res = viewerRef.current?.submit(); if (!res) return;
+    if (Object.keys(res.errors).length) { alert('Please fix validation errors before advancing.'); return; }
+    // a stale button: the entry left this state or the data no longer meets the condition
+    if (t.fromStateId !== stateRowId || !evaluateCondition(t.condition, res.data)) {
+      setTransitionError(`Transition to "${t.label}" is not allowed for the current state and data.`);
+      return;
+    }
+    setTransitionBusy(true);
+    setTransitionError(null);
+    try {
+      const saved = await ds.saveEntry({ id: entryId, formId, state: t.toState, data: res.data });
+      setFormState(t.toState);
+      setSavedData(res.data);
+      autosaver.clear();
+      if (saved.id && !isLocalId(saved.id) && !ds.wasQueued(saved)) {
+        await recordEntryRevision(saved.id, t.toState, actor).catch(e => console.warn('Recording the entry revision failed:', e));
+      }
+    } catch (e: any) {
+      console.error(e);
+      setTransitionError(e?.message || 'Advancing the entry failed.');
+    } finally {
+      setTransitionBusy(false);
+    }
+  };
+
   // ---------- Form mgmt ----------
   const openCreate = () => {
     setShowCreate(true);
@@ -406,10 +675,75 @@ export default function AppModular() {
   };
   const openSelect = () => setShowSelect(true);
 
+  const openHistory = async () => {
+    if (!formId) return;
+    try {
+      const def: any = await getFormDefinitionFlexible(formId);
+      setHistoryName(def?.name || serverMeta.name || formId);
+    } catch (e: any) {
+      alert(`Could not load form ${formId}: ${e?.message || e}`);
+    }
+  };
+
+  /** Older version back into the editor + matrix; it is only stored once published again. */
+  const restoreVersion = async (v: FormVersion) => {
+    setHistoryName(null);
+    schemaRef.current = v.schema; // not a key rename
+    await editorRef.current?.importSchema(v.schema);
+    setSchema(v.schema);
+    setMatrix(v.matrix);
+    setMatrixEpoch(e => e + 1);
+    setActiveTab('editor');
+    alert(`Version ${v.version} restored as a draft. Publish to make it the newest version.`);
+  };
+
+  /** After a conflict: publish `content` on top of their version (`load`: into the editor first). */
+  const publishOverConflict = async (content: DefinitionContent, load: boolean) => {
+    if (!defConflict) return;
+    setConflictBusy(true);
+    try {
+      if (load) {
+        schemaRef.current = content.schema; // merged schema, not a key rename
+        await editorRef.current?.importSchema(content.schema);
+        setSchema(content.schema);
+        setMatrix(content.matrix);
+        setMatrixEpoch(e => e + 1);
+      }
+      const row = await publishNewVersion(content.schema, content.matrix, versionBase(defConflict.error.theirs));
+      setDefConflict(null);
+      if (!row) { alert(QUEUED_PUBLISH); return; }
+      alert(`Published as draft version ${row.version}.`);
+    } catch (e: any) {
+      // published over again meanwhile: same dialog against the newer version
+      if (e instanceof VersionConflictError) { setDefConflict({ error: e, mine: content }); return; }
+      console.error('Publish failed', e);
+      alert(`Publish failed: ${e?.message || e}`);
+    } finally {
+      setConflictBusy(false);
+    }
+  };
+
+  const takeTheirVersion = async (theirs: FormVersion) => {
+    setDefConflict(null);
+    setAllowAutoLoadMatrix(false);
+    setFormId(theirs.id);
+    setServerMeta({ name: theirs.name, version: theirs.version, is_active: theirs.row.is_active, status: theirs.status });
+    baseVersionRef.current = versionBase(theirs);
+    schemaRef.current = theirs.schema; // another version, not a key rename
+    await editorRef.current?.importSchema(theirs.schema);
+    setSchema(theirs.schema);
+    setMatrix(theirs.matrix);
+    setMatrixEpoch(e => e + 1);
+    setActiveTab('editor');
+  };
+
   const handleCreated = async (row: any) => {
     setShowCreate(false);
     const id = row?.id ?? labelForForm(row);
     if (id) setFormId(id);
+    setServerMeta({ name: row?.name, version: row?.version, is_active: row?.is_active, status: statusOf(row) });
+    const { schemaObj, matrixObj } = extractSchemaAndMatrix(row);
+    rememberBase(id, row, schemaObj, matrixObj);
     setAllowAutoLoadMatrix(false);
     setActiveTab('editor');
   };
@@ -425,11 +759,13 @@ export default function AppModular() {
     try {
       const def: any = await getFormDefinitionFlexible(id);
       const { schemaObj, matrixObj } = extractSchemaAndMatrix(def);
+      rememberBase(id, def, schemaObj, matrixObj);
 
       setServerMeta({
         name: def?.name,
         version: def?.version,
-        is_active: def?.is_active
+        is_active: def?.is_active,
+        status: statusOf(def)
       });
 
       if (schemaObj) {
@@ -446,6 +782,8 @@ export default function AppModular() {
         oneShotFetchMatrix(id);
       }
       setMatrixEpoch(e => e + 1);
+      await loadStates(id);
+      await loadRoles();
       setActiveTab('editor');
     } catch (e: any) {
       alert(e?.message || 'Failed to load selected form schema');
@@ -459,25 +797,37 @@ export default function AppModular() {
         apiBase={API_BASE}
         activeTab={activeTab}
         onTabChange={setActiveTab}
-        states={STATES}
+        states={states}
         formState={formState}
         onFormStateChange={setFormState}
+        stateLocked={stateLocked}
+        roles={roles}
+        previewRole={previewRole}
+        onPreviewRoleChange={setPreviewRole}
         formId={formId}
+        formStatus={serverMeta.status}
         onFormIdChange={(id) => {
           setFormId(id);
+          setServerMeta({});
+          baseVersionRef.current = null;
           setAllowAutoLoadMatrix(false);
         }}
         onFetch={fetchFromAPI}
         onNewForm={openCreate}
         onSelectForm={openSelect}
+        onShowHistory={openHistory}
+        onOpenTables={() => setShowTables(true)}
         onPublishSchema={publishSchemaToAPI}
         onSaveSchema={saveSchema}
         onLoadSchema={loadSchema}
+        onImportJsonSchema={() => setShowJsonSchemaImport(true)}
         onSubmit={submitData}
         onExportPDF={exportToPDF}
         onSaveDataFile={saveDataFile}
         onLoadDataFile={loadDataFile}
         onSaveEntry={saveEntryToAPI}
+        entryId={entryId}
+        onNewEntry={() => { setEntryId(''); setFormState(captureState(states) ?? formState); }}
         onPublishBehaviors={publishBehaviorsToAPI}
         onSaveBehaviors={() => {
           const blob = new Blob([JSON.stringify(matrix, null, 2)], { type: 'application/json' });
@@ -503,32 +853,58 @@ export default function AppModular() {
           input.value = '';
         }}
         busy={busy}
+        draftStatus={describeAutosave(draftStatus)}
+        syncState={syncState}
+        onSyncNow={() => { ds.sync().catch(e => console.warn('Sync failed:', e)); }}
+        onRetrySync={seq => { ds.queue.retry(seq).then(() => ds.sync()).catch(e => console.warn('Sync failed:', e)); }}
+        onDiscardSync={seq => { ds.queue.discard(seq).catch(e => console.warn('Discarding the queued change failed:', e)); }}
+        currentUser={actor}
+        onSignIn={() => authStore.requireLogin()}
+        onSignOut={() => { logout(); }}
+      />
+      <RenameBanner
+        renames={pendingRenames}
+        formDefinitionId={formId || null}
+        onMigrate={() => setShowRenameMigration(true)}
+        onDismiss={() => setPendingRenames([])}
       />
+      <SchemaLintBanner issues={lintIssues} />
 
       <div style={{ flex: 1 }}>
         <div style={{ display: activeTab === 'editor' ? 'block' : 'none', height: '100%', width: '100%' }}>
-          <EditorPane ref={editorRef} schema={schema} onSchemaChange={setSchema} style={{ height: '100%' }} />
+          <EditorPane ref={editorRef} schema={schema} onSchemaChange={onEditorSchemaChange} style={{ height: '100%' }} />
         </div>
 
         <div style={{ display: activeTab === 'matrix' ? 'block' : 'none', height: '100%', width: '100%' }}>
           <BehaviorMatrix
             key={`${formId}:${matrixEpoch}`}
             schema={schema}
-            states={STATES.map(s => s.id)}
+            states={stateIds}
+            stateLabels={stateLabels}
+            roles={roles}
             value={matrix}
             onChange={setMatrix}
             loadFromAPI={allowAutoLoadMatrix ? { apiBase: API_BASE, formId } : undefined}
           />
         </div>
 
-        <div style={{ display: activeTab === 'preview' ? 'block' : 'none', height: '100%', width: '100%' }}>
+        <div style={{ display: activeTab === 'preview' ? 'flex' : 'none', flexDirection: 'column', height: '100%', width: '100%' }}>
+          {stateLocked && (
+            <TransitionBar
+              currentLabel={stateLabels[formState] ?? formState}
+              transitions={transitions}
+              onAdvance={advanceTo}
+              busy={transitionBusy || !!busy.saveEntry}
+              error={transitionError}
+            />
+          )}
           <ViewerPane
             ref={viewerRef}
             schema={enriched}
-            data={{ ...data, formState }}
-            readOnly={readOnly || !!busy.saveEntry || !!busy.publishSchema || !!busy.publishBehaviors}
-            onDataChange={setData}
-            style={{ height: '100%' }}
+            data={{ ...data, ...refOptions, formState }}
+            readOnly={readOnly || !!busy.saveEntry || !!busy.publishSchema || !!busy.publishBehaviors || transitionBusy}
+            onDataChange={(next) => { setData(next); autosaver.schedule(formState, next); }}
+            style={{ flex: 1, minHeight: 0, overflow: 'auto' }}
           />
         </div>
       </div>
@@ -540,6 +916,62 @@ export default function AppModular() {
           initialMatrix={matrix}
           onClose={() => setShowCreate(false)}
           onCreated={handleCreated}
+          by={actor}
+        />
+      )}
+      {draftPrompt && promptDrafts.length > 0 && (
+        <ResumeDraftModal
+          drafts={promptDrafts}
+          mode={draftPrompt.mode}
+          currentData={data}
+          stateLabels={stateLabels}
+          onResume={(d) => {
+            setDraftPrompt(null);
+            autosaver.adopt(d);
+            setData(d.data);
+            autosaver.schedule(formState, d.data);
+            setActiveTab('preview');
+          }}
+          onDiscard={() => { setDraftPrompt(null); autosaver.clear(); }}
+          onClose={() => {
+            const prompt = draftPrompt;
+            setDraftPrompt(null);
+            if (prompt.mode === 'conflict') { autosaver.overrideConflict(); return; }
+            const server = prompt.drafts.find(d => d.source === 'server');
+            if (server) autosaver.adopt(server);
+          }}
+        />
+      )}
+      {defConflict && (
+        <DefinitionConflictModal
+          conflict={defConflict.error}
+          mine={defConflict.mine}
+          busy={conflictBusy}
+          onKeepMine={() => publishOverConflict(defConflict.mine, false)}
+          onTakeTheirs={() => takeTheirVersion(defConflict.error.theirs)}
+          onPublishMerged={(merged) => publishOverConflict(merged, true)}
+          onClose={() => setDefConflict(null)}
+        />
+      )}
+      {historyName && (
+        <VersionHistoryModal
+          name={historyName}
+          currentId={formId}
+          stateLabels={stateLabels}
+          onClose={() => setHistoryName(null)}
+          onRestore={restoreVersion}
+          actor={actor}
+          onStatusChange={(row) => {
+            if (row.id === formId) setServerMeta(m => ({ ...m, is_active: row.is_active, status: statusOf(row) }));
+          }}
+        />
+      )}
+      {showRenameMigration && formId && (
+        <RenameMigrationModal
+          formDefinitionId={formId}
+          renames={pendingRenames}
+          onClose={() => setShowRenameMigration(false)}
+          onDone={({ failed }) => { if (!failed) setPendingRenames([]); }}
         />
       )}
       {showSelect && (
@@ -549,6 +981,25 @@ export default function AppModular() {
           onSelect={handleSelected}
         />
       )}
+      {showTables && (
+        <TableAdminModal
+          apiBase={API_BASE}
+          by={actor}
+          onClose={() => setShowTables(false)}
+        />
+      )}
+      {showJsonSchemaImport && (
+        <JsonSchemaImportModal
+          onImport={importJsonSchema}
+          onClose={() => setShowJsonSchemaImport(false)}
+        />
+      )}
+      {auth.needsLogin && (
+        <LoginScreen
+          reason={auth.reason}
+          onCancel={AUTH_REQUIRED ? undefined : () => authStore.dismissLogin()}
+        />
+      )}
     </div>
   );
 }
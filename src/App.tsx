@@ -8,11 +8,37 @@ import '@bpmn-io/form-js/dist/assets/form-js-editor.css';
 import EditorPane, { EditorPaneHandle } from './components/EditorPane';
 import ViewerPane, { ViewerPaneHandle } from './components/ViewerPane';
 import BehaviorMatrix from './components/BehaviorMatrix';
+import RenameBanner from './components/RenameBanner';
+import RenameMigrationModal from './components/modals/RenameMigrationModal';
+import SchemaLintBanner from './components/SchemaLintBanner';
+import VersionHistoryModal from './components/modals/VersionHistoryModal';
+import EntryMigrationModal from './components/modals/EntryMigrationModal';
 import CommandBar from './components/CommandBar';
-
-import { BehaviorMatrixValue } from './core/types';
-import { bundlesFromMatrix } from './core/behaviors';
-import { enrichFormSchemaForState } from './core/enrich';
+import TransitionBar from './components/TransitionBar';
+import EntriesBrowser from './components/EntriesBrowser';
+import EntryRevisionsModal from './components/modals/EntryRevisionsModal';
+import RevisionCompareBar from './components/RevisionCompareBar';
+import ResumeDraftModal from './components/modals/ResumeDraftModal';
+import DefinitionConflictModal from './components/modals/DefinitionConflictModal';
+
+import { BehaviorBundle, BehaviorMatrixValue, StateOption } from './core/types';
+import { beyondFlatRows, bundlesFromMatrix } from './core/behaviors';
+import { conditionSignature, enrichFormSchemaForState } from './core/enrich';
+import { DEFAULT_STATES, captureState, reconcileMatrixStates, resolveStateKey, toStateOptions, workflowOrder } from './core/states';
+import { DEFAULT_ROLES, cellForRole, toRoleNames } from './core/roles';
+import { KeyRename, detectRenames, mergeRenames, renameDataKeys, renameMatrixKeys } from './core/rename';
+import { applyStateDefaults, lockedChanges, lockedKeys } from './core/values';
+import { extractFields } from './core/schema';
+import { describeLintErrors, lintErrors, lintSchema } from './core/lint';
+import { FormVersion, VersionBase, VersionConflictError, publishVersion, toFormVersion, versionBase } from './core/versions';
+import type { DefinitionContent } from './core/merge';
+import { FormStatus, STATUS_LABELS, activeVersionFor, canCaptureEntries, statusOf } from './core/lifecycle';
+import { EntryMigrationPlan, planEntryMigration } from './core/migrations';
+import { DataChange, EntryRevision, diffEntryData, markChangedFields, recordEntryRevision, saveEntryRevision } from './core/revisions';
+import { AutosaveStatus, DraftAutosaver, DraftLookup, DraftScope, describeAutosave, draftKey, findDrafts } from './core/drafts';
+import { cleanupMatrix, describeReport, reconcileMatrix, reportIssueCount } from './core/reconcile';
+import { advanceProcessInstance, legalTransitions, loadTransitions, TransitionOption } from './core/workflow';
+import { AuthState, actorOf, authStore } from './core/auth';
 
 import {
   API_BASE,
@@ -21,26 +47,23 @@ import {
   getProcessInstance,
   listLegalEntities,
   listProcessInstances,
-  createFormDefinition,
+  listWorkflowStates,
+  listWorkflowTransitions,
+  listRoles,
   createTaskFieldBehavior,
-  createFormEntry,
   createLegalEntity,
   createProcessInstance,
-  getProcessDefinition
+  getProcessDefinition,
+  FormDefinition,
+  FormEntry,
+  WorkflowTransition
 } from './core/api';
 
-type Tab = 'editor' | 'preview' | 'matrix';
+type Tab = 'editor' | 'preview' | 'matrix' | 'entries';
 type FindMode = 'byEntity' | 'byProcess';
 type TopMode = 'form' | 'data';
 type IoSource = 'file' | 'api';
 
-const STATES = [
-  { id: 'entry', label: 'Entry' },
-  { id: 'review.section1', label: 'Review: Section 1' },
-  { id: 'review.section2', label: 'Review: Section 2' },
-  { id: 'approve', label: 'Approve' }
-];
-
 export default function App() {
   const editorRef = React.useRef<EditorPaneHandle>(null);
   const viewerRef = React.useRef<ViewerPaneHandle>(null);
@@ -50,32 +73,73 @@ export default function App() {
   const [ioSource, setIoSource] = React.useState<IoSource>('file');
 
   const [activeTab, setActiveTab] = React.useState<Tab>('editor');
-  const [formState, setFormState] = React.useState<string>('entry');
+  const [formState, setFormState] = React.useState<string>(DEFAULT_STATES[0].id);
 
   const [schema, setSchema] = React.useState<any>({ type: 'default', components: [] });
   const [data, setData] = React.useState<any>({});
 
+  // workflow states: defaults in File mode, workflow_state rows in API mode
+  const [states, setStates] = React.useState<StateOption[]>(DEFAULT_STATES);
+  const statesRef = React.useRef<StateOption[]>(states);
+  React.useEffect(() => { statesRef.current = states; }, [states]);
+  const stateIds = React.useMemo(() => states.map(s => s.id), [states]);
+  const stateLabels = React.useMemo(
+    () => Object.fromEntries(states.map(s => [s.id, s.label])) as Record<string, string>,
+    [states]
+  );
+
+  // role axis: matrix overrides per role, previewed via "Preview as"
+  const [roles, setRoles] = React.useState<string[]>(DEFAULT_ROLES);
+  const [previewRole, setPreviewRole] = React.useState<string>('');
+
   const [matrix, setMatrix] = React.useState<BehaviorMatrixValue>({});
   const bundles = React.useMemo(
-    () => bundlesFromMatrix(matrix, STATES.map(s => s.id)),
-    [matrix]
+    () => bundlesFromMatrix(matrix, stateIds),
+    [matrix, stateIds]
+  );
+
+  const currentBundle = React.useMemo<BehaviorBundle>(
+    () => bundles.find(x => x.state === formState) || { state: formState, action: 'view', rows: [] },
+    [bundles, formState]
+  );
+
+  // conditional cells depend on live data; only rebuild the schema when a condition flips:
+  // the data used for them is re-sampled only when some outcome (or the rules) change
+  const conditionKey = conditionSignature(currentBundle, data, previewRole);
+  const conditionInputs = React.useRef({ bundle: currentBundle, role: previewRole, key: conditionKey, data });
+  const sampled = conditionInputs.current;
+  if (sampled.bundle !== currentBundle || sampled.role !== previewRole || sampled.key !== conditionKey) {
+    conditionInputs.current = { bundle: currentBundle, role: previewRole, key: conditionKey, data };
+  }
+  const conditionData = conditionInputs.current.data;
+  const enriched = React.useMemo(
+    () => enrichFormSchemaForState(schema, currentBundle, conditionData, previewRole),
+    [schema, currentBundle, conditionData, previewRole]
   );
 
-  const enriched = React.useMemo(() => {
-    const b = bundles.find(x => x.state === formState) || { state: formState, action: 'view', rows: [] };
-    return enrichFormSchemaForState(schema, b);
-  }, [schema, formState, bundles]);
+  const lintIssues = React.useMemo(() => lintSchema(schema, matrix, stateIds), [schema, matrix, stateIds]);
+
+  // last loaded/saved entry data; locked fields may not change from it
+  const [savedData, setSavedData] = React.useState<any>(null);
+
+  // pre-fill the state's defaults into empty fields on entering a state or loading data
+  React.useEffect(() => {
+    setData((d: any) => applyStateDefaults(d, currentBundle, previewRole, { state: formState, role: previewRole }));
+  }, [formState, currentBundle, previewRole, savedData]);
 
   const readOnly = React.useMemo(() => {
     const b = bundles.find(x => x.state === formState);
-    const anyEditable = Object.values(matrix).some(row => row?.[formState]?.mode === 'editable');
-    return (b?.action === 'view') || (!anyEditable && formState !== 'entry');
-  }, [bundles, matrix, formState]);
+    const anyEditable = Object.values(matrix).some(row => {
+      const cell = row?.[formState];
+      return !!cell && cellForRole(cell, previewRole).mode === 'editable';
+    });
+    return (b?.action === 'view') || (!anyEditable && formState !== captureState(states));
+  }, [bundles, matrix, formState, previewRole, states]);
 
   // ---------- Definition creation inputs ----------
   const [defName, setDefName] = React.useState<string>('Demo Form');
   const [defVersion, setDefVersion] = React.useState<number>(1);
-  const [defActive, setDefActive] = React.useState<boolean>(true);
+  const [defStatus, setDefStatus] = React.useState<FormStatus | undefined>(undefined);
 
   // ---------- IDs used in API flows ----------
   const [formDefinitionId, setFormDefinitionId] = React.useState<string>('');
@@ -83,6 +147,56 @@ export default function App() {
   const [processInstanceId, setProcessInstanceId] = React.useState<string>('');
   const [legalEntityId, setLegalEntityId] = React.useState<string>('');
   const [entryId, setEntryId] = React.useState<string>('');
+  // entry shown in the viewer: saving updates it in place (and records a revision)
+  const [openEntryId, setOpenEntryId] = React.useState<string>('');
+  const [showRevisions, setShowRevisions] = React.useState(false);
+  const [revisionCompare, setRevisionCompare] = React.useState<{ from: EntryRevision; to: EntryRevision; changes: DataChange[] } | null>(null);
+  // ---------- autosave: IndexedDB always, form_entry_draft too in API mode ----------
+  const [draftStatus, setDraftStatus] = React.useState<AutosaveStatus>({});
+  // signed-in user (core/auth.ts), recorded as created_by / updated_by
+  const [auth, setAuth] = React.useState<AuthState>(authStore.snapshot);
+  React.useEffect(() => authStore.subscribe(setAuth), []);
+  const actor = actorOf(auth.session);
+  const [draftPrompt, setDraftPrompt] = React.useState<(DraftLookup & { mode: 'resume' | 'conflict' }) | null>(null);
+  const autosaver = React.useMemo(() => new DraftAutosaver({ onStatus: setDraftStatus, by: () => actorOf(authStore.session) }), []);
+  const entrySavedAtRef = React.useRef<string | undefined>(undefined); // updated_at of the opened entry
+
+  // the viewer then shows the newer revision with its changed fields marked
+  const compareSchema = React.useMemo(
+    () => (revisionCompare ? markChangedFields(enriched, revisionCompare.changes) : null),
+    [enriched, revisionCompare]
+  );
+
+  // ---------- key renames in the editor: move matrix rows, offer an entry migration ----------
+  const schemaRef = React.useRef<any>(schema);
+  React.useEffect(() => { schemaRef.current = schema; }, [schema]);
+  const [pendingRenames, setPendingRenames] = React.useState<KeyRename[]>([]);
+  const [showRenameMigration, setShowRenameMigration] = React.useState(false);
+  const [showHistory, setShowHistory] = React.useState(false);
+  // the version the editor was loaded from: publishing checks nobody published over it meanwhile
+  const baseVersionRef = React.useRef<VersionBase | null>(null);
+  const [defConflict, setDefConflict] = React.useState<{ error: VersionConflictError; mine: DefinitionContent } | null>(null);
+  const [conflictBusy, setConflictBusy] = React.useState(false);
+  const [entryMigration, setEntryMigration] = React.useState<EntryMigrationPlan | null>(null);
+  React.useEffect(() => { setPendingRenames([]); }, [formDefinitionId]);
+
+  const onEditorSchemaChange = (next: any) => {
+    const renames = detectRenames(schemaRef.current, next);
+    schemaRef.current = next;
+    setSchema(next);
+    if (!renames.length) return;
+    setMatrix(m => renameMatrixKeys(m, renames));
+    setData((d: any) => renameDataKeys(d, renames));
+    setPendingRenames(p => mergeRenames(p, renames));
+  };
+
+  // ---------- Workflow (API): state of the open process instance + legal transitions ----------
+  const [currentStateRowId, setCurrentStateRowId] = React.useState<string>('');
+  const [transitionRows, setTransitionRows] = React.useState<WorkflowTransition[]>([]);
+  const [transitionBusy, setTransitionBusy] = React.useState(false);
+  const [transitionError, setTransitionError] = React.useState<string | null>(null);
+  // workflow_state row new instances start in; instances stored without a state count as in it
+  const initialStateRowId = states.find(s => s.id === captureState(states))?.rowId;
 
   // ---------- Lists for pickers ----------
   const [legalEntities, setLegalEntities] = React.useState<Array<{ id: string; name?: string }>>([]);
@@ -129,7 +243,7 @@ export default function App() {
     const reader = new FileReader();
     reader.onload = async (ev) => {
       if (typeof ev.target?.result !== 'string') return;
-      try { const next = JSON.parse(ev.target.result); setFormState(next.formState || formState); setData(next); }
+      try { const next = JSON.parse(ev.target.result); setFormState(next.formState || formState); setData(next); setSavedData(next); }
       catch (err) { console.error('Error loading data:', err); }
     };
     reader.readAsText(file); e.currentTarget.value = '';
@@ -163,15 +277,116 @@ export default function App() {
     setInstances(list.items || []);
   }, []);
 
+  // Swap in backend states; renamed/removed states are carried into the matrix.
+  const refreshStates = React.useCallback(async () => {
+    const list = await listWorkflowStates({ limit: 200, offset: 0, sort: 'created_at' });
+    // the capture state is the one the transitions start from, not the first name
+    const transitions = await listWorkflowTransitions({ limit: 500, offset: 0 })
+      .catch(e => { console.warn('Loading workflow transitions failed; keeping the state list order:', e); return null; });
+    const next = workflowOrder(toStateOptions(list.items), transitions?.items);
+    if (!next.length) return;
+    const prev = statesRef.current;
+    setMatrix(m => reconcileMatrixStates(m, prev, next));
+    setStates(next);
+    setFormState(cur => resolveStateKey(next, cur) ?? next[0].id);
+  }, []);
+
+  const refreshRoles = React.useCallback(async () => {
+    const list = await listRoles({ limit: 200, offset: 0, sort: 'name' });
+    const next = toRoleNames(list.items);
+    if (!next.length) return;
+    setRoles(next);
+    setPreviewRole(cur => (cur && !next.includes(cur) ? '' : cur));
+  }, []);
+
   React.useEffect(() => {
     // warm lists when source is API (no need when File-only)
     if (ioSource === 'api') {
       (async () => {
+        try { await refreshStates(); } catch (e) { console.error(e); }
+        try { await refreshRoles(); } catch (e) { console.error(e); }
         try { await refreshLegalEntities(); } catch (e) { console.error(e); }
         try { await refreshInstances(); } catch (e) { console.error(e); }
       })();
     }
-  }, [ioSource, refreshLegalEntities, refreshInstances]);
+  }, [ioSource, refreshStates, refreshRoles, refreshLegalEntities, refreshInstances]);
+
+  // Transitions leaving the instance's current state (reloaded whenever the state moves)
+  React.useEffect(() => {
+    if (ioSource !== 'api' || !currentStateRowId) { setTransitionRows([]); return; }
+    let alive = true;
+    setTransitionError(null);
+    loadTransitions(currentStateRowId)
+      .then(rows => { if (alive) setTransitionRows(rows); })
+      .catch(e => {
+        console.error(e);
+        if (alive) { setTransitionRows([]); setTransitionError('Could not load transitions.'); }
+      });
+    return () => { alive = false; };
+  }, [ioSource, currentStateRowId]);
+
+  const transitions = React.useMemo(
+    () => legalTransitions(transitionRows, data, states),
+    [transitionRows, data, states]
+  );
+
+  // With a process instance open, the state only moves through transitions.
+  const stateLocked = ioSource === 'api' && !!processInstanceId && !!currentStateRowId;
+
+  /* ---------------- Autosave + resume --------------- */
+
+  // one draft per form definition + process instance (File mode: per form name)
+  const draftScope = React.useMemo<DraftScope | null>(() => {
+    if (ioSource === 'file') return { formId: `file:${defName}` };
+    if (!formDefinitionId || !processInstanceId) return null;
+    return { formId: formDefinitionId, processInstanceId, legalEntityId, entryId: openEntryId || undefined };
+  }, [ioSource, defName, formDefinitionId, processInstanceId, legalEntityId, openEntryId]);
+  const draftScopeRef = React.useRef(draftScope);
+  draftScopeRef.current = draftScope;
+  const draftScopeKey = draftScope ? draftKey(draftScope) : '';
+  const loadedDataRef = React.useRef<any>(null);
+  loadedDataRef.current = savedData ?? data;
+
+  React.useEffect(() => {
+    const scope = draftScopeRef.current;
+    const server = ioSource === 'api';
+    autosaver.setScope(scope, { server });
+    setDraftPrompt(null);
+    if (!scope) return;
+    let alive = true;
+    findDrafts(scope, { server, loaded: loadedDataRef.current, entrySavedAt: entrySavedAtRef.current })
+      .then(found => { if (alive && found.drafts.length) setDraftPrompt({ ...found, mode: 'resume' }); })
+      .catch(e => console.warn('Looking up drafts failed:', e));
+    return () => { alive = false; };
+  }, [draftScopeKey, ioSource, autosaver]);
+
+  React.useEffect(() => {
+    if (draftStatus.conflict) setDraftPrompt({ drafts: [draftStatus.conflict], mode: 'conflict' });
+  }, [draftStatus.conflict]);
+
+  React.useEffect(() => {
+    const flush = () => autosaver.flush();
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, [autosaver]);
+
+  const onViewerDataChange = (next: any) => {
+    setData(next);
+    autosaver.schedule(formState, next);
+  };
+
+  // drafts identical to what is in the viewer by now are not worth a prompt
+  const promptDrafts = React.useMemo(
+    () => (draftPrompt?.drafts || []).filter(d => draftPrompt?.mode === 'conflict' || diffEntryData(data, d.data).length > 0),
+    [draftPrompt, data]
+  );
+
+  // the entries list is mounted on first visit and then kept, filters and page included
+  const [entriesOpened, setEntriesOpened] = React.useState(false);
+  React.useEffect(() => { if (activeTab === 'entries') setEntriesOpened(true); }, [activeTab]);
+  React.useEffect(() => {
+    if (ioSource !== 'api' && activeTab === 'entries') setActiveTab(topMode === 'form' ? 'editor' : 'preview');
+  }, [ioSource, activeTab, topMode]);
 
   // Default tab per Mode
   React.useEffect(() => {
@@ -215,13 +430,25 @@ export default function App() {
       alert('Could not resolve form definition for process. Provide Form Definition ID override.');
       return;
     }
-    setFormDefinitionId(resolvedFormDefId);
+    // new entries are captured with (and pinned to) the active version of that form
+    let captureDef: FormDefinition | null = null;
+    try {
+      captureDef = await activeVersionFor(resolvedFormDefId);
+    } catch {
+      alert('Failed to load the form definition for the process.');
+      return;
+    }
+    if (!captureDef) {
+      alert('This form has no active version. Activate one from History… first.');
+      return;
+    }
+    setFormDefinitionId(captureDef.id);
 
     // reuse or create a process instance
     let instanceObj = instances.find(i => i.definition_id === captureProcessId && i.legal_entity_id === entityId);
     if (!instanceObj) {
       try {
-        const created = await createProcessInstance({ definition_id: captureProcessId, legal_entity_id: entityId });
+        const created = await createProcessInstance({ definition_id: captureProcessId, legal_entity_id: entityId, current_state_id: initialStateRowId });
         instanceObj = created;
         await refreshInstances();
       } catch {
@@ -236,8 +463,7 @@ export default function App() {
 
     // load the form schema
     try {
-      const def = await getFormDefinition(resolvedFormDefId);
-      const parsed = JSON.parse(def.form_schema || '{}');
+      const parsed = JSON.parse(captureDef.form_schema || '{}');
       await editorRef.current?.importSchema(parsed);
       setSchema(parsed);
     } catch {
@@ -246,7 +472,11 @@ export default function App() {
     }
 
     setProcessInstanceId(instanceObj.id);
-    setFormState(instanceObj.current_state_id || 'entry');
+    entrySavedAtRef.current = undefined;
+    setOpenEntryId('');
+    setRevisionCompare(null);
+    setFormState(resolveStateKey(states, instanceObj.current_state_id) ?? stateIds[0]);
+    setCurrentStateRowId(instanceObj.current_state_id || initialStateRowId || '');
     setActiveTab('preview');
   };
 
@@ -275,7 +505,8 @@ export default function App() {
     try {
       const pi = await getProcessInstance(instanceId);
       setProcessInstanceId(pi.id);
-      setFormState(pi.current_state_id || 'entry');
+      setFormState(resolveStateKey(states, pi.current_state_id) ?? stateIds[0]);
+      setCurrentStateRowId(pi.current_state_id || initialStateRowId || '');
 
       const fid = maybeFormDefId || formDefinitionId;
       if (fid) {
@@ -294,30 +525,126 @@ export default function App() {
     }
   };
 
+  /* ---------------- Workflow: advance along a transition --------------- */
+
+  const advanceTo = async (t: TransitionOption) => {
+    if (ioSource !== 'api' || !processInstanceId) return;
+    const res = viewerRef.current?.submit(); if (!res) return;
+    if (Object.keys(res.errors).length) { alert('Please fix validation errors before advancing.'); return; }
+    setTransitionBusy(true);
+    setTransitionError(null);
+    try {
+      const updated = await advanceProcessInstance(processInstanceId, t, res.data, initialStateRowId);
+      setCurrentStateRowId(updated?.current_state_id || t.toStateId);
+      setFormState(t.toState);
+      refreshInstances().catch(console.error);
+    } catch (e: any) {
+      console.error(e);
+      setTransitionError(e?.message || 'Advancing the process instance failed.');
+    } finally {
+      setTransitionBusy(false);
+    }
+  };
+
   /* ---------------- API: POST flows --------------- */
 
+  /** Each publish is a new row: the next version of `defName`. Throws VersionConflictError (see `base`). */
+  const publishDefinition = async (s: any, m: BehaviorMatrixValue, base: VersionBase | null) => {
+    const created = await publishVersion({ name: defName, schema: s, matrix: m, base, by: actor });
+    if (created?.id) setFormDefinitionId(created.id);
+    setDefVersion(Number(created?.version ?? defVersion));
+    setDefStatus(statusOf(created));
+    baseVersionRef.current = versionBase(toFormVersion(created));
+    alert(`Form definition published as draft version ${created?.version}. Submit it for review and activate it from History….`);
+  };
+
   const createDefinitionFromEditor = async () => {
+    const s = editorRef.current?.getSchema() ?? schema;
+    const issues = lintSchema(s, matrix, stateIds);
+    if (lintErrors(issues).length) { alert(describeLintErrors(issues)); return; }
     try {
-      const s = editorRef.current?.getSchema() ?? schema;
-      const created = await createFormDefinition({
-        name: defName, version: defVersion, form_schema: JSON.stringify(s), is_active: defActive
-      });
-      if (created?.id) setFormDefinitionId(created.id);
-      alert('Form definition created.');
+      await publishDefinition(s, matrix, baseVersionRef.current);
+    } catch (e) {
+      if (e instanceof VersionConflictError) { setDefConflict({ error: e, mine: { schema: s, matrix } }); return; }
+      console.error(e);
+      alert('Publish definition failed.');
+    }
+  };
+
+  /** After a conflict: publish `content` on top of their version (`load`: into the editor first). */
+  const publishOverConflict = async (content: DefinitionContent, load: boolean) => {
+    if (!defConflict) return;
+    setConflictBusy(true);
+    try {
+      if (load) {
+        schemaRef.current = content.schema; // merged schema, not a key rename
+        await editorRef.current?.importSchema(content.schema);
+        setSchema(content.schema);
+        setMatrix(content.matrix);
+      }
+      await publishDefinition(content.schema, content.matrix, versionBase(defConflict.error.theirs));
+      setDefConflict(null);
     } catch (e) {
+      // published over again meanwhile: same dialog against the newer version
+      if (e instanceof VersionConflictError) { setDefConflict({ error: e, mine: content }); return; }
       console.error(e);
-      alert('Create definition failed.');
+      alert('Publish definition failed.');
+    } finally {
+      setConflictBusy(false);
     }
   };
 
+  const takeTheirVersion = async (theirs: FormVersion) => {
+    setDefConflict(null);
+    setFormDefinitionId(theirs.id);
+    await showFormVersion(theirs.row);
+    if (Object.keys(theirs.matrix).length) setMatrix(theirs.matrix);
+    setActiveTab('editor');
+  };
+
+  /** Older version back into the editor + matrix; it is only stored once published again. */
+  const restoreVersion = async (v: FormVersion) => {
+    setShowHistory(false);
+    schemaRef.current = v.schema; // not a key rename
+    await editorRef.current?.importSchema(v.schema);
+    setSchema(v.schema);
+    if (Object.keys(v.matrix).length) setMatrix(v.matrix);
+    setActiveTab('editor');
+    alert(`Version ${v.version} restored as a draft. Publish to make it the newest version.`);
+  };
+
   const publishBehaviorsPost = async () => {
     if (!formDefinitionId || !taskDefinitionId) {
       alert('Fill Form Definition ID and Task Definition ID.'); return;
     }
+    const s = editorRef.current?.getSchema() ?? schema;
+    const fields = extractFields(s?.components || []);
+    let toPublish = matrix;
+    const report = reconcileMatrix(matrix, fields, stateIds);
+    if (fields.length && reportIssueCount(report)) {
+      const ok = window.confirm(
+        `The behavior matrix does not match the form:\n\n- ${describeReport(report).join('\n- ')}\n\n` +
+        'OK cleans it up before publishing; Cancel aborts.'
+      );
+      if (!ok) return;
+      toPublish = cleanupMatrix(matrix, fields, stateIds);
+      setMatrix(toPublish);
+    }
+    // task_field_behavior only has visible / editable / required
+    const unstorable = beyondFlatRows(toPublish);
+    if (unstorable.length) {
+      const shown = unstorable.slice(0, 10);
+      alert(
+        'These behavior rules use settings task_field_behavior cannot store:\n\n- ' +
+        `${shown.join('\n- ')}${unstorable.length > shown.length ? `\n- … and ${unstorable.length - shown.length} more` : ''}\n\n` +
+        'Nothing was published. "Publish version" keeps the whole matrix with the form definition.'
+      );
+      return;
+    }
     try {
       const tasks: Promise<any>[] = [];
-      Object.entries(matrix).forEach(([field_name, perState]) => {
-        STATES.forEach(({ id: action_context }) => {
+      Object.entries(toPublish).forEach(([field_name, perState]) => {
+        stateIds.forEach((action_context) => {
           const cell = (perState as any)?.[action_context] || { mode: 'hidden', required: false };
           const visible = cell.mode !== 'hidden';
           const editable = cell.mode === 'editable';
@@ -344,14 +671,35 @@ export default function App() {
     }
     const res = viewerRef.current?.submit(); if (!res) return;
     if (Object.keys(res.errors).length) { alert('Please fix validation errors'); return; }
+    const locked = lockedChanges(savedData, res.data, lockedKeys(currentBundle, previewRole));
+    if (locked.length) {
+      alert(`These fields are locked in state "${formState}" and cannot be changed: ${locked.join(', ')}`);
+      return;
+    }
+    try {
+      const def = await getFormDefinition(formDefinitionId);
+      const status = statusOf(def);
+      if (!canCaptureEntries(status)) {
+        alert(`This form version is ${STATUS_LABELS[status].toLowerCase()}; entries can only be saved against the active version.`);
+        return;
+      }
+    } catch { /* unknown definition: leave it to the server */ }
     try {
-      await createFormEntry({
-        form_definition_id: formDefinitionId,
-        process_instance_id: processInstanceId,
-        legal_entity_id: legalEntityId,
-        data: JSON.stringify({ ...res.data, formState })
+      const { entry, revision } = await saveEntryRevision({
+        entryId: openEntryId || undefined,
+        formDefinitionId,
+        processInstanceId,
+        legalEntityId,
+        data: res.data,
+        state: formState,
+        by: actor
       });
-      alert('Entry saved.');
+      setOpenEntryId(entry.id);
+      setEntryId(entry.id);
+      entrySavedAtRef.current = entry.updated_at ?? entry.created_at;
+      setSavedData(res.data);
+      autosaver.clear();
+      alert(revision ? `Entry saved (revision #${revision.revision}).` : 'Entry saved, but its revision could not be recorded.');
     } catch (e) {
       console.error(e);
       alert('Save entry failed.');
@@ -369,26 +717,74 @@ export default function App() {
       setSchema(parsed);
       setDefName(def.name ?? defName);
       setDefVersion(Number(def.version ?? defVersion));
-      setDefActive(!!def.is_active);
+      setDefStatus(statusOf(def));
+      baseVersionRef.current = versionBase(toFormVersion(def));
       setActiveTab('editor');
     } catch (e) { console.error(e); alert('Failed to fetch definition.'); }
   };
 
+  /** A form version's schema into the editor, and its name/version/status into the bar. */
+  const showFormVersion = async (def: FormDefinition) => {
+    const s = JSON.parse(def.form_schema || '{}');
+    schemaRef.current = s; // another version, not a key rename
+    await editorRef.current?.importSchema(s);
+    setSchema(s);
+    setDefName(def.name ?? defName);
+    setDefVersion(Number(def.version ?? defVersion));
+    setDefStatus(statusOf(def));
+    baseVersionRef.current = versionBase(toFormVersion(def));
+  };
+
+  const showEntryData = (parsed: any) => {
+    setData(parsed);
+    setSavedData(parsed);
+    setTopMode('data');
+    setActiveTab('preview');
+  };
+
+  /** An entry into the viewer, in the state its process instance is in. */
+  const openEntry = async (entry: FormEntry) => {
+    entrySavedAtRef.current = entry.updated_at ?? entry.created_at;
+    setEntryId(entry.id);
+    setOpenEntryId(entry.id);
+    setRevisionCompare(null);
+    setFormDefinitionId(entry.form_definition_id);
+    setProcessInstanceId(entry.process_instance_id);
+    setLegalEntityId(entry.legal_entity_id);
+    let parsed: any = {};
+    try { parsed = JSON.parse(entry.data || '{}'); } catch { parsed = {}; }
+
+    // the instance's current state wins over the formState saved along with the data
+    let stateKey: string | undefined;
+    try {
+      const pi = await getProcessInstance(entry.process_instance_id);
+      setCurrentStateRowId(pi.current_state_id || initialStateRowId || '');
+      stateKey = resolveStateKey(states, pi.current_state_id);
+    } catch {
+      setCurrentStateRowId('');
+    }
+    const nextState = stateKey ?? resolveStateKey(states, parsed.formState);
+    if (nextState) setFormState(nextState);
+
+    // captured with an older version than the active one: preview the migration first
+    let plan: EntryMigrationPlan | null = null;
+    try { plan = await planEntryMigration(entry, parsed); }
+    catch (e) { console.warn('Checking for an entry migration failed:', e); }
+    if (plan) { setEntryMigration(plan); return; }
+
+    // otherwise show it with the version it was captured with, not the newest one
+    try { await showFormVersion(await getFormDefinition(entry.form_definition_id)); }
+    catch (e) { console.warn('Loading the entry\'s form version failed:', e); }
+    showEntryData(parsed);
+  };
+
   const loadEntryById = async () => {
     if (ioSource !== 'api') return;
     if (!entryId) { alert('Enter an entry id'); return; }
-    try {
-      const entry = await getFormEntry(entryId);
-      setFormDefinitionId(entry.form_definition_id);
-      setProcessInstanceId(entry.process_instance_id);
-      setLegalEntityId(entry.legal_entity_id);
-      try {
-        const parsed = JSON.parse(entry.data || '{}');
-        if (parsed.formState) setFormState(parsed.formState);
-        setData(parsed);
-      } catch { setData({}); }
-      setActiveTab('preview');
-    } catch (e) { console.error(e); alert('Failed to fetch entry.'); }
+    let entry: FormEntry;
+    try { entry = await getFormEntry(entryId); }
+    catch (e) { console.error(e); alert('Failed to fetch entry.'); return; }
+    await openEntry(entry);
   };
 
   return (
@@ -405,21 +801,24 @@ export default function App() {
         /* Tabs + state */
         activeTab={activeTab}
         onTabChange={setActiveTab}
-        states={STATES}
+        states={states}
         formState={formState}
         onFormStateChange={setFormState}
+        stateLocked={stateLocked}
+        roles={roles}
+        previewRole={previewRole}
+        onPreviewRoleChange={setPreviewRole}
 
         /* Definition create + direct fetch (Form + API) */
         defName={defName}
         defVersion={defVersion}
-        defActive={defActive}
+        defStatus={defStatus}
         onDefNameChange={setDefName}
-        onDefVersionChange={setDefVersion}
-        onDefActiveChange={setDefActive}
         onCreateDefinition={createDefinitionFromEditor}
         formDefinitionId={formDefinitionId}
         onFormDefinitionIdChange={setFormDefinitionId}
         onFetchDefinition={fetchDefinitionById}
+        onShowHistory={() => setShowHistory(true)}
 
         /* Lists/selectors shared (Data + API) */
         legalEntities={legalEntities}
@@ -434,6 +833,9 @@ export default function App() {
         entryId={entryId}
         onEntryIdChange={setEntryId}
         onLoadEntry={loadEntryById}
+        openEntryId={openEntryId}
+        onNewEntry={() => { setOpenEntryId(''); setRevisionCompare(null); }}
+        onShowRevisions={() => setShowRevisions(true)}
 
         /* IDs for POSTs */
         taskDefinitionId={taskDefinitionId}
@@ -475,33 +877,168 @@ export default function App() {
         onOpenInstance={openInstance}
 
         apiBase={API_BASE}
+        draftStatus={describeAutosave(draftStatus)}
+        onDraftStatusClick={draftStatus.conflict ? () => setDraftPrompt({ drafts: [draftStatus.conflict!], mode: 'conflict' }) : undefined}
+      />
+      <RenameBanner
+        renames={pendingRenames}
+        formDefinitionId={formDefinitionId || null}
+        onMigrate={() => setShowRenameMigration(true)}
+        onDismiss={() => setPendingRenames([])}
       />
+      <SchemaLintBanner issues={lintIssues} />
 
       <div style={{ flex: 1 }}>
         <div style={{ display: activeTab === 'editor' ? 'block' : 'none', height: '100%', width: '100%' }}>
-          <EditorPane ref={editorRef} schema={schema} onSchemaChange={setSchema} style={{ height: '100%' }} />
+          <EditorPane ref={editorRef} schema={schema} onSchemaChange={onEditorSchemaChange} style={{ height: '100%' }} />
         </div>
 
-        <div style={{ display: activeTab === 'preview' ? 'block' : 'none', height: '100%', width: '100%' }}>
+        <div style={{ display: activeTab === 'preview' ? 'flex' : 'none', flexDirection: 'column', height: '100%', width: '100%' }}>
+          {revisionCompare && (
+            <RevisionCompareBar
+              from={revisionCompare.from}
+              to={revisionCompare.to}
+              changes={revisionCompare.changes}
+              stateLabels={stateLabels}
+              onExit={() => setRevisionCompare(null)}
+            />
+          )}
+          {stateLocked && !revisionCompare && (
+            <TransitionBar
+              currentLabel={states.find(s => s.id === formState)?.label ?? formState}
+              transitions={transitions}
+              onAdvance={advanceTo}
+              busy={transitionBusy}
+              error={transitionError}
+            />
+          )}
           <ViewerPane
             ref={viewerRef}
-            schema={enriched}
-            data={{ ...data, formState }}
-            readOnly={readOnly}
-            onDataChange={setData}
-            style={{ height: '100%' }}
+            schema={compareSchema ?? enriched}
+            data={revisionCompare ? { ...revisionCompare.to.data, formState } : { ...data, formState }}
+            readOnly={readOnly || !!revisionCompare}
+            onDataChange={revisionCompare ? undefined : onViewerDataChange}
+            style={{ flex: 1, minHeight: 0, overflow: 'auto' }}
           />
         </div>
 
+        {ioSource === 'api' && entriesOpened && (
+          <div style={{ display: activeTab === 'entries' ? 'block' : 'none', height: '100%', width: '100%' }}>
+            <EntriesBrowser
+              formName={defName}
+              schema={schema}
+              formDefinitionId={formDefinitionId}
+              legalEntities={legalEntities}
+              instances={instances}
+              states={states}
+              onOpen={openEntry}
+            />
+          </div>
+        )}
+
         <div style={{ display: activeTab === 'matrix' ? 'block' : 'none', height: '100%', width: '100%' }}>
           <BehaviorMatrix
             schema={schema}
-            states={STATES.map(s => s.id)}
+            states={stateIds}
+            stateLabels={stateLabels}
+            roles={roles}
             value={matrix}
             onChange={setMatrix}
           />
         </div>
       </div>
+
+      {showHistory && (
+        <VersionHistoryModal
+          name={defName}
+          currentId={formDefinitionId}
+          stateLabels={stateLabels}
+          onClose={() => setShowHistory(false)}
+          onRestore={restoreVersion}
+          onStatusChange={(row) => { if (row.id === formDefinitionId) setDefStatus(statusOf(row)); }}
+          actor={actor}
+        />
+      )}
+      {defConflict && (
+        <DefinitionConflictModal
+          conflict={defConflict.error}
+          mine={defConflict.mine}
+          busy={conflictBusy}
+          onKeepMine={() => publishOverConflict(defConflict.mine, false)}
+          onTakeTheirs={() => takeTheirVersion(defConflict.error.theirs)}
+          onPublishMerged={(merged) => publishOverConflict(merged, true)}
+          onClose={() => setDefConflict(null)}
+        />
+      )}
+      {draftPrompt && promptDrafts.length > 0 && (
+        <ResumeDraftModal
+          drafts={promptDrafts}
+          entrySavedAt={draftPrompt.entrySavedAt}
+          mode={draftPrompt.mode}
+          currentData={data}
+          stateLabels={stateLabels}
+          onResume={(d) => {
+            setDraftPrompt(null);
+            autosaver.adopt(d);
+            setData(d.data);
+            autosaver.schedule(formState, d.data);
+            setTopMode('data');
+            setActiveTab('preview');
+          }}
+          onDiscard={() => { setDraftPrompt(null); autosaver.clear(); }}
+          onClose={() => {
+            const prompt = draftPrompt;
+            setDraftPrompt(null);
+            if (prompt.mode === 'conflict') { autosaver.overrideConflict(); return; }
+            // decided against them: later autosaves replace the server draft instead of clashing with it
+            const server = prompt.drafts.find(d => d.source === 'server');
+            if (server) autosaver.adopt(server);
+          }}
+        />
+      )}
+      {showRevisions && openEntryId && (
+        <EntryRevisionsModal
+          entryId={openEntryId}
+          stateLabels={stateLabels}
+          onClose={() => setShowRevisions(false)}
+          onCompare={(from, to) => {
+            setShowRevisions(false);
+            setRevisionCompare({ from, to, changes: diffEntryData(from.data, to.data) });
+            setActiveTab('preview');
+          }}
+        />
+      )}
+      {entryMigration && (
+        <EntryMigrationModal
+          plan={entryMigration}
+          onClose={() => setEntryMigration(null)}
+          onKeep={async () => {
+            const plan = entryMigration;
+            setEntryMigration(null);
+            await showFormVersion(plan.from.row);
+            showEntryData(plan.before);
+          }}
+          onMigrated={async (migrated, saved) => {
+            const plan = entryMigration;
+            setEntryMigration(null);
+            // unsaved previews stay pinned to the captured version until they are saved
+            if (saved) {
+              setFormDefinitionId(plan.to.id);
+              recordEntryRevision(plan.entry.id, formState, actor).catch(e => console.warn('Recording the migration revision failed:', e));
+            }
+            await showFormVersion(plan.to.row);
+            showEntryData(migrated);
+          }}
+        />
+      )}
+      {showRenameMigration && formDefinitionId && (
+        <RenameMigrationModal
+          formDefinitionId={formDefinitionId}
+          renames={pendingRenames}
+          onClose={() => setShowRenameMigration(false)}
+          onDone={({ failed }) => { if (!failed) setPendingRenames([]); }}
+        />
+      )}
     </div>
   );
 }
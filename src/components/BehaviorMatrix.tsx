@@ -1,10 +1,27 @@
 import React from 'react';
-import { BehaviorMatrixValue, FieldCell, CellMode } from '../core/types';
-import { extractFields } from '../core/schema'; // ← changed import
+import { BehaviorMatrixValue, FieldCell, CellMode, RoleCell } from '../core/types';
+import { extractFields, FieldMeta } from '../core/schema'; // ← changed import
+import { cellForRole, clearRoleOverride, hasRoleOverride, patchCellForRole } from '../core/roles';
+import { parentIndex, resolveInherited } from '../core/inheritance';
+import { cleanupMatrix, initialCell, reconcileMatrix } from '../core/reconcile';
+import { copyColumn, modePatch, patchCells, patchColumn, patchRow, setCellAt } from '../core/matrixOps';
+import CellRulesPanel from './matrix/CellRulesPanel';
+import MatrixToolbar from './matrix/MatrixToolbar';
+import MatrixFilterBar from './matrix/MatrixFilterBar';
+import ReconcilePanel from './matrix/ReconcilePanel';
+import { EMPTY_FILTER, MatrixFilter, isFilterActive, viewFields } from '../core/matrixView';
+import BulkSelect from './matrix/BulkSelect';
+import { useMatrixHistory } from './matrix/useMatrixHistory';
+import { useVirtualGrid } from './matrix/useVirtualGrid';
+import { http, isAbortError } from '../core/http';
 
 export interface BehaviorMatrixProps {
   schema: any;
   states: string[];
+  /** Optional display labels for state columns (keyed by state id). */
+  stateLabels?: Record<string, string>;
+  /** Role names for per-role overrides; without roles only the default is editable. */
+  roles?: string[];
   value: BehaviorMatrixValue;
   onChange: (next: BehaviorMatrixValue) => void;
 
@@ -23,24 +40,44 @@ const cellLabel: Record<CellMode, string> = {
   editable: 'Editable'
 };
 
-const DEFAULT_CELL: FieldCell = { mode: 'hidden', required: false };
+
+// fixed geometry for row/column virtualization (rows are measured, columns are not)
+const FIELD_COL_WIDTH = 300;
+const STATE_COL_WIDTH = 240;
+const ROW_HEIGHT_ESTIMATE = 120;
+const HEADER_HEIGHT = 64;
+
+type CellRef = { field: string; state: string };
+
+// clicks on these start a normal interaction, not a range selection
+const isControl = (el: EventTarget | null) =>
+  el instanceof Element && !!el.closest('input, select, button, label, textarea, a');
 
 function safeParse<T = any>(s: string | undefined | null): T | undefined {
   if (typeof s !== 'string') return undefined;
   try { return JSON.parse(s) as T; } catch { return undefined; }
 }
 
+// Containers and anything inside one start out following their parent;
+// top-level fields start hidden as before.
+// Copy-on-write: complete rows (and a complete matrix) are returned as-is.
 function ensureAllCells(
   matrix: BehaviorMatrixValue,
-  fieldKeys: string[],
+  fields: FieldMeta[],
   states: string[]
 ): BehaviorMatrixValue {
-  const out: BehaviorMatrixValue = JSON.parse(JSON.stringify(matrix || {}));
-  for (const fk of fieldKeys) {
-    out[fk] = out[fk] || {};
+  const src = matrix || {};
+  let out = src;
+  for (const f of fields) {
+    const fk = f.key;
+    const row = src[fk];
+    if (row && states.every(st => row[st])) continue;
+    const filled = { ...(row || {}) };
     for (const st of states) {
-      out[fk][st] = out[fk][st] || { ...DEFAULT_CELL };
+      filled[st] = filled[st] || initialCell(f);
     }
+    if (out === src) out = { ...src };
+    out[fk] = filled;
   }
   return out;
 }
@@ -54,12 +91,9 @@ function overlayMatrixSourceWins(
   target: BehaviorMatrixValue,
   source: BehaviorMatrixValue
 ): BehaviorMatrixValue {
-  const out: BehaviorMatrixValue = JSON.parse(JSON.stringify(target || {}));
+  const out: BehaviorMatrixValue = { ...(target || {}) };
   for (const fk of Object.keys(source || {})) {
-    out[fk] = out[fk] || {};
-    for (const st of Object.keys(source[fk] || {})) {
-      out[fk][st] = source[fk][st];
-    }
+    out[fk] = { ...(out[fk] || {}), ...(source[fk] || {}) };
   }
   return out;
 }
@@ -67,32 +101,142 @@ function overlayMatrixSourceWins(
 export default function BehaviorMatrix({
   schema,
   states,
+  stateLabels,
+  roles = [],
   value,
   onChange,
   loadFromAPI
 }: BehaviorMatrixProps) {
-  // Now we get {key,label,type}
+  // Now we get {key,label,type,parent,depth,container} in schema order
   const fields = React.useMemo(
     () => extractFields(schema?.components || []),
     [schema]
   );
+  const parents = React.useMemo(() => parentIndex(fields), [fields]);
+  const labelOf = (key: string) => fields.find(f => f.key === key)?.label || key;
 
-  // ensure all fields×states exist in the matrix (still keyed by .key)
+  // ensure all fields×states exist in the matrix (keyed by rule key, see ruleKeyFor)
   const safeValue: BehaviorMatrixValue = React.useMemo(() => {
-    const fieldKeys = fields.map(f => f.key);
-    return ensureAllCells(value || {}, fieldKeys, states);
+    return ensureAllCells(value || {}, fields, states);
   }, [fields, states, value]);
 
+  // '' edits the default for everyone; a role name edits that role's override
+  const [editRole, setEditRole] = React.useState<string>('');
+  React.useEffect(() => {
+    if (editRole && !roles.includes(editRole)) setEditRole('');
+  }, [roles, editRole]);
+
+  // collapsed containers; their descendants are not rendered
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(() => new Set());
+  const toggleCollapsed = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  // search / mode filter / layout
+  const [filter, setFilter] = React.useState<MatrixFilter>(EMPTY_FILTER);
+  React.useEffect(() => {
+    if (filter.state && !states.includes(filter.state)) setFilter(f => ({ ...f, state: '' }));
+  }, [states, filter.state]);
+  const tree = filter.layout === 'tree';
+
+  const visibleFields = React.useMemo(() => {
+    const rows = viewFields(fields, safeValue, parents, filter, states, editRole);
+    // collapsing only applies to the unfiltered tree; a search shows every match
+    if (!tree || isFilterActive(filter)) return rows;
+    return rows.filter(f => {
+      for (let p = f.parent; p; p = parents.get(p)) {
+        if (collapsed.has(p)) return false;
+      }
+      return true;
+    });
+  }, [fields, safeValue, parents, filter, states, editRole, tree, collapsed]);
+
+  // every edit goes through the history so it can be undone
+  const history = useMatrixHistory(safeValue, onChange);
+  const resetHistory = history.reset;
+  React.useEffect(() => { resetHistory(); }, [loadFromAPI?.formId, resetHistory]);
+
   const setCell = (fieldKey: string, state: string, patch: Partial<FieldCell>) => {
-    const next: BehaviorMatrixValue = JSON.parse(JSON.stringify(safeValue));
-    const cur = next[fieldKey][state];
-    next[fieldKey][state] = {
-      mode: patch.mode ?? cur.mode,
-      required: patch.required ?? cur.required
+    const cur = safeValue[fieldKey][state];
+    history.commit(setCellAt(safeValue, fieldKey, state, patchCellForRole(cur, editRole, patch)));
+  };
+
+  const resetRoleOverride = (fieldKey: string, state: string) => {
+    history.commit(setCellAt(safeValue, fieldKey, state, clearRoleOverride(safeValue[fieldKey][state], editRole)));
+  };
+
+  // stored matrix (not safeValue) vs. schema and states
+  const report = React.useMemo(() => reconcileMatrix(value || {}, fields, states), [value, fields, states]);
+  const cleanup = () => history.commit(cleanupMatrix(value || {}, fields, states));
+
+  // ---------- bulk edits ----------
+  const setColumn = (state: string, patch: Partial<RoleCell>) =>
+    history.commit(patchColumn(safeValue, fields, state, patch, editRole));
+  const setRow = (fieldKey: string, patch: Partial<RoleCell>) =>
+    history.commit(patchRow(safeValue, fieldKey, states, patch, editRole));
+  const copyState = (from: string, to: string) => {
+    const label = (s: string) => stateLabels?.[s] ?? s;
+    if (!window.confirm(`Replace every "${label(to)}" cell with the "${label(from)}" settings?`)) return;
+    history.commit(copyColumn(safeValue, from, to));
+  };
+
+  // rectangular range over the visible rows × state columns (drag, or click + shift-click)
+  const [range, setRange] = React.useState<{ anchor: CellRef; focus: CellRef } | null>(null);
+  const draggingRef = React.useRef(false);
+  React.useEffect(() => {
+    const stop = () => { draggingRef.current = false; };
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, []);
+
+  const rangeCells = React.useMemo(() => {
+    if (!range) return null;
+    const rows = [range.anchor.field, range.focus.field].map(k => visibleFields.findIndex(f => f.key === k));
+    const cols = [range.anchor.state, range.focus.state].map(st => states.indexOf(st));
+    if (rows.includes(-1) || cols.includes(-1)) return null;
+    const [r0, r1] = [Math.min(...rows), Math.max(...rows)];
+    const [c0, c1] = [Math.min(...cols), Math.max(...cols)];
+    return {
+      keys: visibleFields.slice(r0, r1 + 1).map(f => f.key),
+      states: states.slice(c0, c1 + 1)
     };
-    onChange(next);
+  }, [range, visibleFields, states]);
+  const rangeSize = rangeCells ? rangeCells.keys.length * rangeCells.states.length : 0;
+  const inRange = (field: string, state: string) =>
+    !!rangeCells && rangeCells.keys.includes(field) && rangeCells.states.includes(state);
+
+  const onCellMouseDown = (e: React.MouseEvent, at: CellRef) => {
+    if (isControl(e.target)) return;
+    e.preventDefault();
+    draggingRef.current = true;
+    setRange(r => (e.shiftKey && r ? { anchor: r.anchor, focus: at } : { anchor: at, focus: at }));
+  };
+  const onCellMouseEnter = (at: CellRef) => {
+    if (draggingRef.current) setRange(r => (r ? { anchor: r.anchor, focus: at } : r));
+  };
+  const patchRange = (patch: Partial<RoleCell>) => {
+    if (!rangeCells) return;
+    history.commit(patchCells(safeValue, rangeCells.keys, rangeCells.states, modePatch(patch), editRole));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const t = e.target as HTMLElement;
+    const typing = t.tagName === 'TEXTAREA' || (t.tagName === 'INPUT' && !['radio', 'checkbox'].includes((t as HTMLInputElement).type));
+    if (e.key === 'Escape') { setRange(null); return; }
+    if (typing || !(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) { e.preventDefault(); history.undo(); }
+    else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); history.redo(); }
   };
 
+  // cell whose extra rules (condition, ...) are open in the side panel
+  const [selected, setSelected] = React.useState<{ field: string; state: string } | null>(null);
+  const selectedField = selected ? fields.find(f => f.key === selected.field) : undefined;
+
   // Keep refs to latest value and callback
   const latestValueRef = React.useRef<BehaviorMatrixValue>(value);
   React.useEffect(() => { latestValueRef.current = value; }, [value]);
@@ -125,34 +269,18 @@ export default function BehaviorMatrix({
     const ac = new AbortController();
 
     (async () => {
-      const url = `${loadFromAPI.apiBase.replace(/\/+$/, '')}/form_definition/${encodeURIComponent(loadFromAPI.formId)}`;
-      // eslint-disable-next-line no-console
-      console.groupCollapsed('[BehaviorMatrix] loadFromAPI');
-      console.log('GET', url);
-
+      const client = http.withBase(loadFromAPI.apiBase);
+      const path = `/form_definition/${encodeURIComponent(loadFromAPI.formId)}`;
       try {
-        const res = await fetch(url, { method: 'GET', signal: ac.signal });
-        console.log('HTTP', res.status, res.statusText);
-
-        if (!res.ok) {
-          console.warn('[BehaviorMatrix] GET form_definition failed:', res.status, res.statusText);
-          console.groupEnd();
-          return;
-        }
-        const ct = res.headers.get('content-type') || '';
-        const body: any = ct.includes('application/json') ? await res.json() : {};
-        console.log('body.keys', Object.keys(body || {}));
+        const body: any = (await client.get(path, { signal: ac.signal })) || {};
 
         let loaded: unknown =
           body?.field_state_setting ??
           body?.fields_state_setting ??
           body?.field_states_setting;
 
-        console.log('raw field_state_setting type:', typeof loaded);
-
         if (typeof loaded === 'string') {
           loaded = safeParse<BehaviorMatrixValue>(loaded);
-          console.log('parsed field_state_setting is object?', !!loaded && typeof loaded === 'object');
         }
 
         if (loaded && typeof loaded === 'object') {
@@ -160,10 +288,7 @@ export default function BehaviorMatrix({
           const before = latestValueRef.current || {};
           const overlaid = overlayMatrixSourceWins(before, serverMatrix);
 
-          const fieldKeys = fields.map(f => f.key);
-          const complete = ensureAllCells(overlaid, fieldKeys, states);
-
-          console.log('after complete fields:', Object.keys(complete).length);
+          const complete = ensureAllCells(overlaid, fields, states);
 
           // ✅ only emit if actually changed
           const prev = lastEmittedRef.current;
@@ -171,18 +296,14 @@ export default function BehaviorMatrix({
           if (changed) {
             latestOnChangeRef.current(complete);
             lastEmittedRef.current = complete;
-          } else {
-            console.debug('[BehaviorMatrix] matrix unchanged, skip emit');
           }
         } else {
           console.warn('[BehaviorMatrix] No usable field_state_setting on response.');
         }
       } catch (e: any) {
-        if (e?.name !== 'AbortError') {
+        if (!isAbortError(e)) {
           console.warn('[BehaviorMatrix] loadFromAPI error:', e?.message || e);
         }
-      } finally {
-        console.groupEnd();
       }
     })();
 
@@ -194,6 +315,21 @@ export default function BehaviorMatrix({
     states
   ]);
 
+  // ---------- virtualization: only the rows/columns in view are rendered ----------
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const rowKeys = React.useMemo(() => visibleFields.map(f => f.key), [visibleFields]);
+  const { rows, cols, measure } = useVirtualGrid(scrollRef, {
+    rowKeys,
+    estimateRowHeight: ROW_HEIGHT_ESTIMATE,
+    colCount: states.length,
+    colWidth: STATE_COL_WIDTH,
+    fixedLeft: FIELD_COL_WIDTH,
+    fixedTop: HEADER_HEIGHT
+  });
+  const shownFields = visibleFields.slice(rows.start, rows.end);
+  const shownStates = states.slice(cols.start, cols.end);
+  const spanAll = 1 + shownStates.length + (cols.before > 0 ? 1 : 0) + (cols.after > 0 ? 1 : 0);
+
   const headerStyle: React.CSSProperties = {
     position: 'sticky',
     top: 0,
@@ -203,10 +339,20 @@ export default function BehaviorMatrix({
   };
 
   const tableStyle: React.CSSProperties = {
-    width: '100%',
+    width: FIELD_COL_WIDTH + states.length * STATE_COL_WIDTH,
+    minWidth: '100%',
+    tableLayout: 'fixed',
     borderCollapse: 'collapse'
   };
 
+  // the field column stays put while scrolling sideways
+  const stickyLeft: React.CSSProperties = {
+    position: 'sticky',
+    left: 0,
+    background: '#fff',
+    zIndex: 1
+  };
+
   const thtd: React.CSSProperties = {
     border: '1px solid #e5e5e5',
     padding: 8,
@@ -225,79 +371,222 @@ export default function BehaviorMatrix({
     flexWrap: 'wrap'
   };
 
-  // Optional: sort by label
-  const sorted = React.useMemo(
-    () => [...fields].sort((a, b) => (a.label || a.key).localeCompare(b.label || b.key)),
-    [fields]
-  );
-
   return (
-    <div style={{ height: '100%', overflow: 'auto' }}>
-      <table style={tableStyle}>
-        <thead>
-          <tr>
-            <th style={{ ...thtd, ...headerStyle, width: 300, textAlign: 'left' }}>
-              Field (Label • Key)
-            </th>
-            {states.map((s) => (
-              <th key={s} style={{ ...thtd, ...headerStyle, textAlign: 'center' }}>{s}</th>
-            ))}
-          </tr>
-        </thead>
-        <tbody>
-          {sorted.map((f) => (
-            <tr key={f.key}>
-              <td style={thtd}>
-                <div style={{ display: 'grid', gap: 4 }}>
-                  <div style={{ fontWeight: 600 }}>{f.label || f.key}</div>
-                  <div style={{ opacity: 0.7 }}>
-                    <code>{f.key}</code>
-                    {f.type ? <span style={{ marginLeft: 8, fontSize: 12, opacity: 0.7 }}>({f.type})</span> : null}
-                  </div>
-                </div>
-              </td>
-
-              {states.map((s) => {
-                const cell = safeValue[f.key][s];
-                const editable = cell.mode === 'editable';
-                return (
-                  <td key={s} style={thtd}>
-                    <div style={cellWrap}>
-                      <div style={radiosRow}>
-                        {(['hidden','readonly','editable'] as CellMode[]).map((m) => (
-                          <label key={m} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-                            <input
-                              type="radio"
-                              name={`${f.key}__${s}`}
-                              checked={cell.mode === m}
-                              onChange={() => setCell(f.key, s, { mode: m })}
-                            />
-                            <span>{cellLabel[m]}</span>
-                          </label>
-                        ))}
-                      </div>
-                      <label style={{ display: 'flex', alignItems: 'center', gap: 6, opacity: editable ? 1 : 0.4 }}>
-                        <input
-                          type="checkbox"
-                          disabled={!editable}
-                          checked={cell.required}
-                          onChange={(e) => setCell(f.key, s, { required: e.target.checked })}
+    <div style={{ height: '100%', display: 'flex' }} onKeyDown={onKeyDown}>
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+        <MatrixToolbar
+          roles={roles}
+          editRole={editRole}
+          onEditRoleChange={setEditRole}
+          states={states}
+          stateLabels={stateLabels}
+          onCopyColumn={copyState}
+          canUndo={history.canUndo}
+          canRedo={history.canRedo}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          rangeSize={rangeSize}
+          onRangePatch={patchRange}
+          onClearRange={() => setRange(null)}
+        />
+        <MatrixFilterBar
+          filter={filter}
+          onChange={setFilter}
+          states={states}
+          stateLabels={stateLabels}
+          shown={visibleFields.length}
+          total={fields.length}
+        />
+        <ReconcilePanel report={report} stateLabels={stateLabels} onCleanup={cleanup} />
+        <div ref={scrollRef} style={{ flex: 1, overflow: 'auto' }}>
+          <table style={tableStyle}>
+            <colgroup>
+              <col style={{ width: FIELD_COL_WIDTH }} />
+              {cols.before > 0 && <col style={{ width: cols.before }} />}
+              {shownStates.map(s => <col key={s} style={{ width: STATE_COL_WIDTH }} />)}
+              {cols.after > 0 && <col style={{ width: cols.after }} />}
+            </colgroup>
+            <thead>
+              <tr>
+                <th style={{ ...thtd, ...headerStyle, ...stickyLeft, zIndex: 2, background: '#fafafa', textAlign: 'left' }}>
+                  Field (Label • Key)
+                </th>
+                {cols.before > 0 && <th style={{ ...headerStyle, padding: 0 }} />}
+                {shownStates.map((s) => (
+                  <th key={s} style={{ ...thtd, ...headerStyle, textAlign: 'center' }} title={s}>
+                    <div style={{ display: 'grid', gap: 4, justifyItems: 'center' }}>
+                      {stateLabels?.[s] ?? s}
+                      <BulkSelect
+                        label="Set column…"
+                        title={`Set every field in ${stateLabels?.[s] ?? s}`}
+                        onApply={(patch) => setColumn(s, patch)}
+                      />
+                    </div>
+                  </th>
+                ))}
+                {cols.after > 0 && <th style={{ ...headerStyle, padding: 0 }} />}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.before > 0 && <tr aria-hidden style={{ height: rows.before }}><td colSpan={spanAll} /></tr>}
+              {shownFields.map((f) => (
+                <tr key={f.key} ref={measure(f.key)} style={f.container ? { background: '#fbfbfb' } : undefined}>
+                  <td style={{ ...thtd, ...stickyLeft, ...(f.container ? { background: '#fbfbfb' } : null) }}>
+                    <div style={{ display: 'flex', gap: 6, alignItems: 'flex-start', paddingLeft: tree ? (f.depth || 0) * 16 : 0 }}>
+                      {f.container && tree && !isFilterActive(filter) ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleCollapsed(f.key)}
+                          aria-expanded={!collapsed.has(f.key)}
+                          aria-label={`${collapsed.has(f.key) ? 'Expand' : 'Collapse'} ${f.label || f.key}`}
+                          style={{ border: 'none', background: 'transparent', cursor: 'pointer', padding: 0, width: 16 }}
+                        >
+                          {collapsed.has(f.key) ? '▸' : '▾'}
+                        </button>
+                      ) : (
+                        <span style={{ width: 16 }} />
+                      )}
+                      <div style={{ display: 'grid', gap: 4 }}>
+                        <div style={{ fontWeight: 600 }}>{f.label || f.key}</div>
+                        <div style={{ opacity: 0.7 }}>
+                          <code>{f.key}</code>
+                          {f.type ? <span style={{ marginLeft: 8, fontSize: 12, opacity: 0.7 }}>({f.type})</span> : null}
+                        </div>
+                        <BulkSelect
+                          label="Set row…"
+                          title={`Set ${f.label || f.key} in every state`}
+                          onApply={(patch) => setRow(f.key, patch)}
                         />
-                        Required
-                      </label>
+                      </div>
                     </div>
                   </td>
-                );
-              })}
-            </tr>
-          ))}
-        </tbody>
-      </table>
-
-      {fields.length === 0 && (
-        <div style={{ padding: 12, color: '#666' }}>
-          No input fields found in the current form schema. Add components with a <code>key</code> in the Editor tab.
+                  {cols.before > 0 && <td style={{ padding: 0 }} />}
+
+                  {shownStates.map((s) => {
+                    const stored = safeValue[f.key][s];
+                    const own = cellForRole(stored, editRole);
+                    // inheriting cells show the mode their container resolves to
+                    const inherited = own.inherit ? resolveInherited(safeValue, parents, f.key, s, editRole) : null;
+                    const cell = inherited ? { ...own, mode: inherited.mode } : own;
+                    const canInherit = !!f.parent || !!f.container;
+                    const editable = cell.mode === 'editable';
+                    const overridden = hasRoleOverride(stored, editRole);
+                    const overrideRoles = Object.keys(stored.roles || {});
+                    const isSelected = selected?.field === f.key && selected?.state === s;
+                    return (
+                      <td
+                        key={s}
+                        onMouseDown={(e) => onCellMouseDown(e, { field: f.key, state: s })}
+                        onMouseEnter={() => onCellMouseEnter({ field: f.key, state: s })}
+                        style={{
+                          ...thtd,
+                          ...(isSelected ? { background: '#f3f7ff' } : null),
+                          ...(inRange(f.key, s) ? { background: '#e3ecff', boxShadow: 'inset 0 0 0 1px #0b5fff' } : null),
+                          userSelect: 'none'
+                        }}
+                      >
+                        <div style={cellWrap}>
+                          {canInherit && (
+                            <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+                              <input
+                                type="checkbox"
+                                checked={!!own.inherit}
+                                onChange={(e) => setCell(f.key, s, e.target.checked
+                                  ? { inherit: true }
+                                  : { inherit: undefined, mode: cell.mode })}
+                              />
+                              {f.parent ? 'Inherit' : 'No group rule'}
+                            </label>
+                          )}
+                          <div style={{ ...radiosRow, opacity: own.inherit ? 0.5 : 1 }}>
+                            {(['hidden','readonly','editable'] as CellMode[]).map((m) => (
+                              <label key={m} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                                <input
+                                  type="radio"
+                                  name={`${f.key}__${s}`}
+                                  checked={own.inherit ? !!inherited && cell.mode === m : cell.mode === m}
+                                  onChange={() => setCell(f.key, s, { mode: m, inherit: undefined })}
+                                />
+                                <span>{cellLabel[m]}</span>
+                              </label>
+                            ))}
+                          </div>
+                          <label style={{ display: 'flex', alignItems: 'center', gap: 6, opacity: editable ? 1 : 0.4 }}>
+                            <input
+                              type="checkbox"
+                              disabled={!editable}
+                              checked={cell.required}
+                              onChange={(e) => setCell(f.key, s, { required: e.target.checked })}
+                            />
+                            Required
+                          </label>
+                          {own.inherit && (
+                            <div style={{ fontSize: 12, color: '#0f766e' }}>
+                              {inherited
+                                ? <>inherited from {labelOf(inherited.from)}</>
+                                : f.container ? 'children use their own rules' : 'no container rule; schema defaults apply'}
+                            </div>
+                          )}
+                          {!own.inherit && (
+                            <button
+                              type="button"
+                              onClick={() => setSelected(isSelected ? null : { field: f.key, state: s })}
+                              title={cell.condition ? `Only when ${cell.condition}` : 'Add a data condition or validation'}
+                              style={{ justifySelf: 'start', fontSize: 12, border: 'none', background: 'transparent', color: '#0b5fff', cursor: 'pointer', padding: 0 }}
+                            >
+                              {cell.condition ? <>if <code>{cell.condition}</code></> : cell.validate ? 'Rules… (validation)' : 'Rules…'}
+                              {cell.lock ? ' 🔒' : ''}{cell.defaultValue ? ' • default' : ''}
+                            </button>
+                          )}
+                          {editRole && overridden && (
+                            <div style={{ fontSize: 12, display: 'flex', gap: 6, alignItems: 'center' }}>
+                              <span style={{ color: '#9a3412' }}>override for {editRole}</span>
+                              <button
+                                type="button"
+                                onClick={() => resetRoleOverride(f.key, s)}
+                                style={{ fontSize: 12, border: 'none', background: 'transparent', color: '#0b5fff', cursor: 'pointer', padding: 0 }}
+                              >
+                                reset
+                              </button>
+                            </div>
+                          )}
+                          {!editRole && overrideRoles.length > 0 && (
+                            <div style={{ fontSize: 12, color: '#9a3412' }} title={overrideRoles.join(', ')}>
+                              {overrideRoles.length} role override{overrideRoles.length > 1 ? 's' : ''}
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    );
+                  })}
+                  {cols.after > 0 && <td style={{ padding: 0 }} />}
+                </tr>
+              ))}
+              {rows.after > 0 && <tr aria-hidden style={{ height: rows.after }}><td colSpan={spanAll} /></tr>}
+            </tbody>
+          </table>
+
+          {fields.length > 0 && visibleFields.length === 0 && (
+            <div style={{ padding: 12, color: '#666' }}>No fields match the current filters.</div>
+          )}
+
+          {fields.length === 0 && (
+            <div style={{ padding: 12, color: '#666' }}>
+              No input fields found in the current form schema. Add components with a <code>key</code> in the Editor tab.
+            </div>
+          )}
         </div>
+      </div>
+
+      {selected && selectedField && safeValue[selected.field]?.[selected.state] && (
+        <CellRulesPanel
+          fieldLabel={selectedField.label || selectedField.key}
+          fieldKey={selectedField.key}
+          stateLabel={`${stateLabels?.[selected.state] ?? selected.state}${editRole ? ` • ${editRole}` : ''}`}
+          cell={cellForRole(safeValue[selected.field][selected.state], editRole)}
+          onPatch={(patch) => setCell(selected.field, selected.state, patch)}
+          onClose={() => setSelected(null)}
+        />
       )}
     </div>
   );
@@ -1,6 +1,8 @@
 import * as React from 'react';
+import type { FormStatus } from '../core/lifecycle';
+import StatusBadge from './StatusBadge';
 
-type Tab = 'editor' | 'preview' | 'matrix';
+type Tab = 'editor' | 'preview' | 'matrix' | 'entries';
 type StateOpt = { id: string; label: string };
 type FindMode = 'byEntity' | 'byProcess';
 type TopMode = 'form' | 'data';
@@ -24,18 +26,25 @@ type CommandBarProps = {
   formState: string;
   onFormStateChange: (v: string) => void;
 
+  // preview as role ('' = default behavior for everyone)
+  roles?: string[];
+  previewRole?: string;
+  onPreviewRoleChange?: (v: string) => void;
+  /** true while a process instance is open: the state then only moves via transitions */
+  stateLocked?: boolean;
+
   // definition: create + fetch (Form + API)
   defName: string;
   defVersion: number;
-  defActive: boolean;
+  /** lifecycle status of the fetched/published definition (changed from History…) */
+  defStatus?: FormStatus;
   onDefNameChange: (v: string) => void;
-  onDefVersionChange: (v: number) => void;
-  onDefActiveChange: (v: boolean) => void;
   onCreateDefinition: () => void;
 
   formDefinitionId: string;
   onFormDefinitionIdChange: (v: string) => void;
   onFetchDefinition: () => void;
+  onShowHistory?: () => void;
 
   // shared lists (Data + API)
   legalEntities: Array<{ id: string; name?: string }>;
@@ -55,6 +64,10 @@ type CommandBarProps = {
   entryId: string;
   onEntryIdChange: (v: string) => void;
   onLoadEntry: () => void;
+  /** id of the entry open in the viewer: saving then updates it in place */
+  openEntryId?: string;
+  onNewEntry?: () => void;
+  onShowRevisions?: () => void;
 
   // file helpers
   onSaveSchema: () => void;
@@ -91,6 +104,9 @@ type CommandBarProps = {
 
   // optional display
   apiBase?: string;
+  /** autosave state of the entry being edited (core/drafts.ts) */
+  draftStatus?: string;
+  onDraftStatusClick?: () => void;
 };
 
 export default function CommandBar(props: CommandBarProps) {
@@ -101,19 +117,20 @@ export default function CommandBar(props: CommandBarProps) {
     ioSource, onIoSourceChange,
 
     activeTab, onTabChange,
-    states, formState, onFormStateChange,
+    states, formState, onFormStateChange, stateLocked,
+    roles = [], previewRole = '', onPreviewRoleChange,
 
-    defName, defVersion, defActive,
-    onDefNameChange, onDefVersionChange, onDefActiveChange, onCreateDefinition,
+    defName, defVersion, defStatus,
+    onDefNameChange, onCreateDefinition,
 
-    formDefinitionId, onFormDefinitionIdChange, onFetchDefinition,
+    formDefinitionId, onFormDefinitionIdChange, onFetchDefinition, onShowHistory,
 
     legalEntities, legalEntityId, onLegalEntityIdChange, onRefreshLegalEntities,
     instances, onRefreshInstances,
 
     taskDefinitionId, onTaskDefinitionIdChange, processInstanceId, onProcessInstanceIdChange,
 
-    entryId, onEntryIdChange, onLoadEntry,
+    entryId, onEntryIdChange, onLoadEntry, openEntryId, onNewEntry, onShowRevisions,
 
     onSaveSchema, onLoadSchema, onSaveDataFile, onLoadDataFile,
     onSubmit, onExportPDF, onPublishBehaviorsPost, onSaveEntryPost,
@@ -128,7 +145,7 @@ export default function CommandBar(props: CommandBarProps) {
     entitiesForProcess, onRefreshEntitiesForProcess,
     instancesForEntity, onOpenInstance,
 
-    apiBase
+    apiBase, draftStatus, onDraftStatusClick
   } = props;
 
   const schemaInputRef = React.useRef<HTMLInputElement>(null);
@@ -185,9 +202,30 @@ export default function CommandBar(props: CommandBarProps) {
 
         <div className="cb-right">
           <span className="cb-muted">State</span>
-          <select className="cb-select" value={formState} onChange={e=>onFormStateChange(e.target.value)}>
+          <select
+            className="cb-select"
+            value={formState}
+            onChange={e=>onFormStateChange(e.target.value)}
+            disabled={stateLocked}
+            title={stateLocked ? 'Use the transitions above the preview to move this process instance' : undefined}
+          >
             {states.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
           </select>
+          {onPreviewRoleChange && roles.length > 0 && (
+            <>
+              <span className="cb-muted">Preview as</span>
+              <select className="cb-select" value={previewRole} onChange={e=>onPreviewRoleChange(e.target.value)}>
+                <option value="">Any role</option>
+                {roles.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </>
+          )}
+          {draftStatus && (
+            <span className="cb-chip" role={onDraftStatusClick ? 'button' : undefined} onClick={onDraftStatusClick}
+              style={onDraftStatusClick ? { cursor: 'pointer', borderColor: '#f2d8a7', color: '#8a5a00' } : undefined}>
+              {draftStatus}
+            </span>
+          )}
           <span className="cb-chip">{isApi ? (apiBase || 'API') : 'File'}</span>
         </div>
       </div>
@@ -195,10 +233,10 @@ export default function CommandBar(props: CommandBarProps) {
       {/* Row 1: Tabs (Form usually uses Editor, Data uses Preview) */}
       <div className="cb-row">
         <div className="cb-tabs" role="tablist" aria-label="View">
-          {(['editor','preview','matrix'] as Tab[]).map(t => (
+          {(isApi ? ['editor','preview','matrix','entries'] : ['editor','preview','matrix'] as Tab[]).map(t => (
             <button key={t} role="tab" aria-selected={activeTab===t}
-              className={`cb-tab ${activeTab===t ? 'active' : ''}`} onClick={() => onTabChange(t)}>
-              {t === 'editor' ? 'Form Editor' : t === 'preview' ? 'Form Preview' : 'Behavior Matrix'}
+              className={`cb-tab ${activeTab===t ? 'active' : ''}`} onClick={() => onTabChange(t as Tab)}>
+              {t === 'editor' ? 'Form Editor' : t === 'preview' ? 'Form Preview' : t === 'matrix' ? 'Behavior Matrix' : 'Entries'}
             </button>
           ))}
         </div>
@@ -211,15 +249,14 @@ export default function CommandBar(props: CommandBarProps) {
             <div style={{ fontWeight: 600 }}>Definition (API)</div>
             <div className="cb-group">
               <input className="cb-input" value={defName} onChange={e=>onDefNameChange(e.target.value)} placeholder="name" />
-              <input className="cb-input" type="number" value={defVersion} onChange={e=>onDefVersionChange(Number(e.target.value))} placeholder="version" style={{ width: 100 }} />
-              <label style={{ display:'flex', alignItems:'center', gap:6 }}>
-                <input type="checkbox" checked={defActive} onChange={e=>onDefActiveChange(e.target.checked)} /> active
-              </label>
-              <button className="cb-btn primary" onClick={onCreateDefinition}>Create (POST /form_definition/)</button>
+              <input className="cb-input" type="number" value={defVersion} readOnly title="Assigned on publish: the next version of this name" placeholder="version" style={{ width: 100 }} />
+              {defStatus && <StatusBadge status={defStatus} />}
+              <button className="cb-btn primary" onClick={onCreateDefinition}>Publish version (POST /form_definition/)</button>
             </div>
             <div className="cb-group">
               <input className="cb-input" value={formDefinitionId} onChange={e=>onFormDefinitionIdChange(e.target.value)} placeholder="form_definition_id" />
               <button className="cb-btn" onClick={onFetchDefinition}>Fetch (GET /form_definition/{`{id}`})</button>
+              {onShowHistory && <button className="cb-btn" onClick={onShowHistory} disabled={!defName}>History…</button>}
             </div>
           </div>
         )}
@@ -286,7 +323,10 @@ export default function CommandBar(props: CommandBarProps) {
             <div className="cb-group">
               <span className="cb-muted">Process Instance</span>
               <input className="cb-input" value={processInstanceId} onChange={e=>onProcessInstanceIdChange(e.target.value)} placeholder="process_instance_id" />
-              <button className="cb-btn" onClick={onSaveEntryPost}>Save Entry (POST)</button>
+              <button className="cb-btn" onClick={onSaveEntryPost} title={openEntryId ? `Updates entry ${openEntryId} and records a revision` : undefined}>
+                {openEntryId ? 'Update Entry (PATCH)' : 'Save Entry (POST)'}
+              </button>
+              {openEntryId && onNewEntry && <button className="cb-btn" onClick={onNewEntry} title="Next save creates a new entry">New</button>}
             </div>
           </div>
         </div>
@@ -358,6 +398,7 @@ export default function CommandBar(props: CommandBarProps) {
             <div className="cb-group">
               <input className="cb-input" value={entryId} onChange={e=>onEntryIdChange(e.target.value)} placeholder="form_entry_id" />
               <button className="cb-btn" onClick={onLoadEntry}>Load (GET /form_entry/{`{id}`})</button>
+              {onShowRevisions && <button className="cb-btn" onClick={onShowRevisions} disabled={!openEntryId}>Revisions…</button>}
             </div>
             <div className="cb-group">
               <button className="cb-btn" onClick={onSubmit}>Validate</button>
@@ -0,0 +1,270 @@
+import * as React from 'react';
+import type { FormEntry } from '../core/api';
+import type { StateOption } from '../core/types';
+import {
+  EntryRow,
+  EntrySort,
+  META_COLUMNS,
+  entryColumnCandidates,
+  entryValue,
+  formatEntryValue,
+  isServerSort,
+  loadAllEntries,
+  loadEntryColumns,
+  queryEntries,
+  saveEntryColumns,
+  sortEntryRows
+} from '../core/entries';
+
+type Props = {
+  /** form_definition.name of the open form: column choices are remembered per name */
+  formName: string;
+  /** schema of the open form; its fields are the data columns on offer */
+  schema: any;
+  /** initial form definition filter; later changes are left to the operator (opening an entry changes it) */
+  formDefinitionId: string;
+  legalEntities: Array<{ id: string; name?: string }>;
+  instances: Array<{ id: string; definition_id: string; legal_entity_id: string; current_state_id: string }>;
+  states: StateOption[];
+  onOpen: (entry: FormEntry) => void;
+};
+
+const PAGE_SIZES = [25, 50, 100];
+
+/** Paged, filterable list of form entries; a row opens the entry in the viewer. */
+export default function EntriesBrowser({ formName, schema, formDefinitionId, legalEntities, instances, states, onOpen }: Props) {
+  const [defId, setDefId] = React.useState(formDefinitionId);
+  const [entityId, setEntityId] = React.useState('');
+  const [instanceId, setInstanceId] = React.useState('');
+  const [from, setFrom] = React.useState('');
+  const [to, setTo] = React.useState('');
+  const [limit, setLimit] = React.useState(PAGE_SIZES[0]);
+  const [offset, setOffset] = React.useState(0);
+  const [sort, setSort] = React.useState<EntrySort>({ column: 'created_at', dir: 'desc' });
+  const [reloadTick, setReloadTick] = React.useState(0);
+
+  const [page, setPage] = React.useState<{ rows: EntryRow[]; total: number }>({ rows: [], total: 0 });
+  // data-column sorts: every matching entry, loaded once per filter, sorted and paged here
+  const [all, setAll] = React.useState<{ rows: EntryRow[]; matching: number } | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  // any filter change starts over at the first page
+  const refilter = <T,>(set: (v: T) => void) => (v: T) => { set(v); setOffset(0); };
+
+  const candidates = React.useMemo(() => entryColumnCandidates(schema), [schema]);
+  const [columns, setColumns] = React.useState<string[]>(() => loadEntryColumns(formName, schema));
+  React.useEffect(() => { setColumns(loadEntryColumns(formName, schema)); }, [formName, schema]);
+
+  const toggleColumn = (key: string) => {
+    // keep schema order, whatever order they were ticked in
+    const next = columns.includes(key)
+      ? columns.filter(k => k !== key)
+      : candidates.map(c => c.key).filter(k => k === key || columns.includes(k));
+    setColumns(next);
+    saveEntryColumns(formName, next);
+  };
+
+  const filter = React.useMemo(() => ({
+    form_definition_id: defId.trim() || undefined,
+    legal_entity_id: entityId || undefined,
+    process_instance_id: instanceId.trim() || undefined,
+    created_at_from: from || undefined,
+    created_at_to: to || undefined
+  }), [defId, entityId, instanceId, from, to]);
+  const dataSort = !isServerSort(sort.column);
+
+  React.useEffect(() => {
+    if (dataSort) return;
+    let alive = true;
+    setBusy(true); setErr(null);
+    queryEntries({ ...filter, limit, offset, sort })
+      .then(res => { if (alive) setPage(res); })
+      .catch(e => {
+        console.error('Loading entries failed', e);
+        if (alive) { setPage({ rows: [], total: 0 }); setErr(e?.message || String(e)); }
+      })
+      .finally(() => { if (alive) setBusy(false); });
+    return () => { alive = false; };
+  }, [filter, dataSort, limit, offset, sort, reloadTick]);
+
+  React.useEffect(() => {
+    if (!dataSort) { setAll(null); return; }
+    let alive = true;
+    setBusy(true); setErr(null);
+    loadAllEntries(filter)
+      .then(res => { if (alive) setAll(res); })
+      .catch(e => {
+        console.error('Loading entries failed', e);
+        if (alive) { setAll({ rows: [], matching: 0 }); setErr(e?.message || String(e)); }
+      })
+      .finally(() => { if (alive) setBusy(false); });
+    return () => { alive = false; };
+  }, [filter, dataSort, reloadTick]);
+
+  const sortedAll = React.useMemo(() => (dataSort && all ? sortEntryRows(all.rows, sort) : null), [dataSort, all, sort]);
+  const rows = sortedAll ? sortedAll.slice(offset, offset + limit) : dataSort ? [] : page.rows;
+  const total = sortedAll ? sortedAll.length : dataSort ? 0 : page.total;
+  const capped = dataSort && all && all.matching > all.rows.length ? all : null;
+
+  const entityName = React.useMemo(
+    () => new Map(legalEntities.map(le => [le.id, le.name || le.id])),
+    [legalEntities]
+  );
+  const stateOf = (entry: FormEntry) => {
+    const pi = instances.find(i => i.id === entry.process_instance_id);
+    if (!pi) return '—';
+    const st = states.find(s => s.rowId === pi.current_state_id || s.id === pi.current_state_id);
+    return st?.label ?? pi.current_state_id ?? '—';
+  };
+  const labelFor = (key: string) => candidates.find(c => c.key === key)?.label || key;
+
+  const sortBy = (column: string) => {
+    setSort(s => (s.column === column ? { column, dir: s.dir === 'asc' ? 'desc' : 'asc' } : { column, dir: 'asc' }));
+    setOffset(0); // a new order pages from the top
+  };
+  const sortMark = (column: string) => (sort.column === column ? (sort.dir === 'asc' ? ' ▲' : ' ▼') : '');
+
+  const pageEnd = Math.min(offset + rows.length, total);
+  const clear = () => { setDefId(''); setEntityId(''); setInstanceId(''); setFrom(''); setTo(''); setOffset(0); };
+
+  return (
+    <div className="eb-root">
+      <style>{`
+        .eb-root{height:100%;display:flex;flex-direction:column;gap:8px;padding:10px 12px;box-sizing:border-box;font-size:13px}
+        .eb-filters{display:flex;flex-wrap:wrap;gap:8px;align-items:flex-end}
+        .eb-field{display:flex;flex-direction:column;gap:2px;font-size:12px}
+        .eb-input{height:30px;padding:4px 8px;border:1px solid #cbd5e1;border-radius:8px}
+        .eb-btn{height:30px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer}
+        .eb-btn:disabled{opacity:.6;cursor:not-allowed}
+        .eb-cols{position:relative}
+        .eb-cols summary{height:30px;line-height:30px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;cursor:pointer;list-style:none}
+        .eb-cols-menu{position:absolute;z-index:5;top:34px;left:0;background:#fff;border:1px solid #e5e7eb;border-radius:8px;box-shadow:0 6px 20px rgba(0,0,0,.12);padding:8px;max-height:320px;overflow:auto;min-width:220px}
+        .eb-cols-menu label{display:flex;gap:6px;align-items:center;padding:2px 0;white-space:nowrap}
+        .eb-wrap{flex:1;min-height:0;overflow:auto;border:1px solid #e5e7eb;border-radius:8px}
+        .eb-table{width:100%;border-collapse:collapse}
+        .eb-table th,.eb-table td{padding:6px 8px;border-top:1px solid #f1f5f9;text-align:left;white-space:nowrap}
+        .eb-table th{position:sticky;top:0;background:#fafafa;font-weight:600;cursor:pointer;user-select:none;border-top:none}
+        .eb-table tbody tr{cursor:pointer}
+        .eb-table tbody tr:hover,.eb-table tbody tr:focus{background:#f0f6ff;outline:none}
+        .eb-foot{display:flex;gap:8px;align-items:center;justify-content:space-between}
+        .eb-err{background:#fee2e2;border:1px solid #fecaca;color:#991b1b;padding:8px;border-radius:8px}
+        .eb-muted{opacity:.7}
+        .eb-warn{font-size:12px;color:#8a5a00}
+      `}</style>
+
+      <div className="eb-filters">
+        <label className="eb-field">
+          Form definition
+          <span style={{ display: 'flex', gap: 4 }}>
+            <input className="eb-input" value={defId} onChange={e => refilter(setDefId)(e.target.value)} placeholder="any" style={{ width: 260 }} />
+            {formDefinitionId && defId !== formDefinitionId && (
+              <button className="eb-btn" onClick={() => refilter(setDefId)(formDefinitionId)} title={formDefinitionId}>Open one</button>
+            )}
+          </span>
+        </label>
+        <label className="eb-field">
+          Legal entity
+          <select className="eb-input" value={entityId} onChange={e => refilter(setEntityId)(e.target.value)}>
+            <option value="">Any</option>
+            {legalEntities.map(le => <option key={le.id} value={le.id}>{le.name || le.id}</option>)}
+          </select>
+        </label>
+        <label className="eb-field">
+          Process instance
+          <input className="eb-input" list="eb-instances" value={instanceId} onChange={e => refilter(setInstanceId)(e.target.value)} placeholder="any" style={{ width: 260 }} />
+          <datalist id="eb-instances">
+            {instances
+              .filter(i => !entityId || i.legal_entity_id === entityId)
+              .map(i => <option key={i.id} value={i.id}>{entityName.get(i.legal_entity_id) ?? i.legal_entity_id}</option>)}
+          </datalist>
+        </label>
+        <label className="eb-field">
+          Created from
+          <input className="eb-input" type="date" value={from} onChange={e => refilter(setFrom)(e.target.value)} />
+        </label>
+        <label className="eb-field">
+          to
+          <input className="eb-input" type="date" value={to} onChange={e => refilter(setTo)(e.target.value)} />
+        </label>
+        <button className="eb-btn" onClick={clear}>Clear</button>
+        <button className="eb-btn" onClick={() => setReloadTick(t => t + 1)} disabled={busy}>{busy ? 'Loading…' : 'Refresh'}</button>
+        <details className="eb-cols">
+          <summary>Columns ({columns.length})</summary>
+          <div className="eb-cols-menu">
+            {candidates.length === 0 && <span className="eb-muted">The open form has no fields.</span>}
+            {candidates.map(c => (
+              <label key={c.key}>
+                <input type="checkbox" checked={columns.includes(c.key)} onChange={() => toggleColumn(c.key)} />
+                {c.label || c.key} <span className="eb-muted">({c.key})</span>
+              </label>
+            ))}
+          </div>
+        </details>
+      </div>
+
+      {err && <div className="eb-err">{err}</div>}
+
+      <div className="eb-wrap">
+        <table className="eb-table">
+          <thead>
+            <tr>
+              {META_COLUMNS.map(c => (
+                <th key={c.id} onClick={() => sortBy(c.id)} aria-sort={sort.column === c.id ? (sort.dir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                  {c.label}{sortMark(c.id)}
+                </th>
+              ))}
+              <th style={{ cursor: 'default' }}>Legal entity</th>
+              <th style={{ cursor: 'default' }}>State</th>
+              {columns.map(k => (
+                <th key={k} onClick={() => sortBy(k)} aria-sort={sort.column === k ? (sort.dir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                  {labelFor(k)}{sortMark(k)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr
+                key={r.entry.id}
+                tabIndex={0}
+                onClick={() => onOpen(r.entry)}
+                onKeyDown={e => { if (e.key === 'Enter') onOpen(r.entry); }}
+                title={`Open entry ${r.entry.id}`}
+              >
+                {META_COLUMNS.map(c => {
+                  const v = r.entry[c.id];
+                  return <td key={c.id}>{v ? new Date(String(v)).toLocaleString() : '—'}</td>;
+                })}
+                <td>{entityName.get(r.entry.legal_entity_id) ?? r.entry.legal_entity_id}</td>
+                <td>{stateOf(r.entry)}</td>
+                {columns.map(k => <td key={k}>{formatEntryValue(entryValue(r, k))}</td>)}
+              </tr>
+            ))}
+            {!busy && rows.length === 0 && (
+              <tr><td colSpan={META_COLUMNS.length + 2 + columns.length} className="eb-muted">No entries match these filters.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="eb-foot">
+        <span className="eb-muted">
+          {total ? `${offset + 1}–${pageEnd} of ${total}` : '0 entries'}
+        </span>
+        {capped && (
+          <span className="eb-warn">
+            Sorted over the newest {capped.rows.length} of {capped.matching} entries; narrow the filters to sort them all.
+          </span>
+        )}
+        <span style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <select className="eb-input" value={limit} onChange={e => refilter(setLimit)(Number(e.target.value))} aria-label="Page size">
+            {PAGE_SIZES.map(n => <option key={n} value={n}>{n} / page</option>)}
+          </select>
+          <button className="eb-btn" onClick={() => setOffset(o => Math.max(0, o - limit))} disabled={busy || offset === 0}>‹ Prev</button>
+          <button className="eb-btn" onClick={() => setOffset(o => o + limit)} disabled={busy || offset + limit >= total}>Next ›</button>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import * as React from 'react';
+import { AuthSession, login } from '../core/auth';
+
+type Props = {
+  /** why we are asking (session expired, server answered 401) */
+  reason?: string;
+  onSignedIn?: (session: AuthSession) => void;
+  /** continue without signing in; no button without it */
+  onCancel?: () => void;
+};
+
+export default function LoginScreen({ reason, onSignedIn, onCancel }: Props) {
+  const [email, setEmail] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await login(email.trim(), password);
+      onSignedIn?.(session);
+    } catch (err: any) {
+      console.error('Sign-in failed', err);
+      setError(err?.status === 401 || err?.status === 403 ? 'Wrong email or password.' : err?.message || 'Sign-in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="lg-overlay" role="dialog" aria-modal="true" aria-label="Sign in">
+      <style>{`
+        .lg-overlay{position:fixed;inset:0;background:#f3f4f6;display:flex;align-items:center;justify-content:center;z-index:80}
+        .lg-panel{width:min(380px,92vw);background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.12);padding:20px;display:flex;flex-direction:column;gap:12px}
+        .lg-title{font-weight:700;font-size:18px}
+        .lg-field{display:flex;flex-direction:column;gap:4px;font-size:14px}
+        .lg-input{height:34px;padding:4px 10px;border:1px solid #c9c9c9;border-radius:8px}
+        .lg-btn{height:34px;padding:0 12px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer}
+        .lg-btn.primary{background:#0b5fff;border-color:#0b5fff;color:#fff}
+        .lg-btn:disabled{opacity:.6;cursor:not-allowed}
+        .lg-note{font-size:13px;color:#8a5a00}
+        .lg-err{font-size:13px;color:#b91c1c}
+      `}</style>
+      <form className="lg-panel" onSubmit={submit}>
+        <span className="lg-title">Sign in</span>
+        {reason && <span className="lg-note">{reason}</span>}
+        <label className="lg-field">Email
+          <input className="lg-input" type="email" autoComplete="username" value={email} onChange={e => setEmail(e.target.value)} required autoFocus />
+        </label>
+        <label className="lg-field">Password
+          <input className="lg-input" type="password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} required />
+        </label>
+        {error && <span className="lg-err">{error}</span>}
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          {onCancel && <button type="button" className="lg-btn" onClick={onCancel} disabled={busy}>Not now</button>}
+          <button type="submit" className="lg-btn primary" disabled={busy || !email.trim() || !password}>
+            {busy ? 'Signing in…' : 'Sign in'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
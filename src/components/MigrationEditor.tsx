@@ -0,0 +1,96 @@
+import * as React from 'react';
+import {
+  MigrationStep,
+  migrationOf,
+  migrationProblem,
+  saveVersionMigration,
+  suggestMigration
+} from '../core/migrations';
+import type { FormVersion } from '../core/versions';
+
+type Props = {
+  version: FormVersion;
+  /** version right before it, for suggestions */
+  previous?: FormVersion;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+const EXAMPLE = `[
+  { "op": "rename", "from": "lastname", "to": "lastName" },
+  { "op": "split", "from": "fullName", "to": ["firstName", "lastName"], "separator": " " },
+  { "op": "convert", "key": "age", "to": "number" },
+  { "op": "default", "key": "country", "value": "\\"CH\\"" }
+]`;
+
+/** JSON editor for the entry-data migration attached to one form version. */
+export default function MigrationEditor({ version, previous, onSaved, onCancel }: Props) {
+  const [text, setText] = React.useState(() => {
+    const steps = migrationOf(version.row);
+    return steps.length ? JSON.stringify(steps, null, 2) : '[]';
+  });
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  const parsed = React.useMemo<{ steps?: MigrationStep[]; problem: string | null }>(() => {
+    try {
+      const steps = JSON.parse(text);
+      return { steps, problem: migrationProblem(steps) };
+    } catch (e: any) {
+      return { problem: `Invalid JSON: ${e?.message || e}` };
+    }
+  }, [text]);
+
+  const suggest = () => {
+    if (!previous) return;
+    const steps = suggestMigration(previous.schema, version.schema);
+    if (!steps.length) { alert(`Nothing to suggest between v${previous.version} and v${version.version}.`); return; }
+    setText(JSON.stringify(steps, null, 2));
+  };
+
+  const save = async () => {
+    if (!parsed.steps || parsed.problem) return;
+    setBusy(true); setErr(null);
+    try {
+      await saveVersionMigration(version.id, parsed.steps);
+      onSaved();
+    } catch (e: any) {
+      console.error('Saving migration failed', e);
+      setErr(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 10, display: 'grid', gap: 8, fontSize: 13 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+        <strong>
+          Entry migration into v{version.version}
+          {previous ? <span style={{ fontWeight: 400, opacity: 0.7 }}> (from v{previous.version})</span> : null}
+        </strong>
+        <span style={{ fontSize: 12, opacity: 0.7 }}>ops: rename, split, convert, default</span>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        rows={10}
+        placeholder={EXAMPLE}
+        style={{ fontFamily: 'monospace', fontSize: 12, border: '1px solid #cbd5e1', borderRadius: 6, padding: 8 }}
+        aria-label="Migration steps (JSON)"
+      />
+      {parsed.problem && <div style={{ color: '#b00020', fontSize: 12 }}>{parsed.problem}</div>}
+      {err && <div style={{ color: '#b00020', fontSize: 12 }}>{err}</div>}
+      <details>
+        <summary style={{ cursor: 'pointer', fontSize: 12 }}>Example</summary>
+        <pre style={{ fontSize: 12, margin: '6px 0 0' }}>{EXAMPLE}</pre>
+      </details>
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+        {previous && <button type="button" onClick={suggest} disabled={busy}>Suggest from changes</button>}
+        <button type="button" onClick={onCancel} disabled={busy}>Cancel</button>
+        <button type="button" onClick={save} disabled={busy || !!parsed.problem}>{busy ? 'Saving…' : 'Save migration'}</button>
+      </div>
+    </div>
+  );
+}
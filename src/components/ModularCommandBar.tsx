@@ -1,4 +1,8 @@
 import * as React from 'react';
+import type { FormStatus } from '../core/lifecycle';
+import StatusBadge from './StatusBadge';
+import SyncStatus from './SyncStatus';
+import type { SyncState } from '../core/syncQueue';
 
 type Tab = 'editor' | 'preview' | 'matrix';
 
@@ -12,20 +16,34 @@ type Props = {
   states: { id: string; label: string }[];
   formState: string;
   onFormStateChange: (v: string) => void;
+  /** true while a saved entry is open: its state then only moves via transitions */
+  stateLocked?: boolean;
+
+  // preview as role ('' = default behavior for everyone)
+  roles?: string[];
+  previewRole?: string;
+  onPreviewRoleChange?: (v: string) => void;
 
   // form id + fetch
   formId: string;
+  /** lifecycle status of the loaded form definition, when known */
+  formStatus?: FormStatus;
   onFormIdChange: (v: string) => void;
   onFetch: () => void;
 
   // NEW: form mgmt
   onNewForm?: () => void;
   onSelectForm?: () => void;
+  onShowHistory?: () => void;
+  /** browse / edit the rows of every backend table */
+  onOpenTables?: () => void;
 
   // schema
   onPublishSchema: () => void;
   onSaveSchema: () => void;
   onLoadSchema: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  /** build the schema from a JSON Schema definition */
+  onImportJsonSchema?: () => void;
 
   // data
   onSubmit: () => void;
@@ -33,12 +51,29 @@ type Props = {
   onSaveDataFile: () => void;
   onLoadDataFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onSaveEntry: () => void;
+  /** entry saved from this session: Save then updates it in place */
+  entryId?: string;
+  onNewEntry?: () => void;
 
   // behaviors
   onPublishBehaviors: () => void;
   onSaveBehaviors: () => void;
   onLoadBehaviors: (e: React.ChangeEvent<HTMLInputElement>) => void;
 
+  /** autosave state of the entry being edited (core/drafts.ts) */
+  draftStatus?: string;
+
+  /** offline write queue (core/syncQueue.ts); no chip without it */
+  syncState?: SyncState;
+  onSyncNow?: () => void;
+  onRetrySync?: (seq: number) => void;
+  onDiscardSync?: (seq: number) => void;
+
+  /** signed-in user (email); no indicator without onSignIn / onSignOut */
+  currentUser?: string;
+  onSignIn?: () => void;
+  onSignOut?: () => void;
+
   // optional busy flags
   busy?: { fetch?: boolean; publishSchema?: boolean; publishBehaviors?: boolean; saveEntry?: boolean };
 };
@@ -48,18 +83,22 @@ export default function ModularCommandBar({
   apiBase,
 
   activeTab, onTabChange,
-  states, formState, onFormStateChange,
+  states, formState, onFormStateChange, stateLocked,
+  roles = [], previewRole = '', onPreviewRoleChange,
 
-  formId, onFormIdChange, onFetch,
+  formId, formStatus, onFormIdChange, onFetch,
 
-  onNewForm, onSelectForm,
+  onNewForm, onSelectForm, onShowHistory, onOpenTables,
 
-  onPublishSchema, onSaveSchema, onLoadSchema,
+  onPublishSchema, onSaveSchema, onLoadSchema, onImportJsonSchema,
 
-  onSubmit, onExportPDF, onSaveDataFile, onLoadDataFile, onSaveEntry,
+  onSubmit, onExportPDF, onSaveDataFile, onLoadDataFile, onSaveEntry, entryId, onNewEntry,
 
   onPublishBehaviors, onSaveBehaviors, onLoadBehaviors,
 
+  draftStatus,
+  syncState, onSyncNow, onRetrySync, onDiscardSync,
+  currentUser, onSignIn, onSignOut,
   busy = {}
 }: Props) {
   const schemaInputRef = React.useRef<HTMLInputElement>(null);
@@ -109,6 +148,7 @@ export default function ModularCommandBar({
         .badge{font-size:12px;line-height:18px;padding:1px 8px;border-radius:999px;border:1px solid}
         .badge.api{background:#e8f0ff;color:#0b5fff;border-color:#bfd3ff}
         .badge.file{background:#f1f5f9;color:#334155;border-color:#cbd5e1}
+        .badge.user{background:#ecfdf5;color:#047857;border-color:#a7f3d0}
         .hint{font-size:12px;opacity:.7}
       `}</style>
 
@@ -136,10 +176,43 @@ export default function ModularCommandBar({
 
             <div className="row">
               <span className="muted">State</span>
-              <select className="select" value={formState} onChange={(e)=>onFormStateChange(e.target.value)}>
+              <select
+                className="select"
+                value={formState}
+                onChange={(e)=>onFormStateChange(e.target.value)}
+                disabled={stateLocked}
+                title={stateLocked ? 'Use the transitions above the preview to move this entry' : undefined}
+              >
                 {states.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
               </select>
+              {onPreviewRoleChange && roles.length > 0 && (
+                <>
+                  <span className="muted">Preview as</span>
+                  <select className="select" value={previewRole} onChange={(e)=>onPreviewRoleChange(e.target.value)}>
+                    <option value="">Any role</option>
+                    {roles.map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                </>
+              )}
+              {draftStatus ? <span className="muted">{draftStatus}</span> : null}
+              {syncState && (
+                <SyncStatus
+                  state={syncState}
+                  onSyncNow={() => onSyncNow?.()}
+                  onRetry={seq => onRetrySync?.(seq)}
+                  onDiscard={seq => onDiscardSync?.(seq)}
+                />
+              )}
               {apiBase ? <span className="muted">API: {apiBase}</span> : null}
+              {currentUser && onSignOut && (
+                <span className="row" style={{gap:6}}>
+                  <span className="badge user" title="Signed in; recorded as created_by / updated_by">{currentUser}</span>
+                  <button className="btn link" onClick={onSignOut}>Sign out</button>
+                </span>
+              )}
+              {!currentUser && onSignIn && (
+                <button className="btn" onClick={onSignIn}>Sign in</button>
+              )}
             </div>
           </div>
 
@@ -147,6 +220,7 @@ export default function ModularCommandBar({
             <label>Form ID
               <input className="input" value={formId} onChange={(e)=>onFormIdChange(e.target.value)} placeholder="my-form-001" />
             </label>
+            {formStatus && <StatusBadge status={formStatus} />}
             <button className="btn" onClick={onFetch} disabled={busy.fetch} title="Fetch from API">
               Fetch <span className="badge api" style={{marginLeft:6}}>API</span>
             </button>
@@ -163,6 +237,18 @@ export default function ModularCommandBar({
               </button>
             )}
 
+            {onShowHistory && (
+              <button className="btn" onClick={onShowHistory} disabled={!formId} title="Published versions of this form, diff and restore">
+                History…
+              </button>
+            )}
+
+            {onOpenTables && (
+              <button className="btn" onClick={onOpenTables} title="List, view, create, edit and delete rows of every table /meta reports">
+                Tables…
+              </button>
+            )}
+
             {/* Contextual quick link to Editor when not on Editor */}
             {editorLinkLabel && (
               <button className="btn link" onClick={() => onTabChange('editor')}>
@@ -207,6 +293,11 @@ export default function ModularCommandBar({
                 <button className="btn" onClick={onSaveSchema}>Save schema…</button>
                 <button className="btn" onClick={()=>schemaInputRef.current?.click()}>Load schema…</button>
                 <input ref={schemaInputRef} type="file" accept=".json,application/json" className="hidden" onChange={onLoadSchema} />
+                {onImportJsonSchema && (
+                  <button className="btn" onClick={onImportJsonSchema} title="Generate the form from an object definition of a JSON Schema file">
+                    Import JSON Schema…
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -229,9 +320,12 @@ export default function ModularCommandBar({
                 <span className="badge api">API</span>
               </div>
               <div className="row">
-                <button className="btn primary" onClick={onSaveEntry} disabled={busy.saveEntry}>
-                  Save Entry (POST)
+                <button className="btn primary" onClick={onSaveEntry} disabled={busy.saveEntry} title={entryId ? `Updates entry ${entryId} and records a revision` : undefined}>
+                  {entryId ? 'Update Entry' : 'Save Entry (POST)'}
                 </button>
+                {entryId && onNewEntry && (
+                  <button className="btn" onClick={onNewEntry} title="Next save creates a new entry">New entry</button>
+                )}
               </div>
             </div>
 
@@ -0,0 +1,40 @@
+import * as React from 'react';
+import type { KeyRename } from '../core/rename';
+
+type Props = {
+  renames: KeyRename[];
+  /** null when no stored form definition is open (nothing to migrate) */
+  formDefinitionId: string | null;
+  onMigrate: () => void;
+  onDismiss: () => void;
+};
+
+/** Notice shown after component keys were renamed in the editor. */
+export default function RenameBanner({ renames, formDefinitionId, onMigrate, onDismiss }: Props) {
+  if (!renames.length) return null;
+  return (
+    <div className="rb-root" role="status">
+      <style>{`
+        .rb-root{display:flex;align-items:center;gap:10px;flex-wrap:wrap;padding:6px 12px;border-bottom:1px solid #f2d8a7;background:#fff8e6;font-size:13px}
+        .rb-btn{height:26px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;font-size:12px}
+        .rb-btn:disabled{opacity:.6;cursor:not-allowed}
+      `}</style>
+      <span>
+        Renamed {renames.map((r, i) => (
+          <React.Fragment key={r.id}>
+            {i > 0 && ', '}<code>{r.from}</code> → <code>{r.to}</code>
+          </React.Fragment>
+        ))}. Behavior rules were moved to the new key{renames.length > 1 ? 's' : ''}.
+      </span>
+      <button
+        className="rb-btn"
+        onClick={onMigrate}
+        disabled={!formDefinitionId}
+        title={formDefinitionId ? 'Rename the property in stored entries of this form' : 'Open a stored form to migrate its entries'}
+      >
+        Migrate stored entries…
+      </button>
+      <button className="rb-btn" onClick={onDismiss}>Dismiss</button>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import * as React from 'react';
+import type { DataChange, EntryRevision } from '../core/revisions';
+
+type Props = {
+  from: EntryRevision;
+  to: EntryRevision;
+  changes: DataChange[];
+  stateLabels?: Record<string, string>;
+  onExit: () => void;
+};
+
+/** Shown above the viewer while it displays a revision with the changed fields marked. */
+export default function RevisionCompareBar({ from, to, changes, stateLabels, onExit }: Props) {
+  const label = (r: EntryRevision) => `#${r.revision} (${stateLabels?.[r.state] ?? r.state})`;
+  return (
+    <div className="rc-root" aria-label="Revision comparison">
+      <style>{`
+        .rc-root{display:flex;align-items:center;gap:8px;flex-wrap:wrap;padding:8px 12px;border-bottom:1px solid #f2d8a7;background:#fff8e6;font-size:13px}
+        .rc-btn{height:28px;padding:0 10px;border:1px solid #8a5a00;border-radius:8px;background:#fff;color:#8a5a00;cursor:pointer;font-size:13px;margin-left:auto}
+        .rc-muted{font-size:12px;opacity:.75}
+      `}</style>
+      <span className="rc-muted">Comparing</span>
+      <strong>{label(from)} → {label(to)}</strong>
+      <span className="rc-muted">
+        {changes.length
+          ? `${changes.length} field(s) changed, marked ● with the previous value below`
+          : 'no field changes'}
+      </span>
+      <button className="rc-btn" onClick={onExit}>Back to the entry</button>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import * as React from 'react';
+import type { LintIssue } from '../core/lint';
+
+type Props = {
+  issues: LintIssue[];
+};
+
+/** Schema problems found by core/lint.ts; errors also block publishing. */
+export default function SchemaLintBanner({ issues }: Props) {
+  const [open, setOpen] = React.useState(false);
+  if (!issues.length) return null;
+
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className={`sl-root ${errors ? 'sl-error' : ''}`} role="status">
+      <style>{`
+        .sl-root{padding:6px 12px;border-bottom:1px solid #f2d8a7;background:#fff8e6;font-size:13px}
+        .sl-root.sl-error{border-bottom-color:#f1b0b0;background:#fff0f0}
+        .sl-head{display:flex;align-items:center;gap:10px;flex-wrap:wrap}
+        .sl-btn{height:26px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;font-size:12px}
+        .sl-list{margin:6px 0 0 0;padding:0;list-style:none;display:grid;gap:2px}
+        .sl-tag{display:inline-block;min-width:56px;font-size:11px;font-weight:600;text-transform:uppercase}
+        .sl-tag.error{color:#b00020}
+        .sl-tag.warning{color:#8a5a00}
+      `}</style>
+      <div className="sl-head">
+        <span>
+          {errors > 0 && <strong>{errors} error{errors > 1 ? 's' : ''}</strong>}
+          {errors > 0 && warnings > 0 && ', '}
+          {warnings > 0 && <>{warnings} warning{warnings > 1 ? 's' : ''}</>}
+          {' '}in the form schema{errors > 0 ? ' — fix errors before publishing.' : '.'}
+        </span>
+        <button className="sl-btn" onClick={() => setOpen(o => !o)} aria-expanded={open}>
+          {open ? 'Hide' : 'Show'}
+        </button>
+      </div>
+      {open && (
+        <ul className="sl-list">
+          {issues.map((i, n) => (
+            <li key={`${i.code}:${i.key ?? i.id ?? ''}:${n}`}>
+              <span className={`sl-tag ${i.severity}`}>{i.severity}</span> {i.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
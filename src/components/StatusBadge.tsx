@@ -0,0 +1,31 @@
+import * as React from 'react';
+import { FormStatus, STATUS_LABELS } from '../core/lifecycle';
+
+const COLORS: Record<FormStatus, { bg: string; fg: string; border: string }> = {
+  draft: { bg: '#f1f5f9', fg: '#334155', border: '#cbd5e1' },
+  in_review: { bg: '#fff8e6', fg: '#8a5a00', border: '#f2d8a7' },
+  active: { bg: '#e8f7ee', fg: '#166534', border: '#b7e4c7' },
+  retired: { bg: '#f5f5f5', fg: '#6b7280', border: '#d4d4d4' }
+};
+
+/** Lifecycle status pill for a form definition version. */
+export default function StatusBadge({ status, style }: { status: FormStatus; style?: React.CSSProperties }) {
+  const c = COLORS[status];
+  return (
+    <span
+      style={{
+        fontSize: 11,
+        lineHeight: '16px',
+        padding: '1px 7px',
+        borderRadius: 999,
+        border: `1px solid ${c.border}`,
+        background: c.bg,
+        color: c.fg,
+        whiteSpace: 'nowrap',
+        ...style
+      }}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
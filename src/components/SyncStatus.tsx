@@ -0,0 +1,71 @@
+import * as React from 'react';
+import { SyncState, describeOp, failedCount, pendingCount } from '../core/syncQueue';
+
+type Props = {
+  state: SyncState;
+  onSyncNow: () => void;
+  onRetry: (seq: number) => void;
+  onDiscard: (seq: number) => void;
+};
+
+/** Connection chip with queued-write counts; opens a list of the queue. */
+export default function SyncStatus({ state, onSyncNow, onRetry, onDiscard }: Props) {
+  const pending = pendingCount(state);
+  const failed = failedCount(state);
+  const label = [
+    state.online ? (state.syncing ? 'Syncing…' : 'Online') : 'Offline',
+    pending ? `${pending} pending` : '',
+    failed ? `${failed} failed` : ''
+  ].filter(Boolean).join(' · ');
+  const tone = failed ? 'failed' : !state.online || pending ? 'pending' : 'ok';
+
+  return (
+    <details className="ss-root">
+      <style>{`
+        .ss-root{position:relative}
+        .ss-chip{list-style:none;cursor:pointer;font-size:12px;line-height:18px;padding:1px 8px;border-radius:999px;border:1px solid;white-space:nowrap}
+        .ss-chip::-webkit-details-marker{display:none}
+        .ss-chip.ok{background:#ecfdf5;color:#047857;border-color:#a7f3d0}
+        .ss-chip.pending{background:#fffbeb;color:#8a5a00;border-color:#fde68a}
+        .ss-chip.failed{background:#fef2f2;color:#b91c1c;border-color:#fecaca}
+        .ss-pop{position:absolute;right:0;top:26px;z-index:40;width:min(420px,90vw);background:#fff;border:1px solid #e5e7eb;border-radius:10px;box-shadow:0 8px 24px rgba(0,0,0,.12);padding:10px;display:flex;flex-direction:column;gap:8px;font-size:13px}
+        .ss-item{display:flex;justify-content:space-between;align-items:center;gap:8px;border-top:1px solid #f1f1f1;padding-top:6px}
+        .ss-err{font-size:12px;color:#b91c1c}
+        .ss-muted{font-size:12px;opacity:.7}
+        .ss-btn{height:26px;padding:0 8px;border:1px solid #c9c9c9;border-radius:6px;background:#fff;cursor:pointer}
+        .ss-btn:disabled{opacity:.6;cursor:not-allowed}
+      `}</style>
+      <summary className={`ss-chip ${tone}`} title="Changes saved while offline are sent in order once the server is reachable">
+        {label}
+      </summary>
+      <div className="ss-pop">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span className="ss-muted">
+            {state.lastSyncAt ? `Last sync ${new Date(state.lastSyncAt).toLocaleTimeString()}` : 'Not synced yet'}
+            {state.lastError ? ` · stopped: ${state.lastError}` : ''}
+          </span>
+          <button className="ss-btn" onClick={onSyncNow} disabled={!state.online || state.syncing || !pending}>Sync now</button>
+        </div>
+        {state.items.length === 0 && <span className="ss-muted">Nothing waiting to sync.</span>}
+        {state.items.map(item => (
+          <div key={item.seq} className="ss-item">
+            <div>
+              <div>{describeOp(item.op)}</div>
+              <div className="ss-muted">queued {new Date(item.queuedAt).toLocaleString()}</div>
+              {item.status === 'failed' && <div className="ss-err">Rejected: {item.error}</div>}
+            </div>
+            <div style={{ display: 'flex', gap: 6 }}>
+              {item.status === 'failed' && <button className="ss-btn" onClick={() => onRetry(item.seq)}>Retry</button>}
+              <button
+                className="ss-btn"
+                onClick={() => { if (window.confirm('Discard this change? It will not be sent to the server.')) onDiscard(item.seq); }}
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,41 @@
+import * as React from 'react';
+import type { TransitionOption } from '../core/workflow';
+
+type Props = {
+  currentLabel: string;
+  transitions: TransitionOption[];
+  onAdvance: (t: TransitionOption) => void;
+  busy?: boolean;
+  error?: string | null;
+};
+
+/** Legal "advance to…" actions for the open process instance, shown above the viewer. */
+export default function TransitionBar({ currentLabel, transitions, onAdvance, busy, error }: Props) {
+  return (
+    <div className="tb-root" aria-label="Workflow transitions">
+      <style>{`
+        .tb-root{display:flex;align-items:center;gap:8px;flex-wrap:wrap;padding:8px 12px;border-bottom:1px solid #e6e6e6;background:#f7faff}
+        .tb-btn{height:28px;padding:0 10px;border:1px solid #0b5fff;border-radius:8px;background:#fff;color:#0b5fff;cursor:pointer;font-size:13px}
+        .tb-btn:disabled{opacity:.6;cursor:not-allowed}
+        .tb-muted{font-size:12px;opacity:.75}
+        .tb-err{font-size:12px;color:#b00020}
+      `}</style>
+      <span className="tb-muted">Current state</span>
+      <strong>{currentLabel}</strong>
+      <span className="tb-muted" style={{ marginLeft: 8 }}>Advance to…</span>
+      {transitions.map(t => (
+        <button
+          key={t.id}
+          className="tb-btn"
+          onClick={() => onAdvance(t)}
+          disabled={busy}
+          title={t.condition ? `when ${t.condition}` : undefined}
+        >
+          {t.label}
+        </button>
+      ))}
+      {transitions.length === 0 && <span className="tb-muted">No transitions available for the current data.</span>}
+      {error && <span className="tb-err">{error}</span>}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Form } from '@bpmn-io/form-js-viewer';
+import { ValidationMessagesModule } from '../core/validation';
 
 export interface ViewerPaneHandle {
   submit: () => { data: any; errors: any };
@@ -46,7 +47,8 @@ const ViewerPane = React.forwardRef<ViewerPaneHandle, ViewerPaneProps>(
     React.useEffect(() => {
       if (!containerRef.current) return;
 
-      const form = new Form({ container: containerRef.current });
+      // custom per-state error texts (see core/validation.ts)
+      const form = new Form({ container: containerRef.current, additionalModules: [ValidationMessagesModule] });
       formRef.current = form;
 
       (async () => {
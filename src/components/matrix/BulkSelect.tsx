@@ -0,0 +1,35 @@
+import React from 'react';
+import { RoleCell } from '../../core/types';
+
+export const BULK_OPTIONS: Array<{ value: string; label: string; patch: Partial<RoleCell> }> = [
+  { value: 'hidden', label: 'Hidden', patch: { mode: 'hidden' } },
+  { value: 'readonly', label: 'Read-only', patch: { mode: 'readonly' } },
+  { value: 'editable', label: 'Editable', patch: { mode: 'editable' } },
+  { value: 'req-on', label: 'Required on', patch: { required: true } },
+  { value: 'req-off', label: 'Required off', patch: { required: false } }
+];
+
+export interface BulkSelectProps {
+  label: string;
+  title?: string;
+  onApply: (patch: Partial<RoleCell>) => void;
+}
+
+/** Compact "set all to…" picker used on matrix headers and rows; resets after each pick. */
+export default function BulkSelect({ label, title, onApply }: BulkSelectProps) {
+  return (
+    <select
+      value=""
+      title={title}
+      aria-label={title ?? label}
+      onChange={(e) => {
+        const opt = BULK_OPTIONS.find(o => o.value === e.target.value);
+        if (opt) onApply(opt.patch);
+      }}
+      style={{ fontSize: 12, maxWidth: 120 }}
+    >
+      <option value="">{label}</option>
+      {BULK_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+  );
+}
@@ -0,0 +1,191 @@
+import React from 'react';
+import { CellMode, FieldCell, ValidationOverrides, ValidationRule } from '../../core/types';
+import { expressionError } from '../../core/expression';
+import { normalizeValidation, validationProblem, VALIDATION_RULES } from '../../core/validation';
+
+export interface CellRulesPanelProps {
+  fieldLabel: string;
+  fieldKey: string;
+  stateLabel: string;
+  cell: FieldCell;
+  onPatch: (patch: Partial<FieldCell>) => void;
+  onClose: () => void;
+}
+
+const modeLabel: Record<CellMode, string> = {
+  hidden: 'Hidden',
+  readonly: 'Read-only',
+  editable: 'Editable'
+};
+
+const ruleLabel: Record<ValidationRule, string> = {
+  required: 'Required',
+  min: 'Minimum',
+  max: 'Maximum',
+  minLength: 'Min length',
+  maxLength: 'Max length',
+  pattern: 'Pattern'
+};
+
+const NUMBER_RULES: Array<'min' | 'max' | 'minLength' | 'maxLength'> = ['min', 'max', 'minLength', 'maxLength'];
+
+const toNumber = (s: string) => (s.trim() === '' ? undefined : Number(s));
+
+const section: React.CSSProperties = { display: 'grid', gap: 6, paddingTop: 10, borderTop: '1px solid #eee' };
+const hint: React.CSSProperties = { fontSize: 12, opacity: 0.7 };
+
+/**
+ * Side panel for the rules of one field × state cell that don't fit in the grid
+ * (data conditions and their fallback mode, validation overrides, default value and lock).
+ */
+export default function CellRulesPanel({ fieldLabel, fieldKey, stateLabel, cell, onPatch, onClose }: CellRulesPanelProps) {
+  // edit locally; commit on blur/Enter so the matrix isn't rewritten per keystroke
+  const [condition, setCondition] = React.useState(cell.condition ?? '');
+  React.useEffect(() => { setCondition(cell.condition ?? ''); }, [cell.condition]);
+
+  const error = expressionError(condition);
+  const commit = () => {
+    const next = condition.trim();
+    if (error || next === (cell.condition ?? '')) return;
+    onPatch(next ? { condition: next, fallback: cell.fallback ?? 'readonly' } : { condition: undefined, fallback: undefined });
+  };
+
+  // validation overrides, same local-draft/commit-on-blur approach
+  const [rules, setRules] = React.useState<ValidationOverrides>(cell.validate ?? {});
+  const validateJson = JSON.stringify(cell.validate ?? {});
+  React.useEffect(() => { setRules(JSON.parse(validateJson)); }, [validateJson]);
+
+  const rulesProblem = validationProblem(normalizeValidation(rules));
+  const commitRules = () => {
+    const next = normalizeValidation(rules);
+    if (rulesProblem || JSON.stringify(next ?? {}) === validateJson) return;
+    onPatch({ validate: next });
+  };
+  const setMessage = (rule: ValidationRule, text: string) =>
+    setRules(r => ({ ...r, messages: { ...(r.messages || {}), [rule]: text } }));
+  const [defaultValue, setDefaultValue] = React.useState(cell.defaultValue ?? '');
+  React.useEffect(() => { setDefaultValue(cell.defaultValue ?? ''); }, [cell.defaultValue]);
+  const trimmedDefault = defaultValue.trim();
+  const defaultError = trimmedDefault.startsWith('=') ? expressionError(trimmedDefault) : null;
+  const commitDefault = () => {
+    if (defaultError || trimmedDefault === (cell.defaultValue ?? '')) return;
+    onPatch({ defaultValue: trimmedDefault || undefined });
+  };
+
+  const canEdit = cell.mode === 'editable' || (!!cell.condition && cell.fallback === 'editable');
+
+  return (
+    <aside style={{ width: 320, borderLeft: '1px solid #e5e5e5', padding: 12, display: 'grid', gap: 10, alignContent: 'start', background: '#fff', overflow: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <div>
+          <div style={{ fontWeight: 600 }}>{fieldLabel}</div>
+          <div style={hint}><code>{fieldKey}</code> • {stateLabel}</div>
+        </div>
+        <button type="button" onClick={onClose} aria-label="Close cell rules">✕</button>
+      </div>
+
+      <div style={section}>
+        <div style={{ fontWeight: 600 }}>Condition</div>
+        <div style={hint}>
+          {modeLabel[cell.mode]}{cell.required ? ' + required' : ''} applies only when this holds,
+          e.g. <code>amount &gt; 10000</code>. Leave empty to always apply.
+        </div>
+        <input
+          value={condition}
+          onChange={(e) => setCondition(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+          placeholder="amount > 10000 && status == 'submitted'"
+          style={{ border: `1px solid ${error ? '#b00020' : '#c9c9c9'}`, borderRadius: 6, padding: '4px 8px' }}
+        />
+        {error && <div style={{ color: '#b00020', fontSize: 12 }}>{error}</div>}
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, opacity: cell.condition ? 1 : 0.4 }}>
+          Otherwise
+          <select
+            disabled={!cell.condition}
+            value={cell.fallback ?? 'readonly'}
+            onChange={(e) => onPatch({ fallback: e.target.value as CellMode })}
+          >
+            {(['hidden', 'readonly', 'editable'] as CellMode[]).map(m => (
+              <option key={m} value={m}>{modeLabel[m]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div style={{ ...section, opacity: canEdit ? 1 : 0.5 }} onBlur={commitRules}>
+        <div style={{ fontWeight: 600 }}>Validation</div>
+        <div style={hint}>
+          Checks added to the field's own validation while it is editable in this state.
+          Empty values keep the form's settings.
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6 }}>
+          {NUMBER_RULES.map(rule => (
+            <label key={rule} style={{ display: 'grid', gap: 2, fontSize: 12 }}>
+              {ruleLabel[rule]}
+              <input
+                type="number"
+                disabled={!canEdit}
+                value={rules[rule] ?? ''}
+                onChange={(e) => setRules(r => ({ ...r, [rule]: toNumber(e.target.value) }))}
+                style={{ border: '1px solid #c9c9c9', borderRadius: 6, padding: '4px 8px', minWidth: 0 }}
+              />
+            </label>
+          ))}
+        </div>
+        <label style={{ display: 'grid', gap: 2, fontSize: 12 }}>
+          {ruleLabel.pattern} (regular expression)
+          <input
+            disabled={!canEdit}
+            value={rules.pattern ?? ''}
+            onChange={(e) => setRules(r => ({ ...r, pattern: e.target.value }))}
+            placeholder="^[A-Z]{2}\d{6}$"
+            style={{ border: '1px solid #c9c9c9', borderRadius: 6, padding: '4px 8px' }}
+          />
+        </label>
+
+        <div style={{ fontWeight: 600, fontSize: 13, marginTop: 4 }}>Error messages</div>
+        {VALIDATION_RULES.map(rule => (
+          <label key={rule} style={{ display: 'grid', gap: 2, fontSize: 12 }}>
+            {ruleLabel[rule]}
+            <input
+              disabled={!canEdit}
+              value={rules.messages?.[rule] ?? ''}
+              onChange={(e) => setMessage(rule, e.target.value)}
+              placeholder="Default message"
+              style={{ border: '1px solid #c9c9c9', borderRadius: 6, padding: '4px 8px' }}
+            />
+          </label>
+        ))}
+        {rulesProblem && <div style={{ color: '#b00020', fontSize: 12 }}>{rulesProblem}</div>}
+      </div>
+
+      <div style={section}>
+        <div style={{ fontWeight: 600 }}>Value</div>
+        <div style={hint}>
+          Pre-filled when the field is empty on entering this state: a literal, or
+          an expression starting with <code>=</code>, e.g. <code>=today()</code>.
+        </div>
+        <input
+          value={defaultValue}
+          onChange={(e) => setDefaultValue(e.target.value)}
+          onBlur={commitDefault}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitDefault(); }}
+          placeholder="Default value"
+          style={{ border: `1px solid ${defaultError ? '#b00020' : '#c9c9c9'}`, borderRadius: 6, padding: '4px 8px' }}
+        />
+        {defaultError && <div style={{ color: '#b00020', fontSize: 12 }}>{defaultError}</div>}
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={!!cell.lock}
+            onChange={(e) => onPatch({ lock: e.target.checked || undefined })}
+          />
+          Lock value
+        </label>
+        <div style={hint}>A captured value is shown read-only and saving a change to it is refused.</div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { MatrixFilter, MatrixLayout, ModeFilter, MODE_FILTER_LABELS, isFilterActive, EMPTY_FILTER } from '../../core/matrixView';
+
+export interface MatrixFilterBarProps {
+  filter: MatrixFilter;
+  onChange: (next: MatrixFilter) => void;
+  states: string[];
+  stateLabels?: Record<string, string>;
+  shown: number;
+  total: number;
+}
+
+const bar: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 12,
+  flexWrap: 'wrap',
+  padding: '6px 12px',
+  borderBottom: '1px solid #e5e5e5',
+  background: '#fafafa'
+};
+
+/** Search, mode filter and layout for the behavior matrix rows. */
+export default function MatrixFilterBar({ filter, onChange, states, stateLabels, shown, total }: MatrixFilterBarProps) {
+  const set = (patch: Partial<MatrixFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div style={bar} aria-label="Matrix filters">
+      <input
+        type="search"
+        value={filter.text}
+        onChange={(e) => set({ text: e.target.value })}
+        placeholder="Search label, key or type…"
+        style={{ border: '1px solid #c9c9c9', borderRadius: 6, padding: '4px 8px', minWidth: 220 }}
+      />
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span style={{ opacity: 0.75 }}>Show</span>
+        <select value={filter.mode} onChange={(e) => set({ mode: e.target.value as ModeFilter })}>
+          <option value="">all fields</option>
+          {(Object.keys(MODE_FILTER_LABELS) as Array<keyof typeof MODE_FILTER_LABELS>).map(m => (
+            <option key={m} value={m}>{MODE_FILTER_LABELS[m].toLowerCase()}</option>
+          ))}
+        </select>
+        <span style={{ opacity: 0.75 }}>in</span>
+        <select value={filter.state} onChange={(e) => set({ state: e.target.value })} disabled={!filter.mode}>
+          <option value="">any state</option>
+          {states.map(s => <option key={s} value={s}>{stateLabels?.[s] ?? s}</option>)}
+        </select>
+      </label>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span style={{ opacity: 0.75 }}>Layout</span>
+        <select value={filter.layout} onChange={(e) => set({ layout: e.target.value as MatrixLayout })}>
+          <option value="tree">Grouped by container</option>
+          <option value="flat">Flat (A–Z)</option>
+        </select>
+      </label>
+
+      <span style={{ fontSize: 12, opacity: 0.7 }}>
+        {isFilterActive(filter) ? `${shown} of ${total} rows` : `${total} rows`}
+      </span>
+      {isFilterActive(filter) && (
+        <button type="button" onClick={() => onChange({ ...EMPTY_FILTER, layout: filter.layout })} style={{ fontSize: 12 }}>
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { RoleCell } from '../../core/types';
+import { BULK_OPTIONS } from './BulkSelect';
+
+export interface MatrixToolbarProps {
+  roles: string[];
+  /** '' = the default for all roles */
+  editRole: string;
+  onEditRoleChange: (role: string) => void;
+
+  states: string[];
+  stateLabels?: Record<string, string>;
+  onCopyColumn: (from: string, to: string) => void;
+
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+
+  /** number of cells in the current range selection (0 = none) */
+  rangeSize: number;
+  onRangePatch: (patch: Partial<RoleCell>) => void;
+  onClearRange: () => void;
+}
+
+const bar: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 12,
+  flexWrap: 'wrap',
+  padding: '8px 12px',
+  borderBottom: '1px solid #e5e5e5',
+  background: '#fff'
+};
+
+const group: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6 };
+
+/** Controls above the behavior matrix table. */
+export default function MatrixToolbar({
+  roles, editRole, onEditRoleChange,
+  states, stateLabels, onCopyColumn,
+  canUndo, canRedo, onUndo, onRedo,
+  rangeSize, onRangePatch, onClearRange
+}: MatrixToolbarProps) {
+  const [copyFrom, setCopyFrom] = React.useState('');
+  const [copyTo, setCopyTo] = React.useState('');
+  const label = (s: string) => stateLabels?.[s] ?? s;
+
+  return (
+    <div style={bar} aria-label="Matrix tools">
+      <div style={group}>
+        <button type="button" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">↶ Undo</button>
+        <button type="button" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">↷ Redo</button>
+      </div>
+
+      {roles.length > 0 && (
+        <label style={group}>
+          <span style={{ opacity: 0.75 }}>Editing for</span>
+          <select value={editRole} onChange={(e) => onEditRoleChange(e.target.value)}>
+            <option value="">All roles (default)</option>
+            {roles.map(r => <option key={r} value={r}>Role: {r}</option>)}
+          </select>
+        </label>
+      )}
+
+      <div style={group}>
+        <span style={{ opacity: 0.75 }}>Copy state</span>
+        <select value={copyFrom} onChange={(e) => setCopyFrom(e.target.value)} aria-label="Copy from state">
+          <option value="">from…</option>
+          {states.map(s => <option key={s} value={s}>{label(s)}</option>)}
+        </select>
+        <span>→</span>
+        <select value={copyTo} onChange={(e) => setCopyTo(e.target.value)} aria-label="Copy to state">
+          <option value="">to…</option>
+          {states.filter(s => s !== copyFrom).map(s => <option key={s} value={s}>{label(s)}</option>)}
+        </select>
+        <button
+          type="button"
+          disabled={!copyFrom || !copyTo || copyFrom === copyTo}
+          onClick={() => onCopyColumn(copyFrom, copyTo)}
+        >
+          Copy
+        </button>
+      </div>
+
+      {rangeSize === 0 && (
+        <span style={{ fontSize: 12, opacity: 0.6 }}>Drag across cells (or click, then shift-click) to edit a range.</span>
+      )}
+
+      {rangeSize > 0 && (
+        <div style={{ ...group, padding: '2px 8px', borderRadius: 8, background: '#eef4ff' }}>
+          <strong style={{ fontSize: 12 }}>{rangeSize} cell{rangeSize > 1 ? 's' : ''}</strong>
+          {BULK_OPTIONS.map(o => (
+            <button key={o.value} type="button" onClick={() => onRangePatch(o.patch)} style={{ fontSize: 12 }}>
+              {o.label}
+            </button>
+          ))}
+          <button type="button" onClick={onClearRange} title="Clear selection (Esc)" style={{ fontSize: 12 }}>✕</button>
+        </div>
+      )}
+
+      {editRole && (
+        <span style={{ fontSize: 12, opacity: 0.7 }}>
+          Changes are stored as overrides for <strong>{editRole}</strong>; other roles keep the default.
+        </span>
+      )}
+    </div>
+  );
+}
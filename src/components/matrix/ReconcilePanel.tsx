@@ -0,0 +1,75 @@
+import React from 'react';
+import { ReconcileReport, reportIssueCount } from '../../core/reconcile';
+
+export interface ReconcilePanelProps {
+  report: ReconcileReport;
+  stateLabels?: Record<string, string>;
+  onCleanup: () => void;
+}
+
+const list: React.CSSProperties = { margin: '4px 0 0 16px', padding: 0, fontSize: 12 };
+
+/** Mismatches between the stored matrix and the current schema/states, with a one-click fix. */
+export default function ReconcilePanel({ report, stateLabels, onCleanup }: ReconcilePanelProps) {
+  const [open, setOpen] = React.useState(false);
+  if (!reportIssueCount(report)) return null;
+
+  const label = (s: string) => stateLabels?.[s] ?? s;
+  const parts: string[] = [];
+  if (report.orphanedKeys.length) parts.push(`${report.orphanedKeys.length} orphaned rule${report.orphanedKeys.length > 1 ? 's' : ''}`);
+  if (report.uncovered.length) parts.push(`${report.uncovered.length} field${report.uncovered.length > 1 ? 's' : ''} without rules`);
+  if (report.missingStates.length) parts.push(`${report.missingStates.length} state${report.missingStates.length > 1 ? 's' : ''} not in the matrix`);
+  if (report.unknownStates.length) parts.push(`${report.unknownStates.length} unknown state${report.unknownStates.length > 1 ? 's' : ''}`);
+
+  return (
+    <div style={{ padding: '6px 12px', borderBottom: '1px solid #f2d8a7', background: '#fff8e6', fontSize: 13 }} aria-label="Matrix reconciliation">
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+        <span>⚠ {parts.join(' • ')}</span>
+        <button type="button" onClick={() => setOpen(o => !o)} style={{ fontSize: 12 }} aria-expanded={open}>
+          {open ? 'Hide details' : 'Details'}
+        </button>
+        <button
+          type="button"
+          onClick={onCleanup}
+          style={{ fontSize: 12 }}
+          title="Remove orphaned rules and unknown states; store explicit defaults for fields without rules"
+        >
+          Clean up
+        </button>
+      </div>
+
+      {open && (
+        <div style={{ display: 'grid', gap: 8, marginTop: 8 }}>
+          {report.orphanedKeys.length > 0 && (
+            <div>
+              <strong>Orphaned rules</strong> (keys no longer in the form; removed on clean-up)
+              <ul style={list}>{report.orphanedKeys.map(k => <li key={k}><code>{k}</code></li>)}</ul>
+            </div>
+          )}
+          {report.uncovered.length > 0 && (
+            <div>
+              <strong>Fields without rules</strong> (shown with their initial setting; stored explicitly on clean-up)
+              <ul style={list}>
+                {report.uncovered.map(u => (
+                  <li key={u.key}><code>{u.key}</code> — {u.states.map(label).join(', ')}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report.missingStates.length > 0 && (
+            <div>
+              <strong>States not in the matrix</strong>
+              <ul style={list}>{report.missingStates.map(s => <li key={s}>{label(s)}</li>)}</ul>
+            </div>
+          )}
+          {report.unknownStates.length > 0 && (
+            <div>
+              <strong>Unknown states</strong> (not in the workflow; removed on clean-up)
+              <ul style={list}>{report.unknownStates.map(s => <li key={s}><code>{s}</code></li>)}</ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
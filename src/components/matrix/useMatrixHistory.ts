@@ -0,0 +1,60 @@
+import React from 'react';
+import { BehaviorMatrixValue } from '../../core/types';
+
+const LIMIT = 100;
+
+/**
+ * Undo/redo for the (controlled) behavior matrix.
+ * `commit(next)` records the current value before emitting `next`; `reset()` forgets
+ * the history, e.g. when another form is loaded.
+ */
+export function useMatrixHistory(current: BehaviorMatrixValue, onChange: (next: BehaviorMatrixValue) => void) {
+  const pastRef = React.useRef<BehaviorMatrixValue[]>([]);
+  const futureRef = React.useRef<BehaviorMatrixValue[]>([]);
+  const [, rerender] = React.useReducer((x: number) => x + 1, 0);
+
+  const currentRef = React.useRef(current);
+  React.useEffect(() => { currentRef.current = current; }, [current]);
+  const onChangeRef = React.useRef(onChange);
+  React.useEffect(() => { onChangeRef.current = onChange; }, [onChange]);
+
+  const commit = React.useCallback((next: BehaviorMatrixValue) => {
+    pastRef.current = [...pastRef.current, currentRef.current].slice(-LIMIT);
+    futureRef.current = [];
+    rerender();
+    onChangeRef.current(next);
+  }, []);
+
+  const undo = React.useCallback(() => {
+    const prev = pastRef.current[pastRef.current.length - 1];
+    if (!prev) return;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [currentRef.current, ...futureRef.current];
+    rerender();
+    onChangeRef.current(prev);
+  }, []);
+
+  const redo = React.useCallback(() => {
+    const next = futureRef.current[0];
+    if (!next) return;
+    futureRef.current = futureRef.current.slice(1);
+    pastRef.current = [...pastRef.current, currentRef.current];
+    rerender();
+    onChangeRef.current(next);
+  }, []);
+
+  const reset = React.useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    rerender();
+  }, []);
+
+  return {
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0
+  };
+}
@@ -0,0 +1,116 @@
+import React from 'react';
+
+export interface VirtualGridOptions {
+  /** stable row identities, in render order (measured heights are kept per key) */
+  rowKeys: string[];
+  /** row height used until a row has been measured */
+  estimateRowHeight: number;
+  colCount: number;
+  colWidth: number;
+  /** width of the sticky leading column(s), not virtualized */
+  fixedLeft: number;
+  /** height of the sticky header, not virtualized */
+  fixedTop: number;
+  overscan?: number;
+}
+
+export interface VirtualSpan {
+  start: number;       // first rendered index
+  end: number;         // one past the last rendered index
+  before: number;      // px spacer before `start`
+  after: number;       // px spacer after `end`
+}
+
+/**
+ * Row/column windowing for the behavior matrix table.
+ * Rows have variable heights (measured via `measure(key)` ref callbacks); columns have a
+ * fixed width. Returns the index spans to render plus the spacer sizes around them.
+ */
+export function useVirtualGrid(scrollRef: React.RefObject<HTMLElement | null>, opts: VirtualGridOptions) {
+  const { rowKeys, estimateRowHeight, colCount, colWidth, fixedLeft, fixedTop, overscan = 4 } = opts;
+
+  const [viewport, setViewport] = React.useState({ top: 0, left: 0, width: 0, height: 0 });
+  const heightsRef = React.useRef<Map<string, number>>(new Map());
+  const [measuredVersion, bumpMeasured] = React.useReducer((x: number) => x + 1, 0);
+
+  React.useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    let frame = 0;
+    const read = () => {
+      frame = 0;
+      setViewport(v => {
+        const next = { top: el.scrollTop, left: el.scrollLeft, width: el.clientWidth, height: el.clientHeight };
+        return v.top === next.top && v.left === next.left && v.width === next.width && v.height === next.height ? v : next;
+      });
+    };
+    const onScroll = () => { if (!frame) frame = requestAnimationFrame(read); };
+    read();
+    el.addEventListener('scroll', onScroll, { passive: true });
+    const ro = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(onScroll) : null;
+    ro?.observe(el);
+    return () => {
+      el.removeEventListener('scroll', onScroll);
+      ro?.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [scrollRef]);
+
+  // ref callbacks per row key; re-render only when a height actually changes
+  const measureCache = React.useRef<Map<string, (el: HTMLElement | null) => void>>(new Map());
+  const measure = React.useCallback((key: string) => {
+    let fn = measureCache.current.get(key);
+    if (!fn) {
+      fn = (el: HTMLElement | null) => {
+        if (!el) return;
+        const h = el.getBoundingClientRect().height;
+        if (h > 0 && Math.abs((heightsRef.current.get(key) ?? 0) - h) > 0.5) {
+          heightsRef.current.set(key, h);
+          bumpMeasured();
+        }
+      };
+      measureCache.current.set(key, fn);
+    }
+    return fn;
+  }, []);
+
+  const rows = React.useMemo<VirtualSpan>(() => {
+    const heights = heightsRef.current;
+    const top = Math.max(0, viewport.top - fixedTop);
+    // before the first scroll event the viewport is unknown: render one screenful
+    const bottom = top + (viewport.height || 800);
+
+    let y = 0;
+    let start = rowKeys.length;
+    let end = rowKeys.length;
+    let before = 0;
+    for (let i = 0; i < rowKeys.length; i++) {
+      const h = heights.get(rowKeys[i]) ?? estimateRowHeight;
+      if (start === rowKeys.length && y + h > top) { start = i; before = y; }
+      if (y >= bottom) { end = i; break; }
+      y += h;
+    }
+
+    // overscan, keeping the spacer sizes consistent
+    const s = Math.max(0, start - overscan);
+    for (let i = s; i < start; i++) before -= heights.get(rowKeys[i]) ?? estimateRowHeight;
+    const e = Math.min(rowKeys.length, end + overscan);
+
+    let after = 0;
+    for (let i = e; i < rowKeys.length; i++) after += heights.get(rowKeys[i]) ?? estimateRowHeight;
+    return { start: s, end: e, before: Math.max(0, before), after };
+    // measuredVersion: recompute when a row height changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rowKeys, estimateRowHeight, viewport.top, viewport.height, fixedTop, overscan, measuredVersion]);
+
+  const cols = React.useMemo<VirtualSpan>(() => {
+    const width = Math.max(0, (viewport.width || 1200) - fixedLeft);
+    const first = Math.floor(viewport.left / colWidth);
+    const count = Math.ceil(width / colWidth) + 1;
+    const start = Math.max(0, first - 1);
+    const end = Math.min(colCount, first + count + 1);
+    return { start, end, before: start * colWidth, after: Math.max(0, colCount - end) * colWidth };
+  }, [viewport.left, viewport.width, fixedLeft, colWidth, colCount]);
+
+  return { rows, cols, measure };
+}
@@ -1,5 +1,10 @@
 import React from 'react';
 import { computeRequiredCreateFields, createFormDefinition } from '../../core/formsCrud';
+import { describeLintErrors, lintErrors, lintSchema } from '../../core/lint';
+import { initialLifecycle } from '../../core/lifecycle';
+
+// set from the lifecycle, never typed in
+const LIFECYCLE_COLUMNS = new Set(['is_active', 'status', 'status_history']);
 
 type Props = {
   apiBase: string;
@@ -8,16 +13,17 @@ type Props = {
   initialMatrix?: Record<string, any>;
   onClose: () => void;
   onCreated: (row: any) => void;
+  /** signed-in user, recorded as created_by */
+  by?: string;
 };
 
-export default function CreateFormModal({ apiBase, initialSchema, initialMatrix, onClose, onCreated }: Props) {
+export default function CreateFormModal({ apiBase, initialSchema, initialMatrix, onClose, onCreated, by }: Props) {
   const [busy, setBusy] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [extraFields, setExtraFields] = React.useState<Array<{ name: string; dataType: string }>>([]);
   const [values, setValues] = React.useState<Record<string, any>>({
     name: '',
-    version: 0,
-    is_active: true
+    version: 1
   });
 
   React.useEffect(() => {
@@ -25,7 +31,7 @@ export default function CreateFormModal({ apiBase, initialSchema, initialMatrix,
     (async () => {
       try {
         const req = await computeRequiredCreateFields(apiBase);
-        if (alive) setExtraFields(req);
+        if (alive) setExtraFields(req.filter(f => !LIFECYCLE_COLUMNS.has(f.name)));
       } catch (e: any) {
         // If endpoint not available, silently continue (non-blocking)
         console.warn('computeRequiredCreateFields failed', e?.message || e);
@@ -38,16 +44,21 @@ export default function CreateFormModal({ apiBase, initialSchema, initialMatrix,
 
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
+    const issues = lintSchema(initialSchema);
+    if (lintErrors(issues).length) {
+      setError(describeLintErrors(issues));
+      return;
+    }
     setBusy(true);
     setError(null);
 
     try {
       // Build payload with dynamic fields + defaults
-      const payload: Record<string, any> = { ...values };
+      // new forms always start as drafts (core/lifecycle.ts)
+      const payload: Record<string, any> = { ...values, ...initialLifecycle(by), ...(by ? { created_by: by } : {}) };
       // Ensure minimal defaults if user left empty
       if (!payload.name) payload.name = `form-${Date.now()}`;
-      if (typeof payload.version !== 'number') payload.version = 0;
-      if (typeof payload.is_active !== 'boolean') payload.is_active = true;
+      if (typeof payload.version !== 'number') payload.version = 1;
 
       // Create with schema + field_state_setting (the new requirement)
       const row = await createFormDefinition(apiBase, payload, initialSchema, initialMatrix);
@@ -109,15 +120,6 @@ export default function CreateFormModal({ apiBase, initialSchema, initialMatrix,
               min={0}
             />
           </label>
-
-          <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-            <input
-              type="checkbox"
-              checked={!!values.is_active}
-              onChange={(e) => onChange('is_active', e.target.checked)}
-            />
-            <span>Is Active</span>
-          </label>
         </div>
 
         {/* Any additional required fields from meta */}
@@ -143,11 +145,12 @@ export default function CreateFormModal({ apiBase, initialSchema, initialMatrix,
         {/* Info */}
         <p style={{ fontSize: 12, color: '#555', marginTop: 12 }}>
           The current form designer schema and the current behavior matrix (<code>field_state_setting</code>) will be included.
+          The form is created as a draft; activate it from History… once reviewed.
         </p>
 
         {/* Error */}
         {error && (
-          <div style={{ color: '#b00020', marginTop: 8 }}>
+          <div style={{ color: '#b00020', marginTop: 8, whiteSpace: 'pre-wrap' }}>
             {error}
           </div>
         )}
@@ -0,0 +1,136 @@
+import * as React from 'react';
+import { VersionConflictError, VersionDiff, describeCell, diffVersions, stableJson } from '../../core/versions';
+import { DefinitionContent, MergeConflict, MergeSide, mergeDefinitions } from '../../core/merge';
+
+type Props = {
+  conflict: VersionConflictError;
+  /** what the editor holds now */
+  mine: DefinitionContent;
+  busy?: boolean;
+  /** publish the editor's schema + matrix over theirs */
+  onKeepMine: () => void;
+  /** drop the editor's changes and load their version */
+  onTakeTheirs: () => void;
+  onPublishMerged: (merged: DefinitionContent) => void;
+  onClose: () => void;
+};
+
+function summarize(d: VersionDiff) {
+  const parts = [
+    d.added.length ? `${d.added.length} added` : '',
+    d.removed.length ? `${d.removed.length} removed` : '',
+    d.changed.length ? `${d.changed.length} changed` : '',
+    d.cells.length ? `${d.cells.length} matrix cell(s)` : ''
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'no changes';
+}
+
+/** One side of a conflict, relative to the base. */
+function describeSide(c: MergeConflict, side: 'mine' | 'theirs') {
+  const v = c[side];
+  if (v === undefined) return c.base === undefined ? '—' : 'removed';
+  if (c.kind === 'cell') return describeCell(v);
+  if (c.kind === 'property') return JSON.stringify(v);
+  if (c.base === undefined) return 'added';
+  const keys = Array.from(new Set([...Object.keys(c.base || {}), ...Object.keys(v)]));
+  const changed = keys.filter(k => stableJson(c.base?.[k]) !== stableJson(v[k]));
+  return changed.length ? `changed ${changed.join(', ')}` : 'unchanged';
+}
+
+export default function DefinitionConflictModal({ conflict, mine, busy, onKeepMine, onTakeTheirs, onPublishMerged, onClose }: Props) {
+  const { base, theirs } = conflict;
+  const who = theirs.row.updated_by || theirs.createdBy;
+  const when = theirs.row.updated_at || theirs.createdAt;
+  const [choices, setChoices] = React.useState<Record<string, MergeSide>>({});
+
+  const theirChanges = React.useMemo(() => diffVersions(base, theirs), [base, theirs]);
+  const myChanges = React.useMemo(() => diffVersions(base, mine), [base, mine]);
+  const merge = React.useMemo(() => mergeDefinitions(base, mine, theirs, choices), [base, mine, theirs, choices]);
+
+  const choose = (id: string, side: MergeSide) => setChoices(c => ({ ...c, [id]: side }));
+
+  return (
+    <div className="dc-overlay" role="dialog" aria-modal="true" aria-label="Form definition conflict">
+      <style>{`
+        .dc-overlay{position:fixed;inset:0;background:rgba(0,0,0,.35);display:flex;align-items:center;justify-content:center;z-index:60}
+        .dc-panel{width:min(760px,95vw);max-height:90vh;display:flex;flex-direction:column;background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.2);overflow:hidden}
+        .dc-hd{padding:14px 16px;border-bottom:1px solid #eee;font-weight:700}
+        .dc-bd{padding:12px 16px;display:flex;flex-direction:column;gap:12px;font-size:14px;overflow:auto}
+        .dc-sides{display:grid;grid-template-columns:1fr 1fr;gap:10px}
+        .dc-side{border:1px solid #e5e7eb;border-radius:8px;padding:10px;display:flex;flex-direction:column;gap:8px}
+        .dc-tbl{width:100%;border-collapse:collapse;font-size:13px}
+        .dc-tbl th,.dc-tbl td{border-top:1px solid #f1f1f1;padding:6px;text-align:left;vertical-align:top}
+        .dc-btn{height:32px;padding:0 12px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;white-space:nowrap}
+        .dc-btn.primary{border-color:#0b5fff;color:#0b5fff}
+        .dc-btn:disabled{opacity:.6;cursor:not-allowed}
+        .dc-muted{font-size:12px;opacity:.7}
+        .dc-ft{display:flex;gap:8px;justify-content:flex-end;padding:12px 16px;border-top:1px solid #eee}
+      `}</style>
+      <div className="dc-panel">
+        <div className="dc-hd">This form changed since you loaded it</div>
+        <div className="dc-bd">
+          <span>
+            {conflict.message}
+            {who && <span className="dc-muted"> Saved by {who}{when ? ` on ${new Date(when).toLocaleString()}` : ''}.</span>}
+          </span>
+
+          <div className="dc-sides">
+            <div className="dc-side">
+              <strong>Your changes to v{base.version}</strong>
+              <span className="dc-muted">{summarize(myChanges)}</span>
+              <button className="dc-btn" onClick={onKeepMine} disabled={busy} title="Publish the editor as it is; their changes are not carried over">
+                Keep mine
+              </button>
+            </div>
+            <div className="dc-side">
+              <strong>Their changes (v{theirs.version})</strong>
+              <span className="dc-muted">{summarize(theirChanges)}</span>
+              <button className="dc-btn" onClick={onTakeTheirs} disabled={busy} title="Load their version into the editor; your changes are dropped">
+                Take theirs
+              </button>
+            </div>
+          </div>
+
+          <div className="dc-side">
+            <strong>Merge</strong>
+            <span className="dc-muted">
+              {merge.merged} change(s) from one side only are combined automatically.
+              {merge.conflicts.length ? ` ${merge.conflicts.length} were changed on both sides — pick one for each:` : ' Nothing was changed on both sides.'}
+            </span>
+            {merge.conflicts.length > 0 && (
+              <table className="dc-tbl">
+                <thead>
+                  <tr><th>Item</th><th>Mine</th><th>Theirs</th></tr>
+                </thead>
+                <tbody>
+                  {merge.conflicts.map(c => {
+                    const side = choices[c.id] ?? 'mine';
+                    return (
+                      <tr key={c.id}>
+                        <td>{c.label}<div className="dc-muted">{c.kind === 'cell' ? 'matrix cell' : c.kind}</div></td>
+                        {(['mine', 'theirs'] as MergeSide[]).map(s => (
+                          <td key={s}>
+                            <label>
+                              <input type="radio" name={c.id} checked={side === s} onChange={() => choose(c.id, s)} />{' '}
+                              {describeSide(c, s)}
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+        <div className="dc-ft">
+          <button className="dc-btn" onClick={onClose} disabled={busy}>Cancel</button>
+          <button className="dc-btn primary" onClick={() => onPublishMerged({ schema: merge.schema, matrix: merge.matrix })} disabled={busy}>
+            Publish merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
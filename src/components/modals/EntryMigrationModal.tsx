@@ -0,0 +1,103 @@
+import React from 'react';
+import { EntryMigrationPlan, persistEntryMigration } from '../../core/migrations';
+
+type Props = {
+  plan: EntryMigrationPlan;
+  /** open the entry as captured, with its own version */
+  onKeep: () => void;
+  /** open the migrated data on the active version; `saved` when it was persisted */
+  onMigrated: (data: Record<string, any>, saved: boolean) => void;
+  onClose: () => void;
+};
+
+const pane: React.CSSProperties = {
+  margin: 0,
+  padding: 8,
+  fontSize: 12,
+  background: '#f8fafc',
+  border: '1px solid #e5e7eb',
+  borderRadius: 6,
+  maxHeight: 280,
+  overflow: 'auto',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word'
+};
+
+/** Before/after preview when an entry from an older form version is opened. */
+export default function EntryMigrationModal({ plan, onKeep, onMigrated, onClose }: Props) {
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const { from, to, result } = plan;
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await persistEntryMigration(plan);
+      onMigrated(result.data, true);
+    } catch (e: any) {
+      console.error('Saving migrated entry failed', e);
+      setError(e?.message || 'Failed to save the migrated entry');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 24,
+        zIndex: 1000
+      }}
+    >
+      <div style={{ width: 'min(900px, 94vw)', background: '#fff', borderRadius: 12, padding: 20, boxShadow: '0 10px 40px rgba(0,0,0,.2)' }}>
+        <h2 style={{ marginTop: 0, marginBottom: 8 }}>Entry from an older form version</h2>
+        <p style={{ marginTop: 0, fontSize: 14 }}>
+          This entry was captured with <strong>v{from.version}</strong>; the active version is <strong>v{to.version}</strong>.
+          {plan.steps.length
+            ? ` ${plan.steps.length} migration step(s) apply.`
+            : ' No migration steps are defined between these versions; the data is used as is.'}
+        </p>
+
+        {result.changes.length > 0 && (
+          <ul style={{ margin: '0 0 8px 18px', padding: 0, fontSize: 13 }}>
+            {result.changes.map((c, i) => <li key={i}>{c}</li>)}
+          </ul>
+        )}
+        {result.warnings.length > 0 && (
+          <ul style={{ margin: '0 0 8px 18px', padding: 0, fontSize: 13, color: '#8a5a00' }}>
+            {result.warnings.map((w, i) => <li key={i}>{w}</li>)}
+          </ul>
+        )}
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+          <div>
+            <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>Before (v{from.version})</div>
+            <pre style={pane}>{JSON.stringify(plan.before, null, 2)}</pre>
+          </div>
+          <div>
+            <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>After (v{to.version})</div>
+            <pre style={pane}>{JSON.stringify(result.data, null, 2)}</pre>
+          </div>
+        </div>
+
+        {error && <div style={{ color: '#b00020', marginTop: 8 }}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 16, flexWrap: 'wrap' }}>
+          <button type="button" onClick={onClose} disabled={busy}>Cancel</button>
+          <button type="button" onClick={onKeep} disabled={busy}>Open as captured (v{from.version})</button>
+          <button type="button" onClick={() => onMigrated(result.data, false)} disabled={busy}>Preview on v{to.version}</button>
+          <button type="button" onClick={save} disabled={busy}>{busy ? 'Saving…' : `Migrate & save to v${to.version}`}</button>
+        </div>
+      </div>
+    </div>
+  );
+}
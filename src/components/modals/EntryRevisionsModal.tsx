@@ -0,0 +1,123 @@
+import * as React from 'react';
+import { EntryRevision, describeChange, diffEntryData, listRevisions } from '../../core/revisions';
+
+type Props = {
+  entryId: string;
+  stateLabels?: Record<string, string>;
+  onClose: () => void;
+  /** open `to` in the viewer with the fields changed since `from` marked */
+  onCompare: (from: EntryRevision, to: EntryRevision) => void;
+};
+
+export default function EntryRevisionsModal({ entryId, stateLabels, onClose, onCompare }: Props) {
+  const [revisions, setRevisions] = React.useState<EntryRevision[]>([]);
+  const [busy, setBusy] = React.useState(true);
+  const [err, setErr] = React.useState<string | null>(null);
+  // compare "from" (older) → "to" (newer), by row id
+  const [fromId, setFromId] = React.useState('');
+  const [toId, setToId] = React.useState('');
+
+  React.useEffect(() => {
+    let alive = true;
+    setBusy(true); setErr(null);
+    listRevisions(entryId)
+      .then(list => {
+        if (!alive) return;
+        setRevisions(list);
+        setToId(list[0]?.id ?? '');
+        setFromId(list[1]?.id ?? list[0]?.id ?? '');
+      })
+      .catch(e => {
+        console.error('Loading revisions failed', e);
+        if (alive) setErr(e?.message || String(e));
+      })
+      .finally(() => { if (alive) setBusy(false); });
+    return () => { alive = false; };
+  }, [entryId]);
+
+  const from = revisions.find(r => r.id === fromId);
+  const to = revisions.find(r => r.id === toId);
+  const changes = React.useMemo(() => (from && to ? diffEntryData(from.data, to.data) : []), [from, to]);
+  const stateLabel = (s: string) => stateLabels?.[s] ?? s;
+
+  return (
+    <div className="er-overlay" role="dialog" aria-modal="true" aria-label="Entry revisions">
+      <style>{`
+        .er-overlay{position:fixed;inset:0;background:rgba(0,0,0,.35);display:flex;align-items:center;justify-content:center;z-index:50}
+        .er-panel{width:min(900px,94vw);background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.2);overflow:hidden}
+        .er-hd{padding:14px 16px;border-bottom:1px solid #eee;font-weight:700;display:flex;justify-content:space-between;align-items:center}
+        .er-bd{padding:12px;display:flex;flex-direction:column;gap:12px;max-height:78vh;overflow:auto}
+        .er-btn{height:30px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer}
+        .er-btn:disabled{opacity:.6;cursor:not-allowed}
+        .er-table{width:100%;border-collapse:collapse;font-size:13px}
+        .er-table th,.er-table td{padding:6px 8px;border-top:1px solid #f1f5f9;text-align:left}
+        .er-table th{font-weight:600;background:#fafafa}
+        .er-diff{border:1px solid #e5e7eb;border-radius:8px;padding:10px;display:grid;gap:6px;font-size:13px}
+        .er-diff ul{margin:0 0 0 18px;padding:0}
+        .er-added{color:#166534}.er-removed{color:#991b1b}.er-changed{color:#8a5a00}
+        .er-err{background:#fee2e2;border:1px solid #fecaca;color:#991b1b;padding:8px;border-radius:8px}
+        .er-muted{opacity:.7}
+      `}</style>
+      <div className="er-panel">
+        <div className="er-hd">
+          <span>Revisions — entry {entryId}</span>
+          <button className="er-btn" onClick={onClose}>Close</button>
+        </div>
+        <div className="er-bd">
+          {err && <div className="er-err">{err}</div>}
+          {busy && <div className="er-muted">Loading revisions…</div>}
+          {!busy && !revisions.length && !err && <div className="er-muted">No revisions recorded for this entry yet.</div>}
+
+          {revisions.length > 0 && (
+            <table className="er-table">
+              <thead>
+                <tr>
+                  <th>Revision</th>
+                  <th>Saved</th>
+                  <th>By</th>
+                  <th>State</th>
+                  <th title="Compare from">From</th>
+                  <th title="Compare to">To</th>
+                </tr>
+              </thead>
+              <tbody>
+                {revisions.map(r => (
+                  <tr key={r.id}>
+                    <td>#{r.revision}</td>
+                    <td>{r.at ? new Date(r.at).toLocaleString() : '—'}</td>
+                    <td>{r.by || '—'}</td>
+                    <td>{stateLabel(r.state)}</td>
+                    <td><input type="radio" name="er-from" checked={fromId === r.id} onChange={() => setFromId(r.id)} /></td>
+                    <td><input type="radio" name="er-to" checked={toId === r.id} onChange={() => setToId(r.id)} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {from && to && (
+            <div className="er-diff" aria-label="Revision diff">
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <strong>#{from.revision} ({stateLabel(from.state)}) → #{to.revision} ({stateLabel(to.state)})</strong>
+                <button className="er-btn" onClick={() => onCompare(from, to)} disabled={from.id === to.id}>
+                  Show in viewer
+                </button>
+              </div>
+              {changes.length === 0
+                ? <span className="er-muted">No field changes.</span>
+                : (
+                  <ul>
+                    {changes.map(c => (
+                      <li key={c.path}>
+                        <code>{c.path}</code> <span className={`er-${c.kind}`}>{c.kind}</span>: {describeChange(c)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import * as React from 'react';
+import { jsonSchemaToFormJs, listDefinitions, refTablesOf } from '../../core/jsonSchemaImport';
+import { extractFieldKeys } from '../../core/schema';
+
+type Props = {
+  onImport: (schema: any) => void | Promise<void>;
+  onClose: () => void;
+};
+
+/** Pick a JSON Schema file (e.g. schema_v3.json) and one of its object definitions to turn into a form. */
+export default function JsonSchemaImportModal({ onImport, onClose }: Props) {
+  const [doc, setDoc] = React.useState<any>(null);
+  const [source, setSource] = React.useState('');
+  const [defName, setDefName] = React.useState('');
+  const [skipPrimaryKey, setSkipPrimaryKey] = React.useState(true);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  const defs = React.useMemo(() => listDefinitions(doc), [doc]);
+  const def = defs.find(d => d.name === defName)?.definition;
+
+  const preview = React.useMemo(
+    () => (def ? jsonSchemaToFormJs(def, { root: doc, skipPrimaryKey }) : null),
+    [def, doc, skipPrimaryKey]
+  );
+  const refTables = React.useMemo(() => (def ? refTablesOf(def, doc).map(r => r.table) : []), [def, doc]);
+
+  const readDoc = (text: string, name: string) => {
+    setErr(null);
+    try {
+      const parsed = JSON.parse(text);
+      const found = listDefinitions(parsed);
+      if (!found.length) throw new Error('No object definitions found (expected "definitions" or "properties").');
+      setDoc(parsed);
+      setSource(name);
+      setDefName(found[0].name);
+    } catch (e: any) {
+      setDoc(null);
+      setErr(e?.message || 'Invalid JSON');
+    }
+  };
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0]; if (!file) return;
+    const reader = new FileReader();
+    reader.onload = ev => { if (typeof ev.target?.result === 'string') readDoc(ev.target.result, file.name); };
+    reader.readAsText(file);
+    input.value = '';
+  };
+
+  const doImport = async () => {
+    if (!def) return;
+    setBusy(true); setErr(null);
+    try {
+      const { schema, warnings } = jsonSchemaToFormJs(def, { root: doc, skipPrimaryKey });
+      if (warnings.length) console.warn(`Imported ${defName} with warnings:\n${warnings.join('\n')}`);
+      await onImport(schema);
+    } catch (e: any) {
+      console.error('JSON Schema import failed', e);
+      setErr(e?.message || 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="js-overlay" role="dialog" aria-modal="true" aria-label="Import JSON Schema">
+      <style>{`
+        .js-overlay{position:fixed;inset:0;background:rgba(0,0,0,.35);display:flex;align-items:center;justify-content:center;z-index:50}
+        .js-panel{width:min(640px,94vw);max-height:90vh;display:flex;flex-direction:column;background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.2);overflow:hidden}
+        .js-hd{padding:14px 16px;border-bottom:1px solid #eee;font-weight:700}
+        .js-bd{padding:12px 16px;display:flex;flex-direction:column;gap:10px;font-size:14px;overflow:auto}
+        .js-row{display:flex;gap:8px;align-items:center;flex-wrap:wrap}
+        .js-select{height:32px;padding:4px 8px;border:1px solid #cbd5e1;border-radius:8px;min-width:240px}
+        .js-btn{height:32px;padding:0 12px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;white-space:nowrap}
+        .js-btn.primary{border-color:#0b5fff;color:#0b5fff}
+        .js-btn:disabled{opacity:.6;cursor:not-allowed}
+        .js-warn{font-size:12px;color:#8a5a00;margin:0;padding-left:18px}
+        .js-muted{font-size:12px;opacity:.7}
+        .js-err{background:#fee2e2;border:1px solid #fecaca;color:#991b1b;padding:8px;border-radius:8px}
+        .js-ft{display:flex;gap:8px;justify-content:flex-end;padding:12px 16px;border-top:1px solid #eee}
+      `}</style>
+      <div className="js-panel">
+        <div className="js-hd">Import JSON Schema</div>
+        <div className="js-bd">
+          <div className="js-row">
+            <input type="file" accept="application/json,.json" onChange={onFile} />
+            {source && <span className="js-muted">{source}</span>}
+          </div>
+
+          {err && <div className="js-err">{err}</div>}
+
+          {defs.length > 0 && (
+            <>
+              <label className="js-row">
+                Definition
+                <select className="js-select" value={defName} onChange={e => setDefName(e.target.value)}>
+                  {defs.map(d => <option key={d.name} value={d.name}>{d.title ? `${d.title} (${d.name})` : d.name}</option>)}
+                </select>
+              </label>
+              <label className="js-row">
+                <input type="checkbox" checked={skipPrimaryKey} onChange={e => setSkipPrimaryKey(e.target.checked)} />
+                Leave out primary key columns
+              </label>
+              {refTables.length > 0 && (
+                <span className="js-muted">
+                  Reference selects load their options from the API ({refTables.join(', ')}) whenever the form is shown.
+                </span>
+              )}
+            </>
+          )}
+
+          {preview && (
+            <>
+              <span className="js-muted">{extractFieldKeys(preview.schema.components).length} field(s) will replace the editor's schema.</span>
+              {preview.warnings.length > 0 && (
+                <ul className="js-warn">
+                  {preview.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+        <div className="js-ft">
+          <button className="js-btn" onClick={onClose} disabled={busy}>Cancel</button>
+          <button className="js-btn primary" onClick={doImport} disabled={!def || busy}>{busy ? 'Importing…' : 'Import'}</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React from 'react';
+import {
+  KeyRename,
+  EntryMigration,
+  findEntriesToMigrate,
+  applyEntryMigrations
+} from '../../core/rename';
+
+type Props = {
+  formDefinitionId: string;
+  renames: KeyRename[];
+  onClose: () => void;
+  /** called after a migration run (even a partial one) */
+  onDone: (result: { updated: number; failed: number }) => void;
+};
+
+export default function RenameMigrationModal({ formDefinitionId, renames, onClose, onDone }: Props) {
+  const [scanning, setScanning] = React.useState(true);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<EntryMigration[]>([]);
+  const [progress, setProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const [failed, setFailed] = React.useState<Array<{ id: string; error: string }>>([]);
+
+  React.useEffect(() => {
+    let alive = true;
+    (async () => {
+      setScanning(true);
+      setError(null);
+      try {
+        const list = await findEntriesToMigrate(formDefinitionId, renames);
+        if (alive) setPending(list);
+      } catch (e: any) {
+        console.error('Scanning entries failed', e);
+        if (alive) setError(e?.message || 'Failed to load entries');
+      } finally {
+        if (alive) setScanning(false);
+      }
+    })();
+    return () => { alive = false; };
+  }, [formDefinitionId, renames]);
+
+  const migrate = async () => {
+    setBusy(true);
+    setError(null);
+    setProgress({ done: 0, total: pending.length });
+    try {
+      const res = await applyEntryMigrations(pending, (done, total) => setProgress({ done, total }));
+      setFailed(res.failed);
+      setPending(pending.filter(p => res.failed.some(f => f.id === p.entry.id)));
+      onDone({ updated: res.updated, failed: res.failed.length });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 24,
+        zIndex: 1000
+      }}
+    >
+      <div
+        style={{
+          background: 'white',
+          borderRadius: 12,
+          padding: 20,
+          width: 560,
+          maxWidth: '90vw',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          boxShadow: '0 10px 40px rgba(0,0,0,0.15)'
+        }}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: 12 }}>Migrate stored entries</h2>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', borderBottom: '1px solid #eee', padding: 4 }}>Old key</th>
+              <th style={{ textAlign: 'left', borderBottom: '1px solid #eee', padding: 4 }}>New key</th>
+              <th style={{ textAlign: 'left', borderBottom: '1px solid #eee', padding: 4 }}>Inside</th>
+            </tr>
+          </thead>
+          <tbody>
+            {renames.map(r => (
+              <tr key={r.id}>
+                <td style={{ padding: 4 }}><code>{r.from}</code></td>
+                <td style={{ padding: 4 }}><code>{r.to}</code></td>
+                <td style={{ padding: 4, opacity: 0.7 }}>{r.parentPath.length ? r.parentPath.join('.') : '(top level)'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {scanning && <div>Scanning entries of this form…</div>}
+        {!scanning && !error && (
+          <div>
+            {pending.length
+              ? <><strong>{pending.length}</strong> entr{pending.length === 1 ? 'y' : 'ies'} still use the old key{renames.length > 1 ? 's' : ''}.</>
+              : 'No stored entries need to change.'}
+          </div>
+        )}
+        {progress && (
+          <div style={{ marginTop: 8, fontSize: 13 }}>
+            Updated {progress.done} / {progress.total}
+          </div>
+        )}
+        {failed.length > 0 && (
+          <div style={{ marginTop: 8, color: '#b00020', fontSize: 13 }}>
+            {failed.length} entr{failed.length === 1 ? 'y' : 'ies'} failed:
+            <ul style={{ margin: '4px 0 0 16px', padding: 0 }}>
+              {failed.slice(0, 10).map(f => <li key={f.id}><code>{f.id}</code>: {f.error}</li>)}
+            </ul>
+          </div>
+        )}
+        {error && <div style={{ marginTop: 8, color: '#b00020' }}>{error}</div>}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 16 }}>
+          <button type="button" onClick={onClose} disabled={busy}>Close</button>
+          <button type="button" onClick={migrate} disabled={busy || scanning || !pending.length}>
+            {busy ? 'Migrating…' : `Migrate ${pending.length || ''} entr${pending.length === 1 ? 'y' : 'ies'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
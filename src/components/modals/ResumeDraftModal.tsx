@@ -0,0 +1,74 @@
+import * as React from 'react';
+import { Draft, isStaleDraft } from '../../core/drafts';
+import { diffEntryData } from '../../core/revisions';
+
+type Props = {
+  /** newest first */
+  drafts: Draft[];
+  /** when the stored entry was last saved; older drafts are flagged */
+  entrySavedAt?: string;
+  /** 'conflict': the server draft changed elsewhere while this session was autosaving */
+  mode?: 'resume' | 'conflict';
+  /** data currently in the viewer, to count what a draft would change */
+  currentData: Record<string, any>;
+  stateLabels?: Record<string, string>;
+  onResume: (draft: Draft) => void;
+  onDiscard: () => void;
+  /** resume: decide later (drafts are kept); conflict: keep this session's data and overwrite */
+  onClose: () => void;
+};
+
+export default function ResumeDraftModal({ drafts, entrySavedAt, mode = 'resume', currentData, stateLabels, onResume, onDiscard, onClose }: Props) {
+  const conflict = mode === 'conflict';
+  return (
+    <div className="rd-overlay" role="dialog" aria-modal="true" aria-label={conflict ? 'Draft conflict' : 'Resume draft'}>
+      <style>{`
+        .rd-overlay{position:fixed;inset:0;background:rgba(0,0,0,.35);display:flex;align-items:center;justify-content:center;z-index:60}
+        .rd-panel{width:min(620px,94vw);background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.2);overflow:hidden}
+        .rd-hd{padding:14px 16px;border-bottom:1px solid #eee;font-weight:700}
+        .rd-bd{padding:12px 16px;display:flex;flex-direction:column;gap:10px;font-size:14px}
+        .rd-item{border:1px solid #e5e7eb;border-radius:8px;padding:10px;display:flex;justify-content:space-between;align-items:center;gap:8px}
+        .rd-btn{height:32px;padding:0 12px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;white-space:nowrap}
+        .rd-btn.primary{border-color:#0b5fff;color:#0b5fff}
+        .rd-warn{font-size:12px;color:#8a5a00}
+        .rd-muted{font-size:12px;opacity:.7}
+        .rd-ft{display:flex;gap:8px;justify-content:flex-end;padding:0 16px 14px}
+      `}</style>
+      <div className="rd-panel">
+        <div className="rd-hd">{conflict ? 'The server draft was changed elsewhere' : 'Resume your draft?'}</div>
+        <div className="rd-bd">
+          <span>
+            {conflict
+              ? 'Another session saved a different draft for this form while you were editing. Autosave to the server is paused until you choose.'
+              : 'Unsaved changes were kept for this form.'}
+          </span>
+          {drafts.map(d => {
+            const changed = diffEntryData(currentData, d.data).length;
+            return (
+              <div key={`${d.source}:${d.savedAt}`} className="rd-item">
+                <div>
+                  <div>
+                    <strong>{d.source === 'server' ? 'Server draft' : 'This browser'}</strong>{' '}
+                    <span className="rd-muted">
+                      {new Date(d.savedAt).toLocaleString()} · {stateLabels?.[d.state] ?? d.state} · {changed} field(s) differ from the form
+                    </span>
+                  </div>
+                  {isStaleDraft(d, entrySavedAt) && (
+                    <div className="rd-warn">
+                      The entry was saved on the server after this draft ({new Date(entrySavedAt!).toLocaleString()}); resuming replaces those changes.
+                    </div>
+                  )}
+                </div>
+                <button className="rd-btn primary" onClick={() => onResume(d)}>{conflict ? 'Use this draft' : 'Resume'}</button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="rd-ft">
+          <button className="rd-btn" onClick={onDiscard}>Discard drafts</button>
+          <button className="rd-btn" onClick={onClose}>{conflict ? 'Keep mine' : 'Not now'}</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import * as React from 'react';
 import { listForms, labelForForm } from '../../core/formsCrud';
+import { FORM_STATUSES, FormStatus, STATUS_LABELS, statusOf } from '../../core/lifecycle';
+import StatusBadge from '../StatusBadge';
 
 type Props = {
   apiBase: string;
@@ -9,6 +11,7 @@ type Props = {
 
 export default function SelectFormModal({ apiBase, onClose, onSelect }: Props) {
   const [q, setQ] = React.useState('');
+  const [status, setStatus] = React.useState<FormStatus | ''>('');
   const [rows, setRows] = React.useState<any[]>([]);
   const [busy, setBusy] = React.useState(false);
   const [err, setErr] = React.useState<string | null>(null);
@@ -22,6 +25,11 @@ export default function SelectFormModal({ apiBase, onClose, onSelect }: Props) {
 
   React.useEffect(() => { load(); }, [load]);
 
+  const shown = React.useMemo(
+    () => (status ? rows.filter(r => statusOf(r) === status) : rows),
+    [rows, status]
+  );
+
   return (
     <div className="overlay" role="dialog" aria-modal="true">
       <style>{`
@@ -31,6 +39,7 @@ export default function SelectFormModal({ apiBase, onClose, onSelect }: Props) {
         .bd{padding:12px;display:flex;flex-direction:column;gap:10px;max-height:70vh;overflow:auto}
         .row{display:flex;gap:8px;align-items:center}
         .input{height:34px;padding:6px 10px;border:1px solid #cbd5e1;border-radius:8px;flex:1}
+        .select{height:34px;padding:4px 8px;border:1px solid #cbd5e1;border-radius:8px}
         .btn{height:34px;padding:0 12px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer}
         .list{border:1px solid #e5e7eb;border-radius:8px;overflow:hidden}
         .item{display:flex;justify-content:space-between;gap:8px;padding:10px 12px;border-top:1px solid #f1f5f9}
@@ -47,14 +56,22 @@ export default function SelectFormModal({ apiBase, onClose, onSelect }: Props) {
         <div className="bd">
           <div className="row">
             <input className="input" value={q} onChange={(e)=>setQ(e.target.value)} placeholder="Search…" />
+            <select className="select" value={status} onChange={(e)=>setStatus(e.target.value as FormStatus | '')} aria-label="Status">
+              <option value="">All statuses</option>
+              {FORM_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+            </select>
             <button className="btn" onClick={load} disabled={busy}>{busy ? 'Loading…' : 'Search'}</button>
           </div>
           {err && <div className="err">{err}</div>}
           <div className="list">
-            {rows.map(r => (
+            {shown.map(r => (
               <div key={r.id ?? labelForForm(r)} className="item">
                 <div>
-                  <div className="lbl">{labelForForm(r)}</div>
+                  <div className="lbl">
+                    {labelForForm(r)}
+                    {r.version != null && <span className="meta"> v{r.version}</span>}
+                    <StatusBadge status={statusOf(r)} style={{ marginLeft: 8 }} />
+                  </div>
                   <div className="meta">{r.id ? `id: ${r.id}` : ''}</div>
                 </div>
                 <div>
@@ -62,7 +79,7 @@ export default function SelectFormModal({ apiBase, onClose, onSelect }: Props) {
                 </div>
               </div>
             ))}
-            {rows.length === 0 && (
+            {shown.length === 0 && (
               <div className="item">
                 <em>No results</em>
               </div>
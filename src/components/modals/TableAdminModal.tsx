@@ -0,0 +1,366 @@
+import * as React from 'react';
+import ViewerPane, { ViewerPaneHandle } from '../ViewerPane';
+import {
+  Meta,
+  MetaTable,
+  TableRow,
+  createRow,
+  deleteRow,
+  fetchMeta,
+  getRow,
+  listRows,
+  primaryKeyOf,
+  updateRow
+} from '../../core/formsCrud';
+import {
+  FkOptions,
+  FormMode,
+  columnKind,
+  foreignKeys,
+  formDataToRow,
+  humanize,
+  rowLabel,
+  rowToFormData,
+  stampActor,
+  tableFormSchema,
+  withCurrentOptions
+} from '../../core/formGen';
+import { formatEntryValue } from '../../core/entries';
+
+type Props = {
+  apiBase: string;
+  /** signed-in user, recorded as created_by / updated_by */
+  by?: string;
+  initialTable?: string;
+  onClose: () => void;
+};
+
+const PAGE_SIZE = 25;
+const MAX_LIST_COLUMNS = 6;
+// options per foreign-key select; larger tables show the first ones (plus the row's own value)
+const FK_OPTION_LIMIT = 200;
+
+/** List columns: primary key first, then short columns (no JSON / long text). */
+function listColumns(table: MetaTable): string[] {
+  const pk = primaryKeyOf(table);
+  const rest = table.columns
+    .filter(c => c.columnName !== pk && !['json', 'text'].includes(columnKind(c.dataType)))
+    .map(c => c.columnName);
+  return [pk, ...rest].slice(0, MAX_LIST_COLUMNS);
+}
+
+/** Browse, view, create, edit and delete rows of every table /meta reports. */
+export default function TableAdminModal({ apiBase, by, initialTable, onClose }: Props) {
+  const [meta, setMeta] = React.useState<Meta | null>(null);
+  const [tableName, setTableName] = React.useState(initialTable ?? '');
+  const [tableFilter, setTableFilter] = React.useState('');
+
+  const [q, setQ] = React.useState('');
+  const [offset, setOffset] = React.useState(0);
+  const [rows, setRows] = React.useState<TableRow[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [reloadTick, setReloadTick] = React.useState(0);
+  const [fkOptions, setFkOptions] = React.useState<FkOptions>({});
+  const [fkLoading, setFkLoading] = React.useState(false);
+  // labels of the open row's foreign-key values that are not among fkOptions (column → label)
+  const [currentLabels, setCurrentLabels] = React.useState<{ row: TableRow | null; labels: Record<string, string> }>({ row: null, labels: {} });
+
+  const [record, setRecord] = React.useState<{ mode: FormMode; row: TableRow } | null>(null);
+  const viewerRef = React.useRef<ViewerPaneHandle>(null);
+
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let alive = true;
+    fetchMeta(apiBase)
+      .then(m => {
+        if (!alive) return;
+        setMeta(m);
+        setTableName(t => t || m.tables[0]?.tableName || '');
+      })
+      .catch(e => { console.error('Loading /meta failed', e); if (alive) setErr(e?.message || String(e)); });
+    return () => { alive = false; };
+  }, [apiBase]);
+
+  const table = React.useMemo(() => meta?.tables.find(t => t.tableName === tableName) ?? null, [meta, tableName]);
+  const pk = table ? primaryKeyOf(table) : 'id';
+  const fks = React.useMemo(() => (table && meta ? foreignKeys(table, meta) : []), [table, meta]);
+  const columns = React.useMemo(() => (table ? listColumns(table) : []), [table]);
+
+  const openTable = (name: string) => {
+    setTableName(name);
+    setQ('');
+    setOffset(0);
+    setRecord(null);
+    setErr(null);
+  };
+
+  // one page of the open table
+  React.useEffect(() => {
+    if (!table) return;
+    let alive = true;
+    setBusy(true);
+    listRows(apiBase, table.tableName, { limit: PAGE_SIZE, offset, q: q.trim() || undefined })
+      .then(res => { if (alive) { setRows(res.items); setTotal(res.total); } })
+      .catch(e => {
+        console.error(`Loading ${table.tableName} failed`, e);
+        if (alive) { setRows([]); setTotal(0); setErr(e?.message || String(e)); }
+      })
+      .finally(() => { if (alive) setBusy(false); });
+    return () => { alive = false; };
+  }, [apiBase, table, offset, q, reloadTick]);
+
+  // choices for the foreign-key pickers (and labels for the list)
+  React.useEffect(() => {
+    if (!meta || !fks.length) { setFkOptions({}); setFkLoading(false); return; }
+    let alive = true;
+    setFkLoading(true);
+    Promise.all(fks.map(async fk => {
+      const target = meta.tables.find(t => t.tableName === fk.table);
+      try {
+        const res = await listRows(apiBase, fk.table, { limit: FK_OPTION_LIMIT });
+        const options = res.items
+          .filter(r => r[fk.refColumn] != null)
+          .map(r => ({ value: String(r[fk.refColumn]), label: rowLabel(r, target) }));
+        return [fk.column, options] as const;
+      } catch (e) {
+        console.warn(`Loading ${fk.table} for ${fk.column} failed`, e);
+        return [fk.column, []] as const;
+      }
+    })).then(entries => { if (alive) { setFkOptions(Object.fromEntries(entries)); setFkLoading(false); } });
+    return () => { alive = false; };
+  }, [apiBase, meta, fks]);
+
+  // the open row's references past the loaded options, looked up one by one for their labels
+  const recordRow = record && record.mode !== 'create' ? record.row : null;
+  React.useEffect(() => {
+    if (!meta || !recordRow || fkLoading) return;
+    const missing = fks.filter(fk => {
+      const v = recordRow[fk.column];
+      return v != null && v !== '' && !fkOptions[fk.column]?.some(o => o.value === String(v));
+    });
+    if (!missing.length) { setCurrentLabels({ row: recordRow, labels: {} }); return; }
+    let alive = true;
+    Promise.all(missing.map(async fk => {
+      const target = meta.tables.find(t => t.tableName === fk.table);
+      const v = String(recordRow[fk.column]);
+      if (!target || primaryKeyOf(target) !== fk.refColumn) return [fk.column, v] as const;
+      try {
+        return [fk.column, rowLabel(await getRow(apiBase, fk.table, v), target)] as const;
+      } catch (e) {
+        console.warn(`Loading ${fk.table} ${v} for ${fk.column} failed`, e);
+        return [fk.column, v] as const;
+      }
+    })).then(entries => { if (alive) setCurrentLabels({ row: recordRow, labels: Object.fromEntries(entries) }); });
+    return () => { alive = false; };
+  }, [apiBase, meta, fks, fkOptions, fkLoading, recordRow]);
+  // the form waits for its choices: a select without the current value's option clears it
+  const optionsReady = !fkLoading && (!recordRow || currentLabels.row === recordRow);
+
+  const fkLabel = (column: string, value: any) =>
+    fkOptions[column]?.find(o => o.value === String(value))?.label;
+
+  const schema = React.useMemo(
+    () => (table && meta && record && optionsReady
+      ? tableFormSchema(table, meta, record.mode, withCurrentOptions(fkOptions, fks, record.row, currentLabels.labels))
+      : null),
+    [table, meta, record, fkOptions, fks, currentLabels, optionsReady]
+  );
+  const formData = React.useMemo(() => (table && record ? rowToFormData(table, record.row) : {}), [table, record]);
+
+  const save = async () => {
+    if (!table || !record || record.mode === 'view') return;
+    const res = viewerRef.current?.submit();
+    if (!res) return;
+    if (res.errors && Object.keys(res.errors).length) {
+      setErr('Some fields are missing or invalid.');
+      return;
+    }
+    const { row, errors } = formDataToRow(table, res.data, record.mode);
+    if (errors.length) { setErr(errors.join('; ')); return; }
+    setBusy(true); setErr(null);
+    try {
+      const body = stampActor(table, row, record.mode, by);
+      const saved = record.mode === 'create'
+        ? await createRow(apiBase, table.tableName, body)
+        : await updateRow(apiBase, table.tableName, String(record.row[pk]), body);
+      // PATCH responses may be partial
+      setRecord({ mode: 'view', row: { ...record.row, ...body, ...(saved || {}) } });
+      setReloadTick(t => t + 1);
+    } catch (e: any) {
+      console.error(`Saving ${table.tableName} failed`, e);
+      setErr(e?.message || 'Save failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (row: TableRow) => {
+    if (!table) return;
+    if (!window.confirm(`Delete ${rowLabel(row, table)} from ${table.tableName}? This cannot be undone.`)) return;
+    setBusy(true); setErr(null);
+    try {
+      await deleteRow(apiBase, table.tableName, String(row[pk]));
+      setRecord(null);
+      setReloadTick(t => t + 1);
+    } catch (e: any) {
+      console.error(`Deleting from ${table.tableName} failed`, e);
+      setErr(e?.message || 'Delete failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tables = (meta?.tables ?? [])
+    .filter(t => !tableFilter || t.tableName.toLowerCase().includes(tableFilter.toLowerCase()))
+    .sort((a, b) => a.tableName.localeCompare(b.tableName));
+  const pageEnd = Math.min(offset + rows.length, total);
+
+  return (
+    <div className="ta-overlay" role="dialog" aria-modal="true" aria-label="Tables">
+      <style>{`
+        .ta-overlay{position:fixed;inset:0;background:rgba(0,0,0,.35);display:flex;align-items:center;justify-content:center;z-index:50}
+        .ta-panel{width:95vw;height:90vh;display:flex;flex-direction:column;background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.2);overflow:hidden}
+        .ta-hd{padding:12px 16px;border-bottom:1px solid #eee;font-weight:700;display:flex;justify-content:space-between;align-items:center}
+        .ta-body{flex:1;min-height:0;display:flex}
+        .ta-side{width:220px;border-right:1px solid #eee;display:flex;flex-direction:column;gap:6px;padding:10px;overflow:auto}
+        .ta-tbl{padding:6px 8px;border-radius:6px;cursor:pointer;font-size:13px;border:none;background:transparent;text-align:left}
+        .ta-tbl:hover{background:#f3f7ff}
+        .ta-tbl.active{background:#0b5fff;color:#fff}
+        .ta-main{flex:1;min-width:0;display:flex;flex-direction:column;gap:8px;padding:10px 12px;font-size:13px}
+        .ta-bar{display:flex;gap:8px;align-items:center}
+        .ta-input{height:30px;padding:4px 8px;border:1px solid #cbd5e1;border-radius:8px}
+        .ta-btn{height:30px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;white-space:nowrap}
+        .ta-btn.primary{border-color:#0b5fff;color:#0b5fff}
+        .ta-btn.danger{border-color:#fecaca;color:#b91c1c}
+        .ta-btn:disabled{opacity:.6;cursor:not-allowed}
+        .ta-split{flex:1;min-height:0;display:flex;gap:10px}
+        .ta-wrap{flex:1;min-width:0;overflow:auto;border:1px solid #e5e7eb;border-radius:8px}
+        .ta-grid{width:100%;border-collapse:collapse}
+        .ta-grid th,.ta-grid td{padding:6px 8px;border-top:1px solid #f1f5f9;text-align:left;white-space:nowrap}
+        .ta-grid th{position:sticky;top:0;background:#fafafa;font-weight:600;border-top:none}
+        .ta-grid tbody tr{cursor:pointer}
+        .ta-grid tbody tr:hover,.ta-grid tbody tr:focus,.ta-grid tbody tr.active{background:#f0f6ff;outline:none}
+        .ta-record{width:min(480px,45%);display:flex;flex-direction:column;gap:8px;border:1px solid #e5e7eb;border-radius:8px;padding:10px;min-height:0}
+        .ta-foot{display:flex;gap:8px;align-items:center;justify-content:space-between}
+        .ta-err{background:#fee2e2;border:1px solid #fecaca;color:#991b1b;padding:8px;border-radius:8px}
+        .ta-muted{opacity:.7}
+      `}</style>
+      <div className="ta-panel">
+        <div className="ta-hd">
+          <span>Tables</span>
+          <button className="ta-btn" onClick={onClose}>Close</button>
+        </div>
+        <div className="ta-body">
+          <div className="ta-side">
+            <input className="ta-input" value={tableFilter} onChange={e => setTableFilter(e.target.value)} placeholder="Filter tables…" />
+            {!meta && !err && <span className="ta-muted">Loading /meta…</span>}
+            {tables.map(t => (
+              <button key={t.tableName} className={`ta-tbl ${t.tableName === tableName ? 'active' : ''}`} onClick={() => openTable(t.tableName)}>
+                {t.tableName}
+              </button>
+            ))}
+          </div>
+
+          <div className="ta-main">
+            <div className="ta-bar">
+              <strong>{tableName || '—'}</strong>
+              <input
+                className="ta-input"
+                value={q}
+                onChange={e => { setQ(e.target.value); setOffset(0); }}
+                placeholder="Search…"
+                style={{ flex: 1 }}
+                disabled={!table}
+              />
+              <button className="ta-btn" onClick={() => setReloadTick(t => t + 1)} disabled={!table || busy}>{busy ? 'Loading…' : 'Refresh'}</button>
+              <button className="ta-btn primary" onClick={() => { setErr(null); setRecord({ mode: 'create', row: {} }); }} disabled={!table}>New…</button>
+            </div>
+
+            {err && <div className="ta-err">{err}</div>}
+
+            <div className="ta-split">
+              <div className="ta-wrap">
+                <table className="ta-grid">
+                  <thead>
+                    <tr>{columns.map(c => <th key={c}>{humanize(c)}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((r, i) => {
+                      const open = () => { setErr(null); setRecord({ mode: 'view', row: r }); };
+                      return (
+                        <tr
+                          key={r[pk] ?? i}
+                          tabIndex={0}
+                          className={record && record.mode !== 'create' && record.row[pk] === r[pk] ? 'active' : ''}
+                          onClick={open}
+                          onKeyDown={e => { if (e.key === 'Enter') open(); }}
+                        >
+                          {columns.map(c => <td key={c} title={r[c] != null ? String(r[c]) : ''}>{fkLabel(c, r[c]) ?? formatEntryValue(r[c], 40)}</td>)}
+                        </tr>
+                      );
+                    })}
+                    {!busy && table && rows.length === 0 && (
+                      <tr><td colSpan={columns.length || 1} className="ta-muted">No rows.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {record && table && !schema && (
+                <div className="ta-record ta-muted" aria-label="Row">Loading choices…</div>
+              )}
+              {record && table && schema && (
+                <div className="ta-record" aria-label="Row">
+                  <div className="ta-bar" style={{ justifyContent: 'space-between' }}>
+                    <strong>
+                      {record.mode === 'create' ? `New ${table.tableName} row` : rowLabel(record.row, table)}
+                    </strong>
+                    <span style={{ display: 'flex', gap: 6 }}>
+                      {record.mode === 'view' && (
+                        <>
+                          <button className="ta-btn" onClick={() => setRecord({ mode: 'edit', row: record.row })} disabled={busy}>Edit</button>
+                          <button className="ta-btn danger" onClick={() => remove(record.row)} disabled={busy}>Delete</button>
+                        </>
+                      )}
+                      {record.mode !== 'view' && (
+                        <>
+                          <button className="ta-btn primary" onClick={save} disabled={busy}>Save</button>
+                          <button
+                            className="ta-btn"
+                            onClick={() => { setErr(null); setRecord(record.mode === 'edit' ? { mode: 'view', row: record.row } : null); }}
+                            disabled={busy}
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      )}
+                      {record.mode === 'view' && <button className="ta-btn" onClick={() => setRecord(null)}>Close</button>}
+                    </span>
+                  </div>
+                  <ViewerPane
+                    key={`${table.tableName}:${record.mode}:${record.row[pk] ?? 'new'}`}
+                    ref={viewerRef}
+                    schema={schema}
+                    data={formData}
+                    readOnly={record.mode === 'view'}
+                    style={{ flex: 1, minHeight: 0, overflow: 'auto' }}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="ta-foot">
+              <span className="ta-muted">{total ? `${offset + 1}–${pageEnd} of ${total}` : '0 rows'}</span>
+              <span style={{ display: 'flex', gap: 8 }}>
+                <button className="ta-btn" onClick={() => setOffset(o => Math.max(0, o - PAGE_SIZE))} disabled={busy || offset === 0}>‹ Prev</button>
+                <button className="ta-btn" onClick={() => setOffset(o => o + PAGE_SIZE)} disabled={busy || offset + PAGE_SIZE >= total}>Next ›</button>
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
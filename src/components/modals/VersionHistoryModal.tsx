@@ -0,0 +1,255 @@
+import * as React from 'react';
+import {
+  FormVersion,
+  listVersions,
+  diffVersions,
+  isEmptyDiff,
+  describeCell,
+  ComponentSummary
+} from '../../core/versions';
+import { FormStatus, LIFECYCLE_TRANSITIONS, STATUS_LABELS, TRANSITION_LABELS, transitionForm } from '../../core/lifecycle';
+import type { FormDefinition } from '../../core/api';
+import { migrationOf } from '../../core/migrations';
+import StatusBadge from '../StatusBadge';
+import MigrationEditor from '../MigrationEditor';
+
+type Props = {
+  /** form_definition.name shared by all versions */
+  name: string;
+  /** row currently open in the app (marked in the list) */
+  currentId?: string;
+  stateLabels?: Record<string, string>;
+  onClose: () => void;
+  /** load an older version into the editor as an unpublished draft */
+  onRestore: (version: FormVersion) => void;
+  /** a version changed lifecycle status (also called for versions retired by an activation) */
+  onStatusChange?: (row: FormDefinition) => void;
+  /** recorded as `by` in the lifecycle audit log */
+  actor?: string;
+};
+
+function componentLabel(c: ComponentSummary) {
+  const name = c.label || c.key || c.id;
+  return `${name}${c.type ? ` (${c.type})` : ''}`;
+}
+
+export default function VersionHistoryModal({ name, currentId, stateLabels, onClose, onRestore, onStatusChange, actor }: Props) {
+  const [versions, setVersions] = React.useState<FormVersion[]>([]);
+  const [busy, setBusy] = React.useState(true);
+  const [err, setErr] = React.useState<string | null>(null);
+  // compare "from" (older) → "to" (newer), by row id
+  const [fromId, setFromId] = React.useState<string>('');
+  const [toId, setToId] = React.useState<string>('');
+  const [logId, setLogId] = React.useState<string | null>(null);
+  const [moving, setMoving] = React.useState<string | null>(null);
+  const [migrationId, setMigrationId] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async (initial: boolean) => {
+    setBusy(true); setErr(null);
+    try {
+      const list = await listVersions(name);
+      setVersions(list);
+      if (initial) {
+        setToId(list[0]?.id ?? '');
+        setFromId(list[1]?.id ?? list[0]?.id ?? '');
+      }
+      return list;
+    } catch (e: any) {
+      console.error('Loading versions failed', e);
+      setErr(e?.message || String(e));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [name]);
+
+  React.useEffect(() => { load(true); }, [load]);
+
+  const move = async (v: FormVersion, to: FormStatus) => {
+    let note: string | undefined;
+    if (to === 'active') {
+      const answer = window.prompt(`Activate v${v.version} of "${v.name}"? The currently active version will be retired.\n\nReason (kept in the audit log):`);
+      if (answer === null) return;
+      if (!answer.trim()) { alert('A reason is required to activate a version.'); return; }
+      note = answer.trim();
+    } else if (to === 'retired' && !window.confirm(`Retire v${v.version}? Retired versions cannot be reactivated.`)) {
+      return;
+    }
+    setMoving(v.id); setErr(null);
+    const before = new Map(versions.map(x => [x.id, x.status]));
+    let failure: string | null = null;
+    try {
+      await transitionForm(v.row, to, { by: actor, note });
+    } catch (e: any) {
+      console.error('Lifecycle change failed', e);
+      failure = e?.message || String(e);
+    }
+    try {
+      // show the rows as they are now (someone else may have moved them, or only part of an
+      // activation went through) and report every row whose status changed
+      const list = await load(false);
+      for (const x of list || []) if (before.get(x.id) !== x.status) onStatusChange?.(x.row);
+      if (failure) setErr(failure);
+    } finally {
+      setMoving(null);
+    }
+  };
+
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const diff = React.useMemo(() => (from && to ? diffVersions(from, to) : null), [from, to]);
+
+  return (
+    <div className="vh-overlay" role="dialog" aria-modal="true" aria-label="Version history">
+      <style>{`
+        .vh-overlay{position:fixed;inset:0;background:rgba(0,0,0,.35);display:flex;align-items:center;justify-content:center;z-index:50}
+        .vh-panel{width:min(1000px,94vw);background:#fff;border-radius:12px;box-shadow:0 10px 40px rgba(0,0,0,.2);overflow:hidden}
+        .vh-hd{padding:14px 16px;border-bottom:1px solid #eee;font-weight:700;display:flex;justify-content:space-between;align-items:center}
+        .vh-bd{padding:12px;display:flex;flex-direction:column;gap:12px;max-height:78vh;overflow:auto}
+        .vh-btn{height:30px;padding:0 10px;border:1px solid #c9c9c9;border-radius:8px;background:#fff;cursor:pointer;margin-left:4px}
+        .vh-btn:disabled{opacity:.6;cursor:not-allowed}
+        .vh-log{margin:0 0 0 18px;padding:0;font-size:12px}
+        .vh-table{width:100%;border-collapse:collapse;font-size:13px}
+        .vh-table th,.vh-table td{padding:6px 8px;border-top:1px solid #f1f5f9;text-align:left}
+        .vh-table th{font-weight:600;background:#fafafa}
+        .vh-badge{font-size:11px;padding:1px 6px;border-radius:999px;border:1px solid #bfd3ff;background:#e8f0ff;color:#0b5fff;margin-left:6px}
+        .vh-diff{border:1px solid #e5e7eb;border-radius:8px;padding:10px;display:grid;gap:10px;font-size:13px}
+        .vh-diff ul{margin:4px 0 0 18px;padding:0}
+        .vh-add{color:#166534}.vh-del{color:#991b1b}.vh-chg{color:#8a5a00}
+        .vh-err{background:#fee2e2;border:1px solid #fecaca;color:#991b1b;padding:8px;border-radius:8px}
+        .vh-muted{opacity:.7}
+      `}</style>
+      <div className="vh-panel">
+        <div className="vh-hd">
+          <span>Version history — {name}</span>
+          <button className="vh-btn" onClick={onClose}>Close</button>
+        </div>
+        <div className="vh-bd">
+          {err && <div className="vh-err">{err}</div>}
+          {busy && <div className="vh-muted">Loading versions…</div>}
+          {!busy && !versions.length && !err && <div className="vh-muted">No published versions yet.</div>}
+
+          {versions.length > 0 && (
+            <table className="vh-table">
+              <thead>
+                <tr>
+                  <th>Version</th>
+                  <th>Status</th>
+                  <th>Published</th>
+                  <th>By</th>
+                  <th title="Compare from">From</th>
+                  <th title="Compare to">To</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map(v => (
+                  <React.Fragment key={v.id}>
+                    <tr>
+                      <td>
+                        v{v.version}
+                        {v.id === currentId && <span className="vh-badge">open</span>}
+                      </td>
+                      <td><StatusBadge status={v.status} /></td>
+                      <td>{v.createdAt ? new Date(v.createdAt).toLocaleString() : '—'}</td>
+                      <td>{v.createdBy || '—'}</td>
+                      <td><input type="radio" name="vh-from" checked={fromId === v.id} onChange={() => setFromId(v.id)} /></td>
+                      <td><input type="radio" name="vh-to" checked={toId === v.id} onChange={() => setToId(v.id)} /></td>
+                      <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                        {LIFECYCLE_TRANSITIONS[v.status].map(next => (
+                          <button key={next} className="vh-btn" onClick={() => move(v, next)} disabled={!!moving}>
+                            {TRANSITION_LABELS[next]}
+                          </button>
+                        ))}
+                        <button className="vh-btn" onClick={() => setLogId(logId === v.id ? null : v.id)} aria-expanded={logId === v.id}>
+                          Log
+                        </button>
+                        <button
+                          className="vh-btn"
+                          onClick={() => setMigrationId(migrationId === v.id ? null : v.id)}
+                          aria-expanded={migrationId === v.id}
+                          title="Steps that bring entries of the previous version into this one"
+                        >
+                          Migration{migrationOf(v.row).length ? ` (${migrationOf(v.row).length})` : ''}
+                        </button>
+                        <button className="vh-btn" onClick={() => onRestore(v)} title="Load into the editor; publishing makes it the newest version">
+                          Restore as draft
+                        </button>
+                      </td>
+                    </tr>
+                    {migrationId === v.id && (
+                      <tr>
+                        <td colSpan={7}>
+                          <MigrationEditor
+                            version={v}
+                            previous={versions.find(x => x.version < v.version)}
+                            onCancel={() => setMigrationId(null)}
+                            onSaved={() => { setMigrationId(null); load(false); }}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                    {logId === v.id && (
+                      <tr>
+                        <td colSpan={7}>
+                          {v.history.length ? (
+                            <ul className="vh-log">
+                              {v.history.map((e, i) => (
+                                <li key={i}>
+                                  {new Date(e.at).toLocaleString()} — {e.from ? `${STATUS_LABELS[e.from]} → ` : 'created as '}{STATUS_LABELS[e.to]}
+                                  {e.by && <> by {e.by}</>}
+                                  {e.note && <span className="vh-muted"> ({e.note})</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : <span className="vh-muted">No lifecycle changes recorded.</span>}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {diff && from && to && (
+            <div className="vh-diff" aria-label="Version diff">
+              <strong>v{from.version} → v{to.version}</strong>
+              {isEmptyDiff(diff) && <span className="vh-muted">No differences.</span>}
+              {diff.added.length > 0 && (
+                <div>
+                  <span className="vh-add">Added components ({diff.added.length})</span>
+                  <ul>{diff.added.map(c => <li key={c.id}>{componentLabel(c)}</li>)}</ul>
+                </div>
+              )}
+              {diff.removed.length > 0 && (
+                <div>
+                  <span className="vh-del">Removed components ({diff.removed.length})</span>
+                  <ul>{diff.removed.map(c => <li key={c.id}>{componentLabel(c)}</li>)}</ul>
+                </div>
+              )}
+              {diff.changed.length > 0 && (
+                <div>
+                  <span className="vh-chg">Changed components ({diff.changed.length})</span>
+                  <ul>{diff.changed.map(c => <li key={c.id}>{componentLabel(c)}: {c.props.join(', ')}</li>)}</ul>
+                </div>
+              )}
+              {diff.cells.length > 0 && (
+                <div>
+                  <span className="vh-chg">Changed matrix cells ({diff.cells.length})</span>
+                  <ul>
+                    {diff.cells.map(c => (
+                      <li key={`${c.key}:${c.state}`}>
+                        <code>{c.key}</code> in {stateLabels?.[c.state] ?? c.state}: {describeCell(c.before)} → {describeCell(c.after)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
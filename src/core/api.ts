@@ -1,114 +1,61 @@
 // src/core/api.ts
-// CRA-friendly API client with a single, explicit base URL.
-// For the demo we default to http://localhost:8000 to avoid any proxy confusion.
+// Typed endpoints of the generic CRUD backend, over the shared client (core/http.ts).
+// For the demo the base defaults to http://localhost:8000 to avoid any proxy confusion.
 
-type Json = Record<string, any>;
+import { API_BASE, ApiError, http, isConflictError } from './http';
 
-declare global {
-  interface Window {
-    __API_BASE__?: string;
-  }
-}
-
-function resolveBase(): string {
-  // 1) window override (handy for staging without rebuild)
-  if (typeof window !== 'undefined' && window.__API_BASE__) return window.__API_BASE__;
-
-  // 2) Vite env (works if you build with Vite; safely ignored elsewhere)
-  const viteEnv = (typeof import.meta !== 'undefined' && (import.meta as any).env) || {};
-  const viteBase = (viteEnv?.VITE_API_BASE as string | undefined)?.trim();
-  if (viteBase) return viteBase;
-
-  // 3) CRA/Webpack env — ONLY read if process exists in this runtime
-  const craBase =
-    (typeof process !== 'undefined' &&
-      (process as any).env &&
-      (process as any).env.REACT_APP_API_BASE &&
-      String((process as any).env.REACT_APP_API_BASE).trim()) ||
-    undefined;
-  if (craBase) return craBase;
-
-  // 4) DEMO default (explicit, no proxy/fallback)
-  return 'http://localhost:8000';
-}
+type Json = Record<string, any>;
 
-function join(base: string, path: string) {
-  const b = base.replace(/\/+$/, '');
-  const p = path.replace(/^\/+/, '');
-  return `${b}/${p}`;
-}
+export { API_BASE, ApiError, isConflictError };
 
-export const API_BASE = resolveBase();
 if (typeof window !== 'undefined') {
   // Helpful in console to verify which base is used
   // eslint-disable-next-line no-console
   console.info('[api] Using API base:', API_BASE);
 }
 
-class ApiError extends Error {
-  status: number;
-  details?: unknown;
-  constructor(message: string, status: number, details?: unknown) {
-    super(message);
-    this.status = status;
-    this.details = details;
-  }
-}
-
-async function parseJson<T>(res: Response): Promise<T> {
-  if (res.status === 204) return undefined as unknown as T;
-  const ctype = res.headers.get('content-type') || '';
-  if (ctype.includes('application/json')) return res.json() as Promise<T>;
-  return (await res.text()) as unknown as T;
+async function getJSON<T>(path: string): Promise<T> {
+  return http.get<T>(path, { headers: { 'Cache-Control': 'no-cache' } });
 }
 
-async function errorDetails(res: Response): Promise<any> {
-  const c = res.clone(); // never read the same stream twice
-  try { return await c.json(); }
-  catch {
-    try { return await res.text(); }
-    catch { return undefined; }
-  }
+async function postJSON<T>(path: string, body: any): Promise<T> {
+  return http.post<T>(path, body);
 }
 
-async function request<T>(path: string, init: RequestInit): Promise<T> {
-  const url = join(API_BASE, path);
-  const res = await fetch(url, init);
-  if (res.ok) return parseJson<T>(res);
-  const details = await errorDetails(res);
-  throw new ApiError(`HTTP ${res.status} ${res.statusText}`, res.status, details);
+async function patchJSON<T>(path: string, body: any, headers: Record<string, string> = {}): Promise<T> {
+  return http.patch<T>(path, body, { headers });
 }
 
-async function getJSON<T>(path: string): Promise<T> {
-  return request<T>(path.replace(/^\//, ''), {
-    method: 'GET',
-    headers: { Accept: 'application/json', 'Cache-Control': 'no-cache' }
-  });
+async function deleteJSON<T>(path: string): Promise<T> {
+  return http.delete<T>(path);
 }
 
-async function postJSON<T>(path: string, body: any): Promise<T> {
-  return request<T>(path.replace(/^\//, ''), {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
-    body: JSON.stringify(body)
-  });
+/* ===================== Optimistic concurrency ===================== */
+/**
+ * What the caller last saw of a row. Sent as If-Match / If-Unmodified-Since; servers that
+ * ignore those are covered by re-reading `updated_at` before the write (writeIfUnchanged).
+ */
+export interface Precondition {
+  etag?: string;
+  updatedAt?: string;
 }
 
-async function patchJSON<T>(path: string, body: any): Promise<T> {
-  return request<T>(path.replace(/^\//, ''), {
-    method: 'PATCH',
-    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
-    body: JSON.stringify(body)
-  });
+export function preconditionHeaders(p?: Precondition): Record<string, string> {
+  const h: Record<string, string> = {};
+  if (p?.etag) h['If-Match'] = p.etag;
+  const at = p?.updatedAt ? new Date(p.updatedAt) : null;
+  if (at && !isNaN(at.getTime())) h['If-Unmodified-Since'] = at.toUTCString();
+  return h;
 }
 
-// NEW: generic PUT helper for replace endpoints
-async function putJSON<T>(path: string, body: any): Promise<T> {
-  return request<T>(path.replace(/^\//, ''), {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
-    body: JSON.stringify(body)
-  });
+async function writeIfUnchanged<T>(path: string, expected: Precondition | undefined, write: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+  if (expected?.updatedAt) {
+    const current = await getJSON<{ updated_at?: string }>(path);
+    if (current?.updated_at && current.updated_at !== expected.updatedAt) {
+      throw new ApiError('HTTP 412 Precondition Failed', 412, current, { method: 'GET', url: path });
+    }
+  }
+  return write(preconditionHeaders(expected));
 }
 
 /* ===================== Types ===================== */
@@ -120,6 +67,11 @@ export interface FormDefinition {
   is_active: boolean;
   // NEW: part of your contract; stored as a stringified JSON blob
   field_state_setting?: string;
+  // lifecycle (core/lifecycle.ts): draft | in_review | active | retired, plus a JSON audit log
+  status?: string;
+  status_history?: string;
+  // entry data migration from the previous version to this one (core/migrations.ts), JSON
+  data_migration?: string;
   created_at?: string;
   created_by?: string;
   updated_at?: string;
@@ -153,6 +105,61 @@ export interface FormEntry {
   updated_by?: string;
 }
 
+/** One saved state of a form_entry (revision trail, core/revisions.ts) */
+export interface FormEntryRevision {
+  id: string;
+  form_entry_id: string;
+  revision: number;           // 1, 2, … per entry
+  form_definition_id: string;
+  state: string;              // workflow state the entry was saved in
+  data: string;               // stringified JSON, as stored on the entry
+  created_at?: string;
+  created_by?: string;
+}
+
+export interface FormEntryRevisionList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: FormEntryRevision[];
+}
+
+/** Autosaved, not yet submitted entry data (core/drafts.ts); one per form + process instance */
+export interface FormEntryDraft {
+  id: string;
+  form_definition_id: string;
+  process_instance_id?: string | null;
+  legal_entity_id?: string | null;
+  form_entry_id?: string | null;   // set when the draft edits a stored entry
+  state: string;
+  data: string;                    // stringified JSON
+  created_at?: string;
+  created_by?: string;
+  updated_at?: string;
+  updated_by?: string;
+}
+
+export interface FormEntryDraftList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: FormEntryDraft[];
+}
+
+export interface FormDefinitionList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: FormDefinition[];
+}
+
+export interface FormEntryList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: FormEntry[];
+}
+
 export interface LegalEntityList {
   total: number;
   limit: number;
@@ -185,38 +192,136 @@ export interface ProcessInstanceList {
   items: ProcessInstance[];
 }
 
+export interface WorkflowState {
+  id: string;
+  name: string;
+  description?: string;
+  created_at?: string;
+  created_by?: string;
+  updated_at?: string;
+  updated_by?: string;
+}
+
+export interface WorkflowStateList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: WorkflowState[];
+}
+
+export interface WorkflowTransition {
+  id: string;
+  from_state_id: string;
+  to_state_id: string;
+  condition?: string | null; // expression over entry data, see core/expression.ts
+  created_at?: string;
+  created_by?: string;
+  updated_at?: string;
+  updated_by?: string;
+}
+
+export interface WorkflowTransitionList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: WorkflowTransition[];
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface RoleList {
+  total: number;
+  limit: number;
+  offset: number;
+  items: Role[];
+}
+
+type ListParams = { limit?: number; offset?: number; sort?: string; q?: string };
+
+function listQuery(p?: ListParams) {
+  const usp = new URLSearchParams();
+  if (p?.limit != null) usp.set('limit', String(p.limit));
+  if (p?.offset != null) usp.set('offset', String(p.offset));
+  if (p?.sort) usp.set('sort', p.sort);
+  if (p?.q) usp.set('q', p.q);
+  const qs = usp.toString();
+  return qs ? `?${qs}` : '';
+}
+
 /* ===================== GETs (as used in App.tsx) ===================== */
 
 export const getFormDefinition = (itemId: string) =>
   getJSON<FormDefinition>(`/form_definition/${encodeURIComponent(itemId)}`);
 
+export const listFormDefinitions = (p?: ListParams & { name?: string }) => {
+  const qs = listQuery(p);
+  const name = p?.name ? `${qs ? '&' : '?'}name=${encodeURIComponent(p.name)}` : '';
+  return getJSON<FormDefinitionList>(`/form_definition/${qs}${name}`);
+};
+
 export const getTaskFieldBehavior = (itemId: string) =>
   getJSON<TaskFieldBehavior>(`/task_field_behavior/${encodeURIComponent(itemId)}`);
 
 export const getFormEntry = (itemId: string) =>
   getJSON<FormEntry>(`/form_entry/${encodeURIComponent(itemId)}`);
 
-export const listLegalEntities = (p?: { limit?: number; offset?: number; sort?: string; q?: string }) => {
+export type FormEntryFilter = {
+  form_definition_id?: string;
+  legal_entity_id?: string;
+  process_instance_id?: string;
+  /** created_at range, inclusive (ISO date or date-time) */
+  created_at_from?: string;
+  created_at_to?: string;
+};
+
+export const listFormEntries = (p?: ListParams & FormEntryFilter) => {
+  const qs = listQuery(p);
   const usp = new URLSearchParams();
-  if (p?.limit != null) usp.set('limit', String(p.limit));
-  if (p?.offset != null) usp.set('offset', String(p.offset));
-  if (p?.sort) usp.set('sort', p.sort);
-  if (p?.q) usp.set('q', p.q);
-  const qs = usp.toString();
-  return getJSON<LegalEntityList>(`/legal_entity/${qs ? `?${qs}` : ''}`);
+  for (const k of ['form_definition_id', 'legal_entity_id', 'process_instance_id', 'created_at_from', 'created_at_to'] as const) {
+    if (p?.[k]) usp.set(k, p[k] as string);
+  }
+  const filter = usp.toString();
+  return getJSON<FormEntryList>(`/form_entry/${qs}${filter ? `${qs ? '&' : '?'}${filter}` : ''}`);
+};
+
+export const listFormEntryRevisions = (p?: ListParams & { form_entry_id?: string }) => {
+  const qs = listQuery(p);
+  const entry = p?.form_entry_id ? `${qs ? '&' : '?'}form_entry_id=${encodeURIComponent(p.form_entry_id)}` : '';
+  return getJSON<FormEntryRevisionList>(`/form_entry_revision/${qs}${entry}`);
+};
+
+export const listFormEntryDrafts = (p?: ListParams & { form_definition_id?: string; process_instance_id?: string }) => {
+  const qs = listQuery(p);
+  const usp = new URLSearchParams();
+  if (p?.form_definition_id) usp.set('form_definition_id', p.form_definition_id);
+  if (p?.process_instance_id) usp.set('process_instance_id', p.process_instance_id);
+  const filter = usp.toString();
+  return getJSON<FormEntryDraftList>(`/form_entry_draft/${qs}${filter ? `${qs ? '&' : '?'}${filter}` : ''}`);
 };
 
+export const listLegalEntities = (p?: ListParams) =>
+  getJSON<LegalEntityList>(`/legal_entity/${listQuery(p)}`);
+
 export const getProcessInstance = (itemId: string) =>
   getJSON<ProcessInstance>(`/process_instance/${encodeURIComponent(itemId)}`);
 
-export const listProcessInstances = (p?: { limit?: number; offset?: number; sort?: string; q?: string }) => {
-  const usp = new URLSearchParams();
-  if (p?.limit != null) usp.set('limit', String(p.limit));
-  if (p?.offset != null) usp.set('offset', String(p.offset));
-  if (p?.sort) usp.set('sort', p.sort);
-  if (p?.q) usp.set('q', p.q);
-  const qs = usp.toString();
-  return getJSON<ProcessInstanceList>(`/process_instance/${qs ? `?${qs}` : ''}`);
+export const listProcessInstances = (p?: ListParams) =>
+  getJSON<ProcessInstanceList>(`/process_instance/${listQuery(p)}`);
+
+export const listWorkflowStates = (p?: ListParams) =>
+  getJSON<WorkflowStateList>(`/workflow_state/${listQuery(p)}`);
+
+export const listRoles = (p?: ListParams) =>
+  getJSON<RoleList>(`/roles/${listQuery(p)}`);
+
+export const listWorkflowTransitions = (p?: ListParams & { from_state_id?: string }) => {
+  const qs = listQuery(p);
+  const from = p?.from_state_id ? `${qs ? '&' : '?'}from_state_id=${encodeURIComponent(p.from_state_id)}` : '';
+  return getJSON<WorkflowTransitionList>(`/workflow_transition/${qs}${from}`);
 };
 
 export const getProcessDefinition = (itemId: string) =>
@@ -227,7 +332,8 @@ export const getProcessDefinition = (itemId: string) =>
 /* ===================== POST/PATCH (as used in App.tsx) ===================== */
 
 export const createFormDefinition = (payload: {
-  name: string; version: number; form_schema: string; is_active: boolean;
+  name: string; version: number; form_schema: string; is_active: boolean; field_state_setting?: string;
+  status?: string; status_history?: string; created_by?: string;
 }) => postJSON<FormDefinition>('/form_definition/', payload);
 
 export const createTaskFieldBehavior = (payload: {
@@ -245,30 +351,50 @@ export const createFormEntry = (payload: {
   process_instance_id: string;
   legal_entity_id: string;
   data: string;
+  created_by?: string;
 }) => postJSON<FormEntry>('/form_entry/', payload);
 
+export const createFormEntryRevision = (payload: Omit<FormEntryRevision, 'id' | 'created_at'>) =>
+  postJSON<FormEntryRevision>('/form_entry_revision/', payload);
+
+export const createFormEntryDraft = (payload: Omit<FormEntryDraft, 'id' | 'created_at' | 'updated_at'>) =>
+  postJSON<FormEntryDraft>('/form_entry_draft/', payload);
+
+export const patchFormEntryDraft = (id: string, patch: Partial<Pick<FormEntryDraft, 'data' | 'state' | 'form_entry_id' | 'updated_by'>>) =>
+  patchJSON<FormEntryDraft>(`/form_entry_draft/${encodeURIComponent(id)}`, patch);
+
+export const deleteFormEntryDraft = (id: string) =>
+  deleteJSON<void>(`/form_entry_draft/${encodeURIComponent(id)}`);
+
 export const createLegalEntity = (payload: { name: string; type_id?: string; email?: string; phone_number?: string }) =>
   postJSON<{ id: string }>('/legal_entity/', payload);
 
-export const createProcessInstance = (payload: { definition_id: string; legal_entity_id: string }) =>
+/** Pass `current_state_id` (the workflow's initial state) so the instance can take its first transition. */
+export const createProcessInstance = (payload: { definition_id: string; legal_entity_id: string; current_state_id?: string }) =>
   postJSON<ProcessInstance>('/process_instance/', payload);
 
+/** With `expected`, fails with a 409/412 ApiError when the row changed since (isConflictError). */
+export const patchProcessInstance = (
+  id: string,
+  patch: Partial<Pick<ProcessInstance, 'current_state_id' | 'updated_by'>>,
+  expected?: Precondition
+) => {
+  const path = `/process_instance/${encodeURIComponent(id)}`;
+  return writeIfUnchanged(path, expected, headers => patchJSON<ProcessInstance>(path, patch, headers));
+};
+
+export const patchFormEntry = (id: string, patch: Partial<Pick<FormEntry, 'data' | 'form_definition_id' | 'updated_by'>>) =>
+  patchJSON<FormEntry>(`/form_entry/${encodeURIComponent(id)}`, patch);
+
+/** With `expected`, fails with a 409/412 ApiError when the row changed since (isConflictError). */
+export const patchFormDefinition = (
+  id: string,
+  patch: Partial<Pick<FormDefinition, 'is_active' | 'status' | 'status_history' | 'data_migration' | 'updated_by'>>,
+  expected?: Precondition
+) => {
+  const path = `/form_definition/${encodeURIComponent(id)}`;
+  return writeIfUnchanged(path, expected, headers => patchJSON<FormDefinition>(path, patch, headers));
+};
+
 export const patchFormDefinitionSchema = (id: string, schema: Json) =>
   patchJSON<FormDefinition>(`/form_definition/${encodeURIComponent(id)}`, { form_schema: JSON.stringify(schema) });
-
-/* ===================== PUT replace (NEW) ===================== */
-/**
- * Replace Form Definition Item
- * PUT /form_definition/{item_id}
- * Expects top-level fields:
- *  - name (string), version (number), is_active (boolean)
- *  - form_schema (stringified JSON)
- *  - field_state_setting (stringified JSON)
- */
-export const replaceFormDefinition = (id: string, payload: {
-  name: string;
-  version: number;
-  is_active: boolean;
-  form_schema: string;           // already stringified JSON
-  field_state_setting?: string;  // already stringified JSON (optional)
-}) => putJSON<FormDefinition>(`/form_definition/${encodeURIComponent(id)}`, payload);
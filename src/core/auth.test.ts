@@ -0,0 +1,150 @@
+import { ApiClient } from './http';
+import { AuthSession, actorOf, authStore, installAuth, isExpired, login, logout, refreshSession } from './auth';
+
+// env.ts reads import.meta, which Jest cannot parse
+jest.mock('../env', () => ({ viteEnv: {}, defaultHeaders: () => ({}), AUTH_REQUIRED: false }));
+
+function reply(status: number, body?: any): Response {
+  const res: any = {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: { get: (k: string) => (k.toLowerCase() === 'content-type' && body !== undefined ? 'application/json' : null) },
+    json: async () => body,
+    text: async () => JSON.stringify(body ?? ''),
+    clone: () => res
+  };
+  return res;
+}
+
+type Handler = (auth: string | undefined, body: any) => Response;
+
+/** Fake server: "METHOD /path" → handler, given the Authorization header and the parsed body. */
+function server(routes: Record<string, Handler>) {
+  const fetchMock = jest.fn(async (url: string, init: RequestInit) => {
+    const key = `${init.method} ${new URL(url).pathname}`;
+    const handler = routes[key];
+    if (!handler) return reply(404);
+    const headers = (init.headers || {}) as Record<string, string>;
+    return handler(headers.Authorization, init.body ? JSON.parse(String(init.body)) : undefined);
+  });
+  (global as any).fetch = fetchMock;
+  return fetchMock;
+}
+
+const user = { id: 'u1', email: 'ann@example.com' };
+const session = (token: string, extra: Partial<AuthSession> = {}): AuthSession => ({ token, sessionId: 's1', user, ...extra });
+const past = () => new Date(Date.now() - 60_000).toISOString();
+
+/** A protected resource that only accepts `token`. */
+const onlyWith = (token: string): Handler => auth => (auth === `Bearer ${token}` ? reply(200, { ok: token }) : reply(401));
+
+let client: ApiClient;
+let uninstall: () => void;
+beforeEach(() => {
+  window.localStorage.clear();
+  authStore.clear();
+  client = new ApiClient('http://api.test');
+  uninstall = installAuth(client);
+});
+afterEach(() => uninstall());
+
+describe('login / logout', () => {
+  test('stores the session from the login answer, looking the user up when it is missing', async () => {
+    server({
+      'POST /auth/login': () => reply(200, { access_token: 't1', session: { id: 's1', user_id: 'u1', expires_at: '2099-01-01T00:00:00Z' } }),
+      'GET /users/u1': auth => (auth === 'Bearer t1' ? reply(200, user) : reply(401))
+    });
+    const s = await login('ann@example.com', 'pw', client);
+
+    expect(s).toEqual({ token: 't1', sessionId: 's1', user, issuedAt: undefined, expiresAt: '2099-01-01T00:00:00Z' });
+    expect(authStore.session).toEqual(s);
+    expect(JSON.parse(window.localStorage.getItem('auth:session')!)).toEqual(s);
+    expect(actorOf(authStore.session)).toBe('ann@example.com');
+  });
+
+  test('logout drops the session even when the server call fails', async () => {
+    authStore.set(session('t1'));
+    server({ 'POST /auth/logout': () => reply(500) });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await logout(client);
+    expect(authStore.session).toBeNull();
+    expect(window.localStorage.getItem('auth:session')).toBeNull();
+  });
+});
+
+describe('installAuth', () => {
+  test('sends the bearer token on the client and the clients made from it', async () => {
+    authStore.set(session('t1'));
+    const fetchMock = server({ 'GET /rows': onlyWith('t1') });
+
+    expect(await client.withBase('http://api.test/').get('/rows')).toEqual({ ok: 't1' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('refreshes an expired session before sending', async () => {
+    authStore.set(session('old', { expiresAt: past() }));
+    expect(isExpired(authStore.session!)).toBe(true);
+    server({
+      'POST /auth/refresh': (auth, body) => (auth === 'Bearer old' && body.session_id === 's1' ? reply(200, { token: 'new', user }) : reply(401)),
+      'GET /rows': onlyWith('new')
+    });
+
+    expect(await client.get('/rows')).toEqual({ ok: 'new' });
+    expect(authStore.session?.token).toBe('new');
+  });
+
+  test('a 401 refreshes the token once and resends the request with it', async () => {
+    authStore.set(session('old'));
+    const fetchMock = server({
+      'POST /auth/refresh': () => reply(200, { token: 'new', user }),
+      'POST /rows': (auth, body) => (auth === 'Bearer new' ? reply(201, { created: body.a }) : reply(401))
+    });
+
+    expect(await client.post('/rows', { a: 1 })).toEqual({ created: 1 });
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      'POST http://api.test/rows', 'POST http://api.test/auth/refresh', 'POST http://api.test/rows'
+    ]);
+  });
+
+  test('a 401 on the resend ends the session instead of refreshing again', async () => {
+    authStore.set(session('old'));
+    const fetchMock = server({
+      'POST /auth/refresh': () => reply(200, { token: 'new', user }),
+      'GET /rows': () => reply(401)
+    });
+
+    await expect(client.get('/rows')).rejects.toEqual(expect.objectContaining({ status: 401 }));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(authStore.snapshot).toEqual(expect.objectContaining({ session: null, needsLogin: true, reason: expect.stringContaining('no longer valid') }));
+  });
+
+  test('concurrent 401s wait for the same refresh', async () => {
+    authStore.set(session('old'));
+    const fetchMock = server({
+      'POST /auth/refresh': () => reply(200, { token: 'new', user }),
+      'GET /a': onlyWith('new'),
+      'GET /b': onlyWith('new')
+    });
+
+    await Promise.all([client.get('/a'), client.get('/b')]);
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/auth/refresh'))).toHaveLength(1);
+  });
+
+  test('a failed refresh signs out with a reason', async () => {
+    authStore.set(session('old'));
+    server({ 'POST /auth/refresh': () => reply(401), 'GET /rows': () => reply(401) });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(client.get('/rows')).rejects.toEqual(expect.objectContaining({ status: 401 }));
+    expect(authStore.snapshot).toEqual(expect.objectContaining({ session: null, needsLogin: true, reason: expect.stringContaining('expired') }));
+    expect(await refreshSession(client)).toBeNull();
+  });
+
+  test('a 401 without a session asks for a login', async () => {
+    server({ 'GET /rows': () => reply(401) });
+    await expect(client.get('/rows')).rejects.toEqual(expect.objectContaining({ status: 401 }));
+    expect(authStore.snapshot.needsLogin).toBe(true);
+  });
+});
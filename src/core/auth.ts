@@ -0,0 +1,233 @@
+// src/core/auth.ts
+// Signed-in session (users + sessions tables): login / refresh / logout against /auth/*, a token
+// store kept in localStorage that honours sessions.expires_at, and the interceptors that put the
+// bearer token on every request of the shared client and try one refresh on a 401.
+// Without a session the static env.ts API_TOKEN (if any) is sent as before.
+
+import { ApiClient, ApiError, ApiRequest, http } from './http';
+import { AUTH_REQUIRED } from '../env';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  roles?: string[];
+}
+
+export interface AuthSession {
+  token: string;
+  sessionId?: string;           // sessions.id
+  user: AuthUser;
+  issuedAt?: string;            // ISO, sessions.issued_at
+  expiresAt?: string;           // ISO, sessions.expires_at; none = until logout
+}
+
+export interface AuthState {
+  session: AuthSession | null;
+  /** the server asked for credentials (401 without a usable session) */
+  needsLogin: boolean;
+  /** set when the session ran out, for the login screen */
+  reason?: string;
+}
+
+const STORAGE_KEY = 'auth:session';
+
+/** Refresh this long before expires_at rather than racing it. */
+const EXPIRY_SKEW_MS = 30_000;
+
+export const isExpired = (s: AuthSession, now = Date.now()) =>
+  !!s.expiresAt && new Date(s.expiresAt).getTime() - EXPIRY_SKEW_MS <= now;
+
+/** What goes into created_by / updated_by. */
+export const actorOf = (s: AuthSession | null) => s?.user.email || s?.user.id || undefined;
+
+function load(): AuthSession | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const s = raw ? JSON.parse(raw) : null;
+    return s && typeof s.token === 'string' && s.user ? s : null;
+  } catch { return null; }
+}
+
+function persist(s: AuthSession | null) {
+  try {
+    if (s) window.localStorage.setItem(STORAGE_KEY, JSON.stringify(s));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch { /* not persisted; the session still holds for this tab */ }
+}
+
+export class AuthStore {
+  private state: AuthState = { session: null, needsLogin: false };
+  private listeners = new Set<(s: AuthState) => void>();
+
+  constructor() {
+    const session = typeof window !== 'undefined' ? load() : null;
+    this.state = { session, needsLogin: AUTH_REQUIRED && !session };
+    if (typeof window !== 'undefined') {
+      // signed in / out in another tab
+      window.addEventListener('storage', e => {
+        if (e.key === STORAGE_KEY) this.emit({ session: load() });
+      });
+    }
+  }
+
+  get snapshot(): AuthState {
+    return this.state;
+  }
+
+  get session(): AuthSession | null {
+    return this.state.session;
+  }
+
+  subscribe(fn: (s: AuthState) => void): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private emit(patch: Partial<AuthState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(fn => fn(this.state));
+  }
+
+  set(session: AuthSession) {
+    persist(session);
+    this.emit({ session, needsLogin: false, reason: undefined });
+  }
+
+  /** Drop the session; `reason` shows the login screen with that message. */
+  clear(reason?: string) {
+    persist(null);
+    this.emit({ session: null, needsLogin: !!reason || AUTH_REQUIRED, reason });
+  }
+
+  requireLogin(reason?: string) {
+    this.emit({ needsLogin: true, reason });
+  }
+
+  /** Back to the app without signing in (only when AUTH_REQUIRED is off). */
+  dismissLogin() {
+    if (!AUTH_REQUIRED) this.emit({ needsLogin: false, reason: undefined });
+  }
+}
+
+export const authStore = new AuthStore();
+
+/* ---------------- /auth endpoints ---------------- */
+
+/** Auth calls skip the interceptors (no stale token, no refresh loop); `token` or nothing. */
+const bare = (client: ApiClient, token?: string) =>
+  new ApiClient(client.baseUrl, { headers: (): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {}) });
+
+/**
+ * Accepted login / refresh answers: a token (`access_token` or `token`, else the session id
+ * itself), the sessions row (`session`) or its fields inline, and the users row (`user`; looked
+ * up by `user_id` when missing).
+ */
+async function toSession(client: ApiClient, body: any, previous?: AuthSession): Promise<AuthSession> {
+  const row = body?.session ?? body ?? {};
+  const token = body?.access_token ?? body?.token ?? row.token ?? row.id;
+  if (!token) throw new Error('The login response carried no token.');
+
+  let user = body?.user ?? previous?.user;
+  const userId = row.user_id ?? user?.id;
+  if (!user && userId) {
+    user = await bare(client, String(token)).get<any>(`/users/${encodeURIComponent(userId)}`);
+  }
+  if (!user) throw new Error('The login response named no user.');
+
+  return {
+    token: String(token),
+    sessionId: row.id ?? previous?.sessionId,
+    user: { id: String(user.id), email: user.email ?? '', ...(Array.isArray(user.roles) ? { roles: user.roles } : {}) },
+    issuedAt: row.issued_at ?? body?.issued_at,
+    expiresAt: row.expires_at ?? body?.expires_at ?? undefined
+  };
+}
+
+export async function login(email: string, password: string, client: ApiClient = http): Promise<AuthSession> {
+  const body = await bare(client).post<any>('/auth/login', { email, password });
+  const session = await toSession(client, body);
+  authStore.set(session);
+  return session;
+}
+
+let refreshing: Promise<AuthSession | null> | null = null;
+
+/** New token for the current session; null (and the session dropped) when that fails. */
+export function refreshSession(client: ApiClient = http): Promise<AuthSession | null> {
+  const current = authStore.session;
+  if (!current) return Promise.resolve(null);
+  // one refresh at a time; concurrent 401s wait for the same one
+  if (!refreshing) {
+    refreshing = bare(client, current.token)
+      .post<any>('/auth/refresh', current.sessionId ? { session_id: current.sessionId } : {})
+      .then(body => toSession(client, body, current))
+      .then(session => { authStore.set(session); return session; })
+      .catch(e => {
+        console.warn('Refreshing the session failed:', e);
+        authStore.clear('Your session has expired. Please sign in again.');
+        return null;
+      })
+      .finally(() => { refreshing = null; });
+  }
+  return refreshing;
+}
+
+export async function logout(client: ApiClient = http): Promise<void> {
+  const current = authStore.session;
+  authStore.clear();
+  if (!current) return;
+  try {
+    await bare(client, current.token).post('/auth/logout', current.sessionId ? { session_id: current.sessionId } : {});
+  } catch (e) {
+    // the local session is gone either way
+    console.warn('Ending the session on the server failed:', e);
+  }
+}
+
+/* ---------------- interceptors ---------------- */
+
+function withToken(req: ApiRequest, token: string): ApiRequest {
+  return { ...req, init: { ...req.init, headers: { ...(req.init.headers as Record<string, string>), Authorization: `Bearer ${token}` } } };
+}
+
+/**
+ * Bearer token on every request of `client` (and every client made from it with withBase);
+ * an expired session is refreshed first, a 401 triggers one refresh and a resend.
+ * Returns the function that removes both interceptors.
+ */
+export function installAuth(client: ApiClient = http): () => void {
+  const offRequest = client.useRequest(async req => {
+    let session = authStore.session;
+    if (session && isExpired(session)) session = await refreshSession(client);
+    return session ? withToken(req, session.token) : undefined;
+  });
+
+  const offResponse = client.useResponse(async (res, req) => {
+    if (res.status !== 401) return;
+    const sent = (req.init.headers as Record<string, string> | undefined)?.Authorization;
+    const session = authStore.session;
+    if (!session) {
+      authStore.requireLogin('Please sign in to continue.');
+      return;
+    }
+    // another request may have refreshed already
+    const fresh = sent === `Bearer ${session.token}` ? await refreshSession(client) : session;
+    if (!fresh) return;
+    // resent through the client (timeout, ApiError), but past this interceptor: one retry only
+    const { method, headers, body } = withToken(req, fresh.token).init;
+    try {
+      return await client.raw(req.url, {
+        method,
+        headers: headers as Record<string, string>,
+        body: body ?? undefined,
+        skipResponseInterceptors: true
+      });
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 401) authStore.clear('Your session is no longer valid. Please sign in again.');
+      throw e;
+    }
+  });
+
+  return () => { offRequest(); offResponse(); };
+}
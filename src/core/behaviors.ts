@@ -5,43 +5,96 @@ import type {
   BehaviorBundle,
   BehaviorMatrixValue,
   TaskFieldBehavior,
-  ActionContext
+  ActionContext,
+  CellMode,
+  FieldCell,
+  RoleCell
 } from './types';
+import { normalizeValidation } from './validation';
+
+/** One matrix cell (default or a role override) -> one TaskFieldBehavior row. */
+function rowFromCell(fieldKey: string, cell: RoleCell, role?: string): TaskFieldBehavior {
+  const visible = cell.mode !== 'hidden';
+  const isEditable = cell.mode === 'editable';
+  const required = !!cell.required && (isEditable || !!cell.inherit);
+
+  const action_context: ActionContext = isEditable ? 'update' : 'view';
+
+  const condition = cell.condition?.trim() || undefined;
+  const fallback_mode = condition ? (cell.fallback ?? 'readonly') : undefined;
+  const validate = normalizeValidation(cell.validate);
+
+  return {
+    field_name: fieldKey,
+    action_context,
+    visible,
+    required,
+    ...(condition ? { condition, fallback_mode } : {}),
+    ...(cell.inherit ? { inherit: true } : {}),
+    ...(validate ? { validate } : {}),
+    ...(cell.defaultValue?.trim() ? { default_value: cell.defaultValue.trim() } : {}),
+    ...(cell.lock ? { lock_value: true } : {}),
+    ...(role ? { role } : {})
+  };
+}
+
+/** TaskFieldBehavior row -> cell (without role information). */
+function cellFromRow(row: TaskFieldBehavior): RoleCell {
+  // visible:false → hidden
+  // visible:true + action_context:view → readonly
+  // visible:true + action_context:(create|update) → editable
+  let mode: CellMode = 'readonly';
+
+  if (row.visible === false) {
+    mode = 'hidden';
+  } else if (row.action_context === 'update' || row.action_context === 'create') {
+    mode = 'editable';
+  } else {
+    mode = 'readonly';
+  }
+
+  const required = mode === 'editable' ? !!row.required : false;
+
+  const cell: RoleCell = row.condition
+    ? { mode, required, condition: row.condition, fallback: row.fallback_mode ?? 'readonly' }
+    : { mode, required };
+  const validate = normalizeValidation(row.validate);
+  if (validate) cell.validate = validate;
+  if (row.default_value) cell.defaultValue = row.default_value;
+  if (row.lock_value) cell.lock = true;
+  // inherited cells keep `required` for when the container makes them editable
+  if (row.inherit) return { ...cell, required: !!row.required, inherit: true };
+  return cell;
+}
+
+function rowIsEditable(row: TaskFieldBehavior) {
+  return row.action_context === 'update' || row.fallback_mode === 'editable';
+}
 
 /**
  * Convert matrix (field×state) -> bundles[state].
- * Matrix shape: matrix[fieldKey][state] = { mode: 'hidden'|'readonly'|'editable', required: boolean }
+ * Matrix shape: matrix[fieldKey][state] = { mode: 'hidden'|'readonly'|'editable', required: boolean, roles? }
  * Bundle shape (yours): { state, action, rows: TaskFieldBehavior[] }
+ * Role overrides become extra rows carrying `role`, right after the field's default row.
  */
 export function bundlesFromMatrix(matrix: BehaviorMatrixValue, allStates: string[]): BehaviorBundle[] {
   const bundles: BehaviorBundle[] = [];
 
   for (const state of allStates) {
     const rows: TaskFieldBehavior[] = [];
-    let anyEditable = false;
 
     for (const [fieldKey, byState] of Object.entries(matrix || {})) {
       const cell = byState?.[state];
       if (!cell) continue;
 
-      // Map cell -> TaskFieldBehavior
-      const visible = cell.mode !== 'hidden';
-      const isEditable = cell.mode === 'editable';
-      const required = !!cell.required && isEditable;
-
-      const action_context: ActionContext = isEditable ? 'update' : 'view';
-
-      if (isEditable) anyEditable = true;
-
-      rows.push({
-        field_name: fieldKey,
-        action_context,
-        visible,
-        required
-      });
+      const { roles, ...base } = cell;
+      rows.push(rowFromCell(fieldKey, base));
+      for (const [role, override] of Object.entries(roles || {})) {
+        rows.push(rowFromCell(fieldKey, override, role));
+      }
     }
 
-    const bundleAction: ActionContext = anyEditable ? 'update' : 'view';
+    const bundleAction: ActionContext = rows.some(rowIsEditable) ? 'update' : 'view';
 
     bundles.push({
       state,
@@ -55,33 +108,53 @@ export function bundlesFromMatrix(matrix: BehaviorMatrixValue, allStates: string
 
 /**
  * Convert bundles[state] -> matrix (field×state).
- * Uses your TaskFieldBehavior rows (visible/required/action_context).
+ * Uses your TaskFieldBehavior rows (visible/required/action_context); rows with `role`
+ * become overrides in cell.roles.
  */
 export function matrixFromBundles(bundles: BehaviorBundle[]): BehaviorMatrixValue {
   const m: BehaviorMatrixValue = {};
 
   for (const b of bundles || []) {
+    const roleRows: TaskFieldBehavior[] = [];
+
     for (const row of b.rows || []) {
+      if (row.role) { roleRows.push(row); continue; }
       const key = row.field_name;
-      // visible:false → hidden
-      // visible:true + action_context:view → readonly
-      // visible:true + action_context:(create|update) → editable
-      let mode: 'hidden' | 'readonly' | 'editable' = 'readonly';
-
-      if (row.visible === false) {
-        mode = 'hidden';
-      } else if (row.action_context === 'update' || row.action_context === 'create') {
-        mode = 'editable';
-      } else {
-        mode = 'readonly';
-      }
-
-      const required = mode === 'editable' ? !!row.required : false;
+      m[key] = m[key] || {};
+      m[key][b.state] = cellFromRow(row);
+    }
 
+    // overrides after defaults, whatever the row order was
+    for (const row of roleRows) {
+      const key = row.field_name;
       m[key] = m[key] || {};
-      m[key][b.state] = { mode, required };
+      const cell: FieldCell = m[key][b.state] || { mode: 'hidden', required: false };
+      m[key][b.state] = { ...cell, roles: { ...(cell.roles || {}), [row.role as string]: cellFromRow(row) } };
     }
   }
 
   return m;
 }
+
+/**
+ * Cells that carry more than task_field_behavior's visible / editable / required columns
+ * (condition, inherit, validation, default, lock, role overrides), as "field in state: what".
+ * Writing such a matrix as plain rows would drop those settings.
+ */
+export function beyondFlatRows(matrix: BehaviorMatrixValue): string[] {
+  const out: string[] = [];
+  for (const [fieldKey, byState] of Object.entries(matrix || {})) {
+    for (const [state, cell] of Object.entries(byState || {})) {
+      if (!cell) continue;
+      const extra: string[] = [];
+      if (cell.condition?.trim()) extra.push('condition');
+      if (cell.inherit) extra.push('inherit');
+      if (normalizeValidation(cell.validate)) extra.push('validation');
+      if (cell.defaultValue?.trim()) extra.push('default');
+      if (cell.lock) extra.push('lock');
+      if (cell.roles && Object.keys(cell.roles).length) extra.push('role overrides');
+      if (extra.length) out.push(`${fieldKey} in ${state}: ${extra.join(', ')}`);
+    }
+  }
+  return out;
+}
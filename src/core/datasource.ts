@@ -1,9 +1,15 @@
-import { BehaviorBundle } from './types';
+import { BehaviorBundle, StateOption } from './types';
 
 export interface FormDefinitionDTO {
   id: string;
   version?: number;
   schema: any; // form-js schema
+  // form_definition metadata, when the backend has the row (not the /forms façade)
+  name?: string;
+  is_active?: boolean;
+  status?: string;
+  updated_at?: string;
+  field_state_setting?: string; // stringified matrix JSON
 }
 
 export interface FormEntryDTO {
@@ -24,5 +30,6 @@ export interface DataSource {
   getEntry(entryId: string): Promise<FormEntryDTO | null>;
   saveEntry(entry: FormEntryDTO): Promise<FormEntryDTO>;
 
-  listStates?(formId: string): Promise<string[]>; // optional
+  listStates?(formId: string): Promise<StateOption[]>; // optional, capture state first; empty = use defaults
+  listRoles?(): Promise<string[]>;                      // optional; empty = use defaults
 }
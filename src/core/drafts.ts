@@ -0,0 +1,290 @@
+// src/core/drafts.ts
+// Autosave for in-progress entries. Every change is kept locally in IndexedDB; with the API as
+// source it is also written (less often) to form_entry_draft, one draft per form definition +
+// process instance. Reopening the same form/instance offers to resume the newest draft; a
+// server draft that changed elsewhere since we last wrote it is a conflict, never overwritten.
+
+import {
+  FormEntryDraft,
+  createFormEntryDraft,
+  deleteFormEntryDraft,
+  listFormEntryDrafts,
+  patchFormEntryDraft
+} from './api';
+import { stableJson } from './versions';
+import { idbDatabase, idbRun } from './idb';
+
+export interface DraftScope {
+  formId: string;               // form_definition id (File mode: a local name)
+  processInstanceId?: string;
+  legalEntityId?: string;
+  entryId?: string;             // stored entry being edited, if any
+}
+
+export interface Draft {
+  key: string;
+  scope: DraftScope;
+  state: string;
+  data: Record<string, any>;
+  savedAt: string;              // ISO
+  source: 'local' | 'server';
+  serverId?: string;            // form_entry_draft id
+  serverUpdatedAt?: string;     // local: the server draft version this copy was last synced with
+}
+
+export const draftKey = (s: DraftScope) => `${s.formId}|${s.processInstanceId || '-'}`;
+
+const sameData = (a: any, b: any) => {
+  const strip = (d: any) => {
+    const { formState: _s, ...rest } = d || {};
+    return rest;
+  };
+  return stableJson(strip(a)) === stableJson(strip(b));
+};
+
+const time = (iso?: string | null) => (iso ? new Date(iso).getTime() || 0 : 0);
+
+/* ---------------- IndexedDB ---------------- */
+
+const STORE = 'drafts';
+const db = idbDatabase('form-js-drafts', 1, d => { d.createObjectStore(STORE, { keyPath: 'key' }); });
+
+export async function readLocalDraft(key: string): Promise<Draft | null> {
+  return ((await idbRun<Draft>(db, STORE, 'readonly', s => s.get(key))) as Draft | undefined) ?? null;
+}
+
+/** false when IndexedDB is unavailable */
+export async function writeLocalDraft(draft: Draft): Promise<boolean> {
+  return (await idbRun(db, STORE, 'readwrite', s => s.put(draft))) !== undefined;
+}
+
+export async function removeLocalDraft(key: string): Promise<void> {
+  await idbRun(db, STORE, 'readwrite', s => s.delete(key));
+}
+
+/* ---------------- API (form_entry_draft) ---------------- */
+
+function fromServer(row: FormEntryDraft, scope: DraftScope): Draft {
+  let data: any = {};
+  try { data = JSON.parse(row.data || '{}'); } catch { data = {}; }
+  return {
+    key: draftKey(scope),
+    scope: { ...scope, entryId: row.form_entry_id || scope.entryId },
+    state: row.state,
+    data,
+    savedAt: row.updated_at || row.created_at || new Date(0).toISOString(),
+    source: 'server',
+    serverId: row.id,
+    serverUpdatedAt: row.updated_at || row.created_at
+  };
+}
+
+export async function readServerDraft(scope: DraftScope): Promise<Draft | null> {
+  const page = await listFormEntryDrafts({
+    limit: 20,
+    offset: 0,
+    sort: '-updated_at',
+    form_definition_id: scope.formId,
+    process_instance_id: scope.processInstanceId
+  });
+  const rows = (page.items || []).filter(r =>
+    r.form_definition_id === scope.formId && (r.process_instance_id || '') === (scope.processInstanceId || ''));
+  rows.sort((a, b) => time(b.updated_at || b.created_at) - time(a.updated_at || a.created_at));
+  return rows[0] ? fromServer(rows[0], scope) : null;
+}
+
+/* ---------------- resume ---------------- */
+
+export interface DraftLookup {
+  drafts: Draft[];               // newest first; only drafts that differ from the loaded data
+  /** the stored entry was saved after this time: drafts older than it predate that save */
+  entrySavedAt?: string;
+}
+
+/** Drafts worth offering for `scope`, compared with the data that was just loaded. */
+export async function findDrafts(scope: DraftScope, p: { server: boolean; loaded?: any; entrySavedAt?: string }): Promise<DraftLookup> {
+  const key = draftKey(scope);
+  const [local, server] = await Promise.all([
+    readLocalDraft(key).catch(() => null),
+    p.server ? readServerDraft(scope).catch(e => { console.warn('Reading the server draft failed:', e); return null; }) : Promise.resolve(null)
+  ]);
+  const drafts = [local, server]
+    .filter((d): d is Draft => !!d && !sameData(d.data, p.loaded))
+    .sort((a, b) => time(b.savedAt) - time(a.savedAt));
+  // the same content in both places: offer it once
+  if (drafts.length === 2 && sameData(drafts[0].data, drafts[1].data)) drafts.pop();
+  return { drafts, entrySavedAt: p.entrySavedAt };
+}
+
+/** The draft was written before the stored entry was last saved (someone saved since). */
+export const isStaleDraft = (d: Draft, entrySavedAt?: string) => !!entrySavedAt && time(entrySavedAt) > time(d.savedAt);
+
+/* ---------------- autosaver ---------------- */
+
+export interface AutosaveStatus {
+  local?: string;                // ISO time of the last local write
+  server?: string;               // ISO time of the last server write
+  error?: string | null;         // last server error (local saving goes on)
+  conflict?: Draft | null;       // server draft changed elsewhere; server autosave paused
+}
+
+export function describeAutosave(s: AutosaveStatus): string {
+  if (s.conflict) return 'Draft conflict';
+  const at = (iso: string) => new Date(iso).toLocaleTimeString();
+  if (s.error) return s.local ? `Draft saved locally ${at(s.local)} · server failed` : 'Draft not saved';
+  if (s.server && time(s.server) >= time(s.local)) return `Draft saved ${at(s.server)}`;
+  if (s.local) return `Draft saved locally ${at(s.local)}`;
+  return '';
+}
+
+type AutosaverOptions = {
+  onStatus: (s: AutosaveStatus) => void;
+  localDelay?: number;
+  serverDelay?: number;
+  by?: () => string | undefined;
+};
+
+/**
+ * Debounced draft writer for one scope at a time. Local writes follow every change closely;
+ * server writes are batched. Switch scopes with setScope(), drop the drafts with clear().
+ */
+export class DraftAutosaver {
+  private scope: DraftScope | null = null;
+  private server = false;
+  private serverId?: string;
+  private serverUpdatedAt?: string;
+  private pending: { state: string; data: Record<string, any> } | null = null;
+  private localTimer: ReturnType<typeof setTimeout> | null = null;
+  private serverTimer: ReturnType<typeof setTimeout> | null = null;
+  private status: AutosaveStatus = {};
+
+  constructor(private opts: AutosaverOptions) {}
+
+  private emit(patch: Partial<AutosaveStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.opts.onStatus(this.status);
+  }
+
+  private stopTimers() {
+    if (this.localTimer) clearTimeout(this.localTimer);
+    if (this.serverTimer) clearTimeout(this.serverTimer);
+    this.localTimer = this.serverTimer = null;
+  }
+
+  setScope(scope: DraftScope | null, opts: { server: boolean }) {
+    this.flush();
+    this.stopTimers();
+    this.scope = scope;
+    this.server = opts.server;
+    this.serverId = this.serverUpdatedAt = undefined;
+    this.pending = null;
+    this.status = {};
+    this.opts.onStatus(this.status);
+  }
+
+  /** Continue from `draft` (after resuming it): later writes update the same server draft. */
+  adopt(draft: Draft) {
+    if (draft.serverId) {
+      this.serverId = draft.serverId;
+      this.serverUpdatedAt = draft.serverUpdatedAt;
+    }
+    this.emit({ conflict: null });
+  }
+
+  /** Keep our copy after a conflict: the server draft we saw becomes the base we overwrite. */
+  overrideConflict() {
+    const c = this.status.conflict;
+    if (c) this.adopt(c);
+    if (this.pending) this.scheduleServer(0);
+  }
+
+  schedule(state: string, data: Record<string, any>) {
+    if (!this.scope) return;
+    this.pending = { state, data };
+    if (this.localTimer) clearTimeout(this.localTimer);
+    this.localTimer = setTimeout(() => { this.writeLocal().catch(() => {}); }, this.opts.localDelay ?? 800);
+    if (this.server && !this.status.conflict && !this.serverTimer) this.scheduleServer(this.opts.serverDelay ?? 5000);
+  }
+
+  private scheduleServer(delay: number) {
+    if (this.serverTimer) clearTimeout(this.serverTimer);
+    this.serverTimer = setTimeout(() => { this.serverTimer = null; this.writeServer().catch(() => {}); }, delay);
+  }
+
+  /** Write the pending change locally now (e.g. on page unload). */
+  flush() {
+    if (this.localTimer) { clearTimeout(this.localTimer); this.localTimer = null; }
+    if (this.pending) this.writeLocal().catch(() => {});
+  }
+
+  private async writeLocal() {
+    const scope = this.scope;
+    const p = this.pending;
+    if (!scope || !p) return;
+    const savedAt = new Date().toISOString();
+    try {
+      const stored = await writeLocalDraft({
+        key: draftKey(scope), scope, state: p.state, data: p.data, savedAt,
+        source: 'local', serverId: this.serverId, serverUpdatedAt: this.serverUpdatedAt
+      });
+      if (stored && scope === this.scope) this.emit({ local: savedAt });
+    } catch (e) {
+      console.warn('Saving the local draft failed:', e);
+    }
+  }
+
+  private async writeServer() {
+    const scope = this.scope;
+    const p = this.pending;
+    if (!scope || !p || !this.server || this.status.conflict) return;
+    try {
+      // read-before-write: never overwrite a draft someone else updated meanwhile
+      const current = await readServerDraft(scope);
+      const changedElsewhere = !!current &&
+        (current.serverId !== this.serverId || current.serverUpdatedAt !== this.serverUpdatedAt);
+      if (current && changedElsewhere && !sameData(current.data, p.data)) {
+        if (scope === this.scope) this.emit({ conflict: current });
+        return;
+      }
+      const by = this.opts.by?.();
+      const row = current?.serverId
+        ? await patchFormEntryDraft(current.serverId, { data: JSON.stringify(p.data), state: p.state, ...(by ? { updated_by: by } : {}) })
+        : await createFormEntryDraft({
+          form_definition_id: scope.formId,
+          process_instance_id: scope.processInstanceId || null,
+          legal_entity_id: scope.legalEntityId || null,
+          form_entry_id: scope.entryId || null,
+          state: p.state,
+          data: JSON.stringify(p.data),
+          ...(by ? { created_by: by } : {})
+        });
+      if (scope !== this.scope) return;
+      this.serverId = row?.id ?? current?.serverId;
+      this.serverUpdatedAt = row?.updated_at ?? row?.created_at;
+      this.emit({ server: this.serverUpdatedAt || new Date().toISOString(), error: null });
+    } catch (e: any) {
+      console.warn('Saving the server draft failed:', e);
+      if (scope === this.scope) this.emit({ error: e?.message || String(e) });
+    }
+  }
+
+  /** The entry was submitted (or the draft discarded): drop local and server drafts. */
+  async clear() {
+    const scope = this.scope;
+    this.stopTimers();
+    this.pending = null;
+    if (!scope) return;
+    const serverId = this.serverId;
+    this.serverId = this.serverUpdatedAt = undefined;
+    this.status = {};
+    this.opts.onStatus(this.status);
+    await removeLocalDraft(draftKey(scope)).catch(() => {});
+    if (!this.server) return;
+    try {
+      const id = serverId ?? (await readServerDraft(scope))?.serverId;
+      if (id) await deleteFormEntryDraft(id);
+    } catch (e) {
+      console.warn('Removing the server draft failed:', e);
+    }
+  }
+}
@@ -1,68 +1,140 @@
 // src/core/enrich.ts
 // Apply per-state field behavior to a form-js schema using your BehaviorBundle / TaskFieldBehavior.
 
-import type { BehaviorBundle, TaskFieldBehavior } from './types';
+import type { BehaviorBundle, CellMode, TaskFieldBehavior, ValidationOverrides } from './types';
+import { evaluateCondition } from './expression';
+import { isContainer, ruleKeyFor } from './schema';
+import { applyValidation } from './validation';
 
 type AnyComp = any;
 
+// required: undefined = leave the schema's own validate.required alone
+type Rule = { mode: CellMode; required?: boolean; inherit?: boolean; validate?: ValidationOverrides; lock?: boolean };
+
 function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj));
 }
 
-function toRule(row: TaskFieldBehavior) {
+function toRule(row: TaskFieldBehavior, data: Record<string, any>): Rule {
+  // inherited: mode comes from the enclosing container at transform time
+  if (row.inherit) return { mode: 'readonly', required: !!row.required, inherit: true, validate: row.validate };
+
   // visible:false → hidden
   // visible:true + action_context:view → readonly
   // visible:true + action_context:(create|update) → editable
   const hidden = row.visible === false;
 
-  let mode: 'hidden' | 'readonly' | 'editable' = 'readonly';
+  let mode: CellMode = 'readonly';
   if (hidden) mode = 'hidden';
   else if (row.action_context === 'update' || row.action_context === 'create') mode = 'editable';
   else mode = 'readonly';
 
+  // conditional rule: when the condition does not hold, use the fallback (never required)
+  if (row.condition && !evaluateCondition(row.condition, data)) {
+    return { mode: row.fallback_mode ?? 'readonly', required: false };
+  }
+
   const required = mode === 'editable' ? !!row.required : false;
 
-  return { mode, required };
+  return mode === 'editable' && row.validate ? { mode, required, validate: row.validate } : { mode, required };
+}
+
+/** Rule for `row`, with locked values shown read-only whatever the mode says. */
+function toLockedRule(row: TaskFieldBehavior, data: Record<string, any>): Rule {
+  const rule = toRule(row, data);
+  if (!row.lock_value) return rule;
+  return rule.inherit ? { ...rule, lock: true } : lockRule(rule);
+}
+
+function lockRule(rule: Rule): Rule {
+  return rule.mode === 'editable' ? { mode: 'readonly', required: false } : rule;
+}
+
+/** Default rows first, then the overrides for `role` (rows for other roles are ignored). */
+export function rowsForRole(bundle: BehaviorBundle | undefined, role?: string | null): TaskFieldBehavior[] {
+  const rows = bundle?.rows || [];
+  return [
+    ...rows.filter(r => !r.role),
+    ...(role ? rows.filter(r => r.role === role) : [])
+  ];
 }
 
 /**
- * Remove hidden fields, toggle disabled for readonly, and set required for editable.
- * Returns a new schema; original is not mutated.
+ * Outcome of every conditional row for `data`, as a short string.
+ * Changes only when some condition flips, so callers can memoize the enriched
+ * schema on it instead of on the (per-keystroke) data object.
  */
-export function enrichFormSchemaForState(schema: any, bundle: BehaviorBundle): any {
-  const rules = new Map<string, { mode: 'hidden' | 'readonly' | 'editable'; required: boolean }>();
+export function conditionSignature(bundle: BehaviorBundle | undefined, data: Record<string, any>, role?: string | null): string {
+  let sig = '';
+  for (const r of rowsForRole(bundle, role)) {
+    if (r.condition) sig += evaluateCondition(r.condition, data || {}) ? '1' : '0';
+  }
+  return sig;
+}
 
-  for (const r of bundle.rows || []) {
-    rules.set(r.field_name, toRule(r));
+/**
+ * Remove hidden fields, toggle disabled for readonly (and locked values), and set required
+ * (plus any per-state validation overrides) for editable.
+ * Conditional rows are evaluated against `data` (live form data); with a `role`,
+ * that role's override rows win over the defaults.
+ * Rules on groups, dynamic lists and tables (keyed via ruleKeyFor) cascade to their
+ * children; a child's own non-inherited rule overrides the cascade.
+ * Returns a new schema; original is not mutated.
+ */
+export function enrichFormSchemaForState(
+  schema: any,
+  bundle: BehaviorBundle,
+  data: Record<string, any> = {},
+  role?: string | null
+): any {
+  const rules = new Map<string, Rule>();
+
+  for (const r of rowsForRole(bundle, role)) {
+    rules.set(r.field_name, toLockedRule(r, data || {}));
   }
 
   const next = deepClone(schema);
 
-  const transform = (nodes: AnyComp[]): AnyComp[] => {
+  const transform = (nodes: AnyComp[], inherited?: Rule): AnyComp[] => {
     const out: AnyComp[] = [];
     for (const n of nodes || []) {
-      const key = n.key as string | undefined;
-      const rule = key ? rules.get(key) : undefined;
+      const key = ruleKeyFor(n);
+      const own = key ? rules.get(key) : undefined;
+
+      // own explicit rule wins; otherwise follow the container (keeping an inherited cell's required)
+      let rule: Rule | undefined;
+      if (own && !own.inherit) rule = own;
+      else if (inherited) {
+        rule = {
+          mode: inherited.mode,
+          required: own ? inherited.mode === 'editable' && !!own.required : undefined,
+          validate: inherited.mode === 'editable' ? own?.validate : undefined
+        };
+        if (own?.lock) rule = lockRule(rule);
+      }
 
-      // drop if hidden
+      // drop if hidden (containers take their whole subtree with them)
       if (rule?.mode === 'hidden') continue;
 
       const nn = deepClone(n);
 
       // recurse into containers
       if (Array.isArray(nn.components)) {
-        nn.components = transform(nn.components);
+        nn.components = transform(nn.components, rule ?? inherited);
       }
 
-      // apply per-field flags
-      if (key && rule) {
+      // apply per-field flags (containers only pass their rule down)
+      if (rule && !isContainer(nn)) {
         if (rule.mode === 'readonly') {
           nn.disabled = true;
           if (nn.validate) nn.validate.required = false;
         } else if (rule.mode === 'editable') {
           nn.disabled = false;
-          nn.validate = nn.validate || {};
-          nn.validate.required = !!rule.required;
+          if (rule.required !== undefined) {
+            nn.validate = nn.validate || {};
+            nn.validate.required = !!rule.required;
+          }
+          if (rule.validate) nn.validate = applyValidation(nn.validate, rule.validate);
         }
       }
 
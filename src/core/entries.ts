@@ -0,0 +1,149 @@
+// src/core/entries.ts
+// Entry browser: pages through form_entry rows with the server-side filters. Sorting by
+// created_at / updated_at is done by the server; data-field columns are read from the stored
+// JSON, which the server cannot order by, so those sorts load every matching entry (up to
+// DATA_SORT_LIMIT) and sort and page them here.
+
+import { FormEntry, FormEntryFilter, listFormEntries } from './api';
+import { FieldMeta, extractFields } from './schema';
+
+export interface EntryRow {
+  entry: FormEntry;
+  data: Record<string, any>;
+}
+
+export type EntrySortDir = 'asc' | 'desc';
+export interface EntrySort {
+  column: string;      // a META_COLUMNS id or a data field key
+  dir: EntrySortDir;
+}
+
+export interface EntryQuery extends FormEntryFilter {
+  limit: number;
+  offset: number;
+  sort?: EntrySort;
+}
+
+export const META_COLUMNS: Array<{ id: keyof FormEntry; label: string }> = [
+  { id: 'created_at', label: 'Created' },
+  { id: 'updated_at', label: 'Updated' }
+];
+
+const SERVER_SORTABLE = new Set<string>(META_COLUMNS.map(c => c.id));
+
+export const isServerSort = (column: string) => SERVER_SORTABLE.has(column);
+
+export function toEntryRow(entry: FormEntry): EntryRow {
+  let data: any = {};
+  try { data = typeof entry.data === 'string' ? JSON.parse(entry.data || '{}') : entry.data || {}; }
+  catch { data = {}; }
+  return { entry, data: data && typeof data === 'object' ? data : {} };
+}
+
+/** a bare date as the upper bound means "through the end of that day" */
+const endOfDay = (v: string) => (/^\d{4}-\d{2}-\d{2}$/.test(v) ? `${v}T23:59:59.999` : v);
+
+/** Most entries a data-column sort loads; beyond that it covers the newest ones only. */
+export const DATA_SORT_LIMIT = 2000;
+const LOAD_CHUNK = 200;
+
+const serverFilter = (filter: FormEntryFilter): FormEntryFilter =>
+  ({ ...filter, created_at_to: filter.created_at_to ? endOfDay(filter.created_at_to) : undefined });
+
+/**
+ * Every entry matching `filter`, newest first, up to DATA_SORT_LIMIT; `matching` is how many
+ * the server has in all (more than `rows` when the limit cut the list short).
+ */
+export async function loadAllEntries(filter: FormEntryFilter): Promise<{ rows: EntryRow[]; matching: number }> {
+  const items: FormEntry[] = [];
+  let matching = 0;
+  while (items.length < DATA_SORT_LIMIT) {
+    const page = await listFormEntries({
+      ...serverFilter(filter),
+      limit: Math.min(LOAD_CHUNK, DATA_SORT_LIMIT - items.length),
+      offset: items.length,
+      sort: '-created_at'
+    });
+    const got = page.items || [];
+    items.push(...got);
+    matching = page.total ?? items.length;
+    if (!got.length || items.length >= matching) break;
+  }
+  return { rows: items.map(toEntryRow), matching: Math.max(matching, items.length) };
+}
+
+export function sortEntryRows(rows: EntryRow[], sort: EntrySort): EntryRow[] {
+  return [...rows].sort((a, b) => compareEntryValues(entryValue(a, sort.column), entryValue(b, sort.column), sort.dir));
+}
+
+/** One page; `matching` as in loadAllEntries when a data-column sort had to cap the list. */
+export async function queryEntries(q: EntryQuery): Promise<{ rows: EntryRow[]; total: number; matching?: number }> {
+  const { sort, limit, offset, ...filter } = q;
+  if (sort && !isServerSort(sort.column)) {
+    const all = await loadAllEntries(filter);
+    return {
+      rows: sortEntryRows(all.rows, sort).slice(offset, offset + limit),
+      total: all.rows.length,
+      ...(all.matching > all.rows.length ? { matching: all.matching } : {})
+    };
+  }
+  const serverSort = sort ?? { column: 'created_at', dir: 'desc' as const };
+  const page = await listFormEntries({
+    ...serverFilter(filter),
+    limit,
+    offset,
+    sort: `${serverSort.dir === 'desc' ? '-' : ''}${serverSort.column}`
+  });
+  const rows = (page.items || []).map(toEntryRow);
+  return { rows, total: page.total ?? rows.length };
+}
+
+/** Value of a column: a META_COLUMNS id, or a data key (dotted for nested data). */
+export function entryValue(row: EntryRow, column: string): any {
+  if (isServerSort(column)) return row.entry[column as keyof FormEntry];
+  if (column in row.data) return row.data[column];
+  return column.split('.').reduce((cur: any, p) => (cur == null ? undefined : cur[p]), row.data);
+}
+
+/** Empty values sort last in both directions. */
+export function compareEntryValues(a: any, b: any, dir: EntrySortDir): number {
+  const empty = (v: any) => v === undefined || v === null || v === '';
+  if (empty(a) || empty(b)) return empty(a) === empty(b) ? 0 : empty(a) ? 1 : -1;
+  const sign = dir === 'desc' ? -1 : 1;
+  if (typeof a === 'number' && typeof b === 'number') return sign * (a - b);
+  return sign * String(typeof a === 'object' ? JSON.stringify(a) : a)
+    .localeCompare(String(typeof b === 'object' ? JSON.stringify(b) : b), undefined, { numeric: true });
+}
+
+export function formatEntryValue(v: any, max = 60): string {
+  if (v === undefined || v === null || v === '') return '—';
+  const s = typeof v === 'boolean' ? (v ? 'Yes' : 'No')
+    : Array.isArray(v) ? v.map(x => (typeof x === 'object' ? JSON.stringify(x) : String(x))).join(', ')
+    : typeof v === 'object' ? JSON.stringify(v)
+    : String(v);
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+/** Fields of `schema` that make sense as list columns (no containers). */
+export function entryColumnCandidates(schema: any): FieldMeta[] {
+  return extractFields(schema?.components || []).filter(f => !f.container);
+}
+
+/* ---------------- column choice, remembered per form name ---------------- */
+
+const columnsKey = (formName: string) => `entry-browser:columns:${formName}`;
+
+export function loadEntryColumns(formName: string, schema: any): string[] {
+  const candidates = entryColumnCandidates(schema).map(f => f.key);
+  try {
+    const raw = window.localStorage.getItem(columnsKey(formName));
+    const saved = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(saved)) return saved.filter((k: unknown) => typeof k === 'string' && candidates.includes(k));
+  } catch { /* storage unavailable: fall back to defaults */ }
+  return candidates.slice(0, 3);
+}
+
+export function saveEntryColumns(formName: string, keys: string[]) {
+  try { window.localStorage.setItem(columnsKey(formName), JSON.stringify(keys)); }
+  catch { /* not persisted; the choice still applies for this session */ }
+}
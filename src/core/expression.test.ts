@@ -0,0 +1,145 @@
+import {
+  ExpressionError,
+  evaluateCondition,
+  evaluateExpression,
+  expressionError,
+  parseExpression,
+  renameIdentifier
+} from './expression';
+
+describe('parseExpression', () => {
+  test('builds literals, references and calls', () => {
+    expect(parseExpression('42')).toEqual({ k: 'lit', v: 42 });
+    expect(parseExpression('"a\\"b"')).toEqual({ k: 'lit', v: 'a"b' });
+    expect(parseExpression('owner.name')).toEqual({ k: 'ref', path: ['owner', 'name'] });
+    expect(parseExpression('len(items, 2)')).toEqual({
+      k: 'call', name: 'len', args: [{ k: 'ref', path: ['items'] }, { k: 'lit', v: 2 }]
+    });
+  });
+
+  test('ignores a leading FEEL-style "="', () => {
+    expect(parseExpression('=today()')).toEqual(parseExpression('today()'));
+  });
+
+  test('reads "=" as equality', () => {
+    expect(parseExpression('a = 1')).toEqual(parseExpression('a == 1'));
+  });
+
+  test('reports syntax errors with their position', () => {
+    expect(() => parseExpression('a +')).toThrow(ExpressionError);
+    expect(() => parseExpression('"open')).toThrow('Unterminated string');
+    expect(() => parseExpression('a # b')).toThrow("Unexpected character '#'");
+    expect(() => parseExpression('(a')).toThrow(expect.objectContaining({ message: "Expected ')'", position: 2 }));
+    expect(() => parseExpression('a b')).toThrow("Unexpected 'b'");
+  });
+});
+
+describe('operator precedence', () => {
+  const ev = (src: string, scope = {}) => evaluateExpression(src, scope);
+
+  test('multiplication binds tighter than addition', () => {
+    expect(ev('1 + 2 * 3')).toBe(7);
+    expect(ev('(1 + 2) * 3')).toBe(9);
+    expect(ev('7 - 4 % 3')).toBe(6);
+  });
+
+  test('binary operators of equal rank are left-associative', () => {
+    expect(ev('10 - 4 - 3')).toBe(3);
+    expect(ev('24 / 4 / 2')).toBe(3);
+  });
+
+  test('unary minus applies before multiplication', () => {
+    expect(ev('-2 * 3')).toBe(-6);
+    expect(ev('--2')).toBe(2);
+  });
+
+  test('arithmetic binds tighter than comparison', () => {
+    expect(ev('1 + 1 == 2')).toBe(true);
+    expect(ev('a * 2 > 10', { a: 6 })).toBe(true);
+  });
+
+  test('and binds tighter than or', () => {
+    expect(ev('true || false && false')).toBe(true);
+    expect(ev('(true || false) && false')).toBe(false);
+    expect(ev('false and true or true')).toBe(true);
+  });
+
+  test('not applies to the next comparison, not the whole chain', () => {
+    expect(ev('!a && b', { a: false, b: true })).toBe(true);
+    expect(ev('not a or b', { a: true, b: false })).toBe(false);
+    expect(ev('not a == 1', { a: 2 })).toBe(true);
+  });
+
+  test('not( is the function, not the operator', () => {
+    expect(parseExpression('not(a)')).toEqual({ k: 'call', name: 'not', args: [{ k: 'ref', path: ['a'] }] });
+    expect(ev('not(a) and b', { a: false, b: true })).toBe(true);
+  });
+});
+
+describe('evaluateExpression', () => {
+  test('resolves dotted paths and tolerates missing ones', () => {
+    expect(evaluateExpression('owner.name', { owner: { name: 'Ann' } })).toBe('Ann');
+    expect(evaluateExpression('owner.name', {})).toBeUndefined();
+  });
+
+  test('compares loosely, so numbers stored as strings still match', () => {
+    expect(evaluateExpression('amount == 5', { amount: '5' })).toBe(true);
+    expect(evaluateExpression('amount > 10000', { amount: '20000' })).toBe(true);
+    expect(evaluateExpression('"b" > "a"')).toBe(true);
+  });
+
+  test('concatenates when either side of + is a string', () => {
+    expect(evaluateExpression('"v" + 2')).toBe('v2');
+  });
+
+  test('calls the function table and rejects unknown functions', () => {
+    expect(evaluateExpression('len(items)', { items: [1, 2, 3] })).toBe(3);
+    expect(evaluateExpression('contains(tags, "x")', { tags: ['x'] })).toBe(true);
+    expect(evaluateExpression('double(2)', {}, { double: (n: number) => n * 2 })).toBe(4);
+    expect(() => evaluateExpression('nope(1)')).toThrow("Unknown function 'nope'");
+    expect(() => evaluateExpression('toString(1)')).toThrow("Unknown function 'toString'");
+  });
+});
+
+describe('evaluateCondition', () => {
+  test('an empty condition holds', () => {
+    expect(evaluateCondition(undefined)).toBe(true);
+    expect(evaluateCondition('  =  ')).toBe(true);
+  });
+
+  test('a broken condition never holds', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(evaluateCondition('a ==', { a: 1 })).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('coerces the result to a boolean', () => {
+    expect(evaluateCondition('name', { name: 'x' })).toBe(true);
+    expect(evaluateCondition('name', {})).toBe(false);
+  });
+});
+
+describe('expressionError', () => {
+  test('is null for valid or empty expressions and the message otherwise', () => {
+    expect(expressionError('a > 1')).toBeNull();
+    expect(expressionError('')).toBeNull();
+    expect(expressionError('a >')).toBe('Unexpected end of expression');
+  });
+});
+
+describe('renameIdentifier', () => {
+  test('renames variable references only', () => {
+    expect(renameIdentifier('amount > 1 && len(amount) > 0', 'amount', 'total')).toBe('total > 1 && len(total) > 0');
+  });
+
+  test('leaves member names, function names and strings alone', () => {
+    expect(renameIdentifier('x.amount + amount', 'amount', 'total')).toBe('x.amount + total');
+    expect(renameIdentifier('len(x)', 'len', 'size')).toBe('len(x)');
+    expect(renameIdentifier('a == "amount"', 'amount', 'total')).toBe('a == "amount"');
+  });
+
+  test('returns text that does not tokenize unchanged', () => {
+    expect(renameIdentifier('amount # 1', 'amount', 'total')).toBe('amount # 1');
+  });
+});
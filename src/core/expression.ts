@@ -0,0 +1,298 @@
+// src/core/expression.ts
+// Tiny, side-effect free expression language for conditions stored in the backend
+// (workflow_transition.condition, behavior cell conditions, ...).
+//
+//   amount > 10000 && status == "submitted"
+//   not(approved) or owner.name = 'Ann'
+//   =today()            (a leading FEEL-style '=' is ignored)
+//
+// Identifiers resolve against a data scope (dotted paths allowed); functions come from a table.
+// Nothing is ever eval()'d.
+
+export type Scope = Record<string, any>;
+export type ExprFunction = (...args: any[]) => any;
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { t: 'num'; v: number; p: number }
+  | { t: 'str'; v: string; p: number }
+  | { t: 'id'; v: string; p: number }
+  | { t: 'op'; v: string; p: number };
+
+type Node =
+  | { k: 'lit'; v: any }
+  | { k: 'ref'; path: string[] }
+  | { k: 'call'; name: string; args: Node[] }
+  | { k: 'un'; op: string; a: Node }
+  | { k: 'bin'; op: string; a: Node; b: Node };
+
+const OPS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '=', '!', '+', '-', '*', '/', '%', '(', ')', ',', '.'];
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(src[i + 1] || ''))) {
+      const m = /^\d*\.?\d+(?:[eE][+-]?\d+)?/.exec(src.slice(i))!;
+      out.push({ t: 'num', v: Number(m[0]), p: i });
+      i += m[0].length;
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      let j = i + 1;
+      let s = '';
+      while (j < src.length && src[j] !== c) {
+        if (src[j] === '\\' && j + 1 < src.length) { s += src[j + 1]; j += 2; continue; }
+        s += src[j++];
+      }
+      if (j >= src.length) throw new ExpressionError('Unterminated string', i);
+      out.push({ t: 'str', v: s, p: i });
+      i = j + 1;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(c)) {
+      const m = /^[A-Za-z_$][\w$]*/.exec(src.slice(i))!;
+      out.push({ t: 'id', v: m[0], p: i });
+      i += m[0].length;
+      continue;
+    }
+    const at = i;
+    const op = OPS.find(o => src.startsWith(o, at));
+    if (!op) throw new ExpressionError(`Unexpected character '${c}'`, i);
+    out.push({ t: 'op', v: op, p: i });
+    i += op.length;
+  }
+  return out;
+}
+
+function parse(src: string): Node {
+  const toks = tokenize(src);
+  let pos = 0;
+
+  const peek = () => toks[pos];
+  const isOp = (v: string) => peek()?.t === 'op' && peek()!.v === v;
+  const isWord = (v: string) => peek()?.t === 'id' && peek()!.v === v;
+  const expectOp = (v: string) => {
+    if (!isOp(v)) throw new ExpressionError(`Expected '${v}'`, peek()?.p ?? src.length);
+    pos++;
+  };
+
+  const orExpr = (): Node => {
+    let a = andExpr();
+    while (isOp('||') || isWord('or')) { pos++; a = { k: 'bin', op: '||', a, b: andExpr() }; }
+    return a;
+  };
+  const andExpr = (): Node => {
+    let a = notExpr();
+    while (isOp('&&') || isWord('and')) { pos++; a = { k: 'bin', op: '&&', a, b: notExpr() }; }
+    return a;
+  };
+  const notExpr = (): Node => {
+    if (isOp('!') || (isWord('not') && toks[pos + 1]?.v !== '(')) { pos++; return { k: 'un', op: '!', a: notExpr() }; }
+    return cmpExpr();
+  };
+  const cmpExpr = (): Node => {
+    const a = addExpr();
+    const t = peek();
+    if (t?.t === 'op' && ['==', '!=', '=', '<', '<=', '>', '>='].includes(t.v)) {
+      pos++;
+      return { k: 'bin', op: t.v === '=' ? '==' : t.v, a, b: addExpr() };
+    }
+    return a;
+  };
+  const addExpr = (): Node => {
+    let a = mulExpr();
+    while (isOp('+') || isOp('-')) { const op = toks[pos++].v as string; a = { k: 'bin', op, a, b: mulExpr() }; }
+    return a;
+  };
+  const mulExpr = (): Node => {
+    let a = unary();
+    while (isOp('*') || isOp('/') || isOp('%')) { const op = toks[pos++].v as string; a = { k: 'bin', op, a, b: unary() }; }
+    return a;
+  };
+  const unary = (): Node => {
+    if (isOp('-')) { pos++; return { k: 'un', op: '-', a: unary() }; }
+    return primary();
+  };
+  const primary = (): Node => {
+    const t = peek();
+    if (!t) throw new ExpressionError('Unexpected end of expression', src.length);
+    if (t.t === 'num' || t.t === 'str') { pos++; return { k: 'lit', v: t.v }; }
+    if (t.t === 'op' && t.v === '(') {
+      pos++;
+      const inner = orExpr();
+      expectOp(')');
+      return inner;
+    }
+    if (t.t === 'id') {
+      pos++;
+      if (t.v === 'true') return { k: 'lit', v: true };
+      if (t.v === 'false') return { k: 'lit', v: false };
+      if (t.v === 'null') return { k: 'lit', v: null };
+      if (isOp('(')) {
+        pos++;
+        const args: Node[] = [];
+        if (!isOp(')')) {
+          args.push(orExpr());
+          while (isOp(',')) { pos++; args.push(orExpr()); }
+        }
+        expectOp(')');
+        return { k: 'call', name: t.v, args };
+      }
+      const path = [t.v];
+      while (isOp('.')) {
+        pos++;
+        const n = peek();
+        if (n?.t !== 'id') throw new ExpressionError('Expected property name', n?.p ?? src.length);
+        path.push(n.v);
+        pos++;
+      }
+      return { k: 'ref', path };
+    }
+    throw new ExpressionError(`Unexpected '${t.v}'`, t.p);
+  };
+
+  const node = orExpr();
+  if (pos < toks.length) throw new ExpressionError(`Unexpected '${toks[pos].v}'`, toks[pos].p);
+  return node;
+}
+
+const cache = new Map<string, Node>();
+
+function normalize(src: string) {
+  return src.trim().replace(/^=/, '').trim();
+}
+
+/** Parse (cached). Throws ExpressionError on bad syntax. */
+export function parseExpression(src: string): Node {
+  const key = normalize(src);
+  let node = cache.get(key);
+  if (!node) {
+    node = parse(key);
+    cache.set(key, node);
+  }
+  return node;
+}
+
+/** Returns an error message for bad syntax, or null when the expression parses. */
+export function expressionError(src: string | null | undefined): string | null {
+  if (!src || !normalize(src)) return null;
+  try { parseExpression(src); return null; }
+  catch (e: any) { return e?.message || String(e); }
+}
+
+/**
+ * Rewrite references to the variable `from` as `to` (e.g. after a field key rename).
+ * Member names (`x.from`), function names and string contents are left alone; text that
+ * does not tokenize is returned unchanged.
+ */
+export function renameIdentifier(src: string, from: string, to: string): string {
+  if (!src || from === to) return src;
+  let tokens: Token[];
+  try { tokens = tokenize(src); } catch { return src; }
+  let out = src;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const tk = tokens[i];
+    if (tk.t !== 'id' || tk.v !== from) continue;
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+    if (prev?.t === 'op' && prev.v === '.') continue;
+    if (next?.t === 'op' && next.v === '(') continue;
+    out = out.slice(0, tk.p) + to + out.slice(tk.p + from.length);
+  }
+  return out;
+}
+
+function isoDate(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export const DEFAULT_FUNCTIONS: Record<string, ExprFunction> = {
+  today: () => isoDate(new Date()),
+  now: () => new Date().toISOString(),
+  len: (v: any) => (v == null ? 0 : (typeof v === 'string' || Array.isArray(v)) ? v.length : Object.keys(v).length),
+  empty: (v: any) => v == null || v === '' || (Array.isArray(v) && v.length === 0),
+  lower: (v: any) => String(v ?? '').toLowerCase(),
+  upper: (v: any) => String(v ?? '').toUpperCase(),
+  number: (v: any) => Number(v),
+  not: (v: any) => !v,
+  contains: (hay: any, needle: any) => Array.isArray(hay) ? hay.includes(needle) : String(hay ?? '').includes(String(needle))
+};
+
+function num(v: any) {
+  return typeof v === 'number' ? v : Number(v);
+}
+
+function evalNode(n: Node, scope: Scope, fns: Record<string, ExprFunction>): any {
+  switch (n.k) {
+    case 'lit': return n.v;
+    case 'ref': {
+      let cur: any = scope;
+      for (const p of n.path) {
+        if (cur == null) return undefined;
+        cur = cur[p];
+      }
+      return cur;
+    }
+    case 'call': {
+      const fn = Object.prototype.hasOwnProperty.call(fns, n.name) ? fns[n.name] : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function '${n.name}'`);
+      return fn(...n.args.map(a => evalNode(a, scope, fns)));
+    }
+    case 'un': {
+      const v = evalNode(n.a, scope, fns);
+      return n.op === '!' ? !v : -num(v);
+    }
+    case 'bin': {
+      if (n.op === '&&') return !!evalNode(n.a, scope, fns) && !!evalNode(n.b, scope, fns);
+      if (n.op === '||') return !!evalNode(n.a, scope, fns) || !!evalNode(n.b, scope, fns);
+      const a = evalNode(n.a, scope, fns);
+      const b = evalNode(n.b, scope, fns);
+      switch (n.op) {
+        // loose on purpose: form data often holds numbers as strings
+        // eslint-disable-next-line eqeqeq
+        case '==': return a == b;
+        // eslint-disable-next-line eqeqeq
+        case '!=': return a != b;
+        case '<': return (typeof a === 'string' && typeof b === 'string') ? a < b : num(a) < num(b);
+        case '<=': return (typeof a === 'string' && typeof b === 'string') ? a <= b : num(a) <= num(b);
+        case '>': return (typeof a === 'string' && typeof b === 'string') ? a > b : num(a) > num(b);
+        case '>=': return (typeof a === 'string' && typeof b === 'string') ? a >= b : num(a) >= num(b);
+        case '+': return (typeof a === 'string' || typeof b === 'string') ? `${a ?? ''}${b ?? ''}` : num(a) + num(b);
+        case '-': return num(a) - num(b);
+        case '*': return num(a) * num(b);
+        case '/': return num(a) / num(b);
+        case '%': return num(a) % num(b);
+      }
+    }
+  }
+  throw new ExpressionError('Invalid expression');
+}
+
+/** Evaluate an expression; throws ExpressionError on bad syntax or unknown functions. */
+export function evaluateExpression(src: string, scope: Scope = {}, fns: Record<string, ExprFunction> = DEFAULT_FUNCTIONS): any {
+  return evalNode(parseExpression(src), scope, fns);
+}
+
+/**
+ * Evaluate a condition to a boolean.
+ * An empty condition always holds; a broken one never does (and is logged).
+ */
+export function evaluateCondition(src: string | null | undefined, scope: Scope = {}): boolean {
+  if (!src || !normalize(src)) return true;
+  try {
+    return !!evaluateExpression(src, scope);
+  } catch (e: any) {
+    console.warn('[expression] condition failed:', src, e?.message || e);
+    return false;
+  }
+}
@@ -0,0 +1,124 @@
+import type { Meta, MetaTable } from './formsCrud';
+import { columnKind, foreignKeys, formDataToRow, rowLabel, rowToFormData, stampActor, tableFormSchema, withCurrentOptions } from './formGen';
+
+// form-js ships ESM Jest does not transform; generation only needs its schemaVersion
+jest.mock('@bpmn-io/form-js', () => ({ schemaVersion: 16 }));
+// formsCrud's column helpers are used as they are; its API client needs env.ts (import.meta)
+jest.mock('../env', () => ({ viteEnv: {}, defaultHeaders: () => ({}) }));
+jest.mock('./api', () => ({ API_BASE: 'http://api.test' }));
+
+const orders: MetaTable = {
+  tableName: 'orders',
+  primaryKey: ['id'],
+  columns: [
+    { columnName: 'id', dataType: 'uuid', defaultValue: 'gen_random_uuid()' },
+    { columnName: 'customer_id', dataType: 'uuid' },
+    { columnName: 'region', dataType: 'text', isNullable: true, refTable: 'regions', refColumn: 'code' },
+    { columnName: 'title', dataType: 'varchar' },
+    { columnName: 'qty', dataType: 'integer' },
+    { columnName: 'paid', dataType: 'boolean' },
+    { columnName: 'due', dataType: 'date', isNullable: true },
+    { columnName: 'extra', dataType: 'jsonb', isNullable: true },
+    { columnName: 'channel', dataType: 'text', enum: ['web', 'shop'], isNullable: true },
+    { columnName: 'created_at', dataType: 'timestamp with time zone' },
+    { columnName: 'created_by', dataType: 'text', isNullable: true },
+    { columnName: 'updated_by', dataType: 'text', isNullable: true }
+  ]
+};
+const meta: Meta = {
+  tables: [
+    orders,
+    { tableName: 'customers', primaryKey: ['id'], columns: [{ columnName: 'id', dataType: 'uuid' }] },
+    { tableName: 'regions', primaryKey: ['code'], columns: [{ columnName: 'code', dataType: 'text' }] }
+  ]
+};
+
+const byKey = (schema: any, key: string) => schema.components.find((c: any) => c.key === key);
+
+describe('columnKind', () => {
+  test('maps database types to field kinds', () => {
+    expect(['bool', 'bigint', 'numeric(10,2)', 'timestamp', 'date', 'time without time zone', 'jsonb', 'text[]', 'text', 'varchar']
+      .map(columnKind)).toEqual(['boolean', 'integer', 'number', 'datetime', 'date', 'time', 'json', 'json', 'text', 'string']);
+  });
+});
+
+describe('foreignKeys', () => {
+  test('takes what /meta reports, else <name>_id naming among the known tables', () => {
+    expect(foreignKeys(orders, meta)).toEqual([
+      { column: 'customer_id', table: 'customers', refColumn: 'id' },
+      { column: 'region', table: 'regions', refColumn: 'code' }
+    ]);
+  });
+});
+
+describe('tableFormSchema', () => {
+  test('creating leaves out what the server fills in and marks required columns', () => {
+    const schema = tableFormSchema(orders, meta, 'create', { customer_id: [{ label: 'Ann', value: 'c1' }] });
+
+    expect(schema).toEqual(expect.objectContaining({ id: 'Table_orders', type: 'default', schemaVersion: 16 }));
+    expect(schema.components.map((c: any) => c.key)).toEqual(['customer_id', 'region', 'title', 'qty', 'paid', 'due', 'extra', 'channel']);
+    expect(byKey(schema, 'customer_id')).toEqual(expect.objectContaining({
+      type: 'select', label: 'Customer', description: '→ customers', values: [{ label: 'Ann', value: 'c1' }], validate: { required: true }
+    }));
+    expect(byKey(schema, 'qty')).toEqual(expect.objectContaining({ type: 'number', decimalDigits: 0 }));
+    expect(byKey(schema, 'paid')).toEqual(expect.objectContaining({ type: 'checkbox' }));
+    expect(byKey(schema, 'paid').validate).toBeUndefined();
+    expect(byKey(schema, 'due')).toEqual(expect.objectContaining({ type: 'datetime', subtype: 'date' }));
+    expect(byKey(schema, 'extra')).toEqual(expect.objectContaining({ type: 'textarea', description: 'JSON' }));
+    expect(byKey(schema, 'channel').values).toEqual([{ label: 'web', value: 'web' }, { label: 'shop', value: 'shop' }]);
+  });
+
+  test('editing shows every column and locks the key and server-managed ones', () => {
+    const schema = tableFormSchema(orders, meta, 'edit');
+    expect(byKey(schema, 'id').disabled).toBe(true);
+    expect(byKey(schema, 'created_at')).toEqual(expect.objectContaining({ type: 'datetime', disabled: true }));
+    expect(byKey(schema, 'title').disabled).toBeUndefined();
+  });
+});
+
+describe('rows and form data', () => {
+  const row = { id: 'o1', customer_id: 'c1', title: 'Desk', qty: '2', paid: 'true', due: '2026-03-01T00:00:00Z', extra: { gift: true }, channel: null };
+
+  test('rowToFormData types the values for the fields', () => {
+    expect(rowToFormData(orders, row)).toEqual({
+      id: 'o1', customer_id: 'c1', title: 'Desk', qty: 2, paid: true, due: '2026-03-01', extra: '{\n  "gift": true\n}'
+    });
+  });
+
+  test('formDataToRow parses JSON, leaves empty values out on create and clears them on edit', () => {
+    const data = { customer_id: 'c1', title: 'Desk', qty: 2, extra: '{"gift":false}', due: '', id: 'o1', created_at: 'x' };
+
+    expect(formDataToRow(orders, data, 'create')).toEqual({
+      row: { customer_id: 'c1', title: 'Desk', qty: 2, paid: false, extra: { gift: false } },
+      errors: []
+    });
+    const edit = formDataToRow(orders, data, 'edit').row;
+    expect(edit).toEqual(expect.objectContaining({ due: null, region: null, channel: null }));
+    expect(edit).not.toHaveProperty('id');
+    expect(edit).not.toHaveProperty('created_at');
+
+    expect(formDataToRow(orders, { ...data, extra: '{broken' }, 'create').errors).toEqual(['Extra is not valid JSON']);
+  });
+
+  test('stampActor fills created_by / updated_by where the table has them', () => {
+    expect(stampActor(orders, { title: 'x' }, 'create', 'ann')).toEqual({ title: 'x', created_by: 'ann', updated_by: 'ann' });
+    expect(stampActor(orders, { title: 'x' }, 'edit', 'ann')).toEqual({ title: 'x', updated_by: 'ann' });
+    expect(stampActor(orders, { title: 'x' }, 'edit')).toEqual({ title: 'x' });
+  });
+
+  test('withCurrentOptions keeps a foreign key value the loaded options miss', () => {
+    const fks = foreignKeys(orders, meta);
+    const options = { customer_id: [{ label: 'Ann', value: 'c1' }] };
+    expect(withCurrentOptions(options, fks, { customer_id: 'c1' })).toEqual(options);
+    expect(withCurrentOptions(options, fks, { customer_id: 'c9', region: 'eu' }, { customer_id: 'Bob' })).toEqual({
+      customer_id: [{ value: 'c9', label: 'Bob' }, { label: 'Ann', value: 'c1' }],
+      region: [{ value: 'eu', label: 'eu' }]
+    });
+  });
+
+  test('rowLabel prefers a name-like column, then the primary key', () => {
+    expect(rowLabel({ id: 'c1', email: 'ann@example.com', name: 'Ann' })).toBe('Ann');
+    expect(rowLabel({ code: 'eu' }, meta.tables[2])).toBe('eu');
+    expect(rowLabel({})).toBe('(unnamed)');
+  });
+});
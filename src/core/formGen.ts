@@ -0,0 +1,203 @@
+// src/core/formGen.ts
+// form-js schemas generated from /meta for the table admin: one field per column, picked by
+// column type, with foreign keys as selects over the referenced table. Also converts rows to
+// form data and back (JSON columns are edited as text, numbers and booleans typed again).
+
+import { schemaVersion } from '@bpmn-io/form-js';
+import { Meta, MetaColumn, MetaTable, TableRow, isServerManaged, primaryKeyOf } from './formsCrud';
+
+export type ColumnKind = 'boolean' | 'integer' | 'number' | 'date' | 'datetime' | 'time' | 'json' | 'text' | 'string';
+
+export type FormMode = 'create' | 'edit' | 'view';
+
+export interface ForeignKey {
+  column: string;
+  table: string;
+  refColumn: string;
+}
+
+export type FkOptions = Record<string, Array<{ label: string; value: string }>>;
+
+export function columnKind(dataType: string): ColumnKind {
+  const t = (dataType || '').toLowerCase();
+  if (t.includes('bool')) return 'boolean';
+  if (/^(small|big)?int|integer|serial/.test(t)) return 'integer';
+  if (/numeric|decimal|real|double|float|number|money/.test(t)) return 'number';
+  if (t.includes('timestamp') || t.includes('datetime') || t === 'date-time') return 'datetime';
+  if (t === 'date') return 'date';
+  if (t.startsWith('time')) return 'time';
+  if (t.includes('json') || t === 'object' || t === 'array' || t.endsWith('[]')) return 'json';
+  if (t === 'text') return 'text';
+  return 'string';
+}
+
+/**
+ * Foreign keys of `table`: what /meta reports (refTable / refColumn), else by naming convention
+ * (`<name>_id` → table `<name>` or `<name>s`) among the tables /meta knows.
+ */
+export function foreignKeys(table: MetaTable, meta: Meta): ForeignKey[] {
+  const byName = new Map(meta.tables.map(t => [t.tableName, t]));
+  const out: ForeignKey[] = [];
+  for (const c of table.columns) {
+    if (c.refTable && byName.has(c.refTable)) {
+      out.push({ column: c.columnName, table: c.refTable, refColumn: c.refColumn || primaryKeyOf(byName.get(c.refTable)!) });
+      continue;
+    }
+    const m = /^(.+)_id$/.exec(c.columnName);
+    if (!m || c.columnName === primaryKeyOf(table)) continue;
+    const target = [m[1], `${m[1]}s`].map(n => byName.get(n)).find(Boolean);
+    if (target) out.push({ column: c.columnName, table: target.tableName, refColumn: primaryKeyOf(target) });
+  }
+  return out;
+}
+
+export const humanize = (column: string) =>
+  column.replace(/_id$/, '').replace(/[_-]+/g, ' ').replace(/^\w/, ch => ch.toUpperCase());
+
+/** A readable name for a row: its name-like column, else the primary key. */
+export function rowLabel(row: TableRow, table?: MetaTable): string {
+  for (const k of ['name', 'title', 'label', 'key', 'code', 'slug', 'email']) {
+    if (row?.[k]) return String(row[k]);
+  }
+  const pk = table ? primaryKeyOf(table) : 'id';
+  return row?.[pk] != null ? String(row[pk]) : '(unnamed)';
+}
+
+// a required checkbox would have to be ticked; false is a value too
+const isRequired = (c: MetaColumn) =>
+  !c.isNullable && c.defaultValue == null && !isServerManaged(c.columnName) && columnKind(c.dataType) !== 'boolean';
+
+/** Columns shown in `mode`: creating leaves out what the server fills in. */
+export function formColumns(table: MetaTable, mode: FormMode): MetaColumn[] {
+  const pk = primaryKeyOf(table);
+  return table.columns.filter(c =>
+    mode !== 'create' || (!isServerManaged(c.columnName) && !(c.columnName === pk && c.defaultValue != null))
+  );
+}
+
+function fieldFor(c: MetaColumn, fk: ForeignKey | undefined, opts: FkOptions, locked: boolean): any {
+  const base: any = {
+    id: `Field_${c.columnName}`,
+    key: c.columnName,
+    label: humanize(c.columnName),
+    ...(locked ? { disabled: true } : {}),
+    ...(!locked && isRequired(c) ? { validate: { required: true } } : {})
+  };
+  if (fk) {
+    return {
+      ...base,
+      type: 'select',
+      searchable: true,
+      description: `→ ${fk.table}`,
+      values: opts[c.columnName] ?? []
+    };
+  }
+  if (c.enum?.length) return { ...base, type: 'select', values: c.enum.map(v => ({ label: v, value: v })) };
+  switch (columnKind(c.dataType)) {
+    case 'boolean': return { ...base, type: 'checkbox' };
+    case 'integer': return { ...base, type: 'number', decimalDigits: 0 };
+    case 'number': return { ...base, type: 'number' };
+    case 'date': return { ...base, type: 'datetime', subtype: 'date', dateLabel: base.label };
+    case 'time': return { ...base, type: 'datetime', subtype: 'time', timeLabel: base.label, timeSerializingFormat: 'no_timezone' };
+    case 'datetime':
+      return { ...base, type: 'datetime', subtype: 'datetime', dateLabel: base.label, timeLabel: 'Time', timeSerializingFormat: 'utc_normalized' };
+    case 'json': return { ...base, type: 'textarea', description: 'JSON' };
+    case 'text': return { ...base, type: 'textarea' };
+    default: return { ...base, type: 'textfield' };
+  }
+}
+
+/**
+ * `fkOptions` plus each foreign key's current value in `row`, when the loaded options miss it
+ * (a table larger than the option limit, or options that failed to load): form-js clears a
+ * select value it has no option for, which would save the key as null. `labels` names those
+ * values (column → label); the raw value stands in otherwise.
+ */
+export function withCurrentOptions(fkOptions: FkOptions, fks: ForeignKey[], row: TableRow, labels: Record<string, string> = {}): FkOptions {
+  const out: FkOptions = { ...fkOptions };
+  for (const fk of fks) {
+    const v = row?.[fk.column];
+    if (v === undefined || v === null || v === '') continue;
+    const options = out[fk.column] ?? [];
+    if (options.some(o => o.value === String(v))) continue;
+    out[fk.column] = [{ value: String(v), label: labels[fk.column] ?? String(v) }, ...options];
+  }
+  return out;
+}
+
+/**
+ * form-js schema for one row of `table`. Editing locks the primary key and server-managed
+ * columns; `fkOptions` fills the foreign-key selects (column → options).
+ */
+export function tableFormSchema(table: MetaTable, meta: Meta, mode: FormMode, fkOptions: FkOptions = {}): any {
+  const fks = new Map(foreignKeys(table, meta).map(f => [f.column, f]));
+  const pk = primaryKeyOf(table);
+  const components = formColumns(table, mode).map(c =>
+    fieldFor(c, fks.get(c.columnName), fkOptions, mode === 'edit' && (c.columnName === pk || isServerManaged(c.columnName)))
+  );
+  return {
+    id: `Table_${table.tableName}`,
+    type: 'default',
+    schemaVersion,
+    components
+  };
+}
+
+/** Row values as the generated fields expect them. */
+export function rowToFormData(table: MetaTable, row: TableRow): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const c of table.columns) {
+    const v = row?.[c.columnName];
+    if (v === undefined || v === null) continue;
+    switch (columnKind(c.dataType)) {
+      case 'json': out[c.columnName] = typeof v === 'string' ? v : JSON.stringify(v, null, 2); break;
+      case 'date': out[c.columnName] = String(v).slice(0, 10); break;
+      case 'integer':
+      case 'number': out[c.columnName] = typeof v === 'number' ? v : Number(v); break;
+      case 'boolean': out[c.columnName] = v === true || v === 'true' || v === 1; break;
+      default: out[c.columnName] = c.refTable || /_id$/.test(c.columnName) ? String(v) : v;
+    }
+  }
+  return out;
+}
+
+/**
+ * Form data back to a row for `mode`: JSON text parsed, empty optional values left out on create
+ * and cleared (null) on edit. `errors` lists columns whose JSON does not parse.
+ */
+export function formDataToRow(table: MetaTable, data: Record<string, any>, mode: Exclude<FormMode, 'view'>): { row: TableRow; errors: string[] } {
+  const row: TableRow = {};
+  const errors: string[] = [];
+  const pk = primaryKeyOf(table);
+  for (const c of formColumns(table, mode)) {
+    const name = c.columnName;
+    if (mode === 'edit' && (name === pk || isServerManaged(name))) continue;
+    const v = data[name];
+    const empty = v === undefined || v === null || v === '';
+    if (empty && columnKind(c.dataType) === 'boolean') {
+      row[name] = false; // an untouched checkbox
+      continue;
+    }
+    if (empty) {
+      if (mode === 'edit' && c.isNullable) row[name] = null;
+      continue;
+    }
+    if (columnKind(c.dataType) === 'json' && typeof v === 'string') {
+      try { row[name] = JSON.parse(v); } catch { errors.push(`${humanize(name)} is not valid JSON`); }
+      continue;
+    }
+    row[name] = v;
+  }
+  return { row, errors };
+}
+
+/** created_by / updated_by from the signed-in user, where the table has them. */
+export function stampActor(table: MetaTable, row: TableRow, mode: Exclude<FormMode, 'view'>, by?: string): TableRow {
+  if (!by) return row;
+  const has = (name: string) => table.columns.some(c => c.columnName === name);
+  return {
+    ...row,
+    ...(mode === 'create' && has('created_by') ? { created_by: by } : {}),
+    ...(has('updated_by') ? { updated_by: by } : {})
+  };
+}
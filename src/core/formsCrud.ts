@@ -1,64 +1,49 @@
 // src/core/formsCrud.ts
-// Meta + form-definition helpers that call one explicit API base (no proxy/fallback).
+// Meta + form-definition helpers that call one explicit API base (no proxy/fallback), and the
+// generic row CRUD the table admin uses for every table /meta reports.
 
 import { API_BASE } from './api';
+import { http } from './http';
 
-function join(base: string, path: string) {
-  const b = base.replace(/\/+$/, '');
-  const p = path.replace(/^\/+/, '');
-  return `${b}/${p}`;
-}
-
-async function parseJson<T>(res: Response): Promise<T> {
-  if (res.status === 204) return undefined as unknown as T;
-  const ct = res.headers.get('content-type') || '';
-  if (ct.includes('application/json')) return res.json() as Promise<T>;
-  return (await res.text()) as unknown as T;
-}
+// every call names its base explicitly; headers, retries and errors come from the shared client
+const client = (apiBase: string) => http.withBase(apiBase);
 
-async function errorText(res: Response): Promise<any> {
-  const c = res.clone();
-  try { return await c.json(); }
-  catch {
-    try { return await res.text(); }
-    catch { return undefined; }
-  }
+async function getJSON<T>(apiBase: string, path: string): Promise<T> {
+  return client(apiBase).get<T>(path);
 }
 
-async function requestJSON<T>(apiBase: string, path: string, init: RequestInit = {}): Promise<T> {
-  const url = join(apiBase, path);
-  const res = await fetch(url, {
-    ...init,
-    headers: { Accept: 'application/json', ...(init.headers || {}) }
-  });
-  if (res.ok) return parseJson<T>(res);
-  const details = await errorText(res);
-  throw new Error(`HTTP ${res.status} ${res.statusText}: ${details}`);
+async function postJSON<T>(apiBase: string, path: string, body: any) {
+  return client(apiBase).post<T>(path, body);
 }
 
-async function postJSON<T>(apiBase: string, path: string, body: any) {
-  return requestJSON<T>(apiBase, path, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body)
-  });
+async function patchJSON<T>(apiBase: string, path: string, body: any) {
+  return client(apiBase).patch<T>(path, body);
 }
 
-async function putJSON<T>(apiBase: string, path: string, body: any) {
-  return requestJSON<T>(apiBase, path, {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body)
-  });
+async function deleteJSON(apiBase: string, path: string) {
+  return client(apiBase).delete<void>(path);
 }
 
 // --- types from /meta (only what we need) ---
+export type MetaColumn = {
+  columnName: string;
+  dataType: string;
+  isNullable?: boolean;
+  defaultValue?: any;
+  /** foreign key, when /meta reports it (schema refTable / refColumn) */
+  refTable?: string;
+  refColumn?: string;
+  enum?: string[];
+};
+
+export type MetaTable = {
+  tableName: string;
+  columns: MetaColumn[];
+  primaryKey?: string[];
+};
+
 export type Meta = {
-  tables: Array<{
-    tableName: string;
-    columns: Array<{ columnName: string; dataType: string; isNullable?: boolean; defaultValue?: any }>;
-    primaryKey?: string[];
-  }>;
+  tables: MetaTable[];
 };
 
 export type FormDefinitionRow = Record<string, any>;
@@ -66,7 +51,7 @@ export type FormDefinitionRow = Record<string, any>;
 // --- public helpers used by modals ---
 
 export async function fetchMeta(apiBase = API_BASE): Promise<Meta> {
-  return requestJSON<Meta>(apiBase, '/meta');
+  return getJSON<Meta>(apiBase, '/meta');
 }
 
 function pick<T extends string>(cols: string[], candidates: T[]): T | undefined {
@@ -81,6 +66,9 @@ const SERVER_MANAGED = new Set([
   'createdAt','updatedAt','createdBy','updatedBy'
 ]);
 
+/** Filled by the server (or from the signed-in user), never typed in. */
+export const isServerManaged = (column: string) => SERVER_MANAGED.has(column);
+
 export async function formDefColumns(apiBase = API_BASE) {
   const meta = await fetchMeta(apiBase);
   const t = meta.tables.find(x => x.tableName === 'form_definition');
@@ -115,7 +103,7 @@ export async function listForms(apiBase = API_BASE, q = '', limit = 50, offset =
   qs.set('limit', String(limit));
   qs.set('offset', String(offset));
   if (q) qs.set('q', q);
-  return requestJSON<{ total: number; items: FormDefinitionRow[] } | { items: FormDefinitionRow[] }>(
+  return getJSON<{ total: number; items: FormDefinitionRow[] } | { items: FormDefinitionRow[] }>(
     apiBase,
     `/form_definition/?${qs.toString()}`
   ).then(res => (res as any).items ?? []);
@@ -152,34 +140,40 @@ export function labelForForm(row: FormDefinitionRow) {
   return (row as any).id ?? '(unnamed form)';
 }
 
-/**
- * Optional convenience: fully replace a form_definition row using PUT.
- * Aligns to your contract (name, version, is_active, form_schema, field_state_setting) as strings.
- * Pass an already-stringified payload or raw objects we’ll stringify.
- */
-export async function replaceFormDefinition(
+/* ---------------- any table ---------------- */
+
+export type TableRow = Record<string, any>;
+
+export const primaryKeyOf = (table: MetaTable) => (table.primaryKey && table.primaryKey[0]) || 'id';
+
+const rowPath = (table: string, id?: string) =>
+  id === undefined ? `/${encodeURIComponent(table)}/` : `/${encodeURIComponent(table)}/${encodeURIComponent(id)}`;
+
+/** One page of `table`; `q` is the server's free-text filter where it has one. */
+export async function listRows(
   apiBase = API_BASE,
-  id: string,
-  payload: {
-    name: string;
-    version: number;
-    is_active: boolean;
-    form_schema: string | object;
-    field_state_setting?: string | object;
-  }
-) {
-  const body: Record<string, any> = {
-    name: payload.name,
-    version: payload.version,
-    is_active: payload.is_active,
-    form_schema: typeof payload.form_schema === 'string'
-      ? payload.form_schema
-      : JSON.stringify(payload.form_schema)
-  };
-  if (payload.field_state_setting !== undefined) {
-    body.field_state_setting = typeof payload.field_state_setting === 'string'
-      ? payload.field_state_setting
-      : JSON.stringify(payload.field_state_setting);
-  }
-  return putJSON<FormDefinitionRow>(apiBase, `/form_definition/${encodeURIComponent(id)}`, body);
+  table: string,
+  opts: { limit?: number; offset?: number; q?: string; sort?: string } = {}
+): Promise<{ items: TableRow[]; total: number }> {
+  const qs = new URLSearchParams();
+  qs.set('limit', String(opts.limit ?? 50));
+  qs.set('offset', String(opts.offset ?? 0));
+  if (opts.q) qs.set('q', opts.q);
+  if (opts.sort) qs.set('sort', opts.sort);
+  const res = await getJSON<any>(apiBase, `${rowPath(table)}?${qs.toString()}`);
+  const items: TableRow[] = Array.isArray(res) ? res : res?.items ?? [];
+  return { items, total: Array.isArray(res) ? items.length : res?.total ?? items.length };
 }
+
+export const getRow = (apiBase = API_BASE, table: string, id: string) =>
+  getJSON<TableRow>(apiBase, rowPath(table, id));
+
+export const createRow = (apiBase = API_BASE, table: string, row: TableRow) =>
+  postJSON<TableRow>(apiBase, rowPath(table), row);
+
+/** PATCH: only the columns in `patch` change. */
+export const updateRow = (apiBase = API_BASE, table: string, id: string, patch: TableRow) =>
+  patchJSON<TableRow>(apiBase, rowPath(table, id), patch);
+
+export const deleteRow = (apiBase = API_BASE, table: string, id: string) =>
+  deleteJSON(apiBase, rowPath(table, id));
@@ -0,0 +1,156 @@
+import { ApiClient, ApiError, isAbortError, isConflictError } from './http';
+
+// env.ts reads import.meta, which Jest cannot parse
+jest.mock('../env', () => ({ viteEnv: {}, defaultHeaders: () => ({ 'Content-Type': 'application/json' }) }));
+
+/** Just enough of a fetch Response for the client. */
+function reply(status: number, body?: any, headers: Record<string, string> = {}): Response {
+  const h: Record<string, string> = { ...(body !== undefined ? { 'content-type': 'application/json' } : {}), ...headers };
+  const res: any = {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: { get: (k: string) => h[k.toLowerCase()] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body ?? ''),
+    clone: () => res
+  };
+  return res;
+}
+
+/** A fetch that never answers, only gives up when its signal aborts. */
+const hang = (_url: RequestInfo, init?: RequestInit) => new Promise<Response>((_, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' })));
+});
+
+const networkDown = () => Promise.reject(new TypeError('Failed to fetch'));
+
+/** The ApiError `p` fails with. */
+const failure = (p: Promise<unknown>) => p.then(() => { throw new Error('expected the request to fail'); }, (e: ApiError) => e);
+
+let fetchMock: jest.Mock;
+beforeEach(() => {
+  fetchMock = jest.fn();
+  (global as any).fetch = fetchMock;
+});
+
+const client = () => new ApiClient('http://api.test/', { headers: () => ({ 'Content-Type': 'application/json', 'X-App': 'forms' }) });
+
+describe('ApiClient.request', () => {
+  test('joins the base, appends the query and sends JSON only with a body', async () => {
+    fetchMock.mockResolvedValue(reply(200, { ok: 1 }));
+    const c = client();
+
+    expect(await c.get('/rows', { query: { limit: 5, name: '', q: undefined } })).toEqual({ ok: 1 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://api.test/rows?limit=5');
+    expect(init.headers).toEqual({ Accept: 'application/json', 'X-App': 'forms' });
+
+    await c.post('rows', { a: 1 });
+    const [, post] = fetchMock.mock.calls[1];
+    expect(post.body).toBe('{"a":1}');
+    expect(post.headers['Content-Type']).toBe('application/json');
+  });
+
+  test('fails with an ApiError carrying the status and the server detail', async () => {
+    fetchMock.mockResolvedValue(reply(409, { detail: 'duplicate (name, version)' }));
+    const err = await failure(client().post('/rows', {}));
+
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err).toEqual(expect.objectContaining({ status: 409, kind: 'http', method: 'POST', url: 'http://api.test/rows' }));
+    expect(err.message).toBe('HTTP 409: duplicate (name, version)');
+    expect(isConflictError(err)).toBe(true);
+  });
+});
+
+describe('retries', () => {
+  test('retries a GET after a network error or a 503, then succeeds', async () => {
+    fetchMock
+      .mockImplementationOnce(networkDown)
+      .mockResolvedValueOnce(reply(503))
+      .mockResolvedValueOnce(reply(200, [1]));
+    expect(await client().get('/rows')).toEqual([1]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('gives up after the retries with the last error', async () => {
+    fetchMock.mockImplementation(networkDown);
+    const err = await failure(client().get('/rows', { retries: 1 }));
+    expect(err).toEqual(expect.objectContaining({ kind: 'network', status: 0 }));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not resend writes or retry client errors', async () => {
+    fetchMock.mockResolvedValue(reply(503));
+    await expect(client().post('/rows', {})).rejects.toEqual(expect.objectContaining({ status: 503 }));
+    fetchMock.mockResolvedValue(reply(404));
+    await expect(client().get('/rows/1')).rejects.toEqual(expect.objectContaining({ status: 404 }));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('timeout and abort', () => {
+  test('a request without an answer in time fails with kind "timeout"', async () => {
+    fetchMock.mockImplementation(hang);
+    const err = await failure(client().post('/rows', {}, { timeoutMs: 20 }));
+    expect(err).toEqual(expect.objectContaining({ kind: 'timeout', status: 0 }));
+    expect(err.message).toMatch('timed out after 20 ms');
+  });
+
+  test("the caller's signal aborts the request, and is not retried", async () => {
+    fetchMock.mockImplementation(hang);
+    const ac = new AbortController();
+    const pending = failure(client().get('/rows', { signal: ac.signal, timeoutMs: 0 }));
+    ac.abort();
+    const err = await pending;
+
+    expect(err).toEqual(expect.objectContaining({ kind: 'aborted' }));
+    expect(isAbortError(err)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('aborting during the wait before a retry stops it', async () => {
+    fetchMock.mockResolvedValue(reply(503));
+    const ac = new AbortController();
+    const pending = failure(client().get('/rows', { signal: ac.signal }));
+    await new Promise(r => setTimeout(r, 10));
+    ac.abort();
+
+    expect(isAbortError(await pending)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('interceptors', () => {
+  test('request interceptors change what is sent, response interceptors what comes back', async () => {
+    fetchMock.mockResolvedValueOnce(reply(401)).mockResolvedValueOnce(reply(200, 'second'));
+    const c = client();
+    c.useRequest(req => ({ ...req, init: { ...req.init, headers: { ...(req.init.headers as any), Authorization: 'Bearer t' } } }));
+    // shared with clients made by withBase
+    c.useResponse(async res => (res.status === 401 ? fetch('http://api.test/again') : undefined));
+
+    expect(await c.withBase('http://other.test').get('/x')).toBe('second');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://other.test/x');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer t');
+  });
+
+  test('skipResponseInterceptors leaves them out', async () => {
+    fetchMock.mockResolvedValue(reply(401));
+    const c = client();
+    const interceptor = jest.fn();
+    c.useResponse(interceptor);
+
+    await expect(c.get('/x', { skipResponseInterceptors: true })).rejects.toEqual(expect.objectContaining({ status: 401 }));
+    expect(interceptor).not.toHaveBeenCalled();
+  });
+
+  test('the returned function removes the interceptor', async () => {
+    fetchMock.mockResolvedValue(reply(200, {}));
+    const c = client();
+    const interceptor = jest.fn();
+    const off = c.useRequest(interceptor);
+    off();
+    await c.get('/x');
+    expect(interceptor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,300 @@
+// src/core/http.ts
+// The one HTTP client every module goes through (api.ts, formsCrud.ts, the data sources,
+// components). Adds the env.ts default headers (auth), a timeout, retries for idempotent
+// requests and request/response interceptors, and fails with ApiError only.
+
+import { defaultHeaders, viteEnv } from '../env';
+
+declare global {
+  interface Window {
+    __API_BASE__?: string;
+  }
+}
+
+function resolveBase(): string {
+  // 1) window override (handy for staging without rebuild)
+  if (typeof window !== 'undefined' && window.__API_BASE__) return window.__API_BASE__;
+
+  // 2) Vite env (works if you build with Vite; safely ignored elsewhere)
+  const viteBase = (viteEnv?.VITE_API_BASE as string | undefined)?.trim();
+  if (viteBase) return viteBase;
+
+  // 3) CRA/Webpack env — ONLY read if process exists in this runtime
+  const craBase =
+    (typeof process !== 'undefined' &&
+      (process as any).env &&
+      (process as any).env.REACT_APP_API_BASE &&
+      String((process as any).env.REACT_APP_API_BASE).trim()) ||
+    undefined;
+  if (craBase) return craBase;
+
+  // 4) DEMO default (explicit, no proxy/fallback)
+  return 'http://localhost:8000';
+}
+
+export const API_BASE = resolveBase();
+
+/* ---------------- errors ---------------- */
+
+/**
+ * `kind`: 'http' — the server answered with an error status; 'network' — no answer;
+ * 'timeout' — no answer in time; 'aborted' — the caller's AbortSignal fired. Only 'http'
+ * errors carry a real `status` (0 otherwise).
+ */
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted';
+
+export class ApiError extends Error {
+  status: number;
+  details?: unknown;
+  kind: ApiErrorKind;
+  method?: string;
+  url?: string;
+  constructor(message: string, status: number, details?: unknown, info: { kind?: ApiErrorKind; method?: string; url?: string } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+    this.kind = info.kind ?? 'http';
+    this.method = info.method;
+    this.url = info.url;
+  }
+}
+
+/** 409 Conflict / 412 Precondition Failed: the row changed since it was read. */
+export const isConflictError = (e: unknown): e is ApiError =>
+  e instanceof ApiError && (e.status === 409 || e.status === 412);
+
+export const isAbortError = (e: unknown) =>
+  (e instanceof ApiError && e.kind === 'aborted') || (e as any)?.name === 'AbortError';
+
+function describeDetails(details: unknown): string {
+  if (details == null || details === '') return '';
+  const d: any = details;
+  const text = typeof d === 'string' ? d : typeof d?.detail === 'string' ? d.detail : JSON.stringify(d);
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
+
+/* ---------------- client ---------------- */
+
+export interface RequestOptions {
+  method?: string;
+  /** appended as ?k=v; null / undefined / '' values are skipped */
+  query?: Record<string, string | number | boolean | null | undefined>;
+  /** JSON-encoded unless it already is a string, FormData, Blob or URLSearchParams */
+  body?: any;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** ms before the request fails with kind 'timeout' (0 = none) */
+  timeoutMs?: number;
+  /** extra attempts after a network error, timeout or 429/502/503/504; default 2 for GET/HEAD */
+  retries?: number;
+  /** skip the response interceptors: set by a resend from inside one, so it cannot loop */
+  skipResponseInterceptors?: boolean;
+}
+
+export interface ApiRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/** May change the request (e.g. add a header); return nothing to keep it. */
+export type RequestInterceptor = (req: ApiRequest) => ApiRequest | void | Promise<ApiRequest | void>;
+/** May replace the response (e.g. after refreshing a token and retrying); return nothing to keep it. */
+export type ResponseInterceptor = (res: Response, req: ApiRequest) => Response | void | Promise<Response | void>;
+
+type Interceptors = { request: RequestInterceptor[]; response: ResponseInterceptor[] };
+
+const RETRY_STATUS = new Set([429, 502, 503, 504]);
+const IDEMPOTENT = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function isRaw(body: any) {
+  return typeof body === 'string' ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams);
+}
+
+function join(base: string, path: string) {
+  if (/^https?:\/\//i.test(path)) return path;
+  const b = base.replace(/\/+$/, '');
+  const p = path.replace(/^\/+/, '');
+  return `${b}/${p}`;
+}
+
+function withQuery(url: string, query?: RequestOptions['query']) {
+  if (!query) return url;
+  const usp = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) if (v !== undefined && v !== null && v !== '') usp.set(k, String(v));
+  const qs = usp.toString();
+  return qs ? `${url}${url.includes('?') ? '&' : '?'}${qs}` : url;
+}
+
+/** Wait before a retry; the caller's signal cuts it short. */
+function backoff(ms: number, signal: AbortSignal | undefined, req: ApiRequest) {
+  return new Promise<void>((resolve, reject) => {
+    const aborted = () => new ApiError('Request aborted', 0, undefined, { kind: 'aborted', method: req.init.method, url: req.url });
+    if (signal?.aborted) { reject(aborted()); return; }
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(t); reject(aborted()); }, { once: true });
+  });
+}
+
+function retryDelay(attempt: number, res?: Response) {
+  const after = Number(res?.headers.get('Retry-After'));
+  if (after > 0) return Math.min(after * 1000, 10000);
+  return 250 * 2 ** attempt;
+}
+
+async function parseBody<T>(res: Response): Promise<T> {
+  if (res.status === 204) return undefined as unknown as T;
+  const ctype = res.headers.get('content-type') || '';
+  if (ctype.includes('application/json')) return res.json() as Promise<T>;
+  return (await res.text()) as unknown as T;
+}
+
+async function errorDetails(res: Response): Promise<any> {
+  const c = res.clone(); // never read the same stream twice
+  try { return await c.json(); }
+  catch {
+    try { return await res.text(); }
+    catch { return undefined; }
+  }
+}
+
+function remove<T>(list: T[], item: T) {
+  const i = list.indexOf(item);
+  if (i >= 0) list.splice(i, 1);
+}
+
+export class ApiClient {
+  /** Shared with every client made by withBase(). */
+  readonly interceptors: Interceptors;
+
+  constructor(
+    readonly baseUrl: string,
+    private opts: {
+      headers?: () => Record<string, string>;
+      timeoutMs?: number;
+      interceptors?: Interceptors;
+    } = {}
+  ) {
+    this.interceptors = opts.interceptors ?? { request: [], response: [] };
+  }
+
+  /** Returns the function that removes it again. */
+  useRequest(fn: RequestInterceptor): () => void {
+    this.interceptors.request.push(fn);
+    return () => remove(this.interceptors.request, fn);
+  }
+
+  useResponse(fn: ResponseInterceptor): () => void {
+    this.interceptors.response.push(fn);
+    return () => remove(this.interceptors.response, fn);
+  }
+
+  /** Same headers, timeout and interceptors against another base URL (plus fixed `headers`). */
+  withBase(baseUrl: string, headers: Record<string, string> = {}): ApiClient {
+    const parent = this.opts.headers;
+    return new ApiClient(baseUrl, {
+      ...this.opts,
+      headers: () => ({ ...(parent?.() || {}), ...headers }),
+      interceptors: this.interceptors
+    });
+  }
+
+  private headersFor(o: RequestOptions, hasBody: boolean): Record<string, string> {
+    const h: Record<string, string> = { Accept: 'application/json', ...(this.opts.headers?.() || {}) };
+    // only requests with a JSON body say so (keeps GETs free of CORS preflights)
+    delete h['Content-Type'];
+    if (hasBody && !isRaw(o.body)) h['Content-Type'] = 'application/json';
+    return { ...h, ...(o.headers || {}) };
+  }
+
+  /** Send once; resolves with any response (ok or not), rejects with ApiError on no answer. */
+  private async send(req: ApiRequest, o: RequestOptions): Promise<Response> {
+    const method = req.init.method || 'GET';
+    const timeoutMs = o.timeoutMs ?? this.opts.timeoutMs ?? 30000;
+    const ac = new AbortController();
+    let timedOut = false;
+    const onAbort = () => ac.abort();
+    o.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; ac.abort(); }, timeoutMs) : null;
+    try {
+      return await fetch(req.url, { ...req.init, signal: ac.signal });
+    } catch (e: any) {
+      const info = { method, url: req.url };
+      if (o.signal?.aborted) throw new ApiError('Request aborted', 0, undefined, { ...info, kind: 'aborted' });
+      if (timedOut) throw new ApiError(`${method} ${req.url} timed out after ${timeoutMs} ms`, 0, undefined, { ...info, kind: 'timeout' });
+      throw new ApiError(`${method} ${req.url} failed: ${e?.message || 'network error'}`, 0, e, { ...info, kind: 'network' });
+    } finally {
+      if (timer) clearTimeout(timer);
+      o.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /** The response of a successful request (2xx/3xx); everything else throws ApiError. */
+  async raw(path: string, o: RequestOptions = {}): Promise<Response> {
+    const method = (o.method || 'GET').toUpperCase();
+    const hasBody = o.body !== undefined && method !== 'GET' && method !== 'HEAD';
+    let req: ApiRequest = {
+      url: withQuery(join(this.baseUrl, path), o.query),
+      init: {
+        method,
+        headers: this.headersFor(o, hasBody),
+        ...(hasBody ? { body: isRaw(o.body) ? o.body : JSON.stringify(o.body) } : {})
+      }
+    };
+    for (const fn of this.interceptors.request) req = (await fn(req)) || req;
+
+    const retries = o.retries ?? (IDEMPOTENT.has(method) ? 2 : 0);
+    for (let attempt = 0; ; attempt++) {
+      let res: Response;
+      try {
+        res = await this.send(req, o);
+      } catch (e) {
+        const transient = e instanceof ApiError && (e.kind === 'network' || e.kind === 'timeout');
+        if (!transient || attempt >= retries) throw e;
+        await backoff(retryDelay(attempt), o.signal, req);
+        continue;
+      }
+      if (!o.skipResponseInterceptors) for (const fn of this.interceptors.response) res = (await fn(res, req)) || res;
+      if (res.ok) return res;
+      if (RETRY_STATUS.has(res.status) && attempt < retries) {
+        await backoff(retryDelay(attempt, res), o.signal, req);
+        continue;
+      }
+      const details = await errorDetails(res);
+      const more = describeDetails(details);
+      const head = `HTTP ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`;
+      throw new ApiError(`${head}${more ? `: ${more}` : ''}`, res.status, details, { method, url: req.url });
+    }
+  }
+
+  /** Parsed body: JSON, text for other content types, undefined for 204. */
+  async request<T>(path: string, o: RequestOptions = {}): Promise<T> {
+    return parseBody<T>(await this.raw(path, o));
+  }
+
+  get<T>(path: string, o: Omit<RequestOptions, 'method' | 'body'> = {}) {
+    return this.request<T>(path, { ...o, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: any, o: Omit<RequestOptions, 'method' | 'body'> = {}) {
+    return this.request<T>(path, { ...o, method: 'POST', body });
+  }
+
+  put<T>(path: string, body?: any, o: Omit<RequestOptions, 'method' | 'body'> = {}) {
+    return this.request<T>(path, { ...o, method: 'PUT', body });
+  }
+
+  patch<T>(path: string, body?: any, o: Omit<RequestOptions, 'method' | 'body'> = {}) {
+    return this.request<T>(path, { ...o, method: 'PATCH', body });
+  }
+
+  delete<T>(path: string, o: Omit<RequestOptions, 'method' | 'body'> = {}) {
+    return this.request<T>(path, { ...o, method: 'DELETE' });
+  }
+}
+
+/** Client for API_BASE; use http.withBase(other) for another server. */
+export const http = new ApiClient(API_BASE, { headers: defaultHeaders });
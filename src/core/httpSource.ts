@@ -1,56 +1,45 @@
 import { DataSource, FormDefinitionDTO, FormEntryDTO } from './datasource';
-import { BehaviorBundle } from './types';
+import { BehaviorBundle, StateOption } from './types';
+import { toStateOptions } from './states';
+import { ApiClient, http } from './http';
 
 export class HttpDataSource implements DataSource {
-  constructor(
-    private baseUrl: string,
-    private headers: Record<string, string> = {}
-  ) {}
+  private http: ApiClient;
 
-  private async j<T>(url: string, init?: RequestInit): Promise<T> {
-    const res = await fetch(url, {
-      ...init,
-      headers: { 'Content-Type': 'application/json', ...this.headers, ...(init?.headers || {}) }
-    });
-    if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
-    return res.status === 204 ? (undefined as any) : (await res.json());
+  constructor(baseUrl: string, headers: Record<string, string> = {}) {
+    this.http = http.withBase(baseUrl, headers);
   }
 
   async getFormDefinition(formId: string): Promise<FormDefinitionDTO | null> {
-    try { return await this.j<FormDefinitionDTO>(`${this.baseUrl}/form-definitions/${encodeURIComponent(formId)}`); }
+    try { return await this.http.get<FormDefinitionDTO>(`/form-definitions/${encodeURIComponent(formId)}`); }
     catch { return null; }
   }
 
   async saveFormDefinition(formId: string, schema: any, version?: number): Promise<FormDefinitionDTO> {
-    return this.j<FormDefinitionDTO>(`${this.baseUrl}/form-definitions/${encodeURIComponent(formId)}`, {
-      method: 'PUT',
-      body: JSON.stringify({ id: formId, version, schema })
-    });
+    return this.http.put<FormDefinitionDTO>(`/form-definitions/${encodeURIComponent(formId)}`, { id: formId, version, schema });
   }
 
   async getBehaviors(formId: string): Promise<BehaviorBundle[]> {
-    return this.j<BehaviorBundle[]>(`${this.baseUrl}/form-definitions/${encodeURIComponent(formId)}/behaviors`);
+    return this.http.get<BehaviorBundle[]>(`/form-definitions/${encodeURIComponent(formId)}/behaviors`);
   }
 
   async saveBehaviors(formId: string, bundles: BehaviorBundle[]): Promise<void> {
-    await this.j<void>(`${this.baseUrl}/form-definitions/${encodeURIComponent(formId)}/behaviors`, {
-      method: 'PUT',
-      body: JSON.stringify(bundles)
-    });
+    await this.http.put<void>(`/form-definitions/${encodeURIComponent(formId)}/behaviors`, bundles);
   }
 
   async getEntry(entryId: string): Promise<FormEntryDTO | null> {
-    try { return await this.j<FormEntryDTO>(`${this.baseUrl}/entries/${encodeURIComponent(entryId)}`); }
+    try { return await this.http.get<FormEntryDTO>(`/entries/${encodeURIComponent(entryId)}`); }
     catch { return null; }
   }
 
   async saveEntry(entry: FormEntryDTO): Promise<FormEntryDTO> {
-    const method = entry.id ? 'PUT' : 'POST';
-    const url = entry.id ? `${this.baseUrl}/entries/${encodeURIComponent(entry.id)}` : `${this.baseUrl}/entries`;
-    return this.j<FormEntryDTO>(url, { method, body: JSON.stringify(entry) });
+    return entry.id
+      ? this.http.put<FormEntryDTO>(`/entries/${encodeURIComponent(entry.id)}`, entry)
+      : this.http.post<FormEntryDTO>('/entries', entry);
   }
 
-  async listStates(formId: string): Promise<string[]> {
-    return this.j<string[]>(`${this.baseUrl}/form-definitions/${encodeURIComponent(formId)}/states`);
+  async listStates(formId: string): Promise<StateOption[]> {
+    const rows = await this.http.get<any[]>(`/form-definitions/${encodeURIComponent(formId)}/states`);
+    return toStateOptions(rows);
   }
 }
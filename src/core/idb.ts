@@ -0,0 +1,38 @@
+// src/core/idb.ts
+// Minimal promise wrapper around IndexedDB. Where IndexedDB is unavailable (private mode, tests)
+// the database resolves to null and every call resolves to undefined instead of throwing.
+
+export type IdbHandle = () => Promise<IDBDatabase | null>;
+
+/** Lazily opened database; `upgrade` creates the object stores for a new `version`. */
+export function idbDatabase(name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void): IdbHandle {
+  let opening: Promise<IDBDatabase | null> | null = null;
+  return () => {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    if (!opening) {
+      opening = new Promise(resolve => {
+        const req = indexedDB.open(name, version);
+        req.onupgradeneeded = (e) => upgrade(req.result, e.oldVersion);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => { console.warn(`IndexedDB "${name}" unavailable`, req.error); resolve(null); };
+      });
+    }
+    return opening;
+  };
+}
+
+/** Run one request against `store` in its own transaction. */
+export async function idbRun<T>(
+  db: IdbHandle,
+  store: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const handle = await db();
+  if (!handle) return undefined;
+  return new Promise((resolve, reject) => {
+    const req = fn(handle.transaction(store, mode).objectStore(store));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -8,14 +8,55 @@ export type {
   CellMode,
   FieldCell,
   BehaviorMatrixValue,
+  StateOption,
+  RoleCell,
+  ValidationRule,
+  ValidationOverrides,
 } from './types';
 
-export { bundlesFromMatrix, matrixFromBundles } from './behaviors';
-export { enrichFormSchemaForState } from './enrich';
+export { beyondFlatRows, bundlesFromMatrix, matrixFromBundles } from './behaviors';
+export { enrichFormSchemaForState, conditionSignature } from './enrich';
+export { evaluateCondition, evaluateExpression, expressionError, renameIdentifier, ExpressionError } from './expression';
+export { DEFAULT_ROLES, toRoleNames, cellForRole, hasRoleOverride, patchCellForRole, clearRoleOverride } from './roles';
+export { normalizeValidation, validationProblem, applyValidation, ValidationMessagesModule } from './validation';
+export { applyStateDefaults, lockedKeys, lockedChanges, resolveDefault } from './values';
+export { detectRenames, mergeRenames, renameMatrixKeys, renameDataKeys } from './rename';
+export type { KeyRename } from './rename';
+export { INHERIT_CELL, parentIndex, resolveInherited } from './inheritance';
+export { reconcileMatrix, cleanupMatrix, describeReport, reportIssueCount, initialCell } from './reconcile';
+export type { ReconcileReport } from './reconcile';
+export { lintSchema, lintErrors, describeLintErrors, INPUT_TYPES } from './lint';
+export type { LintIssue, LintSeverity, LintCode } from './lint';
+export { listVersions, publishVersion, diffVersions, isEmptyDiff, toFormVersion, versionBase, conflictingVersion, VersionConflictError } from './versions';
+export type { FormVersion, VersionBase, PublishVersionInput, VersionDiff, ComponentChange, CellChange } from './versions';
+export { mergeDefinitions } from './merge';
+export type { DefinitionContent, MergeConflict, MergeResult, MergeSide } from './merge';
+export { FORM_STATUSES, STATUS_LABELS, LIFECYCLE_TRANSITIONS, statusOf, historyOf, canTransition, canCaptureEntries, transitionForm, activeVersionFor } from './lifecycle';
+export type { FormStatus, LifecycleEvent } from './lifecycle';
+export { applyMigration, migrationOf, migrationProblem, migrationBetween, suggestMigration, planEntryMigration, persistEntryMigration, MIGRATION_OPS } from './migrations';
+export type { MigrationStep, MigrationResult, EntryMigrationPlan, ConvertTarget } from './migrations';
+export { queryEntries, loadAllEntries, sortEntryRows, toEntryRow, entryValue, formatEntryValue, entryColumnCandidates, META_COLUMNS, DATA_SORT_LIMIT } from './entries';
+export type { EntryRow, EntryQuery, EntrySort } from './entries';
+export { listRevisions, saveEntryRevision, recordEntryRevision, diffEntryData, markChangedFields } from './revisions';
+export type { EntryRevision, DataChange, SaveEntryResult } from './revisions';
+export { DraftAutosaver, findDrafts, draftKey, describeAutosave, isStaleDraft, readLocalDraft, removeLocalDraft } from './drafts';
+export type { Draft, DraftScope, DraftLookup, AutosaveStatus } from './drafts';
+export { SyncQueue, describeOp, isTransientError, pendingCount, failedCount } from './syncQueue';
+export type { QueuedOp, QueueItem, SyncState } from './syncQueue';
+export { DEFAULT_STATES, captureState, labelForState, toStateOptions, resolveStateKey, reconcileMatrixStates, workflowOrder } from './states';
 
 export type { DataSource, FormDefinitionDTO, FormEntryDTO } from './datasource';
 export { GeneratedCrudProvider } from './persistence';
-export { API_BASE } from './api';
+export { preconditionHeaders } from './api';
+export type { Precondition } from './api';
+export { API_BASE, ApiClient, ApiError, http, isAbortError, isConflictError } from './http';
+export type { ApiErrorKind, ApiRequest, RequestInterceptor, RequestOptions, ResponseInterceptor } from './http';
+export { AuthStore, authStore, actorOf, installAuth, isExpired, login, logout, refreshSession } from './auth';
+export type { AuthSession, AuthState, AuthUser } from './auth';
+export { columnKind, foreignKeys, formDataToRow, rowLabel, rowToFormData, stampActor, tableFormSchema, withCurrentOptions } from './formGen';
+export type { ColumnKind, FkOptions, ForeignKey, FormMode } from './formGen';
+export { jsonSchemaToFormJs, listDefinitions, loadRefOptions, refSelectsOf, refTablesOf, refValuesKey } from './jsonSchemaImport';
+export type { JsonSchemaImportOptions, JsonSchemaImportResult, RefOptions, RefSelect } from './jsonSchemaImport';
 
 // Optional file helpers (exists if you added file.ts)
 export * from './io/file';
@@ -23,3 +64,5 @@ export * from './io/file';
 // Data sources (use consistent on-disk casing)
 export { CrudDataSource } from './sources/CrudDataSource';
 export { CompositeDataSource } from './sources/compositeDataSource';
+export { LocalDataSource, isLocalId } from './sources/localDataSource';
+export { OfflineDataSource } from './sources/offlineDataSource';
@@ -0,0 +1,46 @@
+// src/core/inheritance.ts
+// Container inheritance for the behavior matrix: cells marked `inherit` take their mode
+// from the nearest group / dynamic list / table above them that has an explicit rule.
+
+import type { BehaviorMatrixValue, CellMode, FieldCell } from './types';
+import type { FieldMeta } from './schema';
+import { cellForRole } from './roles';
+
+/** Initial cell for fields inside a container (and containers themselves): follow the parent. */
+export const INHERIT_CELL: FieldCell = { mode: 'hidden', required: false, inherit: true };
+
+/** field key -> rule key of its container (build once per schema, not per cell). */
+export function parentIndex(fields: FieldMeta[]): Map<string, string | undefined> {
+  return new Map(fields.map(f => [f.key, f.parent]));
+}
+
+export interface InheritedMode {
+  mode: CellMode;
+  from: string;          // rule key of the container that decides
+}
+
+/**
+ * Mode an inheriting cell resolves to for `state` (and `role`), or null when no ancestor
+ * has an explicit rule — the schema's own flags then apply, as in enrichFormSchemaForState.
+ */
+export function resolveInherited(
+  matrix: BehaviorMatrixValue,
+  parents: Map<string, string | undefined>,
+  key: string,
+  state: string,
+  role?: string | null
+): InheritedMode | null {
+  const seen = new Set<string>([key]);
+  let at = parents.get(key);
+
+  while (at && !seen.has(at)) {
+    seen.add(at);
+    const stored = matrix?.[at]?.[state];
+    if (stored) {
+      const cell = cellForRole(stored, role);
+      if (!cell.inherit) return { mode: cell.mode, from: at };
+    }
+    at = parents.get(at);
+  }
+  return null;
+}
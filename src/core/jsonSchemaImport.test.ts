@@ -0,0 +1,163 @@
+import * as crud from './formsCrud';
+import { jsonSchemaToFormJs, listDefinitions, loadRefOptions, refSelectsOf, refTablesOf, refValuesKey } from './jsonSchemaImport';
+
+// form-js ships ESM Jest does not transform; the importer only needs its schemaVersion
+jest.mock('@bpmn-io/form-js', () => ({ schemaVersion: 16 }));
+// the CRUD helpers go through the API client (env.ts, import.meta); only the reads are used here
+jest.mock('./api', () => ({ API_BASE: 'http://api.test' }));
+jest.mock('./formsCrud', () => ({ listRows: jest.fn(), getRow: jest.fn() }));
+
+const byKey = (components: any[], key: string) => components.find(c => c.key === key || c.path === key);
+
+const customer = {
+  title: 'Customer',
+  type: 'object',
+  primaryKey: ['id'],
+  required: ['name', 'email', 'active'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string', maxLength: 80 },
+    email: { type: 'string', format: 'email' },
+    notes: { type: 'string', maxLength: 4000 },
+    born: { type: 'string', format: 'date' },
+    seen_at: { type: ['string', 'null'], format: 'date-time', default: 'now()' },
+    visits: { type: 'integer', minimum: 0, default: 0 },
+    active: { type: 'boolean' },
+    tier: { type: 'string', enum: ['gold', 'silver'] },
+    tags: { type: 'array', items: { enum: ['a', 'b'] } },
+    country_id: { type: 'string', refTable: 'country' },
+    address: { $ref: '#/definitions/Address', title: 'Postal address' },
+    contacts: { type: 'array', items: { type: 'object', properties: { phone: { type: 'string' } } } }
+  }
+};
+const doc = {
+  definitions: {
+    Customer: customer,
+    Address: { type: 'object', properties: { city: { type: 'string' }, zone_id: { type: 'integer', refTable: 'zone', refColumn: 'code' } } },
+    Status: { type: 'string', enum: ['x'] }
+  }
+};
+
+describe('listDefinitions', () => {
+  test('lists the object definitions, or the document itself', () => {
+    expect(listDefinitions(doc).map(d => d.name)).toEqual(['Customer', 'Address']);
+    expect(listDefinitions({ title: 'Solo', properties: { a: {} } })).toEqual([
+      { name: 'Solo', title: 'Solo', definition: { title: 'Solo', properties: { a: {} } } }
+    ]);
+    expect(listDefinitions({ type: 'string' })).toEqual([]);
+  });
+});
+
+describe('jsonSchemaToFormJs', () => {
+  const { schema, warnings } = jsonSchemaToFormJs(customer, { root: doc });
+  const c = schema.components;
+
+  test('names the form after the definition and leaves out the primary key', () => {
+    expect(schema).toEqual(expect.objectContaining({ id: 'Form_Customer', type: 'default', schemaVersion: 16 }));
+    expect(byKey(c, 'id')).toBeUndefined();
+    expect(jsonSchemaToFormJs(customer, { root: doc, skipPrimaryKey: false }).schema.components[0].key).toBe('id');
+    expect(warnings).toEqual([]);
+  });
+
+  test('picks the field by type and format, with constraints as validation', () => {
+    expect(byKey(c, 'name')).toEqual(expect.objectContaining({ type: 'textfield', label: 'Name', validate: { required: true, maxLength: 80 } }));
+    expect(byKey(c, 'email')).toEqual(expect.objectContaining({ type: 'textfield', validate: { required: true, validationType: 'email' } }));
+    expect(byKey(c, 'notes').type).toBe('textarea');
+    expect(byKey(c, 'born')).toEqual(expect.objectContaining({ type: 'datetime', subtype: 'date', dateLabel: 'Born' }));
+    expect(byKey(c, 'seen_at')).toEqual(expect.objectContaining({ type: 'datetime', subtype: 'datetime', dateLabel: 'Seen at' }));
+    expect(byKey(c, 'visits')).toEqual(expect.objectContaining({ type: 'number', decimalDigits: 0, defaultValue: 0, validate: { min: 0 } }));
+    // a required checkbox would have to be ticked
+    expect(byKey(c, 'active')).toEqual(expect.objectContaining({ type: 'checkbox' }));
+    expect(byKey(c, 'active').validate).toBeUndefined();
+    expect(byKey(c, 'tier')).toEqual(expect.objectContaining({ type: 'select', values: [{ label: 'gold', value: 'gold' }, { label: 'silver', value: 'silver' }] }));
+    expect(byKey(c, 'tags').type).toBe('checklist');
+  });
+
+  test('does not take SQL expressions as defaults', () => {
+    expect(byKey(c, 'seen_at').defaultValue).toBeUndefined();
+  });
+
+  test('refTable columns become selects reading their options from the input data', () => {
+    expect(byKey(c, 'country_id')).toEqual(expect.objectContaining({
+      type: 'select',
+      valuesKey: refValuesKey('country'),
+      properties: { refTable: 'country', refColumn: 'id' }
+    }));
+  });
+
+  test('nested objects become groups, object lists dynamic lists; a $ref keeps its own title', () => {
+    const address = byKey(c, 'address');
+    expect(address).toEqual(expect.objectContaining({ type: 'group', path: 'address', label: 'Postal address' }));
+    expect(address.key).toBeUndefined();
+    expect(address.components.map((x: any) => x.key)).toEqual(['city', 'zone_id']);
+    expect(byKey(c, 'contacts')).toEqual(expect.objectContaining({ type: 'dynamiclist', path: 'contacts', isRepeating: true }));
+  });
+
+  test('gives every component a unique id', () => {
+    const ids: string[] = [];
+    const walk = (list: any[]) => list.forEach(x => { ids.push(x.id); if (x.components) walk(x.components); });
+    walk(c);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test('if/then: then-only fields show when the condition holds; conditional required is only noted', () => {
+    const def = {
+      type: 'object',
+      properties: { kind: { type: 'string', enum: ['person', 'company'] } },
+      if: { properties: { kind: { const: 'company' } } },
+      then: { properties: { vat: { type: 'string' } }, required: ['vat'] }
+    };
+    const r = jsonSchemaToFormJs(def);
+    const vat = byKey(r.schema.components, 'vat');
+    expect(vat.conditional).toEqual({ hide: '=not(kind = "company")' });
+    expect(vat.description).toBe('Required when kind = "company".');
+    expect(vat.validate).toBeUndefined();
+    expect(r.warnings).toEqual([expect.stringContaining('"vat" is only required conditionally')]);
+  });
+
+  test('reports what it cannot translate', () => {
+    const r = jsonSchemaToFormJs({
+      properties: { odd: {}, list: { type: 'array', items: { type: 'string' } } },
+      if: { properties: { odd: { minimum: 1 } } },
+      then: { properties: { extra: { type: 'string' } } }
+    });
+    expect(r.warnings).toEqual([
+      expect.stringContaining('"odd" has no usable type'),
+      expect.stringContaining('"list" is a list without options'),
+      expect.stringContaining('too complex to translate')
+    ]);
+    expect(byKey(r.schema.components, 'extra').conditional).toBeUndefined();
+  });
+});
+
+describe('reference selects', () => {
+  const { schema } = jsonSchemaToFormJs(customer, { root: doc });
+
+  test('refTablesOf and refSelectsOf find them, nested ones included', () => {
+    expect(refTablesOf(customer, doc)).toEqual([{ table: 'country', column: 'id' }, { table: 'zone', column: 'code' }]);
+    expect(refSelectsOf(schema.components)).toEqual([
+      { key: 'country_id', valuesKey: '_ref_country', table: 'country', column: 'id' },
+      { key: 'zone_id', valuesKey: '_ref_zone', table: 'zone', column: 'code' }
+    ]);
+  });
+
+  test('loadRefOptions fills the options per table, reports what is missing and keeps the current value selectable', async () => {
+    const listRows = jest.mocked(crud.listRows);
+    listRows.mockImplementation(async (_base, table) => (table === 'country'
+      ? { items: [{ id: 'no', name: 'Norway' }, { id: 'se', name: 'Sweden' }], total: 250 }
+      : Promise.reject(new Error('down'))));
+    jest.mocked(crud.getRow).mockResolvedValue({ id: 'dk', name: 'Denmark' });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { values, warnings } = await loadRefOptions(schema, { apiBase: 'http://api.test', optionLimit: 2, data: { country_id: 'dk' } });
+
+    expect(listRows).toHaveBeenCalledWith('http://api.test', 'country', { limit: 2 });
+    expect(values._ref_country).toEqual([
+      { value: 'dk', label: 'Denmark' },
+      { value: 'no', label: 'Norway' },
+      { value: 'se', label: 'Sweden' }
+    ]);
+    expect(values._ref_zone).toEqual([]);
+    expect(warnings).toEqual(['country has 250 rows; its selects offer the first 2.', 'Could not load rows of zone from the API.']);
+  });
+});
@@ -0,0 +1,304 @@
+// src/core/jsonSchemaImport.ts
+// JSON Schema (draft-07, as in schema_v3.json) object definitions → form-js schemas.
+// Strings become textfields (email / date-time / date / time formats get the matching field),
+// enums selects, enum arrays checklists, constraints `validate` rules and `refTable` columns
+// selects over that table's rows. What form-js cannot express is reported in `warnings`.
+// Reference selects take their options from the form's input data (`valuesKey`), which
+// loadRefOptions fills from each table's list endpoint whenever the form is shown.
+
+import { schemaVersion } from '@bpmn-io/form-js';
+import { API_BASE } from './api';
+import { getRow, listRows } from './formsCrud';
+import { rowLabel } from './formGen';
+
+export type RefOptions = Record<string, Array<{ label: string; value: string }>>;
+
+export interface JsonSchemaImportOptions {
+  /** document the definition came from, for local `$ref`s (#/definitions/...) */
+  root?: any;
+  /** leave out the definition's primaryKey columns (server-assigned ids); default true */
+  skipPrimaryKey?: boolean;
+}
+
+/** Input data key a reference select reads its options from. */
+export const refValuesKey = (table: string) => `_ref_${table}`;
+
+export interface JsonSchemaImportResult {
+  schema: any;
+  warnings: string[];
+}
+
+/** Object definitions of a document: its `definitions` / `$defs`, or the document itself. */
+export function listDefinitions(doc: any): Array<{ name: string; title?: string; definition: any }> {
+  const defs = doc?.definitions ?? doc?.$defs;
+  if (defs && typeof defs === 'object') {
+    return Object.entries(defs)
+      .filter(([, d]: [string, any]) => d && (d.type === 'object' || d.properties))
+      .map(([name, d]: [string, any]) => ({ name, title: d.title, definition: d }));
+  }
+  return doc?.properties ? [{ name: doc.title || 'schema', title: doc.title, definition: doc }] : [];
+}
+
+/** Tables named by `refTable` anywhere in the definition, with the referenced column. */
+export function refTablesOf(def: any, root?: any): Array<{ table: string; column: string }> {
+  const out = new Map<string, string>();
+  const walk = (s: any, depth: number) => {
+    if (!s || typeof s !== 'object' || depth > 8) return;
+    const r = resolve(s, root);
+    if (r.refTable && !out.has(r.refTable)) out.set(r.refTable, r.refColumn || 'id');
+    Object.values(r.properties || {}).forEach(p => walk(p, depth + 1));
+    if (r.items) walk(r.items, depth + 1);
+  };
+  walk(def, 0);
+  return Array.from(out.entries()).map(([table, column]) => ({ table, column }));
+}
+
+/** Local `$ref` merged under the property's own keywords (which win). */
+function resolve(s: any, root: any, seen: string[] = []): any {
+  if (!s?.$ref || typeof s.$ref !== 'string' || !s.$ref.startsWith('#/') || seen.includes(s.$ref)) return s || {};
+  const target = s.$ref.slice(2).split('/').reduce((cur: any, p: string) => cur?.[p.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+  if (!target) return s;
+  const { $ref, ...own } = s;
+  return { ...resolve(target, root, [...seen, $ref]), ...own };
+}
+
+const humanize = (key: string) => key.replace(/[_-]+/g, ' ').replace(/^\w/, ch => ch.toUpperCase());
+
+const typeOf = (s: any): string | undefined =>
+  Array.isArray(s.type) ? s.type.find((t: string) => t !== 'null') : s.type;
+
+const enumValues = (values: any[]) => values.map(v => ({ label: String(v), value: v }));
+
+// schema defaults that are SQL expressions, not values
+const isValueDefault = (v: any) => v !== undefined && !(typeof v === 'string' && /\(\)$/.test(v));
+
+/** form-js datetime fields label their date / time inputs instead of the field. */
+function datetime(base: any, extra: Record<string, any>) {
+  const { label, ...rest } = base;
+  return { ...rest, type: 'datetime', ...(extra.subtype === 'time' ? { timeLabel: label } : { dateLabel: label }), ...extra };
+}
+
+const feelLiteral = (v: any) => (typeof v === 'string' ? JSON.stringify(v) : String(v));
+
+/**
+ * FEEL condition for simple `if` clauses (const, enum, contains const, on direct properties);
+ * null when it is more than that.
+ */
+function feelCondition(ifSchema: any): string | null {
+  const props = ifSchema?.properties;
+  if (!props || typeof props !== 'object') return null;
+  const parts: string[] = [];
+  for (const [key, cond] of Object.entries<any>(props)) {
+    if (cond && 'const' in cond) parts.push(`${key} = ${feelLiteral(cond.const)}`);
+    else if (Array.isArray(cond?.enum)) parts.push(`list contains([${cond.enum.map(feelLiteral).join(', ')}], ${key})`);
+    else if (cond?.contains && 'const' in cond.contains) parts.push(`list contains(${key}, ${feelLiteral(cond.contains.const)})`);
+    else return null;
+  }
+  return parts.length ? parts.join(' and ') : null;
+}
+
+function validateFor(s: any, type: string | undefined, required: boolean): Record<string, any> | undefined {
+  const v: Record<string, any> = {};
+  if (required && type !== 'boolean') v.required = true;
+  if (type === 'string') {
+    if (typeof s.minLength === 'number') v.minLength = s.minLength;
+    if (typeof s.maxLength === 'number') v.maxLength = s.maxLength;
+    if (typeof s.pattern === 'string') v.pattern = s.pattern;
+    if (s.format === 'email') v.validationType = 'email';
+  }
+  if (type === 'number' || type === 'integer') {
+    if (typeof s.minimum === 'number') v.min = s.minimum;
+    if (typeof s.maximum === 'number') v.max = s.maximum;
+  }
+  return Object.keys(v).length ? v : undefined;
+}
+
+class Importer {
+  warnings: string[] = [];
+  private ids = new Set<string>();
+
+  constructor(private opts: JsonSchemaImportOptions) {}
+
+  private id(path: string) {
+    let id = `Field_${path.replace(/[^\w]/g, '_')}`;
+    for (let n = 2; this.ids.has(id); n++) id = `Field_${path.replace(/[^\w]/g, '_')}_${n}`;
+    this.ids.add(id);
+    return id;
+  }
+
+  /** Components for the properties of an object schema. */
+  components(obj: any, path: string, skip: string[] = []): any[] {
+    const s = resolve(obj, this.opts.root);
+    const required = new Set<string>(Array.isArray(s.required) ? s.required : []);
+    const out: any[] = [];
+    for (const [key, prop] of Object.entries<any>(s.properties || {})) {
+      if (skip.includes(key)) continue;
+      const c = this.field(key, prop, `${path}${key}`, required.has(key));
+      if (c) out.push(c);
+    }
+    this.conditionals(s, path, out);
+    return out;
+  }
+
+  /** if/then: then-only properties show when the condition holds; conditional `required` is noted. */
+  private conditionals(s: any, path: string, out: any[]) {
+    if (!s.if || !s.then) return;
+    const cond = feelCondition(s.if);
+    const where = path ? ` in ${path.replace(/\.$/, '')}` : '';
+    if (!cond) {
+      this.warnings.push(`An if/then rule${where} is too complex to translate; its fields are always shown and optional.`);
+    }
+    const then = resolve(s.then, this.opts.root);
+    for (const [key, prop] of Object.entries<any>(then.properties || {})) {
+      if (s.properties?.[key]) continue;
+      const c = this.field(key, prop, `${path}${key}`, false);
+      if (!c) continue;
+      if (cond) c.conditional = { hide: `=not(${cond})` };
+      out.push(c);
+    }
+    for (const key of Array.isArray(then.required) ? then.required : []) {
+      const c = out.find(x => x.key === key);
+      if (!c) continue;
+      const note = cond ? `Required when ${cond}.` : 'Conditionally required.';
+      c.description = c.description ? `${c.description} (${note})` : note;
+      this.warnings.push(`"${key}"${where} is only required conditionally; form-js cannot enforce that, so it is left optional.`);
+    }
+  }
+
+  private field(key: string, raw: any, path: string, required: boolean): any | null {
+    const s = resolve(raw, this.opts.root);
+    const type = typeOf(s);
+    const base: any = {
+      id: this.id(path),
+      key,
+      label: s.title || humanize(key),
+      ...(s.description ? { description: s.description } : {}),
+      ...(s.readOnly ? { readonly: true } : {}),
+      ...(isValueDefault(s.default) && typeof s.default !== 'object' ? { defaultValue: s.default } : {})
+    };
+    const validate = validateFor(s, type, required);
+    if (validate) base.validate = validate;
+
+    if (s.refTable) {
+      return {
+        ...base,
+        type: 'select',
+        searchable: true,
+        valuesKey: refValuesKey(s.refTable),
+        properties: { refTable: s.refTable, refColumn: s.refColumn || 'id' }
+      };
+    }
+    if (Array.isArray(s.enum)) return { ...base, type: 'select', values: enumValues(s.enum) };
+
+    switch (type) {
+      case 'string':
+        if (s.format === 'date-time') return datetime(base, { subtype: 'datetime', timeLabel: 'Time', timeSerializingFormat: 'utc_normalized' });
+        if (s.format === 'date') return datetime(base, { subtype: 'date' });
+        if (s.format === 'time') return datetime(base, { subtype: 'time', timeSerializingFormat: 'no_timezone' });
+        return { ...base, type: typeof s.maxLength === 'number' && s.maxLength > 255 ? 'textarea' : 'textfield' };
+      case 'integer':
+        return { ...base, type: 'number', decimalDigits: 0 };
+      case 'number':
+        return { ...base, type: 'number' };
+      case 'boolean':
+        return { ...base, type: 'checkbox' };
+      case 'array': {
+        const items = resolve(s.items, this.opts.root);
+        if (Array.isArray(items.enum)) return { ...base, type: 'checklist', values: enumValues(items.enum) };
+        if (items.properties) {
+          const { key: _k, validate: _v, defaultValue: _d, ...group } = base;
+          return {
+            ...group, type: 'dynamiclist', path: key, isRepeating: true, allowAddRemove: true, defaultRepetitions: 1,
+            components: this.components(items, `${path}.`)
+          };
+        }
+        this.warnings.push(`"${path}" is a list without options; it is imported as a JSON text area.`);
+        return { ...base, type: 'textarea', description: base.description || 'JSON list' };
+      }
+      case 'object':
+        if (s.properties) {
+          const { key: _k, validate: _v, defaultValue: _d, ...group } = base;
+          return { ...group, type: 'group', path: key, showOutline: true, components: this.components(s, `${path}.`) };
+        }
+        return { ...base, type: 'textarea', description: base.description || 'JSON' };
+      default:
+        this.warnings.push(`"${path}" has no usable type; it is imported as a text field.`);
+        return { ...base, type: 'textfield' };
+    }
+  }
+}
+
+/** form-js schema for one JSON Schema object definition. */
+export function jsonSchemaToFormJs(def: any, opts: JsonSchemaImportOptions = {}): JsonSchemaImportResult {
+  const importer = new Importer(opts);
+  const d = resolve(def, opts.root);
+  const skip = opts.skipPrimaryKey === false ? [] : (Array.isArray(d.primaryKey) ? d.primaryKey : []);
+  const components = importer.components(d, '', skip);
+  const name = (d.title || 'form').replace(/[^\w]+/g, '_');
+  return {
+    schema: { id: `Form_${name}`, type: 'default', schemaVersion, components },
+    warnings: importer.warnings
+  };
+}
+
+export interface RefSelect {
+  key: string;
+  valuesKey: string;
+  table: string;
+  column: string;
+}
+
+/** Reference selects anywhere in a form-js schema (as jsonSchemaToFormJs writes them). */
+export function refSelectsOf(components: any[] = [], out: RefSelect[] = []): RefSelect[] {
+  for (const c of components) {
+    const ref = c?.properties?.refTable;
+    if (c?.type === 'select' && c.valuesKey && ref) {
+      out.push({ key: c.key, valuesKey: c.valuesKey, table: ref, column: c.properties.refColumn || 'id' });
+    }
+    if (Array.isArray(c?.components)) refSelectsOf(c.components, out);
+  }
+  return out;
+}
+
+/**
+ * Input data for the reference selects of `schema`: valuesKey → options from the table's
+ * list endpoint (the first `optionLimit` rows), plus the value `data` already holds where
+ * those rows miss it, so form-js does not clear it. Tables with more rows than the limit, and
+ * tables that fail to load, are reported in `warnings`.
+ */
+export async function loadRefOptions(
+  schema: any,
+  opts: { apiBase?: string; optionLimit?: number; data?: Record<string, any> } = {}
+): Promise<{ values: RefOptions; warnings: string[] }> {
+  const { apiBase = API_BASE, optionLimit = 200, data = {} } = opts;
+  const selects = refSelectsOf(schema?.components);
+  const values: RefOptions = {};
+  const warnings: string[] = [];
+  for (const sel of selects) {
+    if (values[sel.valuesKey]) continue;
+    try {
+      const { items, total } = await listRows(apiBase, sel.table, { limit: optionLimit });
+      values[sel.valuesKey] = items
+        .filter(r => r[sel.column] != null)
+        .map(r => ({ value: String(r[sel.column]), label: rowLabel(r) }));
+      if (total > items.length) warnings.push(`${sel.table} has ${total} rows; its selects offer the first ${items.length}.`);
+    } catch (e) {
+      console.warn(`Loading ${sel.table} options failed`, e);
+      values[sel.valuesKey] = [];
+      warnings.push(`Could not load rows of ${sel.table} from the API.`);
+    }
+  }
+  for (const sel of selects) {
+    const v = data[sel.key];
+    if (v === undefined || v === null || v === '') continue;
+    const options = values[sel.valuesKey];
+    if (options.some(o => o.value === String(v))) continue;
+    let label = String(v);
+    if (sel.column === 'id') {
+      try { label = rowLabel(await getRow(apiBase, sel.table, String(v))); }
+      catch (e) { console.warn(`Loading ${sel.table} ${v} failed`, e); }
+    }
+    values[sel.valuesKey] = [{ value: String(v), label }, ...options];
+  }
+  return { values, warnings };
+}
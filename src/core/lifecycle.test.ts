@@ -0,0 +1,116 @@
+import type { FormDefinition } from './api';
+import * as api from './api';
+import { activeVersionFor, canTransition, historyOf, statusOf, transitionForm } from './lifecycle';
+
+// the real api module pulls in env.ts (import.meta); the lifecycle only needs these calls
+jest.mock('./api', () => ({
+  getFormDefinition: jest.fn(),
+  listFormDefinitions: jest.fn(),
+  patchFormDefinition: jest.fn(),
+  isConflictError: (e: any) => e?.status === 409 || e?.status === 412
+}));
+
+const list = jest.mocked(api.listFormDefinitions);
+const patch = jest.mocked(api.patchFormDefinition);
+
+const def = (version: number, status: string, extra: Partial<FormDefinition> = {}): FormDefinition => ({
+  id: `v${version}`,
+  name: 'intake',
+  version,
+  form_schema: '{}',
+  is_active: status === 'active',
+  status,
+  updated_at: `2026-01-0${version}T00:00:00Z`,
+  ...extra
+});
+
+/** Serve `rows` as one page and echo every patch back onto its row. */
+function backend(rows: FormDefinition[]) {
+  list.mockResolvedValue({ total: rows.length, limit: 100, offset: 0, items: rows });
+  patch.mockImplementation(async (id, body) => ({ ...rows.find(r => r.id === id)!, ...body } as FormDefinition));
+}
+
+describe('statusOf / historyOf', () => {
+  test('rows without a status fall back to is_active', () => {
+    expect(statusOf({ is_active: true })).toBe('active');
+    expect(statusOf({ is_active: false })).toBe('draft');
+    expect(statusOf({ status: 'in_review', is_active: false })).toBe('in_review');
+    expect(statusOf(null)).toBe('draft');
+  });
+
+  test('keeps only readable events', () => {
+    expect(historyOf({ status_history: '[{"to":"draft"},{"to":"bogus"}]' })).toEqual([{ to: 'draft' }]);
+    expect(historyOf({ status_history: 'not json' })).toEqual([]);
+  });
+
+  test('activation only comes from review; retired is final', () => {
+    expect(canTransition('in_review', 'active')).toBe(true);
+    expect(canTransition('draft', 'active')).toBe(false);
+    expect(canTransition('retired', 'draft')).toBe(false);
+  });
+});
+
+describe('transitionForm', () => {
+  test('refuses a move the lifecycle does not allow, without writing', async () => {
+    await expect(transitionForm(def(2, 'draft'), 'active')).rejects.toThrow('cannot move to active');
+    expect(patch).not.toHaveBeenCalled();
+  });
+
+  test('appends to the history and writes only over the row as read', async () => {
+    const draft = def(2, 'draft', { status_history: JSON.stringify([{ from: null, to: 'draft', at: 'then' }]) });
+    backend([draft]);
+    const moved = await transitionForm(draft, 'in_review', { by: 'ann' });
+
+    expect(moved.status).toBe('in_review');
+    const [id, body, precondition] = patch.mock.calls[0];
+    expect(id).toBe('v2');
+    expect(precondition).toEqual({ updatedAt: draft.updated_at });
+    expect(body).toEqual(expect.objectContaining({ status: 'in_review', is_active: false, updated_by: 'ann' }));
+    expect(historyOf(body as FormDefinition).map(e => [e.from, e.to])).toEqual([[null, 'draft'], ['draft', 'in_review']]);
+  });
+
+  test('activating retires the version that was active before, after the new one is live', async () => {
+    const old = def(1, 'active');
+    const next = def(2, 'in_review');
+    backend([old, next]);
+    await transitionForm(next, 'active', { by: 'ann' });
+
+    expect(patch.mock.calls.map(([id, body]) => [id, (body as any).status])).toEqual([['v2', 'active'], ['v1', 'retired']]);
+    const retired = historyOf(patch.mock.calls[1][1] as FormDefinition);
+    expect(retired[retired.length - 1]).toEqual(expect.objectContaining({ from: 'active', to: 'retired', note: 'Superseded by v2' }));
+  });
+
+  test('reports a previous version that could not be retired', async () => {
+    const old = def(1, 'active');
+    const next = def(2, 'in_review');
+    backend([old, next]);
+    patch.mockImplementation(async (id, body) => {
+      if (id === 'v1') throw Object.assign(new Error('down'), { status: 500 });
+      return { ...next, ...body } as FormDefinition;
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(transitionForm(next, 'active')).rejects.toThrow('v1 could not be retired');
+  });
+
+  test('turns a conflicting write into a "changed by someone else" error', async () => {
+    backend([]);
+    patch.mockRejectedValue({ status: 412 });
+    await expect(transitionForm(def(3, 'draft'), 'in_review')).rejects.toThrow('changed by someone else');
+  });
+});
+
+describe('activeVersionFor', () => {
+  test('is the row itself when active, else the active sibling, else null', async () => {
+    const get = jest.mocked(api.getFormDefinition);
+    get.mockResolvedValue(def(1, 'active'));
+    expect((await activeVersionFor('v1'))?.id).toBe('v1');
+
+    get.mockResolvedValue(def(2, 'draft'));
+    backend([def(1, 'active'), def(2, 'draft')]);
+    expect((await activeVersionFor('v2'))?.id).toBe('v1');
+
+    backend([def(1, 'retired'), def(2, 'draft')]);
+    expect(await activeVersionFor('v2')).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+// src/core/lifecycle.ts
+// Form definition lifecycle: draft → in review → active → retired. At most one version per
+// form name is active; every status change is appended to the row's `status_history`.
+
+import { FormDefinition, getFormDefinition, isConflictError, listFormDefinitions, patchFormDefinition } from './api';
+
+export type FormStatus = 'draft' | 'in_review' | 'active' | 'retired';
+
+export const FORM_STATUSES: FormStatus[] = ['draft', 'in_review', 'active', 'retired'];
+
+export const STATUS_LABELS: Record<FormStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  active: 'Active',
+  retired: 'Retired'
+};
+
+/** Allowed moves; activation is the only way a version goes live. */
+export const LIFECYCLE_TRANSITIONS: Record<FormStatus, FormStatus[]> = {
+  draft: ['in_review', 'retired'],
+  in_review: ['draft', 'active'],
+  active: ['retired'],
+  retired: []
+};
+
+/** Button text for a move to `to`. */
+export const TRANSITION_LABELS: Record<FormStatus, string> = {
+  draft: 'Back to draft',
+  in_review: 'Submit for review',
+  active: 'Activate…',
+  retired: 'Retire'
+};
+
+export interface LifecycleEvent {
+  from: FormStatus | null;   // null = created
+  to: FormStatus;
+  at: string;                // ISO timestamp
+  by?: string;
+  note?: string;
+}
+
+function isStatus(s: unknown): s is FormStatus {
+  return typeof s === 'string' && (FORM_STATUSES as string[]).includes(s);
+}
+
+/**
+ * Rows without a `status` (from before the lifecycle, or a backend that drops the column) only
+ * have `is_active`: inactive ones count as drafts, so they can still be reviewed and activated.
+ */
+export function statusOf(def: Partial<Pick<FormDefinition, 'status' | 'is_active'>> | null | undefined): FormStatus {
+  if (isStatus(def?.status)) return def!.status as FormStatus;
+  return def?.is_active ? 'active' : 'draft';
+}
+
+export function historyOf(def: Partial<Pick<FormDefinition, 'status_history'>> | null | undefined): LifecycleEvent[] {
+  const raw = def?.status_history;
+  if (!raw) return [];
+  try {
+    const list = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return Array.isArray(list) ? list.filter(e => e && isStatus(e.to)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function canTransition(from: FormStatus, to: FormStatus): boolean {
+  return LIFECYCLE_TRANSITIONS[from].includes(to);
+}
+
+/** New entries may only be captured against the active version. */
+export function canCaptureEntries(status: FormStatus): boolean {
+  return status === 'active';
+}
+
+/** Fields for a freshly created row (always a draft). */
+export function initialLifecycle(by?: string): { status: FormStatus; is_active: boolean; status_history: string } {
+  const created: LifecycleEvent = { from: null, to: 'draft', at: new Date().toISOString(), ...(by ? { by } : {}) };
+  return { status: 'draft', is_active: false, status_history: JSON.stringify([created]) };
+}
+
+/** Only over the row as it was read: someone else's status change meanwhile is not overwritten. */
+async function writeStatus(def: FormDefinition, to: FormStatus, event: Omit<LifecycleEvent, 'from' | 'to'>) {
+  const entry: LifecycleEvent = { from: statusOf(def), to, ...event };
+  try {
+    return await patchFormDefinition(def.id, {
+      status: to,
+      is_active: to === 'active',
+      status_history: JSON.stringify([...historyOf(def), entry]),
+      ...(event.by ? { updated_by: event.by } : {})
+    }, { updatedAt: def.updated_at });
+  } catch (e) {
+    if (!isConflictError(e)) throw e;
+    throw new Error(`v${def.version} of "${def.name}" was changed by someone else meanwhile; check its current status and try again.`);
+  }
+}
+
+/** Other versions with the same name (all pages). */
+async function siblings(def: FormDefinition): Promise<FormDefinition[]> {
+  const out: FormDefinition[] = [];
+  const limit = 100;
+  for (let offset = 0; ; offset += limit) {
+    const page = await listFormDefinitions({ limit, offset, name: def.name });
+    const items = page.items || [];
+    for (const row of items) if (row.name === def.name && row.id !== def.id) out.push(row);
+    if (!items.length || offset + items.length >= (page.total ?? 0)) break;
+  }
+  return out;
+}
+
+/**
+ * Move a version to `to`. Activating retires the version that was active before
+ * (recorded on that row as superseded), only once the new one is live: a failed activation
+ * leaves the old version capturing entries. Throws on a move the lifecycle does not allow.
+ */
+export async function transitionForm(
+  def: FormDefinition,
+  to: FormStatus,
+  opts: { by?: string; note?: string } = {}
+): Promise<FormDefinition> {
+  const from = statusOf(def);
+  if (!canTransition(from, to)) {
+    throw new Error(`A ${STATUS_LABELS[from].toLowerCase()} form cannot move to ${STATUS_LABELS[to].toLowerCase()}.`);
+  }
+  const at = new Date().toISOString();
+
+  const previous = to === 'active' ? (await siblings(def)).filter(r => statusOf(r) === 'active') : [];
+  const updated = await writeStatus(def, to, { at, by: opts.by, note: opts.note });
+
+  const stillActive: string[] = [];
+  for (const other of previous) {
+    try {
+      await writeStatus(other, 'retired', { at, by: opts.by, note: `Superseded by v${def.version}` });
+    } catch (e) {
+      console.error(`Retiring v${other.version} of "${other.name}" failed`, e);
+      stillActive.push(`v${other.version}`);
+    }
+  }
+  if (stillActive.length) {
+    throw new Error(`v${def.version} is active, but ${stillActive.join(', ')} could not be retired and is still active too; retire it from the version history.`);
+  }
+  return { ...def, ...(updated || {}) };
+}
+
+/**
+ * The version new entries for `defId`'s form are captured with: the row itself when
+ * it is active, otherwise the active version with the same name (null if there is none).
+ */
+export async function activeVersionFor(defId: string): Promise<FormDefinition | null> {
+  const def = await getFormDefinition(defId);
+  if (statusOf(def) === 'active') return def;
+  return (await siblings(def)).find(r => statusOf(r) === 'active') ?? null;
+}
@@ -0,0 +1,131 @@
+// src/core/lint.ts
+// Checks on a form-js schema before it is published: errors block publishing,
+// warnings are shown next to the editor.
+
+import { schemaVersion as SUPPORTED_SCHEMA_VERSION } from '@bpmn-io/form-js';
+import type { BehaviorMatrixValue } from './types';
+import { extractFields, isContainer } from './schema';
+import { parentIndex } from './inheritance';
+import { effectiveCell } from './matrixView';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'duplicate-key'
+  | 'missing-key'
+  | 'invalid-key'
+  | 'required-hidden'
+  | 'missing-label'
+  | 'schema-version';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  key?: string;   // component key, when it has one
+  id?: string;    // component id, for keyless components
+}
+
+// form-js components that bind a value and therefore need a key
+export const INPUT_TYPES = new Set([
+  'textfield', 'textarea', 'number', 'checkbox', 'checklist', 'radio',
+  'select', 'taglist', 'datetime', 'filepicker', 'expression'
+]);
+
+// dotted segments that are also valid identifiers in conditions and `=` defaults
+const KEY_PATTERN = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
+function nameOf(c: any): string {
+  return (typeof c.label === 'string' && c.label.trim()) || c.key || c.id || c.type || 'component';
+}
+
+function walk(components: any[], scope: string, seen: Map<string, any>, out: LintIssue[]) {
+  for (const c of components || []) {
+    if (!c) continue;
+    const input = INPUT_TYPES.has(c.type);
+    const key = typeof c.key === 'string' ? c.key : '';
+
+    if (input && !key) {
+      out.push({ severity: 'error', code: 'missing-key', id: c.id, message: `"${nameOf(c)}" (${c.type}) has no key; its value would not be stored.` });
+    }
+    if (key && !KEY_PATTERN.test(key)) {
+      out.push({ severity: 'error', code: 'invalid-key', key, id: c.id, message: `Key "${key}" may only contain letters, digits, _ and $ (dot-separated, not starting with a digit).` });
+    }
+    if (key) {
+      const bound = scope + key;
+      const first = seen.get(bound);
+      if (first) {
+        out.push({ severity: 'error', code: 'duplicate-key', key, id: c.id, message: `Key "${key}" is used by both "${nameOf(first)}" and "${nameOf(c)}".` });
+      } else {
+        seen.set(bound, c);
+      }
+    }
+    if (input && !(typeof c.label === 'string' && c.label.trim())) {
+      out.push({ severity: 'warning', code: 'missing-label', key: key || undefined, id: c.id, message: `"${nameOf(c)}" (${c.type}) has no label.` });
+    }
+
+    if (Array.isArray(c.components) && isContainer(c)) {
+      // a path nests the children's data; a dynamic list gives each item its own scope
+      const path = typeof c.path === 'string' && c.path ? `${c.path}.` : '';
+      if (c.type === 'dynamiclist') walk(c.components, `${scope}${path}[].`, new Map(), out);
+      else walk(c.components, scope + path, seen, out);
+    }
+  }
+}
+
+/** Required (by the schema or any cell) but hidden for every role in every state. */
+function requiredHidden(schema: any, matrix: BehaviorMatrixValue, states: string[]): LintIssue[] {
+  if (!states.length) return [];
+  const fields = extractFields(schema?.components || []);
+  const parents = parentIndex(fields);
+  const required = new Set<string>();
+  (function collect(components: any[]) {
+    for (const c of components || []) {
+      if (!c) continue;
+      if (c.key && c.validate?.required) required.add(c.key);
+      if (Array.isArray(c.components)) collect(c.components);
+    }
+  })(schema?.components || []);
+
+  const out: LintIssue[] = [];
+  for (const f of fields) {
+    const row = matrix?.[f.key];
+    if (!row || f.container) continue;
+    const cells = Object.values(row);
+    const isRequired = required.has(f.key) || cells.some(c => c?.required || Object.values(c?.roles || {}).some(r => r.required));
+    if (!isRequired) continue;
+    const shown = states.some(st => {
+      const roles = [null, ...Object.keys(row[st]?.roles || {})];
+      return roles.some(role => {
+        const cell = effectiveCell(matrix, parents, f.key, st, role);
+        return !!cell && (cell.mode !== 'hidden' || (!!cell.condition && (cell.fallback ?? 'readonly') !== 'hidden'));
+      });
+    });
+    if (!shown) {
+      out.push({ severity: 'warning', code: 'required-hidden', key: f.key, message: `"${f.label || f.key}" is required but hidden in every state.` });
+    }
+  }
+  return out;
+}
+
+/** Lint a schema; pass the behavior matrix and state ids to include rule-based checks. */
+export function lintSchema(schema: any, matrix?: BehaviorMatrixValue, states: string[] = []): LintIssue[] {
+  const out: LintIssue[] = [];
+  const v = schema?.schemaVersion;
+  if (v !== undefined && (!Number.isInteger(v) || v < 1 || v > SUPPORTED_SCHEMA_VERSION)) {
+    out.push({ severity: 'error', code: 'schema-version', message: `schemaVersion ${JSON.stringify(v)} is not supported (this editor supports up to ${SUPPORTED_SCHEMA_VERSION}).` });
+  }
+  walk(schema?.components || [], '', new Map(), out);
+  if (matrix) out.push(...requiredHidden(schema, matrix, states));
+  return out;
+}
+
+export function lintErrors(issues: LintIssue[]): LintIssue[] {
+  return issues.filter(i => i.severity === 'error');
+}
+
+/** Alert text for a blocked publish. */
+export function describeLintErrors(issues: LintIssue[]): string {
+  const errors = lintErrors(issues);
+  return `The form has ${errors.length} error(s) and was not published:\n\n- ${errors.map(e => e.message).join('\n- ')}`;
+}
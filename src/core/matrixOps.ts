@@ -0,0 +1,83 @@
+// src/core/matrixOps.ts
+// Bulk edits on the behavior matrix (whole rows, columns, copied columns, ranges).
+// All functions return a new matrix; untouched fields keep their object identity.
+
+import type { BehaviorMatrixValue, FieldCell, RoleCell } from './types';
+import type { FieldMeta } from './schema';
+import { cellForRole, patchCellForRole } from './roles';
+
+const DEFAULT_CELL: FieldCell = { mode: 'hidden', required: false };
+
+/** Replace one cell, sharing every other row and cell with `matrix`. */
+export function setCellAt(matrix: BehaviorMatrixValue, key: string, state: string, cell: FieldCell): BehaviorMatrixValue {
+  if (matrix[key]?.[state] === cell) return matrix;
+  return { ...matrix, [key]: { ...(matrix[key] || {}), [state]: cell } };
+}
+
+/** Patch the given field × state cells for `role` ('' = the default). */
+export function patchCells(
+  matrix: BehaviorMatrixValue,
+  keys: string[],
+  states: string[],
+  patch: Partial<RoleCell>,
+  role?: string | null
+): BehaviorMatrixValue {
+  const out: BehaviorMatrixValue = { ...matrix };
+  for (const key of keys) {
+    const row = { ...(out[key] || {}) };
+    for (const st of states) {
+      row[st] = patchCellForRole(row[st] || DEFAULT_CELL, role, patch);
+    }
+    out[key] = row;
+  }
+  return out;
+}
+
+/**
+ * Set one state column for every field. Cells that inherit from a container are left
+ * alone for mode changes — their container gets the same mode, so they follow it anyway.
+ */
+export function patchColumn(
+  matrix: BehaviorMatrixValue,
+  fields: FieldMeta[],
+  state: string,
+  patch: Partial<RoleCell>,
+  role?: string | null
+): BehaviorMatrixValue {
+  const keys = fields
+    .filter(f => {
+      if (!('mode' in patch) || !f.parent) return true;
+      const cell = matrix[f.key]?.[state];
+      return !(cell && cellForRole(cell, role).inherit);
+    })
+    .map(f => f.key);
+  return patchCells(matrix, keys, [state], modePatch(patch), role);
+}
+
+/** Set every state of one field. */
+export function patchRow(
+  matrix: BehaviorMatrixValue,
+  key: string,
+  states: string[],
+  patch: Partial<RoleCell>,
+  role?: string | null
+): BehaviorMatrixValue {
+  return patchCells(matrix, [key], states, modePatch(patch), role);
+}
+
+/** Copy the `from` column onto `to` (whole cells, role overrides included). */
+export function copyColumn(matrix: BehaviorMatrixValue, from: string, to: string): BehaviorMatrixValue {
+  if (from === to) return matrix;
+  const out: BehaviorMatrixValue = { ...matrix };
+  for (const [key, row] of Object.entries(matrix)) {
+    const cell = row?.[from];
+    if (!cell) continue;
+    out[key] = { ...row, [to]: JSON.parse(JSON.stringify(cell)) };
+  }
+  return out;
+}
+
+/** An explicit mode always ends inheritance for the cell. */
+export function modePatch(patch: Partial<RoleCell>): Partial<RoleCell> {
+  return 'mode' in patch ? { ...patch, inherit: undefined } : patch;
+}
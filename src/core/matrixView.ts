@@ -0,0 +1,111 @@
+// src/core/matrixView.ts
+// Which behavior matrix rows to show and in what order: text search, a mode filter on
+// one state, and tree (schema hierarchy) vs flat A–Z layout.
+
+import type { BehaviorMatrixValue, CellMode, RoleCell } from './types';
+import type { FieldMeta } from './schema';
+import { cellForRole } from './roles';
+import { resolveInherited } from './inheritance';
+
+export type MatrixLayout = 'tree' | 'flat';
+export type ModeFilter = '' | CellMode | 'required' | 'conditional' | 'override';
+
+export interface MatrixFilter {
+  text: string;
+  state: string;          // state the mode filter looks at ('' = any state)
+  mode: ModeFilter;
+  layout: MatrixLayout;
+}
+
+export const EMPTY_FILTER: MatrixFilter = { text: '', state: '', mode: '', layout: 'tree' };
+
+export const MODE_FILTER_LABELS: Record<Exclude<ModeFilter, ''>, string> = {
+  hidden: 'Hidden',
+  readonly: 'Read-only',
+  editable: 'Editable',
+  required: 'Required',
+  conditional: 'Has a condition',
+  override: 'Has role overrides'
+};
+
+export function isFilterActive(f: MatrixFilter): boolean {
+  return !!f.text.trim() || !!f.mode;
+}
+
+/** The cell as it applies for `role`, with an inherited mode resolved from its containers. */
+export function effectiveCell(
+  matrix: BehaviorMatrixValue,
+  parents: Map<string, string | undefined>,
+  key: string,
+  state: string,
+  role?: string | null
+): RoleCell | undefined {
+  const stored = matrix?.[key]?.[state];
+  if (!stored) return undefined;
+  const cell = cellForRole(stored, role);
+  if (!cell.inherit) return cell;
+  const inherited = resolveInherited(matrix, parents, key, state, role);
+  return inherited ? { ...cell, mode: inherited.mode } : cell;
+}
+
+function matchesMode(
+  matrix: BehaviorMatrixValue,
+  parents: Map<string, string | undefined>,
+  key: string,
+  state: string,
+  mode: Exclude<ModeFilter, ''>,
+  role?: string | null
+): boolean {
+  const stored = matrix?.[key]?.[state];
+  if (!stored) return false;
+  if (mode === 'override') return Object.keys(stored.roles || {}).length > 0;
+  const cell = effectiveCell(matrix, parents, key, state, role);
+  if (!cell) return false;
+  if (mode === 'conditional') return !!cell.condition;
+  if (mode === 'required') return cell.mode === 'editable' && !!cell.required;
+  return cell.mode === mode;
+}
+
+/**
+ * Rows to render, in order. In the tree layout the containers above a match stay
+ * visible (so a match keeps its context); the flat layout sorts by label.
+ */
+export function viewFields(
+  fields: FieldMeta[],
+  matrix: BehaviorMatrixValue,
+  parents: Map<string, string | undefined>,
+  filter: MatrixFilter,
+  states: string[],
+  role?: string | null
+): FieldMeta[] {
+  const text = filter.text.trim().toLowerCase();
+  const mode = filter.mode;
+  const checkStates = filter.state ? [filter.state] : states;
+
+  const matches = (f: FieldMeta) => {
+    if (text) {
+      const hay = `${f.label ?? ''}\n${f.key}\n${f.type ?? ''}`.toLowerCase();
+      if (!hay.includes(text)) return false;
+    }
+    if (mode) {
+      return checkStates.some(st => matchesMode(matrix, parents, f.key, st, mode, role));
+    }
+    return true;
+  };
+
+  if (filter.layout === 'flat') {
+    return fields
+      .filter(matches)
+      .sort((a, b) => (a.label || a.key).localeCompare(b.label || b.key));
+  }
+
+  if (!isFilterActive(filter)) return fields;
+
+  const keep = new Set<string>();
+  for (const f of fields) {
+    if (!matches(f)) continue;
+    keep.add(f.key);
+    for (let p = f.parent; p && !keep.has(p); p = parents.get(p)) keep.add(p);
+  }
+  return fields.filter(f => keep.has(f.key));
+}
@@ -0,0 +1,120 @@
+import { DefinitionContent, mergeDefinitions } from './merge';
+
+// merge reaches the API client through versions.ts; nothing here talks to the server
+jest.mock('./api', () => ({}));
+
+const text = (key: string, label = key) => ({ id: key, type: 'textfield', key, label });
+const def = (components: any[], matrix: DefinitionContent['matrix'] = {}): DefinitionContent => ({
+  schema: { type: 'default', components },
+  matrix
+});
+const keys = (schema: any): string[] => schema.components.map((c: any) => c.key ?? c.id);
+
+describe('mergeDefinitions: schema', () => {
+  const base = def([text('a'), text('b'), text('c')]);
+
+  test('takes a change made on one side only', () => {
+    const mine = def([text('a', 'A!'), text('b'), text('c')]);
+    const theirs = def([text('a'), text('b'), text('c', 'C!')]);
+    const r = mergeDefinitions(base, mine, theirs);
+    expect(r.conflicts).toEqual([]);
+    expect(r.merged).toBe(2);
+    expect(r.schema.components.map((c: any) => c.label)).toEqual(['A!', 'b', 'C!']);
+  });
+
+  test('treats the same change on both sides as agreement', () => {
+    const both = def([text('a', 'A!'), text('b'), text('c')]);
+    const r = mergeDefinitions(base, both, both);
+    expect(r.conflicts).toEqual([]);
+    expect(r.merged).toBe(0);
+  });
+
+  test('reports different changes to one component as a conflict, mine by default', () => {
+    const mine = def([text('a', 'mine'), text('b'), text('c')]);
+    const theirs = def([text('a', 'theirs'), text('b'), text('c')]);
+    const r = mergeDefinitions(base, mine, theirs);
+    expect(r.conflicts).toHaveLength(1);
+    expect(r.conflicts[0]).toMatchObject({ id: 'c:a', kind: 'component', label: 'mine' });
+    expect(r.schema.components[0].label).toBe('mine');
+    expect(mergeDefinitions(base, mine, theirs, { 'c:a': 'theirs' }).schema.components[0].label).toBe('theirs');
+  });
+
+  test('a removal against an edit is a conflict; a removal alone is taken', () => {
+    const removed = def([text('b'), text('c')]);
+    const edited = def([text('a', 'A!'), text('b'), text('c')]);
+    const r = mergeDefinitions(base, removed, edited);
+    expect(r.conflicts).toEqual([expect.objectContaining({ id: 'c:a', mine: undefined })]);
+    expect(keys(r.schema)).toEqual(['b', 'c']);
+    expect(keys(mergeDefinitions(base, removed, base).schema)).toEqual(['b', 'c']);
+  });
+
+  test('keeps components added on either side', () => {
+    const mine = def([text('a'), text('b'), text('c'), text('m')]);
+    const theirs = def([text('a'), text('t'), text('b'), text('c')]);
+    const r = mergeDefinitions(base, mine, theirs);
+    expect(r.conflicts).toEqual([]);
+    expect(keys(r.schema).sort()).toEqual(['a', 'b', 'c', 'm', 't']);
+  });
+
+  test('reports schema property changes as property conflicts', () => {
+    const mine = { ...def([text('a')]), schema: { type: 'default', id: 'mine', components: [text('a')] } };
+    const theirs = { ...def([text('a')]), schema: { type: 'default', id: 'theirs', components: [text('a')] } };
+    const r = mergeDefinitions(def([text('a')]), mine, theirs);
+    expect(r.conflicts).toEqual([expect.objectContaining({ id: 's:id', kind: 'property', mine: 'mine', theirs: 'theirs' })]);
+  });
+});
+
+describe('mergeDefinitions: ordering', () => {
+  const base = def([text('a'), text('b'), text('c')]);
+
+  test('follows the side that reordered', () => {
+    const reordered = def([text('c'), text('a'), text('b')]);
+    expect(keys(mergeDefinitions(base, reordered, base).schema)).toEqual(['c', 'a', 'b']);
+    expect(keys(mergeDefinitions(base, base, reordered).schema)).toEqual(['c', 'a', 'b']);
+  });
+
+  test('when both reordered, keeps mine and appends their new components', () => {
+    const mine = def([text('b'), text('a'), text('c')]);
+    const theirs = def([text('c'), text('b'), text('a'), text('t')]);
+    expect(keys(mergeDefinitions(base, mine, theirs).schema)).toEqual(['b', 'a', 'c', 't']);
+  });
+
+  test('places components added on the other side at their position', () => {
+    const theirs = def([text('a'), text('t'), text('b'), text('c')]);
+    expect(keys(mergeDefinitions(base, base, theirs).schema)).toEqual(['a', 't', 'b', 'c']);
+  });
+
+  test('keeps nesting and moves orphans of a removed container to the top level', () => {
+    const group = (children: any[]) => ({ id: 'g', type: 'group', label: 'G', components: children });
+    const nested = def([text('a'), group([text('x')])]);
+    const added = def([text('a'), group([text('x'), text('y')])]);
+    const r = mergeDefinitions(nested, nested, added);
+    expect(r.schema.components[1].components.map((c: any) => c.key)).toEqual(['x', 'y']);
+
+    // adding a child leaves the group itself unchanged, so their removal of it is taken
+    const orphaned = mergeDefinitions(nested, added, def([text('a')]));
+    expect(orphaned.conflicts).toEqual([]);
+    expect(keys(orphaned.schema)).toEqual(['a', 'y']);
+  });
+});
+
+describe('mergeDefinitions: matrix', () => {
+  const cell = (mode: 'editable' | 'readonly' | 'hidden', required = false) => ({ mode, required });
+
+  test('merges cells independently and reports both-sides changes per cell', () => {
+    const base = def([text('a')], { a: { draft: cell('editable'), review: cell('readonly') } });
+    const mine = def([text('a')], { a: { draft: cell('editable', true), review: cell('hidden') } });
+    const theirs = def([text('a')], { a: { draft: cell('editable'), review: cell('editable') } });
+    const r = mergeDefinitions(base, mine, theirs);
+    expect(r.matrix.a.draft).toEqual(cell('editable', true));
+    expect(r.conflicts).toEqual([expect.objectContaining({ id: 'm:a|review', kind: 'cell', label: 'a · review' })]);
+    expect(r.matrix.a.review).toEqual(cell('hidden'));
+    expect(mergeDefinitions(base, mine, theirs, { 'm:a|review': 'theirs' }).matrix.a.review).toEqual(cell('editable'));
+  });
+
+  test('drops a cell removed on one side and left alone on the other', () => {
+    const base = def([text('a')], { a: { draft: cell('editable') } });
+    const r = mergeDefinitions(base, def([text('a')], {}), base);
+    expect(r.matrix).toEqual({});
+  });
+});
@@ -0,0 +1,168 @@
+// src/core/merge.ts
+// Three-way merge of form definitions (schema + behavior matrix) for concurrent edits: `base` is
+// the version both sides started from, `mine` the editor, `theirs` what was saved meanwhile.
+// A change on one side only is taken as is; a different change on both sides is a conflict,
+// resolved with `choices` (mine by default).
+
+import type { BehaviorMatrixValue } from './types';
+import { stableJson } from './versions';
+
+export interface DefinitionContent {
+  schema: any;
+  matrix: BehaviorMatrixValue;
+}
+
+export type MergeSide = 'mine' | 'theirs';
+
+export interface MergeConflict {
+  id: string;                 // 'c:<component id>' | 'm:<field key>|<state>' | 's:<schema property>'
+  kind: 'component' | 'cell' | 'property';
+  label: string;
+  base?: any;
+  mine?: any;                 // undefined = removed on that side
+  theirs?: any;
+}
+
+export interface MergeResult extends DefinitionContent {
+  conflicts: MergeConflict[];
+  /** changes taken from one side without conflict */
+  merged: number;
+}
+
+type Side<T> = { base?: T; mine?: T; theirs?: T };
+
+/** Three-way pick for one item; `conflict` when both sides changed it differently. */
+function pick<T>(v: Side<T>, choice?: MergeSide): { value?: T; conflict: boolean; fromOne: boolean } {
+  const b = stableJson(v.base);
+  const m = stableJson(v.mine);
+  const t = stableJson(v.theirs);
+  if (m === t) return { value: v.mine, conflict: false, fromOne: false };
+  if (m === b) return { value: v.theirs, conflict: false, fromOne: true };
+  if (t === b) return { value: v.mine, conflict: false, fromOne: true };
+  return { value: choice === 'theirs' ? v.theirs : v.mine, conflict: true, fromOne: false };
+}
+
+/* ---------------- schema ---------------- */
+
+// comp without `components`; parent '' = root; container = had a `components` array
+type Node = { comp: Record<string, any>; parent: string; container: boolean };
+type Indexed = { nodes: Map<string, Node>; children: Map<string, string[]> };
+
+// same identity rule as the version diff: id, else key, else position
+function index(schema: any): Indexed {
+  const nodes = new Map<string, Node>();
+  const children = new Map<string, string[]>();
+  const walk = (list: any[], parent: string, path: string) => {
+    const ids: string[] = [];
+    (list || []).forEach((c, i) => {
+      if (!c) return;
+      const id = (typeof c.id === 'string' && c.id) || (c.key ? `key:${c.key}` : `${path}${i}`);
+      const { components: sub, ...comp } = c;
+      nodes.set(id, { comp, parent, container: Array.isArray(sub) });
+      ids.push(id);
+      if (Array.isArray(sub)) walk(sub, id, `${path}${i}.`);
+    });
+    children.set(parent, ids);
+  };
+  walk(schema?.components || [], '', '');
+  return { nodes, children };
+}
+
+const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((x, i) => x === b[i]);
+
+function componentLabel(n?: Node) {
+  const c = n?.comp;
+  return (typeof c?.label === 'string' && c.label) || c?.key || c?.type || 'component';
+}
+
+function mergeSchema(base: any, mine: any, theirs: any, choices: Record<string, MergeSide>, out: MergeResult) {
+  const b = index(base), m = index(mine), t = index(theirs);
+  const ids = Array.from(new Set([...Array.from(m.nodes.keys()), ...Array.from(t.nodes.keys()), ...Array.from(b.nodes.keys())]));
+  const result = new Map<string, Node>();
+
+  for (const id of ids) {
+    const v = { base: b.nodes.get(id), mine: m.nodes.get(id), theirs: t.nodes.get(id) };
+    const cid = `c:${id}`;
+    const r = pick(v, choices[cid]);
+    if (r.conflict) {
+      out.conflicts.push({
+        id: cid, kind: 'component', label: componentLabel(v.mine ?? v.theirs ?? v.base),
+        base: v.base?.comp, mine: v.mine?.comp, theirs: v.theirs?.comp
+      });
+    } else if (r.fromOne) out.merged += 1;
+    if (r.value) result.set(id, r.value);
+  }
+
+  // sibling order: whichever side reordered; both → mine, then their new ones
+  const orderOf = (parent: string) => {
+    const bo = b.children.get(parent) || [], mo = m.children.get(parent) || [], to = t.children.get(parent) || [];
+    const order = sameOrder(mo, bo) ? to : sameOrder(to, bo) ? mo : [...mo, ...to.filter(x => !mo.includes(x))];
+    const extra = Array.from(result.keys()).filter(id => result.get(id)!.parent === parent && !order.includes(id));
+    return [...order, ...extra].filter(id => result.get(id)?.parent === parent);
+  };
+
+  const placed = new Set<string>();
+  const build = (parent: string): any[] => orderOf(parent)
+    .filter(id => !placed.has(id))
+    .map(id => {
+      placed.add(id);
+      const { comp, container } = result.get(id)!;
+      const sub = build(id);
+      return container || sub.length ? { ...comp, components: sub } : { ...comp };
+    });
+
+  const components = build('');
+  // components whose parent was removed on the other side land at the top level
+  result.forEach((n, id) => {
+    if (placed.has(id)) return;
+    placed.add(id);
+    components.push(n.container ? { ...n.comp, components: [] } : { ...n.comp });
+  });
+
+  // top-level schema properties (id, type, schemaVersion, exporter, …)
+  const { components: _mc, ...mp } = mine || {};
+  const { components: _tc, ...tp } = theirs || {};
+  const { components: _bc, ...bp } = base || {};
+  const props: Record<string, any> = {};
+  for (const k of Array.from(new Set([...Object.keys(mp), ...Object.keys(tp), ...Object.keys(bp)]))) {
+    const sid = `s:${k}`;
+    const r = pick({ base: bp[k], mine: mp[k], theirs: tp[k] }, choices[sid]);
+    if (r.conflict) out.conflicts.push({ id: sid, kind: 'property', label: k, base: bp[k], mine: mp[k], theirs: tp[k] });
+    else if (r.fromOne) out.merged += 1;
+    if (r.value !== undefined) props[k] = r.value;
+  }
+  return { ...props, components };
+}
+
+/* ---------------- matrix ---------------- */
+
+function mergeMatrix(base: BehaviorMatrixValue, mine: BehaviorMatrixValue, theirs: BehaviorMatrixValue, choices: Record<string, MergeSide>, out: MergeResult) {
+  const result: BehaviorMatrixValue = {};
+  const keys = Array.from(new Set([...Object.keys(mine), ...Object.keys(theirs), ...Object.keys(base)]));
+  for (const key of keys) {
+    const states = Array.from(new Set([
+      ...Object.keys(mine[key] || {}), ...Object.keys(theirs[key] || {}), ...Object.keys(base[key] || {})
+    ]));
+    for (const state of states) {
+      const id = `m:${key}|${state}`;
+      const v = { base: base[key]?.[state], mine: mine[key]?.[state], theirs: theirs[key]?.[state] };
+      const r = pick(v, choices[id]);
+      if (r.conflict) out.conflicts.push({ id, kind: 'cell', label: `${key} · ${state}`, ...v });
+      else if (r.fromOne) out.merged += 1;
+      if (r.value !== undefined) result[key] = { ...(result[key] || {}), [state]: r.value };
+    }
+  }
+  return result;
+}
+
+export function mergeDefinitions(
+  base: DefinitionContent,
+  mine: DefinitionContent,
+  theirs: DefinitionContent,
+  choices: Record<string, MergeSide> = {}
+): MergeResult {
+  const out: MergeResult = { schema: null, matrix: {}, conflicts: [], merged: 0 };
+  out.schema = mergeSchema(base.schema, mine.schema, theirs.schema, choices, out);
+  out.matrix = mergeMatrix(base.matrix || {}, mine.matrix || {}, theirs.matrix || {}, choices, out);
+  return out;
+}
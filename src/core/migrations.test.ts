@@ -0,0 +1,153 @@
+import type { FormVersion } from './versions';
+import { MigrationStep, applyMigration, migrationBetween, migrationOf, migrationProblem, suggestMigration } from './migrations';
+
+// migrations read and patch rows through the API client; these tests only cover the pure steps
+jest.mock('./api', () => ({}));
+
+const run = (data: Record<string, any>, ...steps: MigrationStep[]) => applyMigration(data, steps);
+
+describe('applyMigration: rename', () => {
+  test('moves the value, including into and out of nested objects', () => {
+    expect(run({ a: 1, b: 2 }, { op: 'rename', from: 'a', to: 'z' }).data).toEqual({ z: 1, b: 2 });
+    expect(run({ owner: { name: 'Ann' } }, { op: 'rename', from: 'owner.name', to: 'ownerName' }).data)
+      .toEqual({ owner: {}, ownerName: 'Ann' });
+    expect(run({ city: 'Oslo' }, { op: 'rename', from: 'city', to: 'address.city' }).data)
+      .toEqual({ address: { city: 'Oslo' } });
+  });
+
+  test('skips a missing source and never overwrites the target', () => {
+    expect(run({ b: 2 }, { op: 'rename', from: 'a', to: 'b' })).toEqual({ data: { b: 2 }, changes: [], warnings: [] });
+    const r = run({ a: 1, b: 2 }, { op: 'rename', from: 'a', to: 'b' });
+    expect(r.data).toEqual({ a: 1, b: 2 });
+    expect(r.warnings).toHaveLength(1);
+  });
+});
+
+describe('applyMigration: split', () => {
+  test('splits on spaces by default, the last key taking the remainder', () => {
+    const r = run({ name: 'Ann Marie Smith' }, { op: 'split', from: 'name', to: ['first', 'last'] });
+    expect(r.data).toEqual({ first: 'Ann', last: 'Marie Smith' });
+    expect(r.changes).toEqual(['Split name into first, last']);
+  });
+
+  test('uses the separator, keeps the source on request and fills missing parts with ""', () => {
+    expect(run({ pc: '0150' }, { op: 'split', from: 'pc', to: ['zip', 'city'], separator: ',', keep: true }).data)
+      .toEqual({ pc: '0150', zip: '0150', city: '' });
+  });
+
+  test('leaves filled targets alone and warns about non-text values', () => {
+    expect(run({ name: 'Ann Smith', first: 'Anna' }, { op: 'split', from: 'name', to: ['first', 'last'] }).data)
+      .toEqual({ first: 'Anna', last: 'Smith' });
+    const r = run({ name: 42 }, { op: 'split', from: 'name', to: ['first', 'last'] });
+    expect(r.data).toEqual({ name: 42 });
+    expect(r.warnings).toHaveLength(1);
+  });
+});
+
+describe('applyMigration: convert', () => {
+  const to = (value: any, target: any) => run({ v: value }, { op: 'convert', key: 'v', to: target });
+
+  test('converts between the supported types', () => {
+    expect(to('12,5', 'number').data.v).toBe(12.5);
+    expect(to(true, 'number').data.v).toBe(1);
+    expect(to('Yes', 'boolean').data.v).toBe(true);
+    expect(to('off', 'boolean').data.v).toBe(false);
+    expect(to(7, 'string').data.v).toBe('7');
+    expect(to({ a: 1 }, 'string').data.v).toBe('{"a":1}');
+    expect(to('2024-03-05T10:00:00Z', 'date').data.v).toBe('2024-03-05');
+    expect(to('x', 'array').data.v).toEqual(['x']);
+  });
+
+  test('warns and keeps the value when it cannot be converted', () => {
+    const r = to('abc', 'number');
+    expect(r.data.v).toBe('abc');
+    expect(r.warnings).toHaveLength(1);
+    expect(to('maybe', 'boolean').warnings).toHaveLength(1);
+    expect(to('not a date', 'date').warnings).toHaveLength(1);
+  });
+
+  test('reports no change for empty or already converted values', () => {
+    expect(to(undefined, 'number').changes).toEqual([]);
+    expect(to(5, 'number').changes).toEqual([]);
+  });
+});
+
+describe('applyMigration: default', () => {
+  test('fills empty values with a literal or an expression', () => {
+    expect(run({}, { op: 'default', key: 'n', value: '42' }).data).toEqual({ n: 42 });
+    expect(run({ n: '' }, { op: 'default', key: 'n', value: 'none' }).data).toEqual({ n: 'none' });
+    expect(run({ a: 2 }, { op: 'default', key: 'b', value: '=a * 3' }).data).toEqual({ a: 2, b: 6 });
+  });
+
+  test('keeps an existing value and turns a failing expression into a warning', () => {
+    expect(run({ n: 1 }, { op: 'default', key: 'n', value: '42' }).changes).toEqual([]);
+    const r = run({}, { op: 'default', key: 'n', value: '=nope()' });
+    expect(r.data).toEqual({});
+    expect(r.warnings).toEqual([expect.stringContaining("Unknown function 'nope'")]);
+  });
+});
+
+test('applyMigration runs steps in order and does not mutate the input', () => {
+  const data = { full: 'Ann Smith' };
+  const r = run(data,
+    { op: 'rename', from: 'full', to: 'name' },
+    { op: 'split', from: 'name', to: ['first', 'last'] },
+    { op: 'default', key: 'country', value: 'NO' });
+  expect(r.data).toEqual({ first: 'Ann', last: 'Smith', country: 'NO' });
+  expect(r.changes).toHaveLength(3);
+  expect(data).toEqual({ full: 'Ann Smith' });
+});
+
+describe('migrationProblem', () => {
+  test('accepts a valid step list', () => {
+    expect(migrationProblem([
+      { op: 'rename', from: 'a', to: 'b' },
+      { op: 'split', from: 'n', to: ['f', 'l'] },
+      { op: 'convert', key: 'x', to: 'number' },
+      { op: 'default', key: 'd', value: '=today()' }
+    ])).toBeNull();
+  });
+
+  test('names the first invalid step', () => {
+    expect(migrationProblem({})).toBe('Migration must be a JSON array of steps.');
+    expect(migrationProblem([{ op: 'drop' }])).toMatch(/^Step 1: op must be one of/);
+    expect(migrationProblem([{ op: 'rename', from: 'a', to: 'b' }, { op: 'rename', from: 'a' }])).toMatch(/^Step 2: rename needs/);
+    expect(migrationProblem([{ op: 'split', from: 'a', to: ['b'] }])).toMatch(/at least two "to" keys/);
+    expect(migrationProblem([{ op: 'convert', key: 'a', to: 'float' }])).toMatch(/convert "to" must be one of/);
+    expect(migrationProblem([{ op: 'default', key: 'a', value: 1 }])).toMatch(/must be a string/);
+    expect(migrationProblem([{ op: 'default', key: 'a', value: '=a +' }])).toBe('Step 1: Unexpected end of expression');
+  });
+});
+
+describe('migrationOf / migrationBetween', () => {
+  test('reads the stored steps and ignores unknown or unreadable ones', () => {
+    expect(migrationOf({ data_migration: '[{"op":"rename","from":"a","to":"b"},{"op":"drop"}]' }))
+      .toEqual([{ op: 'rename', from: 'a', to: 'b' }]);
+    expect(migrationOf({ data_migration: 'not json' })).toEqual([]);
+    expect(migrationOf(null)).toEqual([]);
+  });
+
+  test('chains the steps of the versions after `from` up to `to`, oldest first', () => {
+    const version = (n: number, to: string) =>
+      ({ version: n, row: { data_migration: JSON.stringify([{ op: 'rename', from: 'k', to }]) } } as unknown as FormVersion);
+    const versions = [version(4, 'v4'), version(2, 'v2'), version(3, 'v3'), version(1, 'v1')];
+    expect(migrationBetween(versions, 1, 3).map(s => (s as any).to)).toEqual(['v2', 'v3']);
+  });
+});
+
+describe('suggestMigration', () => {
+  test('suggests renames for re-keyed components and defaults for new fields', () => {
+    const prev = { components: [{ id: 'f1', type: 'textfield', key: 'name' }] };
+    const next = {
+      components: [
+        { id: 'f1', type: 'textfield', key: 'fullName', defaultValue: 'x' },
+        { id: 'f2', type: 'number', key: 'age', defaultValue: 18 },
+        { id: 'f3', type: 'textfield', key: 'note' }
+      ]
+    };
+    expect(suggestMigration(prev, next)).toEqual([
+      { op: 'rename', from: 'name', to: 'fullName' },
+      { op: 'default', key: 'age', value: '18' }
+    ]);
+  });
+});
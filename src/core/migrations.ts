@@ -0,0 +1,266 @@
+// src/core/migrations.ts
+// Declarative entry-data migrations. Each form definition version may carry the steps that
+// turn data captured under the previous version into its own shape (`data_migration`);
+// opening an older entry chains the steps up to the active version.
+
+import type { FormDefinition, FormEntry } from './api';
+import { getFormDefinition, patchFormDefinition, patchFormEntry } from './api';
+import { FormVersion, listVersions, toFormVersion } from './versions';
+import { statusOf } from './lifecycle';
+import { isEmptyValue, resolveDefault } from './values';
+import { expressionError } from './expression';
+import { detectRenames } from './rename';
+
+export type ConvertTarget = 'string' | 'number' | 'boolean' | 'date' | 'array';
+
+export type MigrationStep =
+  | { op: 'rename'; from: string; to: string }
+  | { op: 'split'; from: string; to: string[]; separator?: string; keep?: boolean }
+  | { op: 'convert'; key: string; to: ConvertTarget }
+  | { op: 'default'; key: string; value: string };   // literal or `=expression`, like cell defaults
+
+export const MIGRATION_OPS: Array<MigrationStep['op']> = ['rename', 'split', 'convert', 'default'];
+export const CONVERT_TARGETS: ConvertTarget[] = ['string', 'number', 'boolean', 'date', 'array'];
+
+/* ---------------- parsing / validation ---------------- */
+
+export function migrationOf(def: Partial<Pick<FormDefinition, 'data_migration'>> | null | undefined): MigrationStep[] {
+  const raw = def?.data_migration;
+  if (!raw) return [];
+  try {
+    const list = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return Array.isArray(list) ? list.filter(s => s && MIGRATION_OPS.includes(s.op)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** First problem in a step list, or null. */
+export function migrationProblem(steps: unknown): string | null {
+  if (!Array.isArray(steps)) return 'Migration must be a JSON array of steps.';
+  for (let i = 0; i < steps.length; i++) {
+    const s: any = steps[i];
+    const at = `Step ${i + 1}`;
+    if (!s || !MIGRATION_OPS.includes(s.op)) return `${at}: op must be one of ${MIGRATION_OPS.join(', ')}.`;
+    const str = (v: unknown) => typeof v === 'string' && v.trim() !== '';
+    switch (s.op) {
+      case 'rename':
+        if (!str(s.from) || !str(s.to)) return `${at}: rename needs "from" and "to".`;
+        break;
+      case 'split':
+        if (!str(s.from)) return `${at}: split needs "from".`;
+        if (!Array.isArray(s.to) || s.to.length < 2 || !s.to.every(str)) return `${at}: split needs at least two "to" keys.`;
+        break;
+      case 'convert':
+        if (!str(s.key)) return `${at}: convert needs "key".`;
+        if (!CONVERT_TARGETS.includes(s.to)) return `${at}: convert "to" must be one of ${CONVERT_TARGETS.join(', ')}.`;
+        break;
+      case 'default': {
+        if (!str(s.key)) return `${at}: default needs "key".`;
+        if (typeof s.value !== 'string') return `${at}: default "value" must be a string (a literal or =expression).`;
+        const err = s.value.trim().startsWith('=') ? expressionError(s.value) : null;
+        if (err) return `${at}: ${err}`;
+        break;
+      }
+    }
+  }
+  return null;
+}
+
+/* ---------------- applying ---------------- */
+
+const has = (obj: any, path: string[]) => {
+  let cur = obj;
+  for (const p of path) {
+    if (!cur || typeof cur !== 'object' || !(p in cur)) return false;
+    cur = cur[p];
+  }
+  return true;
+};
+
+const get = (obj: any, path: string[]) => path.reduce((cur, p) => (cur == null ? undefined : cur[p]), obj);
+
+function set(obj: Record<string, any>, path: string[], value: any): Record<string, any> {
+  const [head, ...tail] = path;
+  if (!tail.length) return { ...obj, [head]: value };
+  const inner = obj[head] && typeof obj[head] === 'object' && !Array.isArray(obj[head]) ? obj[head] : {};
+  return { ...obj, [head]: set(inner, tail, value) };
+}
+
+function unset(obj: Record<string, any>, path: string[]): Record<string, any> {
+  const [head, ...tail] = path;
+  if (!(head in obj)) return obj;
+  if (!tail.length) {
+    const { [head]: _gone, ...rest } = obj;
+    return rest;
+  }
+  const inner = obj[head];
+  if (!inner || typeof inner !== 'object') return obj;
+  return { ...obj, [head]: unset(inner, tail) };
+}
+
+/** undefined = the value cannot be converted */
+function convert(v: any, to: ConvertTarget): any {
+  switch (to) {
+    case 'string':
+      return typeof v === 'string' ? v : v && typeof v === 'object' ? JSON.stringify(v) : String(v);
+    case 'number': {
+      if (typeof v === 'number') return v;
+      const n = typeof v === 'string' && v.trim() !== '' ? Number(v.replace(',', '.')) : typeof v === 'boolean' ? Number(v) : NaN;
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case 'boolean': {
+      if (typeof v === 'boolean') return v;
+      const s = String(v).trim().toLowerCase();
+      if (['true', '1', 'yes', 'y', 'on'].includes(s)) return true;
+      if (['false', '0', 'no', 'n', 'off', ''].includes(s)) return false;
+      return undefined;
+    }
+    case 'date': {
+      const d = new Date(v);
+      return Number.isNaN(d.getTime()) ? undefined : d.toISOString().slice(0, 10);
+    }
+    case 'array':
+      return Array.isArray(v) ? v : [v];
+  }
+}
+
+export interface MigrationResult {
+  data: Record<string, any>;
+  changes: string[];    // one line per step that did something
+  warnings: string[];   // steps that could not be applied to this entry
+}
+
+/** Run `steps` over `data` (never mutated). Steps never overwrite a value that is already there. */
+export function applyMigration(data: Record<string, any>, steps: MigrationStep[]): MigrationResult {
+  let out = data || {};
+  const changes: string[] = [];
+  const warnings: string[] = [];
+
+  for (const s of steps) {
+    switch (s.op) {
+      case 'rename': {
+        const from = s.from.split('.');
+        const to = s.to.split('.');
+        if (!has(out, from)) break;
+        if (has(out, to)) { warnings.push(`"${s.to}" already has a value; "${s.from}" was not renamed.`); break; }
+        out = unset(set(out, to, get(out, from)), from);
+        changes.push(`Renamed ${s.from} → ${s.to}`);
+        break;
+      }
+      case 'split': {
+        const from = s.from.split('.');
+        const v = get(out, from);
+        if (isEmptyValue(v)) break;
+        if (typeof v !== 'string') { warnings.push(`"${s.from}" is not text and was not split.`); break; }
+        const sep = s.separator ?? ' ';
+        const parts = v.split(sep);
+        // the last key takes the remainder, so nothing is lost
+        const values = s.to.map((_, i) => (i < s.to.length - 1 ? parts[i] ?? '' : parts.slice(i).join(sep)).trim());
+        for (let i = 0; i < s.to.length; i++) {
+          const path = s.to[i].split('.');
+          if (isEmptyValue(get(out, path))) out = set(out, path, values[i]);
+        }
+        if (!s.keep && !s.to.includes(s.from)) out = unset(out, from);
+        changes.push(`Split ${s.from} into ${s.to.join(', ')}`);
+        break;
+      }
+      case 'convert': {
+        const path = s.key.split('.');
+        const v = get(out, path);
+        if (v === undefined || v === null) break;
+        const next = convert(v, s.to);
+        if (next === undefined) { warnings.push(`"${s.key}" (${JSON.stringify(v)}) could not be converted to ${s.to}.`); break; }
+        if (JSON.stringify(next) === JSON.stringify(v)) break;
+        out = set(out, path, next);
+        changes.push(`Converted ${s.key} to ${s.to}`);
+        break;
+      }
+      case 'default': {
+        const path = s.key.split('.');
+        if (!isEmptyValue(get(out, path))) break;
+        try {
+          out = set(out, path, resolveDefault(s.value, out));
+          changes.push(`Set default for ${s.key}`);
+        } catch (e: any) {
+          warnings.push(`Default for "${s.key}" failed: ${e?.message || e}`);
+        }
+        break;
+      }
+    }
+  }
+  return { data: out, changes, warnings };
+}
+
+/* ---------------- versions ---------------- */
+
+/** Steps from version `from` up to `to`: the migrations of every version after `from`, oldest first. */
+export function migrationBetween(versions: FormVersion[], from: number, to: number): MigrationStep[] {
+  return versions
+    .filter(v => v.version > from && v.version <= to)
+    .sort((a, b) => a.version - b.version)
+    .flatMap(v => migrationOf(v.row));
+}
+
+/**
+ * Steps a maintainer would likely write between two schemas: key renames (same component
+ * id, new key) and defaults for new fields that declare a `defaultValue`.
+ */
+export function suggestMigration(prevSchema: any, nextSchema: any): MigrationStep[] {
+  const steps: MigrationStep[] = detectRenames(prevSchema, nextSchema).map(r => ({
+    op: 'rename',
+    from: [...r.parentPath, r.from].join('.'),
+    to: [...r.parentPath, r.to].join('.')
+  }));
+  const prevKeys = new Set<string>();
+  (function collect(components: any[]) {
+    for (const c of components || []) {
+      if (!c) continue;
+      if (c.key) prevKeys.add(c.key);
+      if (Array.isArray(c.components)) collect(c.components);
+    }
+  })(prevSchema?.components || []);
+  const renamedTo = new Set(steps.map(s => (s as { to: string }).to));
+  (function added(components: any[]) {
+    for (const c of components || []) {
+      if (!c) continue;
+      if (c.key && !prevKeys.has(c.key) && !renamedTo.has(c.key) && c.defaultValue !== undefined) {
+        steps.push({ op: 'default', key: c.key, value: typeof c.defaultValue === 'string' ? c.defaultValue : JSON.stringify(c.defaultValue) });
+      }
+      if (Array.isArray(c.components)) added(c.components);
+    }
+  })(nextSchema?.components || []);
+  return steps;
+}
+
+export async function saveVersionMigration(defId: string, steps: MigrationStep[]) {
+  return patchFormDefinition(defId, { data_migration: JSON.stringify(steps) });
+}
+
+export interface EntryMigrationPlan {
+  entry: FormEntry;
+  from: FormVersion;      // version the entry was captured with
+  to: FormVersion;        // active version
+  steps: MigrationStep[];
+  before: Record<string, any>;
+  result: MigrationResult;
+}
+
+/**
+ * What opening `entry` on the active version of its form would do. Null when the entry
+ * already belongs to the active version (or a newer one), or the form has none.
+ */
+export async function planEntryMigration(entry: FormEntry, data: Record<string, any>): Promise<EntryMigrationPlan | null> {
+  const def = await getFormDefinition(entry.form_definition_id);
+  const versions = await listVersions(def.name);
+  const to = versions.find(v => v.status === 'active');
+  const from = versions.find(v => v.id === def.id) ?? toFormVersion(def);
+  if (!to || statusOf(def) === 'active' || to.version <= from.version) return null;
+  const steps = migrationBetween(versions, from.version, to.version);
+  return { entry, from, to, steps, before: data, result: applyMigration(data, steps) };
+}
+
+/** Store the migrated data and re-pin the entry to the version it was migrated to. */
+export async function persistEntryMigration(plan: EntryMigrationPlan, data: Record<string, any> = plan.result.data) {
+  return patchFormEntry(plan.entry.id, { data: JSON.stringify(data), form_definition_id: plan.to.id });
+}
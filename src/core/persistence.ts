@@ -1,17 +1,13 @@
-export type Http = (url: string, init?: RequestInit) => Promise<Response>;
-const toJson = (r: Response) => (r.ok ? r.json() : Promise.reject(new Error(String(r.status))));
-
-type FindLatestOpts = { apiBase: string; fetchImpl?: Http };
+import { ApiClient, http } from './http';
 
 async function getLatestByFormId(
-  { apiBase, fetchImpl = fetch }: FindLatestOpts,
+  client: ApiClient,
   resource: string,
   formId: string,
   jsonField: string,      // "content_json"
 ): Promise<any | null> {
   const tryFiltered = async () => {
-    const url = `${apiBase}/${resource}?filter=form_id==${encodeURIComponent(formId)}&sort=-valid_from&limit=1`;
-    const arr = await toJson(await fetchImpl(url));
+    const arr = await client.get<any>(`/${resource}?filter=form_id==${encodeURIComponent(formId)}&sort=-valid_from&limit=1`);
     if (Array.isArray(arr) && arr.length) {
       const row = arr[0];
       return row[jsonField] ?? row;
@@ -20,8 +16,7 @@ async function getLatestByFormId(
   };
 
   const tryFallback = async () => {
-    const url = `${apiBase}/${resource}?limit=100&offset=0`;
-    const arr = await toJson(await fetchImpl(url));
+    const arr = await client.get<any>(`/${resource}`, { query: { limit: 100, offset: 0 } });
     if (!Array.isArray(arr)) return null;
     const rows = arr.filter((r: any) => r.form_id === formId);
     rows.sort((a, b) => new Date(b.valid_from || 0).getTime() - new Date(a.valid_from || 0).getTime());
@@ -33,10 +28,14 @@ async function getLatestByFormId(
 }
 
 export class GeneratedCrudProvider {
-  constructor(private apiBase: string, private http: Http = fetch) {}
+  private http: ApiClient;
+
+  constructor(apiBase: string, client?: ApiClient) {
+    this.http = client ?? http.withBase(apiBase);
+  }
 
   async fetchSchema(formId: string): Promise<any | null> {
-    return getLatestByFormId({ apiBase: this.apiBase, fetchImpl: this.http }, 'form_definition', formId, 'content_json');
+    return getLatestByFormId(this.http, 'form_definition', formId, 'content_json');
   }
 
   async publishSchema(formId: string, schemaJson: any): Promise<void> {
@@ -45,14 +44,11 @@ export class GeneratedCrudProvider {
       content_profile: 'formjs@1',
       content_json: schemaJson,
     };
-    const res = await this.http(`${this.apiBase}/form_definition`, {
-      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body)
-    });
-    if (!res.ok) throw new Error(String(res.status));
+    await this.http.post('/form_definition', body);
   }
 
   async fetchBehaviors(formId: string): Promise<any | null> {
-    return getLatestByFormId({ apiBase: this.apiBase, fetchImpl: this.http }, 'form_behavior', formId, 'content_json');
+    return getLatestByFormId(this.http, 'form_behavior', formId, 'content_json');
   }
 
   async publishBehaviors(formId: string, payloadJson: any): Promise<void> {
@@ -61,22 +57,21 @@ export class GeneratedCrudProvider {
       content_profile: 'behavior.matrix@1',
       content_json: payloadJson,
     };
-    const res = await this.http(`${this.apiBase}/form_behavior`, {
-      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body)
-    });
-    if (!res.ok) throw new Error(String(res.status));
+    await this.http.post('/form_behavior', body);
   }
 
-  async saveEntry(formId: string, data: any, state: string): Promise<void> {
+  /** Creates the entry row and returns it (with the server-assigned id). */
+  async saveEntry(formId: string, data: any, state: string): Promise<any> {
     const body = {
       form_id: formId,
       content_profile: 'entry@1',
       content_json: data,
       state
     };
-    const res = await this.http(`${this.apiBase}/form_entry`, {
-      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body)
-    });
-    if (!res.ok) throw new Error(String(res.status));
+    return this.http.post('/form_entry', body);
+  }
+
+  async updateEntry(entryId: string, data: any, state: string): Promise<any> {
+    return this.http.patch(`/form_entry/${encodeURIComponent(entryId)}`, { content_json: data, state });
   }
 }
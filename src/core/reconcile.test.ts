@@ -0,0 +1,79 @@
+import type { BehaviorMatrixValue } from './types';
+import type { FieldMeta } from './schema';
+import { INHERIT_CELL } from './inheritance';
+import { cleanupMatrix, describeReport, initialCell, reconcileMatrix, reportIssueCount } from './reconcile';
+
+const editable = { mode: 'editable' as const, required: true };
+const readonly = { mode: 'readonly' as const, required: false };
+const hidden = { mode: 'hidden' as const, required: false };
+
+const fields: FieldMeta[] = [
+  { key: 'name' },
+  { key: 'address', container: true },
+  { key: 'address.city', parent: 'address', depth: 1 }
+];
+const states = ['entry', 'review'];
+
+describe('reconcileMatrix', () => {
+  test('a matrix covering every field in every known state has no issues', () => {
+    const m: BehaviorMatrixValue = Object.fromEntries(fields.map(f => [f.key, { entry: editable, review: readonly }]));
+    const report = reconcileMatrix(m, fields, states);
+    expect(reportIssueCount(report)).toBe(0);
+    expect(describeReport(report)).toEqual([]);
+  });
+
+  test('reports orphaned keys, uncovered fields, empty states and unknown states', () => {
+    const m: BehaviorMatrixValue = {
+      name: { entry: editable, approve: readonly },
+      removed: { entry: editable }
+    };
+    const report = reconcileMatrix(m, fields, states);
+
+    expect(report).toEqual({
+      orphanedKeys: ['removed'],
+      uncovered: [
+        { key: 'name', states: ['review'] },
+        { key: 'address', states: ['entry', 'review'] },
+        { key: 'address.city', states: ['entry', 'review'] }
+      ],
+      missingStates: ['review'],
+      unknownStates: ['approve']
+    });
+    expect(reportIssueCount(report)).toBe(6);
+    expect(describeReport(report)).toEqual([
+      '1 rule(s) for keys no longer in the form: removed',
+      '3 field(s) without rules in some states: name, address, address.city',
+      'State(s) with no rules at all: review',
+      'Rules for unknown state(s): approve'
+    ]);
+  });
+
+  test('an empty schema does not count states as missing', () => {
+    expect(reconcileMatrix({}, [], states).missingStates).toEqual([]);
+    expect(reconcileMatrix(null as any, [], states).orphanedKeys).toEqual([]);
+  });
+});
+
+describe('cleanupMatrix', () => {
+  test('drops orphaned keys and unknown states and fills the gaps with initial cells', () => {
+    const m: BehaviorMatrixValue = {
+      name: { entry: editable, approve: readonly },
+      removed: { entry: editable }
+    };
+    const cleaned = cleanupMatrix(m, fields, states);
+
+    expect(cleaned).toEqual({
+      name: { entry: editable, review: hidden },
+      address: { entry: INHERIT_CELL, review: INHERIT_CELL },
+      'address.city': { entry: INHERIT_CELL, review: INHERIT_CELL }
+    });
+    expect(reportIssueCount(reconcileMatrix(cleaned, fields, states))).toBe(0);
+  });
+
+  test('initial cells are copies: editing one leaves the rest alone', () => {
+    const cell = initialCell({ key: 'x', parent: 'g' });
+    cell.mode = 'editable';
+    expect(INHERIT_CELL.mode).toBe('hidden');
+    expect(initialCell({ key: 'y' })).toEqual(hidden);
+  });
+});
@@ -0,0 +1,75 @@
+// src/core/reconcile.ts
+// field_state_setting vs. the current schema and state list: rules for keys that no longer
+// exist, fields without rules, and states the matrix does not cover.
+
+import type { BehaviorMatrixValue, FieldCell } from './types';
+import type { FieldMeta } from './schema';
+import { INHERIT_CELL } from './inheritance';
+
+const HIDDEN_CELL: FieldCell = { mode: 'hidden', required: false };
+
+/** Cell a field gets when nobody configured it: follow the container, else hidden. */
+export function initialCell(f: FieldMeta): FieldCell {
+  return { ...(f.parent || f.container ? INHERIT_CELL : HIDDEN_CELL) };
+}
+
+export interface ReconcileReport {
+  orphanedKeys: string[];                               // in the matrix, not in the schema
+  uncovered: Array<{ key: string; states: string[] }>;  // schema fields lacking a cell for some states
+  missingStates: string[];                              // known states no field has a rule for
+  unknownStates: string[];                              // states in the matrix that are not known
+}
+
+export function reconcileMatrix(
+  matrix: BehaviorMatrixValue,
+  fields: FieldMeta[],
+  states: string[]
+): ReconcileReport {
+  const m = matrix || {};
+  const fieldKeys = new Set(fields.map(f => f.key));
+  const known = new Set(states);
+
+  const orphanedKeys = Object.keys(m).filter(k => !fieldKeys.has(k));
+
+  const uncovered: ReconcileReport['uncovered'] = [];
+  for (const f of fields) {
+    const missing = states.filter(st => !m[f.key]?.[st]);
+    if (missing.length) uncovered.push({ key: f.key, states: missing });
+  }
+
+  const used = new Set<string>();
+  for (const row of Object.values(m)) Object.keys(row || {}).forEach(st => used.add(st));
+  const missingStates = fields.length ? states.filter(st => !used.has(st)) : [];
+  const unknownStates = Array.from(used).filter(st => !known.has(st));
+
+  return { orphanedKeys, uncovered, missingStates, unknownStates };
+}
+
+export function reportIssueCount(r: ReconcileReport): number {
+  return r.orphanedKeys.length + r.uncovered.length + r.missingStates.length + r.unknownStates.length;
+}
+
+/** One line per kind of problem, for confirm() prompts. */
+export function describeReport(r: ReconcileReport): string[] {
+  const lines: string[] = [];
+  if (r.orphanedKeys.length) lines.push(`${r.orphanedKeys.length} rule(s) for keys no longer in the form: ${r.orphanedKeys.join(', ')}`);
+  if (r.uncovered.length) lines.push(`${r.uncovered.length} field(s) without rules in some states: ${r.uncovered.map(u => u.key).join(', ')}`);
+  if (r.missingStates.length) lines.push(`State(s) with no rules at all: ${r.missingStates.join(', ')}`);
+  if (r.unknownStates.length) lines.push(`Rules for unknown state(s): ${r.unknownStates.join(', ')}`);
+  return lines;
+}
+
+/**
+ * Drop orphaned keys and unknown states, and write explicit initial cells for uncovered
+ * fields (what the matrix editor already shows for them).
+ */
+export function cleanupMatrix(matrix: BehaviorMatrixValue, fields: FieldMeta[], states: string[]): BehaviorMatrixValue {
+  const out: BehaviorMatrixValue = {};
+  for (const f of fields) {
+    const row = matrix?.[f.key] || {};
+    const next: Record<string, FieldCell> = {};
+    for (const st of states) next[st] = row[st] || initialCell(f);
+    out[f.key] = next;
+  }
+  return out;
+}
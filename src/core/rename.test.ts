@@ -0,0 +1,99 @@
+import { KeyRename, detectRenames, mergeRenames, renameDataKeys, renameMatrixKeys } from './rename';
+
+// rename.ts also migrates stored entries through the API client; not exercised here
+jest.mock('./api', () => ({}));
+
+const field = (id: string, key: string) => ({ id, type: 'textfield', key });
+const schema = (...components: any[]) => ({ type: 'default', components });
+const rename = (from: string, to: string, parentPath: string[] = [], id = from): KeyRename => ({ id, from, to, parentPath });
+
+describe('detectRenames', () => {
+  test('finds a key change on a component that kept its id', () => {
+    expect(detectRenames(schema(field('f1', 'name'), field('f2', 'age')), schema(field('f1', 'fullName'), field('f2', 'age'))))
+      .toEqual([{ id: 'f1', from: 'name', to: 'fullName', parentPath: [] }]);
+  });
+
+  test('ignores added, removed and unchanged components', () => {
+    expect(detectRenames(schema(field('f1', 'a')), schema(field('f2', 'b')))).toEqual([]);
+    const same = schema(field('f1', 'a'));
+    expect(detectRenames(same, same)).toEqual([]);
+    expect(detectRenames(null, same)).toEqual([]);
+  });
+
+  test('does not treat swaps or reused keys as renames', () => {
+    expect(detectRenames(schema(field('f1', 'a'), field('f2', 'b')), schema(field('f1', 'b'), field('f2', 'a')))).toEqual([]);
+    expect(detectRenames(schema(field('f1', 'a'), field('f2', 'b')), schema(field('f1', 'b')))).toEqual([]);
+  });
+
+  test('records where the data of nested components lives', () => {
+    const group = (path: string, ...components: any[]) => ({ id: 'g', type: 'group', path, components });
+    expect(detectRenames(schema(group('owner', field('f1', 'name'))), schema(group('owner', field('f1', 'fullName')))))
+      .toEqual([{ id: 'f1', from: 'name', to: 'fullName', parentPath: ['owner'] }]);
+  });
+
+  test('follows containers that are keyed by their path', () => {
+    const list = (path: string) => ({ id: 'l1', type: 'dynamiclist', path, components: [] });
+    expect(detectRenames(schema(list('items')), schema(list('lines'))))
+      .toEqual([{ id: 'l1', from: 'items', to: 'lines', parentPath: [] }]);
+  });
+});
+
+describe('mergeRenames', () => {
+  test('chains a→b then b→c into a→c', () => {
+    expect(mergeRenames([rename('a', 'b', [], 'f1')], [rename('b', 'c', [], 'f1')])).toEqual([rename('a', 'c', [], 'f1')]);
+  });
+
+  test('drops a rename that was undone', () => {
+    expect(mergeRenames([rename('a', 'b', [], 'f1')], [rename('b', 'a', [], 'f1')])).toEqual([]);
+  });
+
+  test('appends renames of other components', () => {
+    expect(mergeRenames([rename('a', 'b', [], 'f1')], [rename('x', 'y', [], 'f2')])).toHaveLength(2);
+  });
+});
+
+describe('renameMatrixKeys', () => {
+  test('moves rows and rewrites conditions and default expressions', () => {
+    const matrix: any = {
+      name: { draft: { mode: 'editable', required: true } },
+      note: {
+        draft: {
+          mode: 'editable', required: false, condition: 'name != ""', defaultValue: '=upper(name)',
+          roles: { admin: { mode: 'editable', required: false, condition: 'empty(name)' } }
+        },
+        review: { mode: 'readonly', required: false, defaultValue: 'name' }
+      }
+    };
+    const out = renameMatrixKeys(matrix, [rename('name', 'fullName')]);
+    expect(Object.keys(out).sort()).toEqual(['fullName', 'note']);
+    expect(out.fullName).toBe(matrix.name);
+    expect(out.note.draft).toMatchObject({ condition: 'fullName != ""', defaultValue: '=upper(fullName)' });
+    expect(out.note.draft.roles!.admin.condition).toBe('empty(fullName)');
+    // a literal default is text, not a reference
+    expect(out.note.review).toBe(matrix.note.review);
+  });
+
+  test('returns the matrix itself when there is nothing to rename', () => {
+    const matrix: any = { a: { draft: { mode: 'editable', required: false } } };
+    expect(renameMatrixKeys(matrix, [])).toBe(matrix);
+  });
+});
+
+describe('renameDataKeys', () => {
+  test('renames top-level, nested and list item properties', () => {
+    expect(renameDataKeys({ name: 'Ann', age: 3 }, [rename('name', 'fullName')])).toEqual({ fullName: 'Ann', age: 3 });
+    expect(renameDataKeys({ owner: { name: 'Ann' } }, [rename('name', 'fullName', ['owner'])]))
+      .toEqual({ owner: { fullName: 'Ann' } });
+    expect(renameDataKeys({ items: [{ qty: 1 }, { qty: 2 }] }, [rename('qty', 'count', ['items'])]))
+      .toEqual({ items: [{ count: 1 }, { count: 2 }] });
+  });
+
+  test('returns the data itself when nothing moved', () => {
+    const data = { fullName: 'Ann', name: 'old' };
+    expect(renameDataKeys(data, [rename('missing', 'x')])).toBe(data);
+    // never overwrites a value already under the new key
+    expect(renameDataKeys(data, [rename('name', 'fullName')])).toBe(data);
+    // a rename that changes the parent path is not a property move
+    expect(renameDataKeys(data, [rename('name', 'owner.name')])).toBe(data);
+  });
+});
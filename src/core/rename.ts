@@ -0,0 +1,197 @@
+// src/core/rename.ts
+// Component key renames: detected by comparing schemas on the component `id` (stable across
+// edits in the form-js editor), then carried into the behavior matrix and into stored entry data.
+
+import type { BehaviorMatrixValue, FieldCell, RoleCell } from './types';
+import { ruleKeyFor } from './schema';
+import { renameIdentifier } from './expression';
+import { FormEntry, listFormEntries, patchFormEntry } from './api';
+
+export interface KeyRename {
+  id: string;            // component id
+  from: string;          // old rule key (key, or path for containers)
+  to: string;            // new rule key
+  parentPath: string[];  // data path of the enclosing group/dynamic list paths, before the rename
+}
+
+type Located = { key: string; parentPath: string[] };
+
+function walk(components: any[], parentPath: string[], out: Map<string, Located>) {
+  for (const c of components || []) {
+    if (!c) continue;
+    const key = ruleKeyFor(c);
+    if (key && typeof c.id === 'string') out.set(c.id, { key, parentPath });
+    if (Array.isArray(c.components)) {
+      // groups/dynamic lists with a path nest their children's data under it
+      const nested = typeof c.path === 'string' && c.path ? [...parentPath, ...c.path.split('.')] : parentPath;
+      walk(c.components, nested, out);
+    }
+  }
+}
+
+/** component id -> rule key and data location */
+export function keysById(schema: any): Map<string, Located> {
+  const out = new Map<string, Located>();
+  walk(schema?.components || [], [], out);
+  return out;
+}
+
+/**
+ * Keys that changed on a component that kept its id. A new key that was already in use
+ * elsewhere in the old schema is not treated as a rename (that's a swap/merge to review by hand).
+ */
+export function detectRenames(prevSchema: any, nextSchema: any): KeyRename[] {
+  if (!prevSchema || !nextSchema || prevSchema === nextSchema) return [];
+  const prev = keysById(prevSchema);
+  const next = keysById(nextSchema);
+  const prevKeys = new Set(Array.from(prev.values()).map(v => v.key));
+  const nextKeys = new Set(Array.from(next.values()).map(v => v.key));
+
+  const out: KeyRename[] = [];
+  next.forEach((n, id) => {
+    const p = prev.get(id);
+    if (!p || !n.key || p.key === n.key) return;
+    if (nextKeys.has(p.key) || prevKeys.has(n.key)) return;
+    out.push({ id, from: p.key, to: n.key, parentPath: p.parentPath });
+  });
+  return out;
+}
+
+/** Fold new renames into a pending list (a→b then b→c is a→c; a→b then b→a cancels). */
+export function mergeRenames(pending: KeyRename[], added: KeyRename[]): KeyRename[] {
+  const out = [...pending];
+  for (const r of added) {
+    const i = out.findIndex(p => p.id === r.id);
+    if (i < 0) { out.push(r); continue; }
+    if (out[i].from === r.to) out.splice(i, 1);
+    else out[i] = { ...out[i], to: r.to };
+  }
+  return out;
+}
+
+function renameInCell<T extends RoleCell>(cell: T, renames: KeyRename[]): T {
+  let next = cell;
+  for (const r of renames) {
+    const condition = next.condition ? renameIdentifier(next.condition, r.from, r.to) : next.condition;
+    const defaultValue = next.defaultValue?.trim().startsWith('=')
+      ? renameIdentifier(next.defaultValue, r.from, r.to)
+      : next.defaultValue;
+    if (condition !== next.condition || defaultValue !== next.defaultValue) {
+      next = { ...next, condition, defaultValue };
+    }
+  }
+  return next;
+}
+
+/**
+ * Move matrix rows to their new keys (the old row wins over a fresh row for the new key)
+ * and rewrite conditions/default expressions that mention a renamed key.
+ */
+export function renameMatrixKeys(matrix: BehaviorMatrixValue, renames: KeyRename[]): BehaviorMatrixValue {
+  if (!renames.length) return matrix;
+  const out: BehaviorMatrixValue = { ...matrix };
+  for (const r of renames) {
+    if (!out[r.from]) continue;
+    out[r.to] = out[r.from];
+    delete out[r.from];
+  }
+  for (const [key, row] of Object.entries(out)) {
+    let changed = false;
+    const nextRow: Record<string, FieldCell> = {};
+    for (const [state, cell] of Object.entries(row || {})) {
+      let nextCell = renameInCell(cell, renames);
+      if (cell.roles) {
+        const roles: Record<string, RoleCell> = {};
+        let rolesChanged = false;
+        for (const [role, rc] of Object.entries(cell.roles)) {
+          roles[role] = renameInCell(rc, renames);
+          rolesChanged = rolesChanged || roles[role] !== rc;
+        }
+        if (rolesChanged) nextCell = { ...nextCell, roles };
+      }
+      nextRow[state] = nextCell;
+      changed = changed || nextCell !== cell;
+    }
+    if (changed) out[key] = nextRow;
+  }
+  return out;
+}
+
+function renameAt(value: any, path: string[], from: string, to: string): any {
+  if (Array.isArray(value)) {
+    // dynamic list: rename inside every item
+    let changed = false;
+    const items = value.map(item => {
+      const n = renameAt(item, path, from, to);
+      changed = changed || n !== item;
+      return n;
+    });
+    return changed ? items : value;
+  }
+  if (!value || typeof value !== 'object') return value;
+  if (!path.length) {
+    if (!(from in value) || to in value) return value;
+    const { [from]: moved, ...rest } = value;
+    return { ...rest, [to]: moved };
+  }
+  const [head, ...tail] = path;
+  const inner = renameAt(value[head], tail, from, to);
+  return inner === value[head] ? value : { ...value, [head]: inner };
+}
+
+/** Rename properties in one entry's data; returns `data` itself when nothing moved. */
+export function renameDataKeys(data: Record<string, any>, renames: KeyRename[]): Record<string, any> {
+  let out = data;
+  for (const r of renames) {
+    const from = r.from.split('.');
+    const to = r.to.split('.');
+    // only a rename of the last segment maps onto a property move
+    if (from.length !== to.length || from.slice(0, -1).join('.') !== to.slice(0, -1).join('.')) continue;
+    out = renameAt(out, [...r.parentPath, ...from.slice(0, -1)], from[from.length - 1], to[to.length - 1]);
+  }
+  return out;
+}
+
+export interface EntryMigration {
+  entry: FormEntry;
+  data: Record<string, any>;   // migrated data
+}
+
+/** Entries of the form definition whose data would change (nothing is written). */
+export async function findEntriesToMigrate(formDefinitionId: string, renames: KeyRename[]): Promise<EntryMigration[]> {
+  const out: EntryMigration[] = [];
+  const limit = 100;
+  for (let offset = 0; ; offset += limit) {
+    const page = await listFormEntries({ limit, offset, form_definition_id: formDefinitionId });
+    const items = page.items || [];
+    for (const entry of items) {
+      if (entry.form_definition_id !== formDefinitionId) continue;
+      let parsed: Record<string, any>;
+      try { parsed = JSON.parse(entry.data || '{}'); } catch { continue; }
+      const data = renameDataKeys(parsed, renames);
+      if (data !== parsed) out.push({ entry, data });
+    }
+    if (!items.length || offset + items.length >= (page.total ?? 0)) break;
+  }
+  return out;
+}
+
+/** Write migrated entries one by one; failures are collected, not thrown. */
+export async function applyEntryMigrations(
+  list: EntryMigration[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ updated: number; failed: Array<{ id: string; error: string }> }> {
+  let updated = 0;
+  const failed: Array<{ id: string; error: string }> = [];
+  for (let i = 0; i < list.length; i++) {
+    const { entry, data } = list[i];
+    try {
+      await patchFormEntry(entry.id, { data: JSON.stringify(data) });
+      updated++;
+    } catch (e: any) {
+      failed.push({ id: entry.id, error: e?.message || String(e) });
+    }
+    onProgress?.(i + 1, list.length);
+  }
+  return { updated, failed };
+}
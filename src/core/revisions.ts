@@ -0,0 +1,203 @@
+// src/core/revisions.ts
+// Entry revision trail. Saving an entry that is already stored updates the form_entry row in
+// place; every save also appends a form_entry_revision row (who, when, which state, the data),
+// so reviewers can compare what changed between two saves, e.g. after a send-back.
+
+import {
+  FormEntry,
+  FormEntryRevision,
+  createFormEntry,
+  createFormEntryRevision,
+  getFormEntry,
+  listFormEntryRevisions,
+  patchFormEntry
+} from './api';
+import { stableJson } from './versions';
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  revision: number;
+  formDefinitionId: string;
+  state: string;
+  data: Record<string, any>;
+  at?: string;
+  by?: string;
+}
+
+function parseData(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  try { return JSON.parse(String(raw || '{}')) || {}; } catch { return {}; }
+}
+
+export function toEntryRevision(row: FormEntryRevision): EntryRevision {
+  return {
+    id: row.id,
+    entryId: row.form_entry_id,
+    revision: Number(row.revision) || 0,
+    formDefinitionId: row.form_definition_id,
+    state: row.state,
+    data: parseData(row.data),
+    at: row.created_at,
+    by: row.created_by
+  };
+}
+
+/** Revisions of one entry, newest first. */
+export async function listRevisions(entryId: string): Promise<EntryRevision[]> {
+  const out: EntryRevision[] = [];
+  const limit = 100;
+  for (let offset = 0; ; offset += limit) {
+    const page = await listFormEntryRevisions({ limit, offset, form_entry_id: entryId });
+    const items = page.items || [];
+    for (const row of items) if (row.form_entry_id === entryId) out.push(toEntryRevision(row));
+    if (!items.length || offset + items.length >= (page.total ?? 0)) break;
+  }
+  return out.sort((a, b) => b.revision - a.revision);
+}
+
+async function appendRevision(entry: FormEntry, state: string, by: string | undefined, previous: EntryRevision[]) {
+  const row = await createFormEntryRevision({
+    form_entry_id: entry.id,
+    revision: (previous[0]?.revision ?? 0) + 1,
+    form_definition_id: entry.form_definition_id,
+    state,
+    data: entry.data,
+    ...(by ? { created_by: by } : {})
+  });
+  return toEntryRevision(row);
+}
+
+/**
+ * Record a save of `entryId` that happened elsewhere (e.g. through a DataSource) as the next
+ * revision. Reads the stored row back so the trail holds exactly what the server has.
+ */
+export async function recordEntryRevision(entryId: string, state: string, by?: string): Promise<EntryRevision> {
+  const [entry, previous] = await Promise.all([getFormEntry(entryId), listRevisions(entryId)]);
+  return appendRevision(entry, state, by, previous);
+}
+
+export interface SaveEntryResult {
+  entry: FormEntry;
+  /** null when the entry was saved but the trail could not be written */
+  revision: EntryRevision | null;
+}
+
+/**
+ * Create the entry, or update it in place when `entryId` is given, and append a revision.
+ * An entry saved before revisions existed gets its stored data recorded as revision 1 first,
+ * so the first update still has something to compare against.
+ */
+export async function saveEntryRevision(p: {
+  entryId?: string;
+  formDefinitionId: string;
+  processInstanceId: string;
+  legalEntityId: string;
+  data: Record<string, any>;
+  state: string;
+  by?: string;
+}): Promise<SaveEntryResult> {
+  const data = JSON.stringify({ ...p.data, formState: p.state });
+  let previous: EntryRevision[] = [];
+  let entry: FormEntry;
+
+  if (p.entryId) {
+    previous = await listRevisions(p.entryId).catch(() => []);
+    if (!previous.length) {
+      try {
+        const stored = await getFormEntry(p.entryId);
+        const baseline = parseData(stored.data);
+        previous = [await appendRevision(stored, String(baseline.formState ?? p.state), stored.updated_by ?? stored.created_by, [])];
+      } catch (e) {
+        console.warn('Recording the baseline revision failed:', e);
+      }
+    }
+    entry = await patchFormEntry(p.entryId, {
+      data,
+      form_definition_id: p.formDefinitionId,
+      ...(p.by ? { updated_by: p.by } : {})
+    });
+  } else {
+    entry = await createFormEntry({
+      form_definition_id: p.formDefinitionId,
+      process_instance_id: p.processInstanceId,
+      legal_entity_id: p.legalEntityId,
+      data,
+      ...(p.by ? { created_by: p.by } : {})
+    });
+  }
+
+  try {
+    // the PATCH response may be partial: the trail stores what was sent
+    const saved = { ...entry, id: entry.id ?? p.entryId, form_definition_id: p.formDefinitionId, data };
+    return { entry: saved, revision: await appendRevision(saved, p.state, p.by, previous) };
+  } catch (e) {
+    console.warn('Writing the entry revision failed:', e);
+    return { entry, revision: null };
+  }
+}
+
+/* ---------------- field-level diff ---------------- */
+
+export interface DataChange {
+  path: string;          // dotted data path; lists compare as a whole
+  kind: 'added' | 'removed' | 'changed';
+  before: any;
+  after: any;
+}
+
+const isPlainObject = (v: any) => !!v && typeof v === 'object' && !Array.isArray(v);
+const isBlank = (v: any) => v === undefined || v === null || v === '';
+
+/** Which fields differ between two data objects (`formState` is bookkeeping, not a field). */
+export function diffEntryData(before: Record<string, any>, after: Record<string, any>): DataChange[] {
+  const out: DataChange[] = [];
+  const walk = (a: any, b: any, prefix: string) => {
+    const keys = Array.from(new Set([...Object.keys(a || {}), ...Object.keys(b || {})])).sort();
+    for (const k of keys) {
+      if (!prefix && k === 'formState') continue;
+      const path = prefix ? `${prefix}.${k}` : k;
+      const x = a?.[k];
+      const y = b?.[k];
+      if (isPlainObject(x) && isPlainObject(y)) { walk(x, y, path); continue; }
+      if (isBlank(x) && isBlank(y)) continue;
+      if (stableJson(x) === stableJson(y)) continue;
+      out.push({ path, kind: isBlank(x) ? 'added' : isBlank(y) ? 'removed' : 'changed', before: x, after: y });
+    }
+  };
+  walk(before, after, '');
+  return out;
+}
+
+const shortValue = (v: any) => {
+  if (isBlank(v)) return '(empty)';
+  const s = typeof v === 'string' ? v : JSON.stringify(v);
+  return s.length > 80 ? `${s.slice(0, 79)}…` : s;
+};
+
+export const describeChange = (c: DataChange) => `${shortValue(c.before)} → ${shortValue(c.after)}`;
+
+/**
+ * Copy of `schema` that marks the components whose data changed: a "●" before the label and
+ * the previous value as description. Groups with a `path` nest their children's data.
+ */
+export function markChangedFields(schema: any, changes: DataChange[]): any {
+  const byPath = new Map(changes.map(c => [c.path, c]));
+  const mark = (components: any[], prefix: string): any[] =>
+    (components || []).map(c => {
+      if (!c) return c;
+      const own = c.key ? `${prefix}${c.key}` : c.path ? `${prefix}${c.path}` : '';
+      const change = own ? byPath.get(own) : undefined;
+      const next = { ...c };
+      if (change) {
+        next.label = `● ${c.label || c.key || c.path}`;
+        next.description = `Was: ${shortValue(change.before)}${c.description ? ` — ${c.description}` : ''}`;
+      }
+      // dynamic lists compare as a whole, their children are not marked one by one
+      if (Array.isArray(c.components) && c.type !== 'dynamiclist') {
+        next.components = mark(c.components, c.path ? `${prefix}${c.path}.` : prefix);
+      }
+      return next;
+    });
+  return { ...schema, components: mark(schema?.components || [], '') };
+}
@@ -0,0 +1,45 @@
+// src/core/roles.ts
+// Role axis of the behavior matrix: a cell holds the default for everyone plus optional
+// per-role overrides (matrix[field][state].roles[role]).
+
+import type { FieldCell, RoleCell } from './types';
+
+/** Role names from schema_v3.json (users.roles enum); replaced by /roles rows when available. */
+export const DEFAULT_ROLES: string[] = ['user', 'manager', 'admin'];
+
+/** Normalize role rows (or plain names) to unique, non-empty names. */
+export function toRoleNames(rows: Array<string | { name?: string }> | null | undefined): string[] {
+  const out: string[] = [];
+  for (const r of rows || []) {
+    const name = typeof r === 'string' ? r : r?.name;
+    if (name && name.trim() && !out.includes(name)) out.push(name);
+  }
+  return out;
+}
+
+/** The cell as seen by `role` (no role / no override → the default cell, without the roles map). */
+export function cellForRole(cell: FieldCell, role?: string | null): RoleCell {
+  const { roles, ...base } = cell;
+  const override = role ? roles?.[role] : undefined;
+  return override ? { ...override } : base;
+}
+
+export function hasRoleOverride(cell: FieldCell | undefined, role?: string | null): boolean {
+  return !!(role && cell?.roles?.[role]);
+}
+
+/** Apply `patch` for `role` (or to the default when role is empty). Returns a new cell. */
+export function patchCellForRole(cell: FieldCell, role: string | null | undefined, patch: Partial<RoleCell>): FieldCell {
+  if (!role) return { ...cell, ...patch };
+  const current = cellForRole(cell, role);
+  return { ...cell, roles: { ...(cell.roles || {}), [role]: { ...current, ...patch } } };
+}
+
+/** Drop the override for `role`, so it follows the default again. Returns a new cell. */
+export function clearRoleOverride(cell: FieldCell, role: string): FieldCell {
+  if (!cell.roles?.[role]) return cell;
+  const { [role]: _dropped, ...rest } = cell.roles;
+  const next: FieldCell = { ...cell, roles: rest };
+  if (!Object.keys(rest).length) delete next.roles;
+  return next;
+}
@@ -24,34 +24,69 @@ export function extractFieldKeys(components: any[] = [], acc: string[] = []): st
   return acc;
 }
 
+// Components that can carry a behavior rule for everything inside them
+export const CONTAINER_TYPES = new Set(['group', 'dynamiclist', 'table']);
+
+export function isContainer(c: any): boolean {
+  return !!c && (CONTAINER_TYPES.has(c.type) || Array.isArray(c.components));
+}
+
+/**
+ * Key under which a component's behavior rule is stored.
+ * Fields use `key`; containers often have none, so fall back to `path`
+ * (dynamic lists, groups with a path), then the table data source, then the stable `id`.
+ */
+export function ruleKeyFor(c: any): string | undefined {
+  if (!c) return undefined;
+  if (typeof c.key === 'string' && c.key) return c.key;
+  if (!isContainer(c)) return undefined;
+  if (typeof c.path === 'string' && c.path) return c.path;
+  if (typeof c.dataSource === 'string' && c.dataSource) return c.dataSource.replace(/^=/, '');
+  if (typeof c.id === 'string' && c.id) return c.id;
+  return undefined;
+}
+
 // ADD near the top or export block
 export interface FieldMeta {
   key: string;
   label?: string;
   type?: string;
+  parent?: string;      // rule key of the nearest container above (if any)
+  depth?: number;       // 0 = top level
+  container?: boolean;  // group / dynamic list / table
 }
 
-// NEW: extract fields with labels (recursive)
-export function extractFields(components: any[] = [], acc: FieldMeta[] = []): FieldMeta[] {
+// NEW: extract fields with labels (recursive, in schema order; containers included)
+export function extractFields(
+  components: any[] = [],
+  acc: FieldMeta[] = [],
+  parent?: string,
+  depth = 0
+): FieldMeta[] {
   for (const c of components || []) {
     if (!c) continue;
 
     // Skip pure display components
     if (c.type === 'text' || c.type === 'button') {
-      if (Array.isArray(c.components)) extractFields(c.components, acc);
+      if (Array.isArray(c.components)) extractFields(c.components, acc, parent, depth);
       continue;
     }
 
-    if (c.key && typeof c.key === 'string') {
+    const key = ruleKeyFor(c);
+    const container = isContainer(c);
+    if (key) {
       const label =
         (typeof c.label === 'string' && c.label.trim()) ||
         (typeof c.text === 'string' && c.text.trim()) ||
-        c.key;
+        key;
 
-      acc.push({ key: c.key, label, type: c.type });
+      acc.push({ key, label, type: c.type, parent, depth, ...(container ? { container } : {}) });
     }
 
-    if (Array.isArray(c.components)) extractFields(c.components, acc);
+    if (Array.isArray(c.components)) {
+      // children of a keyless container hang off the next container up
+      extractFields(c.components, acc, key && container ? key : parent, key && container ? depth + 1 : depth);
+    }
   }
   return acc;
 }
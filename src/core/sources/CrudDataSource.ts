@@ -1,6 +1,9 @@
 import { DataSource, FormDefinitionDTO, FormEntryDTO } from '../datasource';
-import { BehaviorBundle } from '../types';
+import { BehaviorBundle, StateOption } from '../types';
 import { GeneratedCrudProvider } from '../persistence';
+import { toStateOptions, workflowOrder } from '../states';
+import { toRoleNames } from '../roles';
+import { ApiClient, http } from '../http';
 
 /**
  * DataSource for schema-generated CRUD endpoints:
@@ -8,9 +11,11 @@ import { GeneratedCrudProvider } from '../persistence';
  */
 export class CrudDataSource implements DataSource {
   private provider: GeneratedCrudProvider;
+  private http: ApiClient;
 
-  constructor(private apiBase: string) {
-    this.provider = new GeneratedCrudProvider(apiBase);
+  constructor(apiBase: string) {
+    this.http = http.withBase(apiBase);
+    this.provider = new GeneratedCrudProvider(apiBase, this.http);
   }
 
   async getFormDefinition(formId: string): Promise<FormDefinitionDTO | null> {
@@ -34,22 +39,33 @@ export class CrudDataSource implements DataSource {
 
   async getEntry(entryId: string): Promise<FormEntryDTO | null> {
     try {
-      const res = await fetch(`${this.apiBase}/form_entry/${encodeURIComponent(entryId)}`, {
-        headers: { 'Accept': 'application/json' }
-      });
-      if (!res.ok) return null;
-      const row = await res.json();
+      const row = await this.http.get<any>(`/form_entry/${encodeURIComponent(entryId)}`);
       return { id: row.id, formId: row.form_id, state: row.state, data: row.content_json };
     } catch { return null; }
   }
 
+  /** Updates in place when `entry.id` is set; otherwise creates and returns the new id. */
   async saveEntry(entry: FormEntryDTO): Promise<FormEntryDTO> {
-    const { formId, state, data } = entry;
-    await this.provider.saveEntry(formId, data, state);
-    return entry;
+    const { id, formId, state, data } = entry;
+    const row = id
+      ? await this.provider.updateEntry(id, data, state)
+      : await this.provider.saveEntry(formId, data, state);
+    return { ...entry, id: row?.id ?? id };
   }
 
-  async listStates(): Promise<string[]> {
-    return ['entry', 'review.section1', 'review.section2', 'approve'];
+  /**
+   * States come from the workflow_state table, in the order its workflow_transition rows walk
+   * it (the capture state first); callers fall back to defaults on [].
+   */
+  async listStates(): Promise<StateOption[]> {
+    const body = await this.http.get<any>('/workflow_state/', { query: { limit: 200, sort: 'created_at' } });
+    const transitions = await this.http.get<any>('/workflow_transition/', { query: { limit: 500 } }).catch(() => []);
+    return workflowOrder(toStateOptions(Array.isArray(body) ? body : body?.items), Array.isArray(transitions) ? transitions : transitions?.items);
+  }
+
+  /** Role names from the roles table (for the matrix role axis). */
+  async listRoles(): Promise<string[]> {
+    const body = await this.http.get<any>('/roles/', { query: { limit: 200 } });
+    return toRoleNames(Array.isArray(body) ? body : body?.items);
   }
 }
@@ -1,5 +1,5 @@
 import { DataSource, FormDefinitionDTO, FormEntryDTO } from '../datasource';
-import { BehaviorBundle } from '../types';
+import { BehaviorBundle, StateOption } from '../types';
 import { FormsDataSource } from './formsDataSource';  // ← use your forms DS as primary
 import { CrudDataSource } from './CrudDataSource';
 
@@ -62,7 +62,12 @@ export class CompositeDataSource implements DataSource {
   }
 
   // ---------- Optional states ----------
-  listStates(formId: string): Promise<string[]> {
+  listStates(formId: string): Promise<StateOption[]> {
     return this.prefer(ds => (ds.listStates ? ds.listStates(formId) : Promise.resolve([])));
   }
+
+  // ---------- Optional roles ----------
+  listRoles(): Promise<string[]> {
+    return this.prefer(ds => (ds.listRoles ? ds.listRoles() : Promise.resolve([])));
+  }
 }
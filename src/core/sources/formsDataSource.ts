@@ -1,8 +1,15 @@
 // src/core/sources/formsDataSource.ts
 import { DataSource, FormDefinitionDTO, FormEntryDTO } from '../datasource';
-import { BehaviorBundle } from '../types';
+import { BehaviorBundle, StateOption } from '../types';
+import { beyondFlatRows, matrixFromBundles } from '../behaviors';
+import { toStateOptions, workflowOrder } from '../states';
+import { toRoleNames } from '../roles';
+import { ApiClient, http } from '../http';
 
-/** Backend row shape for task_field_behavior (adjust if your server differs) */
+/**
+ * Backend row shape for task_field_behavior (adjust if your server differs).
+ * The table takes no other columns (additionalProperties: false).
+ */
 type TaskFieldBehaviorRow = {
   id: string;
   task_definition_id?: string;
@@ -15,27 +22,15 @@ type TaskFieldBehaviorRow = {
 };
 
 export class FormsDataSource implements DataSource {
-  constructor(private baseUrl: string, private headers: Record<string, string> = {}) {}
+  private http: ApiClient;
 
-  // ---------- low-level fetch helper ----------
-  private url(p: string) {
-    return `${this.baseUrl.replace(/\/+$/, '')}${p}`;
+  constructor(baseUrl: string, headers: Record<string, string> = {}) {
+    this.http = http.withBase(baseUrl, headers);
   }
 
-  private async j<T>(path: string, init?: RequestInit): Promise<T> {
-    const res = await fetch(this.url(path), {
-      ...init,
-      headers: { 'Content-Type': 'application/json', ...this.headers, ...(init?.headers || {}) }
-    });
-    if (!res.ok) {
-      let details: any = undefined;
-      try { details = await res.json(); } catch { /* ignore */ }
-      const err = new Error(`${res.status} ${res.statusText}`) as any;
-      err.status = res.status;
-      err.details = details;
-      throw err;
-    }
-    return (res.status === 204) ? (undefined as unknown as T) : (await res.json() as T);
+  // ---------- low-level fetch helper ----------
+  private j<T>(path: string, init: { method?: string; body?: any } = {}): Promise<T> {
+    return this.http.request<T>(path, init);
   }
 
   private isMiss(e: unknown): boolean {
@@ -105,7 +100,16 @@ export class FormsDataSource implements DataSource {
       } catch {
         schema = r.form_schema ?? {};
       }
-      return { id: r.id ?? formId, schema, version: r.version };
+      return {
+        id: r.id ?? formId,
+        schema,
+        version: r.version,
+        name: r.name,
+        is_active: r.is_active,
+        status: r.status,
+        updated_at: r.updated_at,
+        field_state_setting: r.field_state_setting
+      };
     } catch (e) {
       if (!this.isMiss(e)) throw e;
     }
@@ -127,7 +131,7 @@ export class FormsDataSource implements DataSource {
       const body = { form_schema: JSON.stringify(schema) };
       const r = await this.j<any>(
         `/form_definition/${encodeURIComponent(formId)}`,
-        { method: 'PATCH', body: JSON.stringify(body) }
+        { method: 'PATCH', body }
       );
       let saved: any = {};
       try {
@@ -145,7 +149,7 @@ export class FormsDataSource implements DataSource {
     if (version !== undefined) body.version = version;
     const out = await this.j<{ schema: any; version?: number }>(
       `/forms/${encodeURIComponent(formId)}/schema`,
-      { method: 'PUT', body: JSON.stringify(body) }
+      { method: 'PUT', body }
     );
     return { id: formId, schema: out?.schema ?? schema, version: out?.version ?? version };
   }
@@ -172,18 +176,26 @@ export class FormsDataSource implements DataSource {
     try {
       await this.j<BehaviorBundle[]>(
         `/forms/${encodeURIComponent(formId)}/behaviors`,
-        { method: 'PUT', body: JSON.stringify(bundles) }
+        { method: 'PUT', body: bundles }
       );
       return;
     } catch (e) {
       if (!this.isMiss(e)) throw e;
     }
 
-    // 2) FastAPI-native bulk upsert (adjust path if your API differs)
+    // 2) FastAPI-native bulk upsert (adjust path if your API differs); refuse rather than
+    //    silently drop settings the flat rows cannot hold
+    const unstorable = beyondFlatRows(matrixFromBundles(bundles));
+    if (unstorable.length) {
+      throw new Error(
+        `task_field_behavior only stores visible / editable / required; these behavior rules need more: ${unstorable.join('; ')}. ` +
+        'Publish a version to keep the whole matrix with the form definition.'
+      );
+    }
     const rows = this.fromBundles(formId, bundles);
     await this.j<any>(
       `/task_field_behavior/bulk`,
-      { method: 'PUT', body: JSON.stringify(rows) }
+      { method: 'PUT', body: rows }
     );
   }
 
@@ -204,12 +216,31 @@ export class FormsDataSource implements DataSource {
   }
 
   async saveEntry(entry: FormEntryDTO): Promise<FormEntryDTO> {
+    // Known id: update in place (façade first, then FastAPI-native)
+    if (entry.id) {
+      const { id, formId, state, data } = entry;
+      try {
+        const row = await this.j<FormEntryDTO>(
+          `/forms/${encodeURIComponent(formId)}/entries/${encodeURIComponent(id)}`,
+          { method: 'PUT', body: { data, formState: state } }
+        );
+        return { ...entry, ...row, id };
+      } catch (e) {
+        if (!this.isMiss(e)) throw e;
+      }
+      await this.j<any>(`/form_entry/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: { data: typeof data === 'string' ? data : JSON.stringify({ ...data, formState: state }) }
+      });
+      return entry;
+    }
+
     // Prefer façade (server assigns id)
     try {
       const { formId, state, data } = entry as any;
       return await this.j<FormEntryDTO>(
         `/forms/${encodeURIComponent(formId)}/entries`,
-        { method: 'POST', body: JSON.stringify({ data, formState: state }) }
+        { method: 'POST', body: { data, formState: state } }
       );
     } catch (e) {
       if (!this.isMiss(e)) throw e;
@@ -223,13 +254,33 @@ export class FormsDataSource implements DataSource {
       legal_entity_id: (entry as any).legalEntityId ?? null,
       state: (entry as any).state
     };
-    return await this.j<FormEntryDTO>(`/form_entry/`, { method: 'POST', body: JSON.stringify(body) });
+    return await this.j<FormEntryDTO>(`/form_entry/`, { method: 'POST', body });
+  }
+
+  async listStates(formId: string): Promise<StateOption[]> {
+    // 1) Façade: per-form list (names or workflow_state rows)
+    try {
+      const rows = await this.j<any[]>(`/forms/${encodeURIComponent(formId)}/states`);
+      return toStateOptions(rows);
+    } catch (e) {
+      if (!this.isMiss(e)) return [];
+    }
+
+    // 2) FastAPI-native workflow_state table, in the order the transitions walk it
+    try {
+      const res = await this.j<any>(`/workflow_state/?limit=200&sort=created_at`);
+      const states = toStateOptions(Array.isArray(res) ? res : res?.items);
+      const transitions = await this.j<any>(`/workflow_transition/?limit=500`).catch(() => []);
+      return workflowOrder(states, Array.isArray(transitions) ? transitions : transitions?.items);
+    } catch {
+      return [];
+    }
   }
 
-  async listStates(formId: string): Promise<string[]> {
-    // If façade provides a states list
+  async listRoles(): Promise<string[]> {
     try {
-      return await this.j<string[]>(`/forms/${encodeURIComponent(formId)}/states`);
+      const res = await this.j<any>(`/roles/?limit=200`);
+      return toRoleNames(Array.isArray(res) ? res : res?.items);
     } catch {
       return [];
     }
@@ -0,0 +1,89 @@
+// src/core/sources/localDataSource.ts
+import { DataSource, FormDefinitionDTO, FormEntryDTO } from '../datasource';
+import { BehaviorBundle, StateOption } from '../types';
+import { idbDatabase, idbRun } from '../idb';
+
+/**
+ * Object stores of the offline database:
+ *   definitions / behaviors / entries — last known copies, keyed by form id / entry id
+ *   lists — cached states / roles and small bookkeeping values
+ *   queue — writes waiting for the server (core/syncQueue.ts)
+ */
+export const OFFLINE_DB = idbDatabase('form-js-offline', 1, db => {
+  db.createObjectStore('definitions', { keyPath: 'id' });
+  db.createObjectStore('behaviors');
+  db.createObjectStore('entries', { keyPath: 'id' });
+  db.createObjectStore('lists');
+  db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true });
+});
+
+/** Ids of entries created while offline; replaced by the server id once synced. */
+export const LOCAL_ID_PREFIX = 'local:';
+export const isLocalId = (id?: string | null) => !!id && id.startsWith(LOCAL_ID_PREFIX);
+
+function newLocalId() {
+  const rnd = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${LOCAL_ID_PREFIX}${rnd}`;
+}
+
+/**
+ * DataSource over IndexedDB only. Used by OfflineDataSource as the copy it reads while the
+ * server is unreachable; writes here never reach the server by themselves.
+ */
+export class LocalDataSource implements DataSource {
+  async getFormDefinition(formId: string): Promise<FormDefinitionDTO | null> {
+    return (await idbRun<FormDefinitionDTO>(OFFLINE_DB, 'definitions', 'readonly', s => s.get(formId))) ?? null;
+  }
+
+  async saveFormDefinition(formId: string, schema: any, version?: number): Promise<FormDefinitionDTO> {
+    const dto: FormDefinitionDTO = { id: formId, schema, version };
+    await idbRun(OFFLINE_DB, 'definitions', 'readwrite', s => s.put(dto));
+    return dto;
+  }
+
+  /** Keep the whole definition (name, matrix, …) as the offline copy of `formId`. */
+  async cacheFormDefinition(formId: string, def: FormDefinitionDTO): Promise<void> {
+    await idbRun(OFFLINE_DB, 'definitions', 'readwrite', s => s.put({ ...def, id: formId }));
+  }
+
+  async getBehaviors(formId: string): Promise<BehaviorBundle[]> {
+    return (await idbRun<BehaviorBundle[]>(OFFLINE_DB, 'behaviors', 'readonly', s => s.get(formId))) ?? [];
+  }
+
+  async saveBehaviors(formId: string, bundles: BehaviorBundle[]): Promise<void> {
+    await idbRun(OFFLINE_DB, 'behaviors', 'readwrite', s => s.put(bundles, formId));
+  }
+
+  async getEntry(entryId: string): Promise<FormEntryDTO | null> {
+    return (await idbRun<FormEntryDTO>(OFFLINE_DB, 'entries', 'readonly', s => s.get(entryId))) ?? null;
+  }
+
+  /** An entry without id gets a local one (see isLocalId). */
+  async saveEntry(entry: FormEntryDTO): Promise<FormEntryDTO> {
+    const saved = { ...entry, id: entry.id || newLocalId() };
+    await idbRun(OFFLINE_DB, 'entries', 'readwrite', s => s.put(saved));
+    return saved;
+  }
+
+  async removeEntry(entryId: string): Promise<void> {
+    await idbRun(OFFLINE_DB, 'entries', 'readwrite', s => s.delete(entryId));
+  }
+
+  async listStates(formId: string): Promise<StateOption[]> {
+    return (await idbRun<StateOption[]>(OFFLINE_DB, 'lists', 'readonly', s => s.get(`states:${formId}`))) ?? [];
+  }
+
+  async cacheStates(formId: string, states: StateOption[]): Promise<void> {
+    await idbRun(OFFLINE_DB, 'lists', 'readwrite', s => s.put(states, `states:${formId}`));
+  }
+
+  async listRoles(): Promise<string[]> {
+    return (await idbRun<string[]>(OFFLINE_DB, 'lists', 'readonly', s => s.get('roles'))) ?? [];
+  }
+
+  async cacheRoles(roles: string[]): Promise<void> {
+    await idbRun(OFFLINE_DB, 'lists', 'readwrite', s => s.put(roles, 'roles'));
+  }
+}
@@ -0,0 +1,213 @@
+// src/core/sources/offlineDataSource.ts
+import { DataSource, FormDefinitionDTO, FormEntryDTO } from '../datasource';
+import { BehaviorBundle, StateOption } from '../types';
+import { LocalDataSource, isLocalId } from './localDataSource';
+import { QueuedOp, SyncQueue, isTransientError } from '../syncQueue';
+import type { FormDefinition } from '../api';
+import { PublishVersionInput, publishVersion } from '../versions';
+
+/**
+ * Offline-capable wrapper around a remote DataSource.
+ * - Reads go to the server and refresh the local IndexedDB copy; when the server can't be
+ *   reached the local copy is returned instead.
+ * - Writes go to the server while it is reachable and nothing is queued. Otherwise (or when the
+ *   request fails for network reasons) they are stored locally and queued; entries created that
+ *   way get a `local:` id until the queue has synced them.
+ * - The queue is replayed when the browser reports being online again, or via sync().
+ */
+export class OfflineDataSource implements DataSource {
+  readonly local = new LocalDataSource();
+  readonly queue = new SyncQueue();
+
+  // what write() returned from the local store because the change was queued
+  private queued = new WeakSet<object>();
+
+  private onOnline = () => { this.queue.setOnline(true); this.syncInBackground(); };
+  private onOffline = () => this.queue.setOnline(false);
+
+  /**
+   * Starts replaying right away and on every `online` event. Keep one instance per page: two
+   * would replay the same IndexedDB queue side by side and send its writes twice.
+   */
+  constructor(private remote: DataSource) {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onOnline);
+      window.addEventListener('offline', this.onOffline);
+    }
+    this.syncInBackground();
+  }
+
+  /** Stop listening for connectivity changes. */
+  dispose() {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onOnline);
+      window.removeEventListener('offline', this.onOffline);
+    }
+  }
+
+  private get online() {
+    return this.queue.snapshot.online;
+  }
+
+  /** Replay queued writes; safe to call any time (no-op while offline or already syncing). */
+  async sync(): Promise<void> {
+    if (!this.online) return;
+    await this.queue.replay(this.remote, (op, result, original) => this.afterSync(op, result, original));
+  }
+
+  private syncInBackground() {
+    this.sync().catch(e => console.warn('Sync failed:', e));
+  }
+
+  private async afterSync(op: QueuedOp, result: any, original: QueuedOp) {
+    if (op.kind === 'saveEntry' && original.kind === 'saveEntry') {
+      if (isLocalId(original.entry.id)) await this.local.removeEntry(original.entry.id!);
+      await this.local.saveEntry({ ...op.entry, ...(result || {}) });
+    } else if (op.kind === 'saveFormDefinition' && result) {
+      await this.local.saveFormDefinition(op.formId, result.schema ?? op.schema, result.version ?? op.version);
+    }
+  }
+
+  /** Server first; the local copy when offline or unreachable. */
+  private async read<T>(remote: () => Promise<T>, local: () => Promise<T>, cache: (v: T) => Promise<void>): Promise<T> {
+    if (this.online) {
+      try {
+        const value = await remote();
+        await cache(value).catch(e => console.warn('Updating the offline copy failed:', e));
+        return value;
+      } catch (e) {
+        if (!isTransientError(e)) throw e;
+        console.warn('Server unreachable, using the offline copy:', e);
+      }
+    }
+    return local();
+  }
+
+  /** Server when reachable and nothing is waiting ahead of us (keeps writes in order); else queue. */
+  private async write<T>(op: (stored: T) => QueuedOp, remote: () => Promise<T>, local: () => Promise<T>, cache: (v: T) => Promise<void>): Promise<T> {
+    if (this.online && !(await this.queue.hasPending())) {
+      try {
+        const value = await remote();
+        await cache(value).catch(e => console.warn('Updating the offline copy failed:', e));
+        return value;
+      } catch (e) {
+        if (!isTransientError(e)) throw e;
+        console.warn('Server unreachable, queueing the change:', e);
+      }
+    }
+    const value = await local();
+    await this.queue.enqueue(op(value));
+    if (value && typeof value === 'object') this.queued.add(value as any);
+    return value;
+  }
+
+  /** Whether `result` (as returned by a write such as saveEntry) was queued instead of sent. */
+  wasQueued(result: unknown): boolean {
+    return !!result && typeof result === 'object' && this.queued.has(result);
+  }
+
+  // ---------- Form Definition ----------
+  getFormDefinition(formId: string): Promise<FormDefinitionDTO | null> {
+    return this.read(
+      () => this.remote.getFormDefinition(formId),
+      () => this.local.getFormDefinition(formId),
+      async def => { if (def) await this.local.cacheFormDefinition(formId, def); }
+    );
+  }
+
+  saveFormDefinition(formId: string, schema: any, version?: number): Promise<FormDefinitionDTO> {
+    return this.write(
+      () => ({ kind: 'saveFormDefinition', formId, schema, version }),
+      () => this.remote.saveFormDefinition(formId, schema, version),
+      () => this.local.saveFormDefinition(formId, schema, version),
+      async def => { await this.local.saveFormDefinition(formId, def?.schema ?? schema, def?.version ?? version); }
+    );
+  }
+
+  /**
+   * Publish a new form version (core/versions.ts). Queued like any other write: the queued
+   * result is a placeholder row without an id (see wasQueued), and the conflict check against
+   * `base` runs when the queue replays.
+   */
+  publishVersion(input: PublishVersionInput): Promise<FormDefinition> {
+    return this.write<FormDefinition>(
+      () => ({ kind: 'publishVersion', input }),
+      () => publishVersion(input),
+      async () => ({
+        id: '',
+        name: input.name,
+        version: 0,   // numbered when it reaches the server
+        form_schema: JSON.stringify(input.schema),
+        field_state_setting: JSON.stringify(input.matrix || {}),
+        is_active: false
+      }),
+      async () => {}
+    );
+  }
+
+  // ---------- Behaviors ----------
+  getBehaviors(formId: string): Promise<BehaviorBundle[]> {
+    return this.read(
+      () => this.remote.getBehaviors(formId),
+      () => this.local.getBehaviors(formId),
+      bundles => this.local.saveBehaviors(formId, bundles)
+    );
+  }
+
+  saveBehaviors(formId: string, bundles: BehaviorBundle[]): Promise<void> {
+    return this.write(
+      () => ({ kind: 'saveBehaviors', formId, bundles }),
+      () => this.remote.saveBehaviors(formId, bundles),
+      () => this.local.saveBehaviors(formId, bundles),
+      () => this.local.saveBehaviors(formId, bundles)
+    );
+  }
+
+  // ---------- Entries ----------
+  async getEntry(entryId: string): Promise<FormEntryDTO | null> {
+    const id = this.queue.resolveId(entryId);
+    if (isLocalId(id)) return this.local.getEntry(id);
+    return this.read(
+      () => this.remote.getEntry(id),
+      () => this.local.getEntry(id),
+      async entry => { if (entry) await this.local.saveEntry({ ...entry, id }); }
+    );
+  }
+
+  /** Offline saves of a new entry return it with a `local:` id (see isLocalId). */
+  async saveEntry(entry: FormEntryDTO): Promise<FormEntryDTO> {
+    // an entry created offline that has synced since: update the server row
+    const id = entry.id ? this.queue.resolveId(entry.id) : undefined;
+    if (isLocalId(id)) {
+      // still unsynced: its create is queued, so this update has to queue behind it
+      const saved = await this.local.saveEntry({ ...entry, id });
+      await this.queue.enqueue({ kind: 'saveEntry', entry: saved });
+      this.queued.add(saved);
+      return saved;
+    }
+    const toSave = { ...entry, id };
+    return this.write(
+      stored => ({ kind: 'saveEntry', entry: stored }),
+      () => this.remote.saveEntry(toSave),
+      () => this.local.saveEntry(toSave),
+      async saved => { if (saved?.id) await this.local.saveEntry({ ...toSave, ...saved }); }
+    );
+  }
+
+  // ---------- Optional lists ----------
+  listStates(formId: string): Promise<StateOption[]> {
+    return this.read(
+      () => (this.remote.listStates ? this.remote.listStates(formId) : Promise.resolve([])),
+      () => this.local.listStates(formId),
+      states => this.local.cacheStates(formId, states)
+    );
+  }
+
+  listRoles(): Promise<string[]> {
+    return this.read(
+      () => (this.remote.listRoles ? this.remote.listRoles() : Promise.resolve([])),
+      () => this.local.listRoles(),
+      roles => this.local.cacheRoles(roles)
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { DEFAULT_STATES, captureState, workflowOrder } from './states';
+
+const state = (name: string) => ({ id: name, label: name, rowId: `row-${name}` });
+const move = (from: string, to: string) => ({ from_state_id: `row-${from}`, to_state_id: `row-${to}` });
+const ids = (list: { id: string }[]) => list.map(s => s.id);
+
+describe('workflowOrder', () => {
+  // sorted by name, the way a list endpoint returns them
+  const byName = ['approve', 'entry', 'review1', 'review2'].map(state);
+
+  test('starts with the state no transition leads into, then follows the transitions', () => {
+    const ordered = workflowOrder(byName, [move('review2', 'approve'), move('entry', 'review1'), move('review1', 'review2')]);
+    expect(ids(ordered)).toEqual(['entry', 'review1', 'review2', 'approve']);
+    expect(captureState(ordered)).toBe('entry');
+  });
+
+  test('keeps states the transitions never reach at the end', () => {
+    const ordered = workflowOrder([...byName, state('archived')], [move('entry', 'approve')]);
+    expect(ids(ordered)).toEqual(['entry', 'approve', 'review1', 'review2', 'archived']);
+  });
+
+  test('ignores self-loops when looking for the initial state', () => {
+    expect(ids(workflowOrder(byName, [move('entry', 'entry'), move('entry', 'approve')]))[0]).toBe('entry');
+  });
+
+  test('falls back to the list order without transitions or without a way in', () => {
+    expect(workflowOrder(byName, [])).toBe(byName);
+    expect(workflowOrder(byName, null)).toBe(byName);
+    const loop = [move('approve', 'entry'), move('entry', 'review1'), move('review1', 'approve')];
+    expect(ids(workflowOrder(byName, loop))).toEqual(ids(byName));
+  });
+
+  test('matches states without a row id by name', () => {
+    const ordered = workflowOrder(DEFAULT_STATES.slice().reverse(), [
+      { from_state_id: 'entry', to_state_id: 'review.section1' },
+      { from_state_id: 'review.section1', to_state_id: 'approve' }
+    ]);
+    expect(ids(ordered)).toEqual(['entry', 'review.section1', 'approve', 'review.section2']);
+  });
+});
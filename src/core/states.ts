@@ -0,0 +1,131 @@
+// src/core/states.ts
+// Workflow states: defaults, normalization of backend rows and matrix upkeep on add/rename/remove.
+
+import type { BehaviorMatrixValue, StateOption } from './types';
+
+/** Used until the backend tells us otherwise (and when it has no workflow_state rows). */
+export const DEFAULT_STATES: StateOption[] = [
+  { id: 'entry', label: 'Entry' },
+  { id: 'review.section1', label: 'Review: Section 1' },
+  { id: 'review.section2', label: 'Review: Section 2' },
+  { id: 'approve', label: 'Approve' }
+];
+
+/**
+ * The state new entries are captured in: the first one of the workflow. Expects `states` in
+ * workflow order (workflowOrder) — a list sorted by name starts wherever the alphabet says.
+ */
+export const captureState = (states: StateOption[]): string | undefined => states[0]?.id;
+
+type TransitionLike = { from_state_id: string; to_state_id: string };
+
+/**
+ * `states` in the order the workflow walks them: initial states first (those no transition
+ * leads into), then breadth-first along the transitions; states the transitions never reach
+ * keep their place at the end. Without transitions, or when every state has a way in (a loop
+ * back to the start), the list order decides — so load it in creation order, not by name.
+ */
+export function workflowOrder(states: StateOption[], transitions: TransitionLike[] | null | undefined): StateOption[] {
+  const edges = (transitions || []).filter(t => t && t.from_state_id !== t.to_state_id);
+  if (!edges.length) return states;
+  const keyOf = (s: StateOption) => s.rowId ?? s.id;
+  const byKey = new Map(states.map(s => [keyOf(s), s] as const));
+  const incoming = new Set(edges.map(t => t.to_state_id));
+  const outgoing = new Set(edges.map(t => t.from_state_id));
+
+  const out: StateOption[] = [];
+  const seen = new Set<string>();
+  const queue = states.filter(s => outgoing.has(keyOf(s)) && !incoming.has(keyOf(s))).map(keyOf);
+  while (queue.length) {
+    const key = queue.shift()!;
+    if (seen.has(key) || !byKey.has(key)) continue;
+    seen.add(key);
+    out.push(byKey.get(key)!);
+    for (const t of edges) if (t.from_state_id === key && !seen.has(t.to_state_id)) queue.push(t.to_state_id);
+  }
+  for (const s of states) if (!seen.has(keyOf(s))) out.push(s);
+  return out;
+}
+
+/** 'review.section1' -> 'Review: Section 1' */
+export function labelForState(name: string): string {
+  return name
+    .split('.')
+    .map(part => part
+      .replace(/[_-]+/g, ' ')
+      .replace(/([a-zA-Z])(\d)/g, '$1 $2')
+      .replace(/^\w/, c => c.toUpperCase()))
+    .join(': ');
+}
+
+type StateRowLike = string | { id?: string; name?: string; label?: string; [k: string]: any };
+
+/**
+ * Normalize whatever a backend returns (plain names or workflow_state rows)
+ * into StateOption[]. Rows without a usable name are skipped; duplicates keep the first.
+ */
+export function toStateOptions(rows: StateRowLike[] | null | undefined): StateOption[] {
+  const out: StateOption[] = [];
+  const seen = new Set<string>();
+  for (const r of rows || []) {
+    let opt: StateOption | null = null;
+    if (typeof r === 'string') {
+      if (r.trim()) opt = { id: r, label: labelForState(r) };
+    } else if (r && typeof r === 'object') {
+      const name = (typeof r.name === 'string' && r.name.trim()) || undefined;
+      if (name) opt = { id: name, label: r.label || labelForState(name), rowId: r.id };
+      else if (typeof r.id === 'string' && r.id) opt = { id: r.id, label: r.label || labelForState(r.id) };
+    }
+    if (opt && !seen.has(opt.id)) {
+      seen.add(opt.id);
+      out.push(opt);
+    }
+  }
+  return out;
+}
+
+/** Map a state name or a workflow_state.id (e.g. process_instance.current_state_id) to the matrix key. */
+export function resolveStateKey(states: StateOption[], idOrName: string | null | undefined): string | undefined {
+  if (!idOrName) return undefined;
+  const hit = states.find(s => s.id === idOrName || (s.rowId && s.rowId === idOrName));
+  return hit?.id;
+}
+
+/**
+ * Carry the matrix over from one state list to the next:
+ * - a state whose rowId survives under a new name is a rename → its column moves;
+ * - a state that disappeared is a removal → its column is dropped;
+ * - new states need nothing here (BehaviorMatrix fills default cells).
+ * Returns the same object when nothing changed.
+ */
+export function reconcileMatrixStates(
+  matrix: BehaviorMatrixValue,
+  prev: StateOption[],
+  next: StateOption[]
+): BehaviorMatrixValue {
+  const nextIds = new Set(next.map(s => s.id));
+  const renames = new Map<string, string>();
+  const removed = new Set<string>();
+
+  for (const p of prev) {
+    if (nextIds.has(p.id)) continue;
+    const moved = p.rowId ? next.find(n => n.rowId === p.rowId) : undefined;
+    if (moved) renames.set(p.id, moved.id);
+    else removed.add(p.id);
+  }
+  if (!renames.size && !removed.size) return matrix;
+
+  const out: BehaviorMatrixValue = {};
+  for (const [fieldKey, byState] of Object.entries(matrix || {})) {
+    const row: Record<string, any> = {};
+    for (const [state, cell] of Object.entries(byState || {})) {
+      if (removed.has(state)) continue;
+      const target = renames.get(state) ?? state;
+      // an explicit cell already stored under the new name wins over the moved one
+      if (target !== state && byState[target]) continue;
+      row[target] = cell;
+    }
+    out[fieldKey] = row;
+  }
+  return out;
+}
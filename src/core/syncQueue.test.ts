@@ -0,0 +1,142 @@
+import type { DataSource, FormEntryDTO } from './datasource';
+import { ApiError } from './http';
+import { publishVersion } from './versions';
+import { SyncQueue, describeOp, isTransientError } from './syncQueue';
+
+// http.ts pulls in env.ts (import.meta, not parseable here); the queue only needs ApiError from it
+jest.mock('./http', () => {
+  class ApiError extends Error {
+    status: number;
+    kind: string;
+    constructor(message: string, status: number, _details?: unknown, info: { kind?: string } = {}) {
+      super(message);
+      this.status = status;
+      this.kind = info.kind ?? 'http';
+    }
+  }
+  return { ApiError };
+});
+jest.mock('./versions', () => ({ publishVersion: jest.fn() }));
+
+// jsdom has no IndexedDB: the queue lives in memory, which is all these tests need
+
+const entry = (id: string | undefined, data: Record<string, any>): FormEntryDTO => ({ id, formId: 'intake', state: 'entry', data });
+const httpError = (status: number) => new ApiError(`HTTP ${status}`, status);
+const offline = () => new ApiError('failed: network error', 0, undefined, { kind: 'network' });
+
+/** Remote whose saveEntry answers with a server id for creates, unless `fail` says otherwise. */
+function remote(fail: (e: FormEntryDTO) => unknown = () => undefined) {
+  let next = 0;
+  const saveEntry = jest.fn(async (e: FormEntryDTO) => {
+    const error = fail(e);
+    if (error) throw error;
+    return { ...e, id: e.id ?? `srv-${++next}` };
+  });
+  return { saveEntry, saveFormDefinition: jest.fn(), saveBehaviors: jest.fn() } as unknown as DataSource & { saveEntry: typeof saveEntry };
+}
+
+describe('SyncQueue.replay', () => {
+  test('sends items oldest first and swaps an offline-created id for the server one', async () => {
+    const q = new SyncQueue();
+    await q.enqueue({ kind: 'saveEntry', entry: entry('local:1', { a: 1 }) });
+    await q.enqueue({ kind: 'saveEntry', entry: entry('local:1', { a: 2 }) });
+    await q.enqueue({ kind: 'saveBehaviors', formId: 'intake', bundles: [] });
+    const r = remote();
+    const synced: string[] = [];
+
+    await q.replay(r, async (op, result) => { synced.push(`${op.kind}:${result?.id ?? ''}`); });
+
+    // the create goes out without the local id; the update after it targets the new row
+    expect(r.saveEntry.mock.calls.map(([e]) => [e.id, e.data])).toEqual([[undefined, { a: 1 }], ['srv-1', { a: 2 }]]);
+    expect(r.saveBehaviors).toHaveBeenCalledWith('intake', []);
+    expect(synced).toEqual(['saveEntry:srv-1', 'saveEntry:srv-1', 'saveBehaviors:']);
+    expect(q.resolveId('local:1')).toBe('srv-1');
+    expect(q.snapshot.items).toEqual([]);
+    expect(q.snapshot.syncing).toBe(false);
+  });
+
+  test('stops at a transient failure and keeps it and everything after it pending', async () => {
+    const q = new SyncQueue();
+    await q.enqueue({ kind: 'saveEntry', entry: entry('e1', { a: 1 }) });
+    await q.enqueue({ kind: 'saveEntry', entry: entry('e2', { a: 2 }) });
+    const r = remote(() => offline());
+
+    await q.replay(r);
+
+    expect(r.saveEntry).toHaveBeenCalledTimes(1);
+    expect(q.snapshot.items.map(i => i.status)).toEqual(['pending', 'pending']);
+    expect(q.snapshot.lastError).toMatch('network error');
+    expect(await q.hasPending()).toBe(true);
+  });
+
+  test('marks a refused item failed and moves on, holding back later changes of the same new entry', async () => {
+    const q = new SyncQueue();
+    const create = await q.enqueue({ kind: 'saveEntry', entry: entry('local:1', { a: 1 }) });
+    await q.enqueue({ kind: 'saveEntry', entry: entry('local:1', { a: 2 }) });
+    await q.enqueue({ kind: 'saveEntry', entry: entry('e9', { b: 1 }) });
+    let refuse = true;
+    const r = remote(e => (refuse && !e.id ? httpError(422) : undefined));
+
+    await q.replay(r);
+
+    // the update is not sent as a second create
+    expect(r.saveEntry.mock.calls.map(([e]) => e.id)).toEqual([undefined, 'e9']);
+    expect(q.snapshot.items.map(i => [i.status, i.errorStatus])).toEqual([['failed', 422], ['pending', undefined]]);
+    expect(await q.hasPending()).toBe(false);
+
+    refuse = false;
+    await q.retry(create.seq);
+    await q.replay(r);
+    expect(r.saveEntry.mock.calls.slice(2).map(([e]) => [e.id, e.data])).toEqual([[undefined, { a: 1 }], ['srv-1', { a: 2 }]]);
+    expect(q.snapshot.items).toEqual([]);
+  });
+
+  test('discarding the failed create releases the held items', async () => {
+    const q = new SyncQueue();
+    const create = await q.enqueue({ kind: 'saveEntry', entry: entry('local:1', { a: 1 }) });
+    await q.enqueue({ kind: 'saveEntry', entry: entry('local:1', { a: 2 }) });
+    await q.replay(remote(() => httpError(400)));
+
+    await q.discard(create.seq);
+    expect(await q.hasPending()).toBe(true);
+  });
+
+  test('items refused while signed out go back to pending after signing in', async () => {
+    const q = new SyncQueue();
+    await q.enqueue({ kind: 'saveEntry', entry: entry('e1', { a: 1 }) });
+    await q.enqueue({ kind: 'saveEntry', entry: entry('e2', { a: 2 }) });
+    await q.replay(remote(e => (e.id === 'e1' ? httpError(401) : httpError(400))));
+    expect(q.snapshot.items.map(i => i.status)).toEqual(['failed', 'failed']);
+
+    await q.retryUnauthorized();
+    expect(q.snapshot.items.map(i => i.status)).toEqual(['pending', 'failed']);
+  });
+
+  test('publishes queued versions through publishVersion', async () => {
+    const publish = jest.mocked(publishVersion);
+    publish.mockResolvedValue({ id: 'v3' } as any);
+    const q = new SyncQueue();
+    const input = { name: 'intake', schema: { components: [] }, matrix: {} };
+    await q.enqueue({ kind: 'publishVersion', input });
+
+    await q.replay(remote());
+    expect(publish).toHaveBeenCalledWith(input);
+    expect(q.snapshot.items).toEqual([]);
+  });
+});
+
+describe('describeOp / isTransientError', () => {
+  test('names the change for the sync panel', () => {
+    expect(describeOp({ kind: 'saveEntry', entry: entry('local:1', {}) })).toBe('Entry (new) of intake');
+    expect(describeOp({ kind: 'saveEntry', entry: entry('e1', {}) })).toBe('Entry e1 of intake');
+    expect(describeOp({ kind: 'publishVersion', input: { name: 'intake', schema: {}, matrix: {} } })).toBe('New version of intake');
+  });
+
+  test('retries later only what could succeed later', () => {
+    expect(isTransientError(offline())).toBe(true);
+    expect(isTransientError(httpError(503))).toBe(true);
+    expect(isTransientError(httpError(429))).toBe(true);
+    expect(isTransientError(httpError(409))).toBe(false);
+    expect(isTransientError(new Error('bug'))).toBe(false);
+  });
+});
@@ -0,0 +1,239 @@
+// src/core/syncQueue.ts
+// Ordered queue of DataSource writes (entries, schemas, behaviors, version publishes) made
+// while the server was unreachable. Items live in the offline IndexedDB database and are
+// replayed oldest first once the connection is back. A transient failure (network, timeout, 5xx / 408 / 429) stops the
+// replay and keeps the rest pending; anything else (4xx, a bug) marks that item failed and the
+// replay moves on, holding back later changes of the same offline-created entry until the
+// failed item is retried or discarded. Items refused with 401 go back to pending after the
+// next sign-in.
+
+import type { DataSource, FormEntryDTO } from './datasource';
+import type { BehaviorBundle } from './types';
+import { idbRun } from './idb';
+import { ApiError } from './http';
+import { PublishVersionInput, publishVersion } from './versions';
+import { OFFLINE_DB, isLocalId } from './sources/localDataSource';
+
+export type QueuedOp =
+  | { kind: 'saveEntry'; entry: FormEntryDTO }
+  | { kind: 'saveFormDefinition'; formId: string; schema: any; version?: number }
+  | { kind: 'saveBehaviors'; formId: string; bundles: BehaviorBundle[] }
+  | { kind: 'publishVersion'; input: PublishVersionInput };
+
+export interface QueueItem {
+  seq: number;
+  op: QueuedOp;
+  status: 'pending' | 'failed';
+  attempts: number;
+  queuedAt: string;
+  error?: string;
+  errorStatus?: number;         // HTTP status of the failure, when there was one
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  items: QueueItem[];           // oldest first
+  lastSyncAt?: string;
+  lastError?: string | null;    // why the last replay stopped early
+}
+
+export const pendingCount = (s: SyncState) => s.items.filter(i => i.status === 'pending').length;
+export const failedCount = (s: SyncState) => s.items.filter(i => i.status === 'failed').length;
+
+export function describeOp(op: QueuedOp): string {
+  switch (op.kind) {
+    case 'saveEntry': return `Entry${op.entry.id && !isLocalId(op.entry.id) ? ` ${op.entry.id}` : ' (new)'} of ${op.entry.formId}`;
+    case 'saveFormDefinition': return `Schema of ${op.formId}`;
+    case 'saveBehaviors': return `Behaviors of ${op.formId}`;
+    case 'publishVersion': return `New version of ${op.input.name}`;
+  }
+}
+
+/**
+ * Worth retrying later: no connection, a request that never got an answer, or a server-side /
+ * rate-limit error. Everything else would fail the same way again.
+ */
+export function isTransientError(e: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (!(e instanceof ApiError)) return false;
+  if (e.kind !== 'http') return e.kind === 'network' || e.kind === 'timeout';
+  return e.status >= 500 || e.status === 408 || e.status === 429;
+}
+
+const message = (e: any) => e?.message || String(e);
+
+function run(remote: DataSource, op: QueuedOp): Promise<any> {
+  switch (op.kind) {
+    case 'saveEntry': return remote.saveEntry(op.entry);
+    case 'saveFormDefinition': return remote.saveFormDefinition(op.formId, op.schema, op.version);
+    case 'saveBehaviors': return remote.saveBehaviors(op.formId, op.bundles);
+    // versions are rows of the CRUD backend, not a DataSource concept
+    case 'publishVersion': return publishVersion(op.input);
+  }
+}
+
+export class SyncQueue {
+  private items: QueueItem[] = [];
+  private idMap = new Map<string, string>();   // local entry id → server id
+  private state: SyncState;
+  private listeners = new Set<(s: SyncState) => void>();
+  private ready: Promise<void>;
+  private memSeq = 0;
+
+  constructor() {
+    this.state = { online: typeof navigator === 'undefined' ? true : navigator.onLine !== false, syncing: false, items: [] };
+    this.ready = this.load().catch(e => console.warn('Loading the sync queue failed:', e));
+  }
+
+  private async load() {
+    const rows = (await idbRun<QueueItem[]>(OFFLINE_DB, 'queue', 'readonly', s => s.getAll())) || [];
+    const ids = (await idbRun<Record<string, string>>(OFFLINE_DB, 'lists', 'readonly', s => s.get('idmap'))) || {};
+    this.items = rows.sort((a, b) => a.seq - b.seq);
+    this.idMap = new Map(Object.entries(ids));
+    this.emit({});
+  }
+
+  private emit(patch: Partial<SyncState>) {
+    this.state = { ...this.state, ...patch, items: [...this.items] };
+    this.listeners.forEach(fn => fn(this.state));
+  }
+
+  get snapshot(): SyncState { return this.state; }
+
+  subscribe(fn: (s: SyncState) => void): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  setOnline(online: boolean) { this.emit({ online }); }
+
+  /** Server id for an entry created offline, once it has synced. */
+  resolveId(id: string): string { return this.idMap.get(id) ?? id; }
+
+  /** Whether anything would be sent by the next replay (held-back items don't count). */
+  async hasPending(): Promise<boolean> {
+    await this.ready;
+    const held = this.heldEntries();
+    return this.items.some(i => i.status === 'pending' && !held.has(this.localEntryOf(i.op) ?? ''));
+  }
+
+  async enqueue(op: QueuedOp): Promise<QueueItem> {
+    await this.ready;
+    const item: Omit<QueueItem, 'seq'> = { op, status: 'pending', attempts: 0, queuedAt: new Date().toISOString() };
+    const seq = await idbRun<IDBValidKey>(OFFLINE_DB, 'queue', 'readwrite', s => s.add(item));
+    // without IndexedDB the queue only lives as long as the page
+    const saved = { ...item, seq: typeof seq === 'number' ? seq : ++this.memSeq };
+    this.items.push(saved);
+    this.emit({});
+    return saved;
+  }
+
+  private async put(item: QueueItem) {
+    await idbRun(OFFLINE_DB, 'queue', 'readwrite', s => s.put(item));
+  }
+
+  private async remove(seq: number) {
+    this.items = this.items.filter(i => i.seq !== seq);
+    await idbRun(OFFLINE_DB, 'queue', 'readwrite', s => s.delete(seq));
+  }
+
+  private async mapId(localId: string, serverId: string) {
+    this.idMap.set(localId, serverId);
+    await idbRun(OFFLINE_DB, 'lists', 'readwrite', s => s.put(Object.fromEntries(this.idMap), 'idmap'));
+  }
+
+  /** Items refused while signed out back to pending, for the sync after signing in. */
+  async retryUnauthorized() {
+    await this.ready;
+    for (const item of this.items) {
+      if (item.status !== 'failed' || item.errorStatus !== 401) continue;
+      item.status = 'pending';
+      item.error = item.errorStatus = undefined;
+      await this.put(item);
+    }
+    this.emit({});
+  }
+
+  /** Failed item back to pending (replayed with the next sync). */
+  async retry(seq: number) {
+    await this.ready;
+    const item = this.items.find(i => i.seq === seq);
+    if (!item) return;
+    item.status = 'pending';
+    item.error = item.errorStatus = undefined;
+    await this.put(item);
+    this.emit({});
+  }
+
+  async discard(seq: number) {
+    await this.ready;
+    await this.remove(seq);
+    this.emit({});
+  }
+
+  /** An entry op with its local id swapped for the server id, or no id (= create) if not synced yet. */
+  private withServerIds(op: QueuedOp): QueuedOp {
+    if (op.kind !== 'saveEntry' || !isLocalId(op.entry.id)) return op;
+    const id = this.idMap.get(op.entry.id!);
+    return { ...op, entry: { ...op.entry, id } };
+  }
+
+  /** Local id of the offline-created entry `op` writes, if any: its ops must replay in order. */
+  private localEntryOf(op: QueuedOp): string | undefined {
+    return op.kind === 'saveEntry' && isLocalId(op.entry.id) ? op.entry.id : undefined;
+  }
+
+  /**
+   * Offline-created entries with a failed item: their later items wait until it is retried or
+   * discarded, since without its server id an update would replay as a second create.
+   */
+  private heldEntries(): Set<string> {
+    const held = new Set<string>();
+    for (const i of this.items) {
+      const local = this.localEntryOf(i.op);
+      if (local && i.status === 'failed') held.add(local);
+    }
+    return held;
+  }
+
+  /**
+   * Send pending items to `remote`, oldest first. `onSynced` runs after each one succeeded
+   * (e.g. to refresh the local copy with the server's answer).
+   */
+  async replay(remote: DataSource, onSynced?: (op: QueuedOp, result: any, original: QueuedOp) => Promise<void>) {
+    await this.ready;
+    if (this.state.syncing) return;
+    this.emit({ syncing: true });
+    let lastError: string | null = null;
+    try {
+      const held = this.heldEntries();
+      for (const item of this.items.filter(i => i.status === 'pending')) {
+        const local = this.localEntryOf(item.op);
+        if (local && held.has(local)) continue;
+        const op = this.withServerIds(item.op);
+        try {
+          const result = await run(remote, op);
+          if (item.op.kind === 'saveEntry' && isLocalId(item.op.entry.id) && result?.id) {
+            await this.mapId(item.op.entry.id!, result.id);
+          }
+          await onSynced?.(op, result, item.op).catch(e => console.warn('Updating the local copy after sync failed:', e));
+          await this.remove(item.seq);
+          this.emit({});
+        } catch (e) {
+          if (isTransientError(e)) { lastError = message(e); break; }
+          item.status = 'failed';
+          item.attempts += 1;
+          item.error = message(e);
+          item.errorStatus = e instanceof ApiError && e.kind === 'http' ? e.status : undefined;
+          if (local) held.add(local);
+          await this.put(item);
+          this.emit({});
+        }
+      }
+    } finally {
+      this.emit({ syncing: false, lastSyncAt: new Date().toISOString(), lastError });
+    }
+  }
+}
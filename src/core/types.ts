@@ -7,6 +7,13 @@ export interface TaskFieldBehavior {
   action_context: ActionContext; // view/create/update
   visible?: boolean;             // default true
   required?: boolean;            // default false
+  condition?: string;            // optional expression over form data (core/expression.ts)
+  fallback_mode?: CellMode;      // mode when condition is false (default 'readonly')
+  role?: string;                 // set on rows that override the default for one role
+  inherit?: boolean;             // take the mode from the enclosing container's rule
+  validate?: ValidationOverrides; // extra checks while the field is editable in this state
+  default_value?: string;        // filled into empty data on entering the state; '=expr' is evaluated
+  lock_value?: boolean;          // captured value is frozen in this state (core/values.ts)
 }
 
 export interface BehaviorBundle {
@@ -15,16 +22,55 @@ export interface BehaviorBundle {
   rows: TaskFieldBehavior[];
 }
 
+// Workflow state as shown in selectors and matrix columns.
+// `id` is the key used in the matrix and bundles (workflow_state.name);
+// `rowId` is the backend primary key (workflow_state.id) when known.
+export interface StateOption {
+  id: string;
+  label: string;
+  rowId?: string;
+}
+
 // Behavior Matrix (UI) model
 export type CellMode = 'hidden' | 'readonly' | 'editable';
 
+// form-js validation rules a state can tighten (see core/validation.ts)
+export type ValidationRule = 'required' | 'min' | 'max' | 'minLength' | 'maxLength' | 'pattern';
+
+export interface ValidationOverrides {
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // replaces form-js' built-in error text for the rule
+  messages?: Partial<Record<ValidationRule, string>>;
+}
+
 export interface FieldCell {
   mode: CellMode;
   required: boolean;
+  // Optional data condition: mode/required apply only while it holds,
+  // otherwise the field falls back to `fallback` (default 'readonly', never required).
+  condition?: string;
+  fallback?: CellMode;
+  // Follow the enclosing group/dynamic list/table: `mode` is ignored, the container's
+  // effective mode is used instead (`required` still applies when that mode is editable).
+  inherit?: boolean;
+  // Per-state validation on top of the schema's own `validate` (only while editable).
+  validate?: ValidationOverrides;
+  // Value to pre-fill when the field is empty in this state: a literal or `=expression`
+  // over the form data (e.g. `=today()`); `lock` freezes an already captured value.
+  defaultValue?: string;
+  lock?: boolean;
+  // Per-role overrides (roles.name); roles without an entry use the cell itself.
+  roles?: Record<string, RoleCell>;
 }
 
+export type RoleCell = Omit<FieldCell, 'roles'>;
+
 export type BehaviorMatrixValue = Record<string, Record<string, FieldCell>>;
-// shape: matrix[fieldKey][state] = { mode, required }
+// shape: matrix[fieldKey][state] = { mode, required, roles?: { [role]: { mode, required } } }
 
 // API DTO for form_definition (matches your contract)
 export interface FormDefinitionDTO {
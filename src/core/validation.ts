@@ -0,0 +1,96 @@
+// src/core/validation.ts
+// Per-state validation overrides: clean-up for the matrix editor, merging into a
+// component's form-js `validate`, and a viewer module that swaps in custom error texts.
+
+import type { ValidationOverrides, ValidationRule } from './types';
+
+export const VALIDATION_RULES: ValidationRule[] = ['required', 'min', 'max', 'minLength', 'maxLength', 'pattern'];
+
+const NUMERIC: Array<'min' | 'max' | 'minLength' | 'maxLength'> = ['min', 'max', 'minLength', 'maxLength'];
+
+// form-js has no message property except patternErrorMessage, so the others ride along
+// under this (ignored by form-js) key and are applied by ValidationMessagesModule.
+const MESSAGES_KEY = 'errorMessages';
+
+/** Drop empty values; returns undefined when nothing is left. */
+export function normalizeValidation(v: ValidationOverrides | null | undefined): ValidationOverrides | undefined {
+  if (!v) return undefined;
+  const out: ValidationOverrides = {};
+  for (const k of NUMERIC) {
+    const n = v[k];
+    if (typeof n === 'number' && Number.isFinite(n)) out[k] = n;
+  }
+  if (typeof v.pattern === 'string' && v.pattern.trim()) out.pattern = v.pattern.trim();
+
+  const messages: ValidationOverrides['messages'] = {};
+  for (const rule of VALIDATION_RULES) {
+    const text = v.messages?.[rule]?.trim();
+    if (text) messages[rule] = text;
+  }
+  if (Object.keys(messages).length) out.messages = messages;
+
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** First problem with the overrides (bad regex, min above max, ...), or null. */
+export function validationProblem(v: ValidationOverrides | null | undefined): string | null {
+  if (!v) return null;
+  if (v.minLength !== undefined && v.minLength < 0) return 'Minimum length cannot be negative.';
+  if (v.maxLength !== undefined && v.maxLength < 0) return 'Maximum length cannot be negative.';
+  if (v.min !== undefined && v.max !== undefined && v.min > v.max) return 'Minimum is greater than maximum.';
+  if (v.minLength !== undefined && v.maxLength !== undefined && v.minLength > v.maxLength) {
+    return 'Minimum length is greater than maximum length.';
+  }
+  if (v.pattern) {
+    try { new RegExp(v.pattern); } catch (e: any) { return `Invalid pattern: ${e?.message || e}`; }
+  }
+  return null;
+}
+
+/**
+ * Merge overrides into a component's `validate` (returns a new object).
+ * Overrides win over the schema's own values for the same rule.
+ */
+export function applyValidation(validate: Record<string, any> | undefined, v: ValidationOverrides): Record<string, any> {
+  const out: Record<string, any> = { ...(validate || {}) };
+  for (const k of NUMERIC) {
+    if (v[k] !== undefined) out[k] = v[k];
+  }
+  if (v.pattern) out.pattern = v.pattern;
+  if (v.messages?.pattern) out.patternErrorMessage = v.messages.pattern;
+  if (v.messages) out[MESSAGES_KEY] = { ...(out[MESSAGES_KEY] || {}), ...v.messages };
+  return out;
+}
+
+// Leading text of form-js' built-in messages (form-js-viewer Validator) per rule
+const BUILT_IN: Array<[ValidationRule, string]> = [
+  ['required', 'Field is required.'],
+  ['min', 'Field must have minimum value'],
+  ['max', 'Field must have maximum value'],
+  ['minLength', 'Field must have minimum length'],
+  ['maxLength', 'Field must have maximum length'],
+  ['pattern', 'Field must match pattern']
+];
+
+/** Replace built-in error texts with the custom ones stored on `validate`. */
+export function relabelErrors(validate: Record<string, any> | undefined, errors: string[]): string[] {
+  const messages = validate?.[MESSAGES_KEY];
+  if (!messages || !Array.isArray(errors)) return errors;
+  return errors.map(err => {
+    const hit = BUILT_IN.find(([, prefix]) => typeof err === 'string' && err.startsWith(prefix));
+    return (hit && messages[hit[0]]) || err;
+  });
+}
+
+/** form-js viewer module: pass to `new Form({ additionalModules: [ValidationMessagesModule] })`. */
+function ValidationMessages(validator: any, formFieldRegistry: any) {
+  const base = validator.validateFieldInstance.bind(validator);
+  validator.validateFieldInstance = (fieldInstance: any, value: any) =>
+    relabelErrors(formFieldRegistry.get(fieldInstance?.id)?.validate, base(fieldInstance, value));
+}
+ValidationMessages.$inject = ['validator', 'formFieldRegistry'];
+
+export const ValidationMessagesModule: any = {
+  __init__: ['validationMessages'],
+  validationMessages: ['type', ValidationMessages]
+};
@@ -0,0 +1,76 @@
+// src/core/values.ts
+// Companion to enrich.ts for field *values*: per-state defaults (a literal, or an
+// `=expression` over the form data) and locked fields whose captured value must not change.
+
+import type { BehaviorBundle } from './types';
+import { rowsForRole } from './enrich';
+import { evaluateExpression } from './expression';
+
+export function isEmptyValue(v: any): boolean {
+  return v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+}
+
+/**
+ * Value of a cell's default: `=today()` is evaluated against `scope`,
+ * anything else is a literal (JSON when it parses, e.g. `42`, `true`; a plain string otherwise).
+ */
+export function resolveDefault(src: string, scope: Record<string, any>): any {
+  const text = src.trim();
+  if (text.startsWith('=')) return evaluateExpression(text, scope);
+  try { return JSON.parse(text); } catch { return src; }
+}
+
+/** Latest default/lock per field for the state (role overrides win, like in enrichment). */
+function valueRules(bundle: BehaviorBundle | undefined, role?: string | null) {
+  const rules = new Map<string, { defaultValue?: string; lock?: boolean }>();
+  for (const r of rowsForRole(bundle, role)) {
+    if (r.visible === false) { rules.delete(r.field_name); continue; }
+    rules.set(r.field_name, { defaultValue: r.default_value, lock: r.lock_value });
+  }
+  return rules;
+}
+
+/**
+ * Fill empty fields with the state's defaults. Existing values are never overwritten.
+ * `context` adds variables for expressions (e.g. `role`); form data wins on name clashes.
+ * Returns `data` itself when nothing changed, so it is safe to use in a state updater.
+ */
+export function applyStateDefaults(
+  data: Record<string, any>,
+  bundle: BehaviorBundle | undefined,
+  role?: string | null,
+  context: Record<string, any> = {}
+): Record<string, any> {
+  let out = data || {};
+  for (const [key, rule] of Array.from(valueRules(bundle, role))) {
+    if (!rule.defaultValue?.trim() || !isEmptyValue(out[key])) continue;
+    try {
+      const value = resolveDefault(rule.defaultValue, { ...context, ...out });
+      if (isEmptyValue(value)) continue;
+      if (out === data) out = { ...data };
+      out[key] = value;
+    } catch (e: any) {
+      console.warn(`[values] default for "${key}" failed:`, e?.message || e);
+    }
+  }
+  return out;
+}
+
+/** Fields whose value is locked in this state. */
+export function lockedKeys(bundle: BehaviorBundle | undefined, role?: string | null): string[] {
+  return Array.from(valueRules(bundle, role)).filter(([, r]) => r.lock).map(([k]) => k);
+}
+
+/**
+ * Locked fields that had a captured value in `saved` and differ in `next`.
+ * Empty saved values may still be filled (e.g. by a default).
+ */
+export function lockedChanges(
+  saved: Record<string, any> | null | undefined,
+  next: Record<string, any>,
+  keys: string[]
+): string[] {
+  return keys.filter(k =>
+    !isEmptyValue(saved?.[k]) && JSON.stringify(saved?.[k]) !== JSON.stringify(next?.[k])
+  );
+}
@@ -0,0 +1,122 @@
+import type { FormDefinition } from './api';
+import * as api from './api';
+import { VersionConflictError, conflictingVersion, publishVersion, toFormVersion, versionBase } from './versions';
+
+// the real api module pulls in env.ts (import.meta); publishing only needs these calls
+jest.mock('./api', () => ({
+  createFormDefinition: jest.fn(),
+  listFormDefinitions: jest.fn(),
+  isConflictError: (e: any) => e?.status === 409 || e?.status === 412
+}));
+
+const list = jest.mocked(api.listFormDefinitions);
+const create = jest.mocked(api.createFormDefinition);
+
+const schemaWith = (...keys: string[]) => ({ type: 'default', components: keys.map(key => ({ type: 'textfield', key })) });
+const matrix = { a: { entry: { mode: 'editable' as const, required: false } } };
+
+const row = (version: number, schema: any, extra: Partial<FormDefinition> = {}): FormDefinition => ({
+  id: `v${version}`,
+  name: 'intake',
+  version,
+  form_schema: JSON.stringify(schema),
+  field_state_setting: JSON.stringify(matrix),
+  is_active: false,
+  status: 'draft',
+  ...extra
+});
+
+/** The server's form_definition rows; a POST adds one unless `race` slips a row in first. */
+function backend(rows: FormDefinition[], race: FormDefinition[] = []) {
+  list.mockImplementation(async () => ({ total: rows.length, limit: 100, offset: 0, items: rows.slice() }));
+  create.mockImplementation(async body => {
+    const raced = race.shift();
+    if (raced) {
+      rows.push(raced);
+      if (raced.version === body.version) throw Object.assign(new Error('duplicate (name, version)'), { status: 409 });
+    }
+    const created = { ...body, id: `v${body.version}` } as FormDefinition;
+    rows.push(created);
+    return created;
+  });
+  return rows;
+}
+
+describe('publishVersion', () => {
+  test('creates the next version as a draft', async () => {
+    backend([row(1, schemaWith('a')), row(2, schemaWith('a', 'b'))]);
+    const created = await publishVersion({ name: 'intake', schema: schemaWith('c'), matrix, by: 'ann' });
+
+    expect(created).toEqual(expect.objectContaining({ version: 3, status: 'draft', is_active: false, created_by: 'ann' }));
+    expect(JSON.parse(created.form_schema)).toEqual(schemaWith('c'));
+  });
+
+  test('throws VersionConflictError when a version was published over the base', async () => {
+    const v1 = row(1, schemaWith('a'));
+    backend([v1, row(2, schemaWith('a', 'theirs'))]);
+    const base = versionBase(toFormVersion(v1));
+
+    const attempt = publishVersion({ name: 'intake', schema: schemaWith('a', 'mine'), matrix, base });
+    await expect(attempt).rejects.toBeInstanceOf(VersionConflictError);
+    await expect(attempt).rejects.toEqual(expect.objectContaining({ theirs: expect.objectContaining({ version: 2 }) }));
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  test('publishing again with the conflicting version as base goes ahead', async () => {
+    const v2 = row(2, schemaWith('a', 'theirs'));
+    backend([row(1, schemaWith('a')), v2]);
+    const created = await publishVersion({ name: 'intake', schema: schemaWith('merged'), matrix, base: versionBase(toFormVersion(v2)) });
+    expect(created.version).toBe(3);
+  });
+
+  test('ignores a base of another form (a copy published under a new name)', async () => {
+    backend([row(1, schemaWith('a'))]);
+    const base = { ...versionBase(toFormVersion(row(5, schemaWith('x')))), name: 'other' };
+    expect((await publishVersion({ name: 'intake', schema: schemaWith('b'), matrix, base })).version).toBe(2);
+  });
+
+  test('without a base, a lost race for the number (409) is retried with the next one', async () => {
+    const rows = backend([row(1, schemaWith('a'))], [row(2, schemaWith('someone else'))]);
+    const created = await publishVersion({ name: 'intake', schema: schemaWith('mine'), matrix });
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(created.version).toBe(3);
+    expect(rows.map(r => r.version)).toEqual([1, 2, 3]);
+  });
+
+  test('with a base, the row that won the race is a conflict unless it is the same content', async () => {
+    const v1 = row(1, schemaWith('a'));
+    const base = versionBase(toFormVersion(v1));
+
+    backend([v1], [row(2, schemaWith('someone else'))]);
+    await expect(publishVersion({ name: 'intake', schema: schemaWith('mine'), matrix, base }))
+      .rejects.toBeInstanceOf(VersionConflictError);
+
+    // the same publish from another tab
+    backend([v1], [row(2, schemaWith('mine'))]);
+    const same = await publishVersion({ name: 'intake', schema: schemaWith('mine'), matrix, base });
+    expect(same.version).toBe(2);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  test('gives up after three lost races', async () => {
+    backend([], [row(1, {}), row(2, {}), row(3, {})]);
+    await expect(publishVersion({ name: 'intake', schema: schemaWith('mine'), matrix })).rejects.toEqual(expect.objectContaining({ status: 409 }));
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('conflictingVersion', () => {
+  const base = versionBase(toFormVersion(row(2, schemaWith('a'))));
+
+  test('no conflict when nothing newer exists or the newest matches base or mine', () => {
+    expect(conflictingVersion(base, [], { schema: schemaWith('b'), matrix })).toBeNull();
+    expect(conflictingVersion(base, [toFormVersion(row(2, schemaWith('a')))], { schema: schemaWith('b'), matrix })).toBeNull();
+    expect(conflictingVersion(base, [toFormVersion(row(3, schemaWith('b')))], { schema: schemaWith('b'), matrix })).toBeNull();
+  });
+
+  test('the base row edited in place is a conflict too', () => {
+    const edited = toFormVersion(row(2, schemaWith('edited')));
+    expect(conflictingVersion(base, [edited], { schema: schemaWith('b'), matrix })).toBe(edited);
+  });
+});
@@ -0,0 +1,255 @@
+// src/core/versions.ts
+// Form definition history: every publish POSTs a new form_definition row with the same
+// `name` and the next `version`, so older rows (and the entries that point at them) stay intact.
+// New versions start as drafts; going live is a lifecycle step (core/lifecycle.ts).
+// Publishing checks that nobody published over the version the editor was loaded from; if they
+// did, it throws VersionConflictError and the caller merges (core/merge.ts) or picks a side.
+// Two publishes racing for the same number are caught by the server's unique (name, version),
+// whose 409 becomes the same VersionConflictError.
+
+import type { BehaviorMatrixValue, FieldCell } from './types';
+import { createFormDefinition, FormDefinition, isConflictError, listFormDefinitions } from './api';
+import { FormStatus, LifecycleEvent, historyOf, initialLifecycle, statusOf } from './lifecycle';
+
+export interface FormVersion {
+  id: string;
+  name: string;
+  version: number;
+  status: FormStatus;
+  history: LifecycleEvent[];
+  createdAt?: string;
+  createdBy?: string;
+  schema: any;
+  matrix: BehaviorMatrixValue;
+  row: FormDefinition;     // as loaded, for lifecycle transitions
+}
+
+function parseJson(raw: unknown, fallback: any) {
+  if (raw == null || raw === '') return fallback;
+  if (typeof raw !== 'string') return raw;
+  try { return JSON.parse(raw); } catch { return fallback; }
+}
+
+export function toFormVersion(def: FormDefinition): FormVersion {
+  return {
+    id: def.id,
+    name: def.name,
+    version: Number(def.version) || 0,
+    status: statusOf(def),
+    history: historyOf(def),
+    createdAt: def.created_at,
+    createdBy: def.created_by,
+    schema: parseJson(def.form_schema, { type: 'default', components: [] }),
+    matrix: parseJson(def.field_state_setting, {}) || {},
+    row: def
+  };
+}
+
+/** All versions of the form called `name`, newest first. */
+export async function listVersions(name: string): Promise<FormVersion[]> {
+  const out: FormVersion[] = [];
+  const limit = 100;
+  for (let offset = 0; ; offset += limit) {
+    const page = await listFormDefinitions({ limit, offset, name });
+    const items = page.items || [];
+    // the name filter is exact on the server, but don't rely on it
+    for (const def of items) if (def.name === name) out.push(toFormVersion(def));
+    if (!items.length || offset + items.length >= (page.total ?? 0)) break;
+  }
+  return out.sort((a, b) => b.version - a.version);
+}
+
+/** The version an editing session started from. */
+export interface VersionBase {
+  id: string;
+  name: string;
+  version: number;
+  schema: any;
+  matrix: BehaviorMatrixValue;
+}
+
+export const versionBase = (v: Pick<FormVersion, 'id' | 'name' | 'version' | 'schema' | 'matrix'>): VersionBase =>
+  ({ id: v.id, name: v.name, version: v.version, schema: v.schema, matrix: v.matrix || {} });
+
+const sameContent = (a: { schema: any; matrix: any }, b: { schema: any; matrix: any }) =>
+  stableJson(a.schema) === stableJson(b.schema) && stableJson(a.matrix || {}) === stableJson(b.matrix || {});
+
+export class VersionConflictError extends Error {
+  constructor(readonly base: VersionBase, readonly theirs: FormVersion) {
+    super(theirs.id === base.id
+      ? `Version ${base.version} of "${base.name}" was changed by someone else since it was loaded.`
+      : `Version ${theirs.version} of "${base.name}" was published after version ${base.version} was loaded.`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * The newest version when it holds changes the editor has not seen: published after `base`, or
+ * `base` itself edited in place. Null when it matches `base` or already equals `mine`.
+ */
+export function conflictingVersion(base: VersionBase, existing: FormVersion[], mine: { schema: any; matrix: any }): FormVersion | null {
+  const latest = existing[0];
+  if (!latest) return null;
+  if (latest.id !== base.id && latest.version < base.version) return null;
+  if (sameContent(latest, base) || sameContent(latest, mine)) return null;
+  return latest;
+}
+
+export interface PublishVersionInput {
+  name: string;
+  schema: any;
+  matrix: BehaviorMatrixValue;
+  by?: string;
+  base?: VersionBase | null;
+}
+
+/**
+ * Publish `schema` + `matrix` as the next version of `name`, as a draft. With `base`, throws
+ * VersionConflictError when someone published over it, before or during this call; publish
+ * again with the conflicting version as base to go ahead. Without `base` a lost race for the
+ * version number is retried with the next one.
+ */
+export async function publishVersion(p: PublishVersionInput): Promise<FormDefinition> {
+  const base = p.base && p.base.name === p.name ? p.base : null;
+  for (let attempt = 1; ; attempt++) {
+    const existing = await listVersions(p.name);
+    const theirs = base ? conflictingVersion(base, existing, p) : null;
+    if (theirs) throw new VersionConflictError(base!, theirs);
+    const version = (existing[0]?.version ?? 0) + 1;
+    try {
+      return await createFormDefinition({
+        name: p.name,
+        version,
+        form_schema: JSON.stringify(p.schema),
+        field_state_setting: JSON.stringify(p.matrix || {}),
+        ...initialLifecycle(p.by),
+        ...(p.by ? { created_by: p.by } : {})
+      });
+    } catch (e) {
+      // someone else took `version` between the list and the POST
+      if (!isConflictError(e) || attempt >= 3) throw e;
+      if (base) {
+        const winner = (await listVersions(p.name)).find(v => v.version === version);
+        // the same content published twice (e.g. a double click in two tabs) is no conflict
+        if (winner && sameContent(winner, p)) return winner.row;
+        if (winner) throw new VersionConflictError(base, winner);
+      }
+    }
+  }
+}
+
+/* ---------------- structural diff ---------------- */
+
+export interface ComponentSummary {
+  id: string;
+  key?: string;
+  type?: string;
+  label?: string;
+  parent?: string;   // id of the enclosing component
+}
+
+export interface ComponentChange extends ComponentSummary {
+  props: string[];   // changed top-level properties ('parent' when it moved)
+}
+
+export interface CellChange {
+  key: string;
+  state: string;
+  before?: FieldCell;
+  after?: FieldCell;
+}
+
+export interface VersionDiff {
+  added: ComponentSummary[];
+  removed: ComponentSummary[];
+  changed: ComponentChange[];
+  cells: CellChange[];
+}
+
+/** JSON with sorted object keys, so property order never counts as a change. */
+export function stableJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+type Flat = { summary: ComponentSummary; props: Record<string, any> };
+
+function flatten(components: any[], parent: string | undefined, path: string, out: Map<string, Flat>) {
+  (components || []).forEach((c, i) => {
+    if (!c) return;
+    // components without an id (hand-written schemas) are matched by key, then position
+    const id = (typeof c.id === 'string' && c.id) || (c.key ? `key:${c.key}` : `${path}${i}`);
+    const { components: children, id: _id, ...props } = c;
+    out.set(id, {
+      summary: {
+        id,
+        key: c.key,
+        type: c.type,
+        label: (typeof c.label === 'string' && c.label) || (typeof c.text === 'string' ? c.text.slice(0, 40) : undefined),
+        parent
+      },
+      props
+    });
+    if (Array.isArray(children)) flatten(children, id, `${path}${i}.`, out);
+  });
+}
+
+/** What changed from version `a` to version `b` (components by id, matrix cells by key × state). */
+export function diffVersions(
+  a: { schema: any; matrix: BehaviorMatrixValue },
+  b: { schema: any; matrix: BehaviorMatrixValue }
+): VersionDiff {
+  const before = new Map<string, Flat>();
+  const after = new Map<string, Flat>();
+  flatten(a.schema?.components || [], undefined, '', before);
+  flatten(b.schema?.components || [], undefined, '', after);
+
+  const added: ComponentSummary[] = [];
+  const removed: ComponentSummary[] = [];
+  const changed: ComponentChange[] = [];
+
+  after.forEach((next, id) => {
+    const prev = before.get(id);
+    if (!prev) { added.push(next.summary); return; }
+    const keys = Array.from(new Set([...Object.keys(prev.props), ...Object.keys(next.props)])).sort();
+    const props = keys.filter(k => stableJson(prev.props[k]) !== stableJson(next.props[k]));
+    if (prev.summary.parent !== next.summary.parent) props.push('parent');
+    if (props.length) changed.push({ ...next.summary, props });
+  });
+  before.forEach((prev, id) => { if (!after.has(id)) removed.push(prev.summary); });
+
+  const cells: CellChange[] = [];
+  const ma = a.matrix || {};
+  const mb = b.matrix || {};
+  const keys = Array.from(new Set([...Object.keys(ma), ...Object.keys(mb)])).sort();
+  for (const key of keys) {
+    const states = Array.from(new Set([...Object.keys(ma[key] || {}), ...Object.keys(mb[key] || {})]));
+    for (const state of states) {
+      const x = ma[key]?.[state];
+      const y = mb[key]?.[state];
+      if (stableJson(x) !== stableJson(y)) cells.push({ key, state, before: x, after: y });
+    }
+  }
+
+  return { added, removed, changed, cells };
+}
+
+export function isEmptyDiff(d: VersionDiff): boolean {
+  return !d.added.length && !d.removed.length && !d.changed.length && !d.cells.length;
+}
+
+/** Short text for a matrix cell in diff listings. */
+export function describeCell(cell?: FieldCell): string {
+  if (!cell) return '—';
+  const parts: string[] = [cell.inherit ? 'inherit' : cell.mode];
+  if (cell.required) parts.push('required');
+  if (cell.condition) parts.push(`if ${cell.condition}`);
+  if (cell.lock) parts.push('locked');
+  if (cell.defaultValue) parts.push(`default ${cell.defaultValue}`);
+  if (cell.validate && Object.keys(cell.validate).length) parts.push('validation');
+  if (cell.roles && Object.keys(cell.roles).length) parts.push(`${Object.keys(cell.roles).length} role override(s)`);
+  return parts.join(', ');
+}
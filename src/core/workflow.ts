@@ -0,0 +1,82 @@
+// src/core/workflow.ts
+// Transition engine: which workflow_transition rows are legal from a process instance's
+// current state, given the entry data, and moving the instance along one of them.
+
+import type { StateOption } from './types';
+import { evaluateCondition } from './expression';
+import {
+  getProcessInstance,
+  isConflictError,
+  listWorkflowTransitions,
+  patchProcessInstance,
+  ProcessInstance,
+  WorkflowTransition
+} from './api';
+
+export interface TransitionOption {
+  id: string;             // workflow_transition.id
+  fromStateId: string;    // workflow_state.id
+  toStateId: string;      // workflow_state.id
+  toState: string;        // matrix/state key (StateOption.id), falls back to toStateId
+  label: string;
+  condition?: string | null;
+}
+
+/** All transitions leaving `fromStateId` (filtered client-side too, in case the server ignores the filter). */
+export async function loadTransitions(fromStateId: string): Promise<WorkflowTransition[]> {
+  const list = await listWorkflowTransitions({ limit: 200, offset: 0, from_state_id: fromStateId });
+  return (list.items || []).filter(t => t.from_state_id === fromStateId);
+}
+
+/** Keep the transitions whose condition holds for `data`; an empty condition always holds. */
+export function legalTransitions(
+  rows: WorkflowTransition[],
+  data: Record<string, any>,
+  states: StateOption[]
+): TransitionOption[] {
+  const out: TransitionOption[] = [];
+  for (const t of rows || []) {
+    if (!evaluateCondition(t.condition, data || {})) continue;
+    const target = states.find(s => s.rowId === t.to_state_id || s.id === t.to_state_id);
+    out.push({
+      id: t.id,
+      fromStateId: t.from_state_id,
+      toStateId: t.to_state_id,
+      toState: target?.id ?? t.to_state_id,
+      label: target?.label ?? t.to_state_id,
+      condition: t.condition
+    });
+  }
+  return out;
+}
+
+/**
+ * Persist a transition on the process instance.
+ * Re-checks the condition and re-reads the instance, so a stale button cannot move an instance
+ * illegally or out of a state it has already left; the write itself is conditional on the row
+ * being unchanged since that read. An instance without `current_state_id` (created before it
+ * was set) counts as being in `initialStateId`, as the viewer shows it.
+ */
+export async function advanceProcessInstance(
+  instanceId: string,
+  transition: TransitionOption,
+  data: Record<string, any>,
+  initialStateId?: string
+): Promise<ProcessInstance> {
+  if (!evaluateCondition(transition.condition, data || {})) {
+    throw new Error(`Transition to "${transition.label}" is not allowed for the current data.`);
+  }
+  const current = await getProcessInstance(instanceId);
+  const moved = () => new Error('The process instance is no longer in the state this transition leaves from; reload it and try again.');
+  if ((current.current_state_id || initialStateId) !== transition.fromStateId) throw moved();
+  try {
+    return await patchProcessInstance(
+      instanceId,
+      { current_state_id: transition.toStateId },
+      { updatedAt: current.updated_at }
+    );
+  } catch (e) {
+    if (isConflictError(e)) throw moved();
+    throw e;
+  }
+}
@@ -4,8 +4,9 @@ type Maybe<T> = T | undefined | null;
 const pick = <T>(...vals: Maybe<T>[]): T | undefined =>
   vals.find((v) => v !== undefined && v !== null) as T | undefined;
 
-// Vite-style (available at build time)
-const viteEnv: any =
+// Vite-style (available at build time); the one import.meta read, so other modules (and
+// Jest, which cannot parse it) take it from here
+export const viteEnv: any =
   (typeof import.meta !== 'undefined' && (import.meta as any).env) || {};
 
 // CRA/Webpack-style (only defined in Node/build tools)
@@ -38,6 +39,15 @@ export const API_TOKEN =
     nodeEnv.API_TOKEN
   ) || '';
 
+// 'true' = sign in before anything else; otherwise only when the server answers 401
+export const AUTH_REQUIRED =
+  String(pick<string>(
+    win.__AUTH_REQUIRED__,
+    viteEnv.VITE_AUTH_REQUIRED,
+    nodeEnv.REACT_APP_AUTH_REQUIRED,
+    nodeEnv.AUTH_REQUIRED
+  ) ?? '').toLowerCase() === 'true';
+
 export const IS_RELATIVE_API_BASE = !/^https?:\/\//i.test(API_BASE);
 
 export function defaultHeaders() {
@@ -3,6 +3,11 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 //import App from './App';
 import App from './App.modular';
+import { installAuth } from './core/auth';
+
+// bearer token + 401 refresh on every request of the shared client
+installAuth();
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );